@@ -7,9 +7,24 @@ import {
   classify,
   classifySignals,
   getDefaultPsychometrics,
+  extractTraitDeltas,
+  applyTraitDeltas,
+  getImplicitPolarity,
   calculatePsychometricSimilarity,
-  calculateAllSimilarities
+  calculateAllSimilarities,
+  getSignalWeighting,
+  calculateUncertainty,
+  explainClassification,
+  toPublicExplanation,
+  evaluateScoringConfig,
+  fitScoringConfig,
+  registerScoringConfig,
+  getScoringConfig,
+  getScoringConfigArtefact,
+  loadScoringConfigArtefact,
+  DEFAULT_SCORING_CONFIG
 } from '../engine';
+import type { LabelledExample } from '../engine';
 import { PANTHEON, getAllDesignations } from '../pantheon';
 import type { Signal, Designation, ExplicitSignal } from '../types';
 
@@ -138,6 +153,70 @@ describe('Classification Engine', () => {
     });
   });
 
+  describe('Implicit Trait Deltas', () => {
+    const implicit = (
+      kind: 'save' | 'skip' | 'repeat',
+      metadata: Record<string, unknown>
+    ): Signal => ({
+      type: kind === 'skip' ? 'unintentional_implicit' : 'intentional_implicit',
+      source: 'content',
+      timestamp: new Date(),
+      data: { kind, itemId: 'track-1', metadata }
+    });
+
+    it('should move music preferences from item features', () => {
+      const deltas = extractTraitDeltas([implicit('save', { isComplex: true, isAggressive: true })]);
+      const psycho = applyTraitDeltas(getDefaultPsychometrics(), deltas);
+
+      expect(psycho.musicPreferences.sophisticated).toBeGreaterThan(0.5);
+      expect(psycho.musicPreferences.intense).toBeGreaterThan(0.5);
+      expect(psycho.intellect).toBeGreaterThan(0.5);
+      expect(psycho.musicPreferences.contemporary).toBe(0.5);
+    });
+
+    it('should move away from skipped items, more gently', () => {
+      const saved = applyTraitDeltas(getDefaultPsychometrics(), extractTraitDeltas([implicit('save', { isExperimental: true })]));
+      const skipped = applyTraitDeltas(getDefaultPsychometrics(), extractTraitDeltas([implicit('skip', { isExperimental: true })]));
+
+      expect(skipped.openness.actions).toBeLessThan(0.5);
+      expect(0.5 - skipped.openness.actions).toBeLessThan(saved.openness.actions - 0.5);
+    });
+
+    it('should step less than a quiz answer', () => {
+      const quiz: Signal = {
+        type: 'explicit',
+        source: 'quiz',
+        timestamp: new Date(),
+        data: { kind: 'choice', questionId: 'q-1', value: 0, archetypeWeights: { 'T-1': 1 } }
+      };
+
+      const [quizDelta] = extractTraitDeltas([quiz]);
+      const [implicitDelta] = extractTraitDeltas([implicit('repeat', { isComplex: true })]);
+
+      expect(Math.abs(implicitDelta.intellect!)).toBeLessThan(Math.abs(quizDelta.intellect!));
+    });
+
+    it('should ignore implicit signals without item features', () => {
+      expect(extractTraitDeltas([implicit('save', {})])).toHaveLength(0);
+      expect(extractTraitDeltas([implicit('save', { isComplex: true })], { ...DEFAULT_SCORING_CONFIG, implicitTraitWeight: 0 })[0].intellect).toBe(0);
+    });
+
+    it('should read polarity from the action', () => {
+      expect(getImplicitPolarity({ kind: 'save', itemId: 'x' })).toBe(1);
+      expect(getImplicitPolarity({ kind: 'skip', itemId: 'x' })).toBeLessThan(0);
+      expect(getImplicitPolarity({ kind: 'dwell', itemId: 'x', duration: 240_000 })).toBeGreaterThan(0);
+      expect(getImplicitPolarity({ kind: 'dwell', itemId: 'x', duration: 60_000 })).toBe(0);
+    });
+
+    it('should judge dwell on a clip by the share heard', () => {
+      const clip = { clipDurationMs: 15_000 };
+
+      expect(getImplicitPolarity({ kind: 'dwell', itemId: 'x', duration: 15_000, metadata: clip })).toBeGreaterThan(0);
+      expect(getImplicitPolarity({ kind: 'dwell', itemId: 'x', duration: 2_000, metadata: clip })).toBeLessThan(0);
+      expect(getImplicitPolarity({ kind: 'dwell', itemId: 'x', duration: 7_000, metadata: clip })).toBe(0);
+    });
+  });
+
   describe('Configuration', () => {
     it('should respect custom temperature', () => {
       const lowTemp = classify({ signals: [], config: { temperature: 1 } });
@@ -162,6 +241,279 @@ describe('Classification Engine', () => {
   });
 });
 
+describe('Signal Weighting', () => {
+  const makeSignal = (overrides: Partial<Signal> = {}): Signal => ({
+    type: 'explicit',
+    source: 'quiz',
+    timestamp: new Date(),
+    data: {
+      kind: 'choice',
+      questionId: 'weight-1',
+      value: 0,
+      archetypeWeights: { 'C-4': 1.0 }
+    } as ExplicitSignal,
+    ...overrides
+  });
+
+  it('should combine temporal, source, kind and type weights', () => {
+    const signal = Object.assign(makeSignal({ source: 'api' }), { _temporalWeight: 0.5 });
+    const weighting = getSignalWeighting(signal, DEFAULT_SCORING_CONFIG);
+
+    expect(weighting.temporal).toBe(0.5);
+    expect(weighting.sourceTrust).toBe(DEFAULT_SCORING_CONFIG.sourceTrust.api);
+    expect(weighting.kindWeight).toBe(1.0);
+    expect(weighting.weight).toBeCloseTo(0.5 * 0.7 * 1.0 * 1.0, 5);
+    expect(weighting.questionId).toBe('weight-1');
+  });
+
+  it('should default temporal weight to 1 when not stamped', () => {
+    const weighting = getSignalWeighting(makeSignal(), DEFAULT_SCORING_CONFIG);
+    expect(weighting.temporal).toBe(1);
+  });
+
+  it('should expose per-signal weights in the classification result', () => {
+    const result = classify({ signals: [makeSignal(), makeSignal()] });
+
+    expect(result.signalWeights.length).toBe(2);
+    expect(result.signalWeights[1].index).toBe(1);
+  });
+
+  it('should let decayed signals count less than fresh ones', () => {
+    const fresh = classify({ signals: [makeSignal()] });
+    const decayed = classify({
+      signals: [Object.assign(makeSignal(), { _temporalWeight: 0.01 })]
+    });
+
+    expect(decayed.rawScores['C-4']).toBeLessThan(fresh.rawScores['C-4']);
+  });
+});
+
+describe('Classification Uncertainty', () => {
+  const makeSignal = (weights: Partial<Record<Designation, number>>, id: string): Signal => ({
+    type: 'explicit',
+    source: 'quiz',
+    timestamp: new Date(),
+    data: {
+      kind: 'choice',
+      questionId: id,
+      value: 0,
+      archetypeWeights: weights
+    } as ExplicitSignal
+  });
+
+  it('should provide a credible interval for every designation', () => {
+    const result = classify({ signals: [makeSignal({ 'V-2': 1.0 }, 'u-1')] });
+    const uncertainty = result.classification.uncertainty!;
+
+    for (const d of getAllDesignations()) {
+      const interval = uncertainty.intervals[d];
+      expect(interval.lower).toBeGreaterThanOrEqual(0);
+      expect(interval.upper).toBeLessThanOrEqual(1);
+      expect(interval.lower).toBeLessThanOrEqual(interval.upper);
+    }
+    expect(uncertainty.level).toBe(DEFAULT_SCORING_CONFIG.credibleLevel);
+  });
+
+  it('should flag insufficient evidence on a handful of answers', () => {
+    const result = classify({
+      signals: [
+        makeSignal({ 'V-2': 1.0 }, 'u-1'),
+        makeSignal({ 'V-2': 0.8 }, 'u-2'),
+        makeSignal({ 'R-10': 0.6 }, 'u-3')
+      ]
+    });
+
+    expect(result.classification.uncertainty?.sufficientEvidence).toBe(false);
+    expect(result.classification.uncertainty?.evidence).toBeCloseTo(3, 5);
+  });
+
+  it('should report a tie when the distribution is flat', () => {
+    const result = classify({ signals: [] });
+    expect(result.classification.uncertainty?.tie).toBe(true);
+  });
+
+  it('should narrow intervals as evidence grows', () => {
+    const distribution = classify({ signals: [makeSignal({ 'C-4': 1.0 }, 'u-1')] })
+      .classification.distribution;
+    const weak = calculateUncertainty(distribution, 1, DEFAULT_SCORING_CONFIG);
+    const strong = calculateUncertainty(distribution, 50, DEFAULT_SCORING_CONFIG);
+
+    const width = (u: typeof weak) => u.intervals['C-4'].upper - u.intervals['C-4'].lower;
+    expect(width(strong)).toBeLessThan(width(weak));
+  });
+
+  it('should settle a clear lead given enough evidence', () => {
+    const distribution = {
+      'S-0': 0.02, 'T-1': 0.02, 'V-2': 0.6, 'L-3': 0.1,
+      'C-4': 0.02, 'N-5': 0.02, 'H-6': 0.02, 'P-7': 0.1,
+      'D-8': 0.02, 'F-9': 0.02, 'R-10': 0.04, 'Ø': 0.02
+    } as Record<Designation, number>;
+    const uncertainty = calculateUncertainty(distribution, 10, DEFAULT_SCORING_CONFIG);
+
+    expect(uncertainty.tie).toBe(false);
+    expect(uncertainty.sufficientEvidence).toBe(true);
+  });
+});
+
+describe('Explanations', () => {
+  const signals: Signal[] = [
+    {
+      type: 'explicit',
+      source: 'quiz',
+      timestamp: new Date(),
+      data: { kind: 'choice', questionId: 'e-1', value: 0, archetypeWeights: { 'D-8': 1.0, 'Ø': 0.3 } }
+    },
+    {
+      type: 'explicit',
+      source: 'swipe',
+      timestamp: new Date(),
+      data: { kind: 'rating', questionId: 'e-2', value: 5, archetypeWeights: { 'D-8': 0.6 } }
+    }
+  ];
+
+  it('should decompose every raw score into dimension and signal contributions', () => {
+    const explanation = explainClassification({ signals });
+
+    for (const d of getAllDesignations()) {
+      const e = explanation.designations[d];
+      expect(e.psychometric.contribution + e.signals.contribution).toBeCloseTo(e.rawScore, 10);
+    }
+  });
+
+  it('should attribute signal contributions with question ids and sources', () => {
+    const items = explainClassification({ signals }).designations['D-8'].signals.items;
+
+    expect(items.map(i => i.questionId)).toEqual(['e-1', 'e-2']);
+    expect(items[1].source).toBe('swipe');
+    expect(items[0].contribution).toBeGreaterThan(items[1].contribution);
+  });
+
+  it('should contrast primary with a requested designation', () => {
+    const explanation = explainClassification({ signals }, { versus: 'Ø', topDrivers: 100 });
+    const { comparison } = explanation;
+    const drivers = [...comparison.drivers, ...comparison.counterDrivers];
+
+    expect(comparison.primary).toBe(explanation.classification.primary.designation);
+    expect(comparison.versus).toBe('Ø');
+    expect(drivers.reduce((sum, d) => sum + d.delta, 0)).toBeCloseTo(comparison.margin, 10);
+    expect(comparison.drivers.every(d => d.delta > 0)).toBe(true);
+  });
+
+  it('should default to the runner-up and cap the driver list', () => {
+    const explanation = explainClassification({ signals }, { topDrivers: 2 });
+
+    expect(explanation.comparison.versus).not.toBe(explanation.comparison.primary);
+    expect(explanation.comparison.drivers.length).toBeLessThanOrEqual(2);
+  });
+
+  it('should strip engine internals from the public variant', () => {
+    const publicExplanation = toPublicExplanation(explainClassification({ signals }));
+
+    expect((publicExplanation as unknown as Record<string, unknown>).sephiroticBalance).toBeUndefined();
+    expect((publicExplanation as unknown as Record<string, unknown>).psychometrics).toBeUndefined();
+    expect(publicExplanation.primary.glyph).toBeDefined();
+    for (const driver of publicExplanation.drivers) {
+      expect(Object.keys(driver)).not.toContain('primary');
+      expect(Object.keys(driver)).not.toContain('delta');
+    }
+  });
+});
+
+describe('Calibration', () => {
+  const makeSignal = (designation: Designation, id: string): Signal => ({
+    type: 'explicit',
+    source: 'quiz',
+    timestamp: new Date(),
+    data: {
+      kind: 'choice',
+      questionId: id,
+      value: 0,
+      archetypeWeights: { [designation]: 1.0 }
+    } as ExplicitSignal
+  });
+
+  const corpus: LabelledExample[] = getAllDesignations().map(label => ({
+    label,
+    signals: [makeSignal(label, 'c-1'), makeSignal(label, 'c-2'), makeSignal(label, 'c-3')]
+  }));
+
+  it('should evaluate log-likelihood, accuracy and ECE', () => {
+    const metrics = evaluateScoringConfig(corpus, DEFAULT_SCORING_CONFIG);
+
+    expect(metrics.n).toBe(corpus.length);
+    expect(metrics.meanLogLikelihood).toBeLessThanOrEqual(0);
+    expect(metrics.accuracy).toBeGreaterThanOrEqual(0);
+    expect(metrics.accuracy).toBeLessThanOrEqual(1);
+    expect(metrics.ece).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should not fit worse than the base config', () => {
+    const artefact = fitScoringConfig(corpus, {
+      id: 'test-fit',
+      rounds: 1,
+      search: { temperature: [2, 5, 10, 20], psychometricWeight: [0.3, 0.7] }
+    });
+    const objective = (m: NonNullable<typeof artefact.metrics>) => m.meanLogLikelihood - m.ece;
+
+    expect(artefact.id).toBe('test-fit');
+    expect(artefact.version).toBe(1);
+    expect(artefact.corpusSize).toBe(corpus.length);
+    expect(objective(artefact.metrics!)).toBeGreaterThanOrEqual(objective(artefact.baselineMetrics!));
+  });
+
+  it('should reject an empty corpus', () => {
+    expect(() => fitScoringConfig([], { id: 'empty' })).toThrow();
+  });
+});
+
+describe('Scoring Config Registry', () => {
+  const signals: Signal[] = [{
+    type: 'explicit',
+    source: 'quiz',
+    timestamp: new Date(),
+    data: { kind: 'choice', questionId: 'r-1', value: 0, archetypeWeights: { 'N-5': 1.0 } }
+  }];
+
+  it('should load the default config by id', () => {
+    expect(getScoringConfig('default')).toEqual(DEFAULT_SCORING_CONFIG);
+  });
+
+  it('should classify with a registered config', () => {
+    registerScoringConfig({
+      id: 'test-sharp',
+      version: 1,
+      createdAt: new Date().toISOString(),
+      config: { ...DEFAULT_SCORING_CONFIG, temperature: 20 }
+    });
+
+    const byId = classify({ signals, configId: 'test-sharp' });
+    const inline = classify({ signals, config: { temperature: 20 } });
+
+    expect(byId.classification.distribution).toEqual(inline.classification.distribution);
+  });
+
+  it('should resolve the latest version unless one is requested', () => {
+    const createdAt = new Date().toISOString();
+    registerScoringConfig({ id: 'test-versioned', version: 1, createdAt, config: { ...DEFAULT_SCORING_CONFIG, temperature: 3 } });
+    registerScoringConfig({ id: 'test-versioned', version: 2, createdAt, config: { ...DEFAULT_SCORING_CONFIG, temperature: 8 } });
+
+    expect(getScoringConfig('test-versioned').temperature).toBe(8);
+    expect(getScoringConfig('test-versioned', 1).temperature).toBe(3);
+  });
+
+  it('should round-trip an artefact through JSON', () => {
+    const artefact = getScoringConfigArtefact('default')!;
+    const loaded = loadScoringConfigArtefact(JSON.stringify({ ...artefact, id: 'test-loaded' }));
+
+    expect(loaded.config).toEqual(artefact.config);
+    expect(getScoringConfigArtefact('test-loaded')?.version).toBe(artefact.version);
+  });
+
+  it('should throw for unknown ids', () => {
+    expect(() => classify({ signals, configId: 'missing' })).toThrow('Unknown scoring config');
+  });
+});
+
 describe('Archetype Properties', () => {
   it('should have valid glyph for each designation', () => {
     for (const [designation, archetype] of Object.entries(PANTHEON)) {
@@ -2,7 +2,7 @@
  * @subtaste/core - Genome Operations Tests
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import {
   createGenome,
   toPublicGenome,
@@ -13,9 +13,44 @@ import {
   deserializeGenome,
   encodeSignalsToGenome,
   updateGenomeWithSignals,
-  calculateGenomeSimilarity
+  calculateGenomeSimilarity,
+  createEvidence,
+  updateEvidence,
+  applySignalsIncrementally,
+  createGenomeFromSignals,
+  getGenomeStatus,
+  diffGenomes,
+  getSnapshotAsOf,
+  rollbackGenome,
+  toGenomeRecord,
+  fromGenomeRecord,
+  createMemoryGenomeStorage,
+  getSignalKey,
+  dedupeSignals,
+  replayGenome,
+  getGenomeSignalCount,
+  detectChangePoints,
+  detectDrift,
+  snapshotsToDriftPoints,
+  classifySignalWindows,
+  mergeAccountGenomes
 } from '../genome';
-import { classify } from '../engine';
+import type { DriftPoint } from '../genome';
+import { classify, getContextConfig, DEFAULT_SCORING_CONFIG } from '../engine';
+import {
+  detectContext,
+  splitSessions,
+  tagSignalContexts,
+  learnContextModel,
+  updateContextsFromSignals,
+  getContextualDistribution,
+  registerContext,
+  unregisterContext,
+  getContextDefinition,
+  listContexts,
+  getContextModel,
+  DEFAULT_CONTEXT_MODEL
+} from '../context';
 import type { Signal, TasteGenome, Designation } from '../types';
 
 describe('Genome Schema', () => {
@@ -133,6 +168,31 @@ describe('Genome Schema', () => {
       expect(publicGenome.formal.primarySigil).toBe('Severis');
       expect(publicGenome.formal.revealed).toBe(true);
     });
+
+    it('should report still forming on thin evidence', () => {
+      const genome = encodeSignalsToGenome('user-123', [
+        {
+          type: 'explicit',
+          source: 'quiz',
+          timestamp: new Date(),
+          data: { kind: 'choice', questionId: 'q1', value: 0, archetypeWeights: { 'C-4': 1.0 } }
+        }
+      ]);
+
+      expect(toPublicGenome(genome).status).toBe('forming');
+    });
+
+    it('should treat genomes without uncertainty as settled', () => {
+      const genome = createGenome({
+        userId: 'user-123',
+        classification: mockClassification,
+        psychometrics: mockPsychometrics,
+        sephiroticBalance: {},
+        orishaResonance: { primary: 'Ogun', shadow: 'Yemoja' }
+      });
+
+      expect(getGenomeStatus(genome)).toBe('settled');
+    });
   });
 
   describe('revealSigil()', () => {
@@ -306,3 +366,701 @@ describe('Genome Encoding', () => {
     });
   });
 });
+
+describe('Incremental Updates', () => {
+  const now = new Date('2026-01-15T12:00:00Z');
+
+  const makeSignal = (weights: Partial<Record<Designation, number>>, id: string): Signal => ({
+    type: 'explicit',
+    source: 'quiz',
+    timestamp: now,
+    data: {
+      kind: 'choice',
+      questionId: id,
+      value: 0,
+      archetypeWeights: weights
+    }
+  });
+
+  const batchA = [makeSignal({ 'V-2': 0.8, 'R-10': 0.4 }, 'a-1'), makeSignal({ 'V-2': 0.6 }, 'a-2')];
+  const batchB = [makeSignal({ 'C-4': 0.9, 'H-6': -0.5 }, 'b-1')];
+
+  it('should preserve id and advance version', () => {
+    const genome = createGenomeFromSignals('user-inc', batchA, undefined, { now });
+    const updated = applySignalsIncrementally(genome, batchB, { now });
+    const again = applySignalsIncrementally(updated, batchB, { now });
+
+    expect(updated.id).toBe(genome.id);
+    expect(again.id).toBe(genome.id);
+    expect(updated.version).toBe(genome.version + 1);
+    expect(again.version).toBe(genome.version + 2);
+    expect(again.createdAt).toEqual(genome.createdAt);
+  });
+
+  it('should keep sufficient statistics on the genome', () => {
+    const genome = createGenomeFromSignals('user-inc', batchA, undefined, { now });
+    const updated = applySignalsIncrementally(genome, batchB, { now });
+
+    expect(genome._engine.evidence?.signalCount).toBe(2);
+    expect(updated._engine.evidence?.signalCount).toBe(3);
+    expect(updated._engine.evidence?.designations['C-4']).toBeGreaterThan(0);
+  });
+
+  it('should match a single update over the union of batches', () => {
+    const split = updateEvidence(updateEvidence(createEvidence(undefined, {}, now), batchA, { now }), batchB, { now });
+    const joint = updateEvidence(createEvidence(undefined, {}, now), [...batchA, ...batchB], { now });
+
+    expect(split.designations['V-2']).toBeCloseTo(joint.designations['V-2'], 10);
+    expect(split.traits.intellect.mean).toBeCloseTo(joint.traits.intellect.mean, 10);
+    expect(split.traits.intellect.variance).toBeCloseTo(joint.traits.intellect.variance, 10);
+  });
+
+  it('should shrink trait variance as evidence accumulates', () => {
+    const prior = createEvidence(undefined, {}, now);
+    const posterior = updateEvidence(prior, batchA, { now });
+
+    expect(posterior.traits.openness.fantasy.variance)
+      .toBeLessThan(prior.traits.openness.fantasy.variance);
+  });
+
+  it('should decay designation evidence over time', () => {
+    const evidence = updateEvidence(createEvidence(undefined, {}, now), batchA, { now });
+    const later = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
+    const aged = updateEvidence(evidence, [], { now: later });
+
+    expect(aged.designations['V-2']).toBeLessThan(evidence.designations['V-2']);
+  });
+
+  it('should bootstrap evidence for genomes without it', () => {
+    const genome = createGenomeFromSignals('user-legacy', batchA, undefined, { now });
+    const legacy: TasteGenome = {
+      ...genome,
+      _engine: { ...genome._engine, evidence: undefined }
+    };
+
+    const updated = applySignalsIncrementally(legacy, batchB, { now });
+
+    expect(updated._engine.evidence).toBeDefined();
+    expect(updated._engine.evidence?.signalCount).toBe(3);
+  });
+
+  it('should evolve trait posteriors from implicit item features', () => {
+    const genome = createGenomeFromSignals('user-implicit', batchA, undefined, { now });
+    const repeats: Signal[] = Array.from({ length: 20 }, (_, i) => ({
+      type: 'intentional_implicit',
+      source: 'content',
+      timestamp: now,
+      data: { kind: 'repeat', itemId: `track-${i}`, metadata: { isAggressive: true } }
+    }));
+
+    const updated = applySignalsIncrementally(genome, repeats, { now });
+
+    expect(updated._engine.psychometrics.musicPreferences.intense)
+      .toBeGreaterThan(genome._engine.psychometrics.musicPreferences.intense);
+    expect(updated._engine.psychometrics.musicPreferences.sophisticated)
+      .toBeCloseTo(genome._engine.psychometrics.musicPreferences.sophisticated, 10);
+
+    // Behaviour moves traits only, not designation evidence, but still counts
+    expect(updated._engine.evidence?.designations).toEqual(genome._engine.evidence?.designations);
+    expect(updated._engine.evidence?.totalWeight).toBe(genome._engine.evidence?.totalWeight);
+    expect(getGenomeSignalCount(updated)).toBe(22);
+  });
+});
+
+describe('Genome History', () => {
+  const now = new Date('2026-02-01T12:00:00Z');
+
+  const makeSignal = (weights: Partial<Record<Designation, number>>, id: string): Signal => ({
+    type: 'explicit',
+    source: 'quiz',
+    timestamp: now,
+    data: { kind: 'choice', questionId: id, value: 0, archetypeWeights: weights }
+  });
+
+  const v1 = createGenomeFromSignals('user-hist', [makeSignal({ 'V-2': 1.0 }, 'h-1')], undefined, { now });
+  const v2 = applySignalsIncrementally(v1, [
+    makeSignal({ 'Ø': 1.0 }, 'h-2'),
+    makeSignal({ 'Ø': 1.0 }, 'h-3'),
+    makeSignal({ 'Ø': 1.0 }, 'h-4')
+  ], { now });
+
+  it('should diff distribution, glyph and confidence between versions', () => {
+    const diff = diffGenomes(v1, v2);
+
+    expect(diff.fromVersion).toBe(v1.version);
+    expect(diff.toVersion).toBe(v2.version);
+    expect(diff.distributionDelta['Ø']).toBeGreaterThan(0);
+    expect(diff.signalCount.delta).toBe(3);
+    expect(diff.confidence.delta).toBeCloseTo(v2.behaviour.confidence - v1.behaviour.confidence, 10);
+    expect(diff.glyph.changed).toBe(diff.primary.changed);
+  });
+
+  it('should find the latest snapshot at or before a date', () => {
+    const snapshots = [
+      { genome: v1, trigger: 'quiz_complete', takenAt: new Date('2026-02-01T00:00:00Z') },
+      { genome: v2, trigger: 'signals', takenAt: new Date('2026-02-10T00:00:00Z') }
+    ];
+
+    expect(getSnapshotAsOf(snapshots, new Date('2026-02-05T00:00:00Z'))?.genome.version).toBe(v1.version);
+    expect(getSnapshotAsOf(snapshots, new Date('2026-03-01T00:00:00Z'))?.genome.version).toBe(v2.version);
+    expect(getSnapshotAsOf(snapshots, new Date('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('should roll back as a new version', () => {
+    const current = revealSigil(v2);
+    const restored = rollbackGenome(current, v1, now);
+
+    expect(restored.id).toBe(v2.id);
+    expect(restored.version).toBe(v2.version + 1);
+    expect(restored.archetype).toEqual(v1.archetype);
+    expect(restored.behaviour.signalHistory.length).toBe(v1.behaviour.signalHistory.length);
+    expect(restored.formal.revealed).toBe(true);
+  });
+});
+
+describe('Genome Storage', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const genome = createGenomeFromSignals('user-store', [
+    {
+      type: 'explicit',
+      source: 'quiz',
+      timestamp: now,
+      data: { kind: 'choice', questionId: 's-1', value: 0, archetypeWeights: { 'F-9': 1.0, 'P-7': 0.5 } }
+    }
+  ], undefined, { now });
+
+  it('should split a genome into layers', () => {
+    const record = toGenomeRecord(genome);
+
+    expect(record.designation).toBe(genome.archetype.primary.designation);
+    expect(record.primarySigil).toBe(genome.formal.primarySigil);
+    expect(record.engine).toBe(genome._engine);
+    expect(record.signalHistory).toBe(genome.behaviour.signalHistory);
+  });
+
+  it('should reassemble an equivalent genome', () => {
+    const restored = fromGenomeRecord(toGenomeRecord(genome));
+
+    expect(restored.archetype).toEqual(genome.archetype);
+    expect(restored._engine.evidence?.signalCount).toBe(1);
+    expect(restored.createdAt).toBeInstanceOf(Date);
+    expect(restored.behaviour.lastCalibration).toBeInstanceOf(Date);
+  });
+
+  it('should keep response validity in the behaviour layer', () => {
+    const validated: TasteGenome = {
+      ...genome,
+      behaviour: {
+        ...genome.behaviour,
+        validity: { score: 0.5, flags: ['straight_lining'], responses: 10, assessedAt: now }
+      }
+    };
+
+    const record = toGenomeRecord(validated);
+    const restored = fromGenomeRecord(JSON.parse(JSON.stringify(record)));
+
+    expect(toGenomeRecord(genome).validity).toBeNull();
+    expect(restored.behaviour.validity).toEqual(validated.behaviour.validity);
+    expect(restored.behaviour.validity?.assessedAt).toBeInstanceOf(Date);
+  });
+
+  it('should persist through the memory adapter', async () => {
+    const storage = createMemoryGenomeStorage();
+
+    await storage.save(genome);
+    expect((await storage.get('user-store'))?.id).toBe(genome.id);
+
+    await storage.delete('user-store');
+    expect(await storage.get('user-store')).toBeNull();
+  });
+});
+
+describe('Signal Log Replay', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const start = new Date('2026-04-01T12:00:00Z');
+
+  const makeSignal = (weights: Partial<Record<Designation, number>>, id: string, offsetDays: number): Signal => ({
+    type: 'explicit',
+    source: 'quiz',
+    timestamp: new Date(start.getTime() + offsetDays * day),
+    data: { kind: 'choice', questionId: id, value: 0, archetypeWeights: weights }
+  });
+
+  const log = [
+    makeSignal({ 'L-3': 1.0 }, 'r-1', 0),
+    makeSignal({ 'L-3': 0.6, 'T-1': 0.4 }, 'r-2', 1),
+    makeSignal({ 'T-1': 1.0 }, 'r-3', 2)
+  ];
+  const now = new Date(start.getTime() + 3 * day);
+
+  it('should derive stable content keys and honour explicit keys', () => {
+    const signal = log[0];
+    const reordered: Signal = {
+      ...signal,
+      data: { archetypeWeights: { 'L-3': 1.0 }, value: 0, questionId: 'r-1', kind: 'choice' }
+    };
+
+    expect(getSignalKey(signal)).toBe(getSignalKey(reordered));
+    expect(getSignalKey(signal)).not.toBe(getSignalKey(log[1]));
+    expect(getSignalKey({ ...signal, idempotencyKey: 'client-1' })).toBe('client-1');
+  });
+
+  it('should drop duplicate signals', () => {
+    expect(dedupeSignals([...log, log[0], { ...log[1] }]).length).toBe(3);
+  });
+
+  it('should rebuild the same genome regardless of log order or retries', () => {
+    const ordered = replayGenome('user-replay', log, { now });
+    const shuffled = replayGenome('user-replay', [log[2], log[0], log[1], log[0]], { now });
+
+    expect(shuffled.archetype.distribution).toEqual(ordered.archetype.distribution);
+    expect(getGenomeSignalCount(shuffled)).toBe(3);
+  });
+
+  it('should replay under a different scoring config', () => {
+    const base = replayGenome('user-replay', log, { now });
+    const retuned = replayGenome('user-replay', log, { now, scoring: { temperature: 20 } });
+
+    expect(retuned.archetype.distribution).not.toEqual(base.archetype.distribution);
+  });
+
+  it('should keep the identity of an existing genome', () => {
+    const existing = revealSigil(replayGenome('user-replay', log.slice(0, 1), { now }));
+    const rebuilt = replayGenome('user-replay', log, { now, genome: existing });
+
+    expect(rebuilt.id).toBe(existing.id);
+    expect(rebuilt.version).toBe(existing.version + 1);
+    expect(rebuilt.formal.revealed).toBe(true);
+  });
+
+  it('should keep the response validity of an existing genome', () => {
+    const validity = { score: 0.6, flags: ['too_fast' as const], responses: 10, assessedAt: start };
+    const base = replayGenome('user-replay', log.slice(0, 1), { now });
+    const existing = { ...base, behaviour: { ...base.behaviour, validity } };
+
+    expect(replayGenome('user-replay', log, { now, genome: existing }).behaviour.validity).toEqual(validity);
+  });
+
+  it('should keep only aggregates when history size is zero', () => {
+    const genome = replayGenome('user-replay', log, { now, config: { maxHistorySize: 0 } });
+    const updated = applySignalsIncrementally(genome, [makeSignal({ 'Ø': 1.0 }, 'r-4', 3)], {
+      now,
+      config: { maxHistorySize: 0 }
+    });
+
+    expect(genome.behaviour.signalHistory).toEqual([]);
+    expect(updated.behaviour.signalHistory).toEqual([]);
+    expect(getGenomeSignalCount(updated)).toBe(4);
+  });
+});
+
+describe('Drift Detection', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const start = new Date('2026-05-01T12:00:00Z');
+
+  const point = (offsetDays: number, weights: Partial<Record<Designation, number>>): DriftPoint => ({
+    timestamp: new Date(start.getTime() + offsetDays * day),
+    distribution: {
+      'S-0': 0, 'T-1': 0, 'V-2': 0, 'L-3': 0, 'C-4': 0, 'N-5': 0,
+      'H-6': 0, 'P-7': 0, 'D-8': 0, 'F-9': 0, 'R-10': 0, 'Ø': 0,
+      ...weights
+    }
+  });
+
+  const steady = [0, 1, 2, 3, 4, 5].map(i => point(i, { 'L-3': 0.6, 'T-1': 0.4 }));
+  const shifted = [
+    ...[0, 1, 2, 3].map(i => point(i, { 'L-3': 0.6, 'T-1': 0.4 })),
+    ...[4, 5, 6, 7].map(i => point(i, { 'V-2': 0.7, 'T-1': 0.3 }))
+  ];
+
+  it('should not report drift for a stable history', () => {
+    const report = detectDrift(steady);
+
+    expect(report.detected).toBe(false);
+    expect(report.latest).toBeNull();
+    expect(report.points).toBe(6);
+  });
+
+  it('should locate a change point and its direction', () => {
+    const changePoints = detectChangePoints(shifted);
+
+    expect(changePoints.length).toBe(1);
+    expect(changePoints[0].index).toBe(4);
+    expect(changePoints[0].at).toEqual(shifted[4].timestamp);
+    expect(changePoints[0].magnitude).toBeCloseTo(0.7);
+    expect(changePoints[0].from).toBe('L-3');
+    expect(changePoints[0].to).toBe('V-2');
+    expect(changePoints[0].toward.map(s => s.glyph)).toEqual(['OMEN']);
+    expect(changePoints[0].awayFrom.map(s => s.designation)).toEqual(['L-3', 'T-1']);
+  });
+
+  it('should be independent of input order', () => {
+    const reversed = detectChangePoints([...shifted].reverse());
+
+    expect(reversed.map(p => p.index)).toEqual([4]);
+  });
+
+  it('should report successive shifts', () => {
+    const history = [
+      ...shifted,
+      ...[8, 9, 10, 11].map(i => point(i, { 'Ø': 1.0 }))
+    ];
+    const report = detectDrift(history, { windowSize: 2 });
+
+    expect(report.changePoints.map(p => p.index)).toEqual([4, 8]);
+    expect(report.latest?.to).toBe('Ø');
+  });
+
+  it('should need two full windows of history', () => {
+    expect(detectChangePoints(shifted.slice(0, 5))).toEqual([]);
+  });
+
+  it('should build classified history from snapshots and signal windows', () => {
+    const genome = createGenomeFromSignals('user-drift', []);
+    const snapshots = [
+      { genome, trigger: 'quiz', takenAt: new Date(start.getTime() + day) },
+      { genome, trigger: 'signals', takenAt: start }
+    ];
+    expect(snapshotsToDriftPoints(snapshots).map(p => p.timestamp)).toEqual([start, snapshots[0].takenAt]);
+
+    const signals: Signal[] = Array.from({ length: 12 }, (_, i) => ({
+      type: 'explicit',
+      source: 'quiz',
+      timestamp: new Date(start.getTime() + i * day),
+      data: { kind: 'choice', questionId: `d-${i}`, value: 0, archetypeWeights: { 'V-2': 1.0 } }
+    }));
+    const windows = classifySignalWindows(signals, { size: 4, step: 4 });
+
+    expect(windows.length).toBe(3);
+    expect(windows[2].timestamp).toEqual(signals[11].timestamp);
+  });
+});
+
+describe('Account Merge', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const start = new Date('2026-06-01T12:00:00Z');
+  const now = new Date(start.getTime() + 10 * day);
+
+  const makeSignal = (
+    source: Signal['source'],
+    weights: Partial<Record<Designation, number>>,
+    id: string,
+    offsetDays: number
+  ): Signal => ({
+    type: 'explicit',
+    source,
+    timestamp: new Date(start.getTime() + offsetDays * day),
+    data: { kind: 'choice', questionId: id, value: 0, archetypeWeights: weights }
+  });
+
+  const shared = makeSignal('quiz', { 'T-1': 1.0 }, 'm-shared', 0);
+  const selectr = [shared, makeSignal('selectr', { 'C-4': 1.0 }, 'm-s1', 1), makeSignal('selectr', { 'C-4': 0.8 }, 'm-s2', 2)];
+  const dropr = [shared, makeSignal('dropr', { 'D-8': 1.0 }, 'm-d1', 3), makeSignal('dropr', { 'D-8': 1.0 }, 'm-d2', 4)];
+
+  const selectrGenome = replayGenome('user-selectr', selectr, { now });
+  const droprGenome = revealSigil(replayGenome('user-dropr', dropr, { now }));
+
+  it('should recompute the classification from the deduplicated union', () => {
+    const result = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: selectrGenome, signals: selectr },
+      [{ userId: 'user-dropr', genome: droprGenome, signals: dropr }],
+      { now }
+    );
+    const expected = replayGenome('user-selectr', [...selectr, ...dropr], { now });
+
+    expect(result.signals.length).toBe(5);
+    expect(result.duplicates).toBe(1);
+    expect(result.genome.archetype.distribution).toEqual(expected.archetype.distribution);
+    expect(getGenomeSignalCount(result.genome)).toBe(5);
+  });
+
+  it('should keep the target identity and reconcile the sigil', () => {
+    const result = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: selectrGenome, signals: selectr },
+      [{ userId: 'user-dropr', genome: droprGenome, signals: dropr }],
+      { now }
+    );
+
+    expect(result.genome.id).toBe(selectrGenome.id);
+    expect(result.genome.userId).toBe('user-selectr');
+    expect(result.genome.version).toBe(selectrGenome.version + 1);
+    expect(result.genome.formal.revealed).toBe(true);
+    expect(result.genome.formal.revealedAt).toEqual(droprGenome.formal.revealedAt);
+  });
+
+  it('should carry over contexts the signals do not reach, keeping the most recent', () => {
+    const older = new Date(start.getTime() + day);
+    const newer = new Date(start.getTime() + 5 * day);
+    const target = {
+      ...selectrGenome,
+      behaviour: {
+        ...selectrGenome.behaviour,
+        contexts: {
+          creating: { id: 'creating', label: 'Creating', archetypeShift: { 'C-4': 0.1 }, lastActive: older },
+          curating: { id: 'curating', label: 'Curating', archetypeShift: {}, lastActive: older }
+        }
+      }
+    };
+    const source = {
+      ...droprGenome,
+      behaviour: {
+        ...droprGenome.behaviour,
+        contexts: {
+          creating: { id: 'creating', label: 'Creating', archetypeShift: { 'D-8': 0.2 }, lastActive: newer }
+        }
+      }
+    };
+
+    const result = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: target, signals: selectr },
+      [{ userId: 'user-dropr', genome: source, signals: dropr }],
+      { now }
+    );
+
+    expect(result.genome.behaviour.contexts).toHaveProperty('curating');
+    expect(result.genome.behaviour.contexts.creating.archetypeShift).toEqual({ 'D-8': 0.2 });
+  });
+
+  it('should rebuild shared contexts from every account\'s signals', () => {
+    const creating = (signal: Signal): Signal => ({ ...signal, context: 'Creating' });
+    const selectrLog = selectr.map(creating);
+    const droprLog = dropr.map(creating);
+    const target = updateContextsFromSignals(replayGenome('user-selectr', selectrLog, { now }), selectrLog, undefined, { now });
+    const source = updateContextsFromSignals(replayGenome('user-dropr', droprLog, { now }), droprLog, undefined, { now });
+
+    const result = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: target, signals: selectrLog },
+      [{ userId: 'user-dropr', genome: source, signals: droprLog }],
+      { now }
+    );
+    const merged = result.genome.behaviour.contexts.Creating;
+    const expected = updateContextsFromSignals(
+      replayGenome('user-selectr', result.signals, { now }),
+      result.signals,
+      undefined,
+      { now }
+    ).behaviour.contexts.Creating;
+
+    expect(merged.id).toBe(target.behaviour.contexts.Creating.id);
+    expect(merged.evidence?.signalCount).toBe(5);
+    expect(merged.distribution).toEqual(expected.distribution);
+  });
+
+  it('should keep signal contexts from a genome\'s own history', () => {
+    const droprLog = dropr.map(signal => ({ ...signal, context: 'Creating' }));
+    const source = replayGenome('user-dropr', droprLog, { now });
+
+    const result = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: selectrGenome, signals: selectr },
+      [{ userId: 'user-dropr', genome: source, signals: [] }],
+      { now }
+    );
+
+    expect(result.signals.filter(s => s.source === 'dropr').map(s => s.context)).toEqual(['Creating', 'Creating']);
+  });
+
+  it('should record provenance for each merged account', () => {
+    const canora = [makeSignal('canora', { 'V-2': 1.0 }, 'm-c1', 5)];
+    const first = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: selectrGenome, signals: selectr },
+      [{ userId: 'user-dropr', genome: droprGenome, signals: dropr }],
+      { now, mergedAt: now }
+    );
+
+    expect(first.provenance).toEqual([{
+      userId: 'user-dropr',
+      genomeId: droprGenome.id,
+      version: droprGenome.version,
+      designation: droprGenome.archetype.primary.designation,
+      sources: ['dropr', 'quiz'],
+      signalCount: 3,
+      contributed: 2,
+      mergedAt: now
+    }]);
+
+    const second = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: first.genome, signals: first.signals },
+      [{ userId: 'user-canora', genome: null, signals: canora }],
+      { now }
+    );
+
+    expect(second.genome.provenance?.map(p => p.userId)).toEqual(['user-dropr', 'user-canora']);
+    expect(second.provenance[0].genomeId).toBeNull();
+  });
+
+  it('should keep the target genome\'s response validity', () => {
+    const validity = { score: 0.6, flags: ['straight_lining' as const], responses: 12, assessedAt: start };
+    const target = { ...selectrGenome, behaviour: { ...selectrGenome.behaviour, validity } };
+
+    const result = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: target, signals: selectr },
+      [{ userId: 'user-dropr', genome: droprGenome, signals: dropr }],
+      { now }
+    );
+
+    expect(result.genome.behaviour.validity).toEqual(validity);
+  });
+
+  it('should keep provenance when the merged genome is replayed', () => {
+    const merged = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: selectrGenome, signals: selectr },
+      [{ userId: 'user-dropr', genome: droprGenome, signals: dropr }],
+      { now }
+    );
+
+    const replayed = replayGenome('user-selectr', merged.signals, { now, genome: merged.genome });
+
+    expect(replayed.provenance).toEqual(merged.genome.provenance);
+    expect(replayed.provenance).toHaveLength(1);
+  });
+
+  it('should keep provenance through storage and serialization', async () => {
+    const { genome } = mergeAccountGenomes(
+      { userId: 'user-selectr', genome: selectrGenome, signals: selectr },
+      [{ userId: 'user-dropr', genome: droprGenome, signals: dropr }],
+      { now }
+    );
+
+    const restored = deserializeGenome(serializeGenome(genome));
+    expect(restored.provenance?.[0].mergedAt).toBeInstanceOf(Date);
+    expect(fromGenomeRecord(toGenomeRecord(genome)).provenance).toEqual(genome.provenance);
+  });
+});
+
+describe('Context Detection', () => {
+  const minute = 60 * 1000;
+
+  // Local time, since detection reads the hour in local time
+  const at = (hour: number, offsetMinutes = 0) =>
+    new Date(new Date(2026, 5, 1, hour).getTime() + offsetMinutes * minute);
+
+  const creating = (hour: number): Signal[] => [0, 15, 30, 45].map(offset => ({
+    type: 'intentional_implicit',
+    source: 'refyn',
+    timestamp: at(hour, offset),
+    data: { kind: 'click', itemId: `prompt-${hour}-${offset}` }
+  }));
+
+  const curating = (hour: number): Signal[] => [0, 1, 2, 3, 4, 5].map(offset => ({
+    type: 'explicit',
+    source: 'selectr',
+    timestamp: at(hour, offset / 6),
+    data: { kind: 'rating', itemId: `item-${hour}-${offset}`, value: 5, archetypeWeights: { 'C-4': 0.8 } }
+  }));
+
+  it('should detect context from session features', () => {
+    expect(detectContext(creating(23)).context).toBe('Creating');
+    expect(detectContext(curating(10)).context).toBe('Curating');
+  });
+
+  it('should return a normalised posterior', () => {
+    const detection = detectContext(curating(10));
+    const total = Object.values(detection.probabilities).reduce((a, b) => a + b, 0);
+
+    expect(total).toBeCloseTo(1, 6);
+    expect(detection.confidence).toBe(detection.probabilities.Curating);
+    expect(detection.signals).toContain('shape:burst');
+  });
+
+  it('should split sessions at long gaps', () => {
+    const sessions = splitSessions([...curating(14), ...creating(10)]);
+
+    expect(sessions.length).toBe(2);
+    expect(sessions[0][0].source).toBe('refyn');
+  });
+
+  it('should tag untagged signals by session and keep existing tags', () => {
+    const tagged = tagSignalContexts([
+      ...creating(23),
+      { ...curating(10)[0], context: 'Commuting' },
+      ...curating(10).slice(1)
+    ]);
+
+    expect(tagged.slice(0, 4).every(s => s.context === 'Creating')).toBe(true);
+    expect(tagged[4].context).toBe('Commuting');
+    expect(tagged.slice(5).every(s => s.context === 'Curating')).toBe(true);
+  });
+
+  it('should learn new contexts from tagged signals', () => {
+    // Rating bursts on the morning commute, tagged by the client
+    const commutes = [7, 8, 9].flatMap(day => curating(8).map(s => ({
+      ...s,
+      timestamp: new Date(s.timestamp.getTime() + day * 24 * 60 * minute),
+      context: 'Commuting'
+    })));
+    const model = learnContextModel(commutes);
+
+    expect(model.priors.Commuting).toBe(3);
+    expect(detectContext(curating(8), model).context).toBe('Commuting');
+    expect(detectContext(creating(23), model).context).toBe('Creating');
+  });
+
+  it('should keep separate evidence per context', () => {
+    const genome = createGenomeFromSignals('user-contexts', [...creating(23), ...curating(10)]);
+    const updated = updateContextsFromSignals(genome, [...creating(23), ...curating(10)]);
+    const contexts = updated.behaviour.contexts;
+
+    expect(Object.keys(contexts).sort()).toEqual(['Creating', 'Curating']);
+    expect(contexts.Curating.evidence?.signalCount).toBe(6);
+    expect(getContextualDistribution(updated, 'Curating')).toEqual(contexts.Curating.distribution);
+    expect(getContextualDistribution(updated, 'Curating')['C-4'])
+      .toBeGreaterThan(getContextualDistribution(updated, 'Creating')['C-4']);
+
+    const again = updateContextsFromSignals(updated, curating(16));
+    expect(again.behaviour.contexts.Curating.evidence?.signalCount).toBe(12);
+  });
+});
+
+describe('Context Registry', () => {
+  const lateNight = {
+    label: 'Late-night listening',
+    description: 'Long, unhurried listening after midnight',
+    scoring: { psychometricWeight: 0.3 },
+    detection: { features: { 'source:dropr': 5, 'hour:night': 5, 'kind:repeat': 3 }, prior: 2 }
+  };
+
+  const listening: Signal[] = [0, 10, 20].map(offset => ({
+    type: 'intentional_implicit',
+    source: 'dropr',
+    timestamp: new Date(new Date(2026, 5, 1, 2).getTime() + offset * 60 * 1000),
+    data: { kind: 'repeat', itemId: `track-${offset}` }
+  }));
+
+  afterEach(() => {
+    if (getContextDefinition(lateNight.label)) {
+      unregisterContext(lateNight.label);
+    }
+  });
+
+  it('should start with the standard contexts', () => {
+    expect(listContexts().map(c => c.label)).toEqual(['Creating', 'Consuming', 'Curating']);
+    expect(getContextModel()).toEqual(DEFAULT_CONTEXT_MODEL);
+  });
+
+  it('should apply a registered context\'s scoring overrides', () => {
+    expect(getContextConfig(lateNight.label)).toEqual(DEFAULT_SCORING_CONFIG);
+
+    registerContext(lateNight);
+    expect(getContextConfig(lateNight.label).psychometricWeight).toBe(0.3);
+
+    unregisterContext(lateNight.label);
+    expect(getContextConfig(lateNight.label)).toEqual(DEFAULT_SCORING_CONFIG);
+  });
+
+  it('should detect registered contexts from their rules', () => {
+    expect(detectContext(listening, getContextModel()).context).toBe('Consuming');
+
+    registerContext(lateNight);
+    expect(detectContext(listening, getContextModel()).context).toBe(lateNight.label);
+
+    const genome = updateContextsFromSignals(createGenomeFromSignals('user-dropr', listening), listening);
+    expect(Object.keys(genome.behaviour.contexts)).toEqual([lateNight.label]);
+  });
+
+  it('should reject invalid definitions', () => {
+    expect(() => registerContext({ ...lateNight, label: ' padded ' })).toThrow('Invalid context label');
+    expect(() => registerContext({ ...lateNight, detection: { features: { 'hour:night': -1 } } }))
+      .toThrow('invalid weight');
+    expect(() => unregisterContext('Curating')).toThrow('standard context');
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * @subtaste/core - Context Detection
+ *
+ * Probabilistic context detection over sessions of signals.
+ * A session is reduced to features (time of day, source app, session shape,
+ * signal kinds and item types) and scored with a naive Bayes model whose
+ * counts can be learned from signals that arrived already tagged.
+ */
+
+import type { Signal } from '../types';
+import { isImplicitSignal } from '../types';
+
+/**
+ * Context detection result
+ */
+export interface ContextDetection {
+  context: string;
+  confidence: number;
+
+  // Features that informed the detection
+  signals: string[];
+
+  // Posterior probability of every context in the model
+  probabilities: Record<string, number>;
+}
+
+/**
+ * Naive Bayes context model
+ */
+export interface ContextModel {
+  // Sessions seen per context
+  priors: Record<string, number>;
+
+  // Feature occurrences per context
+  counts: Record<string, Record<string, number>>;
+
+  // Additive smoothing for unseen features
+  smoothing: number;
+}
+
+/**
+ * A labelled session for training
+ */
+export interface ContextSession {
+  context: string;
+  signals: Signal[];
+}
+
+/**
+ * Gap between signals that starts a new session
+ */
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+
+/**
+ * Hand-set starting model
+ * Pseudo-counts encode the old heuristics (refyn for Creating, saves and
+ * ratings for Curating, dwell and repeats for Consuming) plus time of day,
+ * and are outweighed as soon as real tagged sessions are learned.
+ */
+export const DEFAULT_CONTEXT_MODEL: ContextModel = {
+  priors: { Creating: 2, Consuming: 4, Curating: 3 },
+  counts: {
+    Creating: {
+      'source:refyn': 6,
+      'kind:click': 2,
+      'kind:share': 1,
+      'hour:evening': 2,
+      'hour:night': 3,
+      'explicit:low': 1,
+      'span:long': 2
+    },
+    Consuming: {
+      'kind:dwell': 4,
+      'kind:repeat': 4,
+      'kind:skip': 3,
+      'source:feed': 3,
+      'source:canora': 2,
+      'hour:evening': 2,
+      'hour:night': 1,
+      'explicit:low': 4,
+      'span:long': 3,
+      'dwell:long': 3
+    },
+    Curating: {
+      'kind:save': 4,
+      'kind:rating': 4,
+      'kind:ranking': 2,
+      'kind:block': 2,
+      'source:selectr': 3,
+      'hour:morning': 2,
+      'hour:afternoon': 2,
+      'explicit:high': 4,
+      'shape:burst': 3,
+      'span:short': 2
+    }
+  },
+  smoothing: 1
+};
+
+/**
+ * Reduce a session of signals to detection features
+ * Hours are read in the timestamps' local time.
+ */
+export function extractContextFeatures(signals: Signal[]): string[] {
+  if (signals.length === 0) {
+    return [];
+  }
+
+  const features = new Set<string>();
+  const times = signals.map(s => new Date(s.timestamp).getTime()).sort((a, b) => a - b);
+
+  features.add(`hour:${getDayPart(new Date(times[0]).getHours())}`);
+
+  const spanMs = times[times.length - 1] - times[0];
+  features.add(spanMs < 10 * 60 * 1000 ? 'span:short' : 'span:long');
+
+  if (signals.length >= 5 && signals.length / Math.max(spanMs / 60_000, 1) >= 3) {
+    features.add('shape:burst');
+  }
+
+  const explicitShare = signals.filter(s => s.type === 'explicit').length / signals.length;
+  features.add(explicitShare >= 0.5 ? 'explicit:high' : 'explicit:low');
+
+  const dwells = signals
+    .map(s => (isImplicitSignal(s.data) && s.data.kind === 'dwell' ? s.data.duration : undefined))
+    .filter((d): d is number => typeof d === 'number');
+  if (dwells.length > 0 && dwells.reduce((a, b) => a + b, 0) / dwells.length >= 30_000) {
+    features.add('dwell:long');
+  }
+
+  for (const signal of signals) {
+    features.add(`source:${signal.source}`);
+    features.add(`kind:${signal.data.kind}`);
+
+    const itemType = signal.data.metadata?.itemType;
+    if (typeof itemType === 'string') {
+      features.add(`item:${itemType}`);
+    }
+  }
+
+  return Array.from(features);
+}
+
+/**
+ * Detect the likely context of a session
+ */
+export function detectContext(
+  signals: Signal[],
+  model: ContextModel = DEFAULT_CONTEXT_MODEL
+): ContextDetection {
+  const features = extractContextFeatures(signals);
+  const contexts = Object.keys(model.priors);
+
+  const vocabulary = new Set(features);
+  for (const counts of Object.values(model.counts)) {
+    Object.keys(counts).forEach(f => vocabulary.add(f));
+  }
+
+  const totalSessions = contexts.reduce((sum, c) => sum + model.priors[c], 0);
+  const logScores = contexts.map(context => {
+    const counts = model.counts[context] || {};
+    const total = Object.values(counts).reduce((a, b) => a + b, 0);
+    const denominator = total + model.smoothing * vocabulary.size;
+
+    return features.reduce(
+      (score, f) => score + Math.log(((counts[f] || 0) + model.smoothing) / denominator),
+      Math.log((model.priors[context] + model.smoothing) / (totalSessions + model.smoothing * contexts.length))
+    );
+  });
+
+  const max = Math.max(...logScores);
+  const exps = logScores.map(s => Math.exp(s - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+
+  const probabilities: Record<string, number> = {};
+  contexts.forEach((c, i) => {
+    probabilities[c] = exps[i] / sum;
+  });
+
+  const best = contexts.reduce((a, b) => (probabilities[b] > probabilities[a] ? b : a));
+
+  return {
+    context: best,
+    confidence: probabilities[best],
+    signals: features,
+    probabilities
+  };
+}
+
+/**
+ * Split signals into sessions at gaps longer than `gapMs`
+ * Sessions are returned in time order.
+ */
+export function splitSessions(signals: Signal[], gapMs: number = SESSION_GAP_MS): Signal[][] {
+  const sorted = [...signals].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const sessions: Signal[][] = [];
+  let last = -Infinity;
+
+  for (const signal of sorted) {
+    const time = new Date(signal.timestamp).getTime();
+    if (sessions.length === 0 || time - last > gapMs) {
+      sessions.push([]);
+    }
+    sessions[sessions.length - 1].push(signal);
+    last = time;
+  }
+
+  return sessions;
+}
+
+/**
+ * Tag every signal with a context
+ * Signals that already carry one keep it; the rest take the context detected
+ * for their session. Order is preserved.
+ */
+export function tagSignalContexts(
+  signals: Signal[],
+  model: ContextModel = DEFAULT_CONTEXT_MODEL,
+  gapMs: number = SESSION_GAP_MS
+): Signal[] {
+  const tags = new Map<Signal, string>();
+
+  for (const session of splitSessions(signals, gapMs)) {
+    const context = detectContext(session, model).context;
+    session.forEach(signal => tags.set(signal, context));
+  }
+
+  return signals.map(signal => (
+    signal.context ? signal : { ...signal, context: tags.get(signal) }
+  ));
+}
+
+/**
+ * Add labelled sessions to a model's counts
+ */
+export function trainContextModel(
+  sessions: ContextSession[],
+  base: ContextModel = DEFAULT_CONTEXT_MODEL
+): ContextModel {
+  const priors = { ...base.priors };
+  const counts: Record<string, Record<string, number>> = {};
+  for (const [context, featureCounts] of Object.entries(base.counts)) {
+    counts[context] = { ...featureCounts };
+  }
+
+  for (const session of sessions) {
+    priors[session.context] = (priors[session.context] || 0) + 1;
+    counts[session.context] = counts[session.context] || {};
+
+    for (const feature of extractContextFeatures(session.signals)) {
+      counts[session.context][feature] = (counts[session.context][feature] || 0) + 1;
+    }
+  }
+
+  return { ...base, priors, counts };
+}
+
+/**
+ * Learn a model from signals that were tagged when given
+ * Tagged signals are grouped into sessions per context; untagged ones are ignored.
+ */
+export function learnContextModel(
+  signals: Signal[],
+  base: ContextModel = DEFAULT_CONTEXT_MODEL,
+  gapMs: number = SESSION_GAP_MS
+): ContextModel {
+  const byContext = new Map<string, Signal[]>();
+  for (const signal of signals) {
+    if (!signal.context) continue;
+    byContext.set(signal.context, [...(byContext.get(signal.context) || []), signal]);
+  }
+
+  const sessions: ContextSession[] = [];
+  for (const [context, tagged] of byContext) {
+    for (const session of splitSessions(tagged, gapMs)) {
+      sessions.push({ context, signals: session });
+    }
+  }
+
+  return trainContextModel(sessions, base);
+}
+
+/**
+ * Helper: part of the day for an hour
+ */
+function getDayPart(hour: number): 'night' | 'morning' | 'afternoon' | 'evening' {
+  if (hour < 6) return 'night';
+  if (hour < 12) return 'morning';
+  if (hour < 18) return 'afternoon';
+  return 'evening';
+}
@@ -6,10 +6,34 @@ export {
   createContextProfile,
   getOrCreateContext,
   updateContext,
+  updateContextsFromSignals,
   getContextualDistribution,
   getContextualPrimary,
-  detectContext,
   getActiveContexts
 } from './multi';
 
-export type { StandardContext, ContextDetection } from './multi';
+export type { StandardContext } from './multi';
+
+export {
+  SESSION_GAP_MS,
+  DEFAULT_CONTEXT_MODEL,
+  extractContextFeatures,
+  detectContext,
+  splitSessions,
+  tagSignalContexts,
+  trainContextModel,
+  learnContextModel
+} from './detection';
+
+export type { ContextDetection, ContextModel, ContextSession } from './detection';
+
+export {
+  STANDARD_CONTEXTS,
+  registerContext,
+  unregisterContext,
+  getContextDefinition,
+  listContexts,
+  getContextModel
+} from './registry';
+
+export type { ContextLabel, ContextDefinition, ContextDetectionRules } from './registry';
@@ -3,6 +3,7 @@
  *
  * Spotify-style contextual vectors: different taste profiles
  * for Creating, Consuming, Curating modes.
+ * Each context keeps its own evidence, updated from the signals tagged with it.
  */
 
 import type {
@@ -11,25 +12,24 @@ import type {
   Designation,
   Signal
 } from '../types';
-import { classify } from '../engine/classifier';
 import { getContextConfig } from '../engine/weights';
+import {
+  createEvidence,
+  updateEvidence,
+  classifyEvidence,
+  type IncrementalUpdateOptions
+} from '../genome/incremental';
+import { tagSignalContexts, type ContextModel } from './detection';
+import { getContextModel } from './registry';
 
 /**
  * Standard context labels
  */
 export type StandardContext = 'Creating' | 'Consuming' | 'Curating';
 
-/**
- * Context detection result
- */
-export interface ContextDetection {
-  context: string;
-  confidence: number;
-  signals: string[];
-}
-
 /**
  * Create a new context profile
+ * Its evidence starts empty, with trait priors at the base genome's psychometrics.
  */
 export function createContextProfile(
   label: string,
@@ -39,7 +39,8 @@ export function createContextProfile(
     id: `context_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
     label,
     archetypeShift: {},
-    lastActive: new Date()
+    lastActive: new Date(),
+    evidence: createEvidence(baseGenome._engine.psychometrics)
   };
 }
 
@@ -82,32 +83,39 @@ export function getOrCreateContext(
 
 /**
  * Update a context profile with new signals
+ * The signals are added to the context's own evidence, scored with the
+ * context's weights. Contexts created before evidence was kept start afresh.
  */
 export function updateContext(
   genome: TasteGenome,
   contextLabel: string,
-  signals: Signal[]
+  signals: Signal[],
+  options: IncrementalUpdateOptions = {}
 ): TasteGenome {
-  const config = getContextConfig(contextLabel);
-  const result = classify({ signals, config });
+  const now = options.now || new Date();
+  const scoring = { ...getContextConfig(contextLabel), ...options.scoring };
+  const existing = genome.behaviour.contexts[contextLabel] || createContextProfile(contextLabel, genome);
+
+  const evidence = updateEvidence(
+    existing.evidence || createEvidence(genome._engine.psychometrics, options.config, now),
+    signals,
+    { ...options, scoring, now }
+  );
+  const distribution = classifyEvidence(evidence, scoring).classification.distribution;
 
   // Calculate shift from base distribution
   const shift: Partial<Record<Designation, number>> = {};
-
-  for (const [designation, weight] of Object.entries(result.classification.distribution)) {
+  for (const [designation, weight] of Object.entries(distribution)) {
     const d = designation as Designation;
-    const baseWeight = genome.archetype.distribution[d] || 0;
-    const delta = weight - baseWeight;
-
-    if (Math.abs(delta) > 0.05) {
-      shift[d] = delta;
-    }
+    shift[d] = weight - (genome.archetype.distribution[d] || 0);
   }
 
   const updatedContext: ContextProfile = {
-    ...(genome.behaviour.contexts[contextLabel] || createContextProfile(contextLabel, genome)),
+    ...existing,
     archetypeShift: shift,
-    lastActive: new Date()
+    lastActive: now,
+    evidence,
+    distribution
   };
 
   return {
@@ -119,10 +127,35 @@ export function updateContext(
         [contextLabel]: updatedContext
       }
     },
-    updatedAt: new Date()
+    updatedAt: now
   };
 }
 
+/**
+ * Fold signals into the contexts they belong to
+ * Untagged signals are tagged by session with the context model first,
+ * by default the one built from the registered contexts.
+ */
+export function updateContextsFromSignals(
+  genome: TasteGenome,
+  signals: Signal[],
+  model: ContextModel = getContextModel(),
+  options: IncrementalUpdateOptions = {}
+): TasteGenome {
+  const byContext = new Map<string, Signal[]>();
+  for (const signal of tagSignalContexts(signals, model)) {
+    const label = signal.context!;
+    byContext.set(label, [...(byContext.get(label) || []), signal]);
+  }
+
+  let result = genome;
+  for (const [label, contextSignals] of byContext) {
+    result = updateContext(result, label, contextSignals, options);
+  }
+
+  return result;
+}
+
 /**
  * Get effective distribution for a specific context
  */
@@ -136,6 +169,10 @@ export function getContextualDistribution(
     return genome.archetype.distribution;
   }
 
+  if (context.distribution) {
+    return { ...context.distribution };
+  }
+
   // Apply shift to base distribution
   const result: Record<Designation, number> = { ...genome.archetype.distribution };
 
@@ -171,57 +208,6 @@ export function getContextualPrimary(
   };
 }
 
-/**
- * Detect likely context from signals
- */
-export function detectContext(signals: Signal[]): ContextDetection {
-  const indicators = {
-    Creating: 0,
-    Consuming: 0,
-    Curating: 0
-  };
-
-  const detectedSignals: string[] = [];
-
-  for (const signal of signals) {
-    // Check source
-    if (signal.source === 'refyn') {
-      indicators.Creating += 2;
-      detectedSignals.push('refyn-source');
-    }
-
-    // Check signal type
-    if (signal.type === 'explicit') {
-      indicators.Curating += 1;
-    } else if (signal.type === 'unintentional_implicit') {
-      indicators.Consuming += 1;
-    }
-
-    // Check data if available
-    if ('kind' in signal.data) {
-      if (signal.data.kind === 'save' || signal.data.kind === 'rating') {
-        indicators.Curating += 1;
-        detectedSignals.push('curation-action');
-      } else if (signal.data.kind === 'dwell' || signal.data.kind === 'repeat') {
-        indicators.Consuming += 1;
-        detectedSignals.push('consumption-action');
-      }
-    }
-  }
-
-  // Find highest indicator
-  const sorted = Object.entries(indicators)
-    .sort(([, a], [, b]) => b - a);
-
-  const total = Object.values(indicators).reduce((a, b) => a + b, 1);
-
-  return {
-    context: sorted[0][0],
-    confidence: sorted[0][1] / total,
-    signals: detectedSignals
-  };
-}
-
 /**
  * Get all active contexts for a genome
  */
@@ -0,0 +1,155 @@
+/**
+ * @subtaste/core - Context Registry
+ *
+ * Contexts apps can define beyond Creating, Consuming and Curating.
+ * A definition carries a description, ScoringConfig overrides used when the
+ * context's evidence is updated, and detection rules that add the context
+ * to the detection model.
+ */
+
+import { CONTEXT_WEIGHTS, setContextWeights, type ScoringConfig } from '../engine/weights';
+import { DEFAULT_CONTEXT_MODEL, type ContextModel } from './detection';
+import type { StandardContext } from './multi';
+
+/**
+ * Context label: a standard context or one an app registered
+ */
+export type ContextLabel = StandardContext | (string & {});
+
+/**
+ * Detection rules for a context
+ * Feature names follow extractContextFeatures (e.g. 'source:dropr',
+ * 'hour:night', 'kind:repeat', 'item:mix'); weights are pseudo-counts.
+ */
+export interface ContextDetectionRules {
+  features: Record<string, number>;
+
+  // Pseudo-sessions behind the context's prior (default 1)
+  prior?: number;
+}
+
+/**
+ * App-defined context
+ */
+export interface ContextDefinition {
+  label: ContextLabel;
+  description: string;
+
+  // Overrides applied to DEFAULT_SCORING_CONFIG for this context's evidence
+  scoring?: Partial<ScoringConfig>;
+
+  // Without rules the context is never detected, only taken from tagged signals
+  detection?: ContextDetectionRules;
+}
+
+/**
+ * The standard contexts
+ */
+export const STANDARD_CONTEXTS: ContextDefinition[] = [
+  {
+    label: 'Creating',
+    description: 'Making things: prompting, sketching, producing',
+    scoring: CONTEXT_WEIGHTS.Creating,
+    detection: {
+      features: DEFAULT_CONTEXT_MODEL.counts.Creating,
+      prior: DEFAULT_CONTEXT_MODEL.priors.Creating
+    }
+  },
+  {
+    label: 'Consuming',
+    description: 'Watching, reading and listening',
+    scoring: CONTEXT_WEIGHTS.Consuming,
+    detection: {
+      features: DEFAULT_CONTEXT_MODEL.counts.Consuming,
+      prior: DEFAULT_CONTEXT_MODEL.priors.Consuming
+    }
+  },
+  {
+    label: 'Curating',
+    description: 'Rating, saving and sorting what others made',
+    scoring: CONTEXT_WEIGHTS.Curating,
+    detection: {
+      features: DEFAULT_CONTEXT_MODEL.counts.Curating,
+      prior: DEFAULT_CONTEXT_MODEL.priors.Curating
+    }
+  }
+];
+
+const registry = new Map<string, ContextDefinition>();
+
+/**
+ * Register a context, replacing any with the same label
+ */
+export function registerContext(definition: ContextDefinition): ContextDefinition {
+  if (!definition.label || definition.label.trim() !== definition.label) {
+    throw new Error(`Invalid context label: "${definition.label}"`);
+  }
+
+  if (definition.detection) {
+    const { features, prior } = definition.detection;
+
+    for (const [feature, weight] of Object.entries(features)) {
+      if (!(weight >= 0)) {
+        throw new Error(`Context ${definition.label} has an invalid weight for ${feature}`);
+      }
+    }
+
+    if (prior !== undefined && !(prior > 0)) {
+      throw new Error(`Context ${definition.label} needs a positive prior`);
+    }
+  }
+
+  registry.set(definition.label, definition);
+  setContextWeights(definition.label, definition.scoring ?? null);
+
+  return definition;
+}
+
+/**
+ * Remove a registered context
+ * The standard contexts cannot be removed.
+ */
+export function unregisterContext(label: ContextLabel): boolean {
+  if (STANDARD_CONTEXTS.some(c => c.label === label)) {
+    throw new Error(`Cannot unregister standard context: ${label}`);
+  }
+
+  setContextWeights(label, null);
+  return registry.delete(label);
+}
+
+/**
+ * Get a registered context
+ */
+export function getContextDefinition(label: ContextLabel): ContextDefinition | null {
+  return registry.get(label) || null;
+}
+
+/**
+ * List registered contexts, standard ones first
+ */
+export function listContexts(): ContextDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Build a detection model from the registered contexts' rules
+ */
+export function getContextModel(
+  smoothing: number = DEFAULT_CONTEXT_MODEL.smoothing
+): ContextModel {
+  const priors: Record<string, number> = {};
+  const counts: Record<string, Record<string, number>> = {};
+
+  for (const definition of registry.values()) {
+    if (!definition.detection) continue;
+
+    priors[definition.label] = definition.detection.prior ?? 1;
+    counts[definition.label] = { ...definition.detection.features };
+  }
+
+  return { priors, counts, smoothing };
+}
+
+// Register the standard contexts
+STANDARD_CONTEXTS.forEach(registerContext);
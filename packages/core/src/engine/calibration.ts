@@ -0,0 +1,308 @@
+/**
+ * @subtaste/core - Scoring Config Calibration
+ *
+ * Fits ScoringConfig parameters against a labelled corpus of signal sets
+ * with known (self-reported) designations. Coordinate search over a grid
+ * maximises mean log-likelihood of the label, penalised by expected
+ * calibration error, and emits a versioned artefact for the registry.
+ */
+
+import type { Designation, Signal, Psychometrics } from '../types';
+import { classify } from './classifier';
+import { DEFAULT_SCORING_CONFIG, type ScoringConfig } from './weights';
+import {
+  type CalibrationMetrics,
+  type ScoringConfigArtefact,
+  getScoringConfigArtefact
+} from './registry';
+
+/**
+ * A signal set with its known designation
+ */
+export interface LabelledExample {
+  signals: Signal[];
+  label: Designation;
+  existingPsychometrics?: Psychometrics;
+}
+
+/**
+ * Candidate values per fitted parameter
+ */
+export interface CalibrationSearchSpace {
+  temperature: number[];
+  psychometricWeight: number[];
+  distributionThreshold: number[];
+  secondaryThreshold: number[];
+  explicit: number[];
+  intentionalImplicit: number[];
+  unintentionalImplicit: number[];
+}
+
+/**
+ * Calibration options
+ */
+export interface CalibrationOptions {
+  // Artefact id to emit
+  id: string;
+
+  // Artefact version (defaults to the next registered version for the id)
+  version?: number;
+
+  // Starting point for the search
+  base?: ScoringConfig;
+
+  search?: Partial<CalibrationSearchSpace>;
+
+  // Equal-width confidence bins for ECE
+  eceBins?: number;
+
+  // Penalty on ECE relative to mean log-likelihood
+  eceWeight?: number;
+
+  // Coordinate search passes over all parameters
+  rounds?: number;
+
+  now?: Date;
+}
+
+/**
+ * Default search grid
+ */
+export const DEFAULT_CALIBRATION_SEARCH: CalibrationSearchSpace = {
+  temperature: [1, 2, 3, 5, 8, 12, 20],
+  psychometricWeight: [0.1, 0.3, 0.5, 0.7, 0.9],
+  distributionThreshold: [0, 0.005, 0.01, 0.02, 0.05],
+  secondaryThreshold: [0.05, 0.1, 0.15, 0.2, 0.25, 0.3],
+  explicit: [0.5, 1.0, 1.5],
+  intentionalImplicit: [0.3, 0.6, 0.9],
+  unintentionalImplicit: [0.1, 0.3, 0.5]
+};
+
+/**
+ * Probability floor for labels dropped from the distribution
+ */
+const PROBABILITY_FLOOR = 1e-6;
+
+/**
+ * Parameters fitted by likelihood (secondaryThreshold is fitted separately)
+ */
+type LikelihoodParameter = Exclude<keyof CalibrationSearchSpace, 'secondaryThreshold'>;
+
+const LIKELIHOOD_PARAMETERS: LikelihoodParameter[] = [
+  'temperature',
+  'psychometricWeight',
+  'distributionThreshold',
+  'explicit',
+  'intentionalImplicit',
+  'unintentionalImplicit'
+];
+
+interface Prediction {
+  label: Designation;
+  primary: Designation;
+  confidence: number;
+  labelProbability: number;
+  runnerUp: Designation | null;
+  runnerUpProbability: number;
+}
+
+/**
+ * Evaluate a ScoringConfig against a labelled corpus
+ */
+export function evaluateScoringConfig(
+  corpus: LabelledExample[],
+  config: ScoringConfig,
+  eceBins = 10
+): CalibrationMetrics {
+  return scorePredictions(predict(corpus, config), eceBins);
+}
+
+/**
+ * Fit a ScoringConfig to a labelled corpus
+ * The artefact is returned, not registered; pass it to registerScoringConfig to use it.
+ */
+export function fitScoringConfig(
+  corpus: LabelledExample[],
+  options: CalibrationOptions
+): ScoringConfigArtefact {
+  if (corpus.length === 0) {
+    throw new Error('Calibration corpus is empty');
+  }
+
+  const base = options.base || DEFAULT_SCORING_CONFIG;
+  const search = { ...DEFAULT_CALIBRATION_SEARCH, ...options.search };
+  const eceBins = options.eceBins ?? 10;
+  const eceWeight = options.eceWeight ?? 1;
+  const rounds = options.rounds ?? 3;
+
+  const objective = (config: ScoringConfig): number => {
+    const metrics = evaluateScoringConfig(corpus, config, eceBins);
+    return metrics.meanLogLikelihood - eceWeight * metrics.ece;
+  };
+
+  let config = base;
+  let best = objective(config);
+
+  for (let round = 0; round < rounds; round++) {
+    let improved = false;
+
+    for (const parameter of LIKELIHOOD_PARAMETERS) {
+      for (const value of search[parameter]) {
+        const candidate = withParameter(config, parameter, value);
+        const score = objective(candidate);
+
+        // Strict improvement only, so flat parameters keep their base value
+        if (score > best + 1e-9) {
+          best = score;
+          config = candidate;
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  config = {
+    ...config,
+    secondaryThreshold: fitSecondaryThreshold(
+      predict(corpus, config),
+      search.secondaryThreshold,
+      config.secondaryThreshold
+    )
+  };
+
+  const previous = getScoringConfigArtefact(options.id);
+
+  return {
+    id: options.id,
+    version: options.version ?? (previous ? previous.version + 1 : 1),
+    createdAt: (options.now || new Date()).toISOString(),
+    config,
+    metrics: evaluateScoringConfig(corpus, config, eceBins),
+    baselineMetrics: evaluateScoringConfig(corpus, base, eceBins),
+    corpusSize: corpus.length
+  };
+}
+
+/**
+ * Classify every example under a config
+ */
+function predict(corpus: LabelledExample[], config: ScoringConfig): Prediction[] {
+  return corpus.map(example => {
+    const { classification } = classify({
+      signals: example.signals,
+      existingPsychometrics: example.existingPsychometrics,
+      config
+    });
+
+    const sorted = Object.entries(classification.distribution)
+      .sort(([, a], [, b]) => b - a) as [Designation, number][];
+
+    return {
+      label: example.label,
+      primary: sorted[0][0],
+      confidence: sorted[0][1],
+      labelProbability: classification.distribution[example.label] || 0,
+      runnerUp: sorted.length > 1 ? sorted[1][0] : null,
+      runnerUpProbability: sorted.length > 1 ? sorted[1][1] : 0
+    };
+  });
+}
+
+/**
+ * Log-likelihood, accuracy and expected calibration error
+ */
+function scorePredictions(predictions: Prediction[], eceBins: number): CalibrationMetrics {
+  const n = predictions.length;
+  let logLikelihood = 0;
+  let correct = 0;
+
+  const bins = Array.from({ length: eceBins }, () => ({ count: 0, confidence: 0, correct: 0 }));
+
+  for (const p of predictions) {
+    logLikelihood += Math.log(Math.max(p.labelProbability, PROBABILITY_FLOOR));
+
+    const hit = p.primary === p.label ? 1 : 0;
+    correct += hit;
+
+    const bin = bins[Math.min(eceBins - 1, Math.floor(p.confidence * eceBins))];
+    bin.count++;
+    bin.confidence += p.confidence;
+    bin.correct += hit;
+  }
+
+  let ece = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    ece += (bin.count / n) * Math.abs(bin.correct / bin.count - bin.confidence / bin.count);
+  }
+
+  return {
+    n,
+    logLikelihood,
+    meanLogLikelihood: n > 0 ? logLikelihood / n : 0,
+    ece,
+    accuracy: n > 0 ? correct / n : 0
+  };
+}
+
+/**
+ * Pick the secondary threshold with the best F1 for "label is the runner-up"
+ */
+function fitSecondaryThreshold(
+  predictions: Prediction[],
+  candidates: number[],
+  current: number
+): number {
+  const f1 = (threshold: number): number => {
+    let tp = 0;
+    let fp = 0;
+    let fn = 0;
+
+    for (const p of predictions) {
+      const reported = p.runnerUp !== null && p.runnerUpProbability >= threshold;
+      const relevant = p.runnerUp === p.label;
+
+      if (reported && relevant) tp++;
+      else if (reported) fp++;
+      else if (relevant) fn++;
+    }
+
+    return tp === 0 ? 0 : (2 * tp) / (2 * tp + fp + fn);
+  };
+
+  let best = current;
+  let bestScore = f1(current);
+
+  for (const threshold of candidates) {
+    const score = f1(threshold);
+    if (score > bestScore + 1e-9) {
+      best = threshold;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Set a single searched parameter on a config
+ */
+function withParameter(
+  config: ScoringConfig,
+  parameter: LikelihoodParameter,
+  value: number
+): ScoringConfig {
+  switch (parameter) {
+    case 'explicit':
+    case 'intentionalImplicit':
+    case 'unintentionalImplicit':
+      return {
+        ...config,
+        signalWeights: { ...config.signalWeights, [parameter]: value }
+      };
+    default:
+      return { ...config, [parameter]: value };
+  }
+}
@@ -9,17 +9,24 @@ import type {
   Designation,
   ArchetypeClassification,
   Signal,
-  SignalEvent,
   Psychometrics
 } from '../types';
-import { ALL_DESIGNATIONS, isExplicitSignal, SIGNAL_WEIGHTS } from '../types';
+import { ALL_DESIGNATIONS, isExplicitSignal } from '../types';
 import {
   getDefaultPsychometrics,
   extractTraitDeltas,
   applyTraitDeltas,
   calculateAllSimilarities
 } from './psychometrics';
-import { DEFAULT_SCORING_CONFIG, type ScoringConfig, mergeConfig } from './weights';
+import {
+  DEFAULT_SCORING_CONFIG,
+  type ScoringConfig,
+  type SignalWeighting,
+  mergeConfig,
+  getSignalWeightings
+} from './weights';
+import { calculateUncertainty } from './uncertainty';
+import { getScoringConfig } from './registry';
 import { INTERNAL_MAPPINGS, calculateSephiroticBalance } from '../pantheon/internal';
 import { toGlyph } from '../pantheon/definitions';
 
@@ -30,6 +37,9 @@ export interface ClassificationInput {
   signals: Signal[];
   existingPsychometrics?: Psychometrics;
   config?: Partial<ScoringConfig>;
+  // Registered ScoringConfig artefact to start from (overrides still apply)
+  configId?: string;
+  configVersion?: number;
 }
 
 /**
@@ -41,25 +51,57 @@ export interface ClassificationResult {
   sephiroticBalance: Record<string, number>;
   orishaResonance: { primary: string; shadow: string };
   rawScores: Record<Designation, number>;
+  signalWeights: SignalWeighting[];
 }
 
 /**
  * Classify signals into an archetype assignment
  */
 export function classify(input: ClassificationInput): ClassificationResult {
-  const config = mergeConfig(DEFAULT_SCORING_CONFIG, input.config || {});
+  const base = input.configId
+    ? getScoringConfig(input.configId, input.configVersion)
+    : DEFAULT_SCORING_CONFIG;
+  const config = mergeConfig(base, input.config || {});
   const basePsychometrics = input.existingPsychometrics || getDefaultPsychometrics();
 
+  // Effective weight of every signal (decay x source trust x kind x type)
+  const signalWeights = getSignalWeightings(input.signals, config);
+
   // Extract trait deltas from explicit signals
-  const deltas = extractTraitDeltas(input.signals);
+  const deltas = extractTraitDeltas(input.signals, config);
   const psychometrics = applyTraitDeltas(basePsychometrics, deltas);
 
+  // Calculate raw signal scores
+  const signalScores = normaliseSignalScores(
+    calculateSignalScores(input.signals, signalWeights)
+  );
+
+  // Total weight of the signals that carried archetype evidence
+  const evidence = input.signals.reduce((sum, signal, i) =>
+    isExplicitSignal(signal.data) && signal.data.archetypeWeights
+      ? sum + signalWeights[i].weight
+      : sum,
+  0);
+
+  return {
+    ...classifyFromScores(psychometrics, signalScores, config, evidence),
+    signalWeights
+  };
+}
+
+/**
+ * Build a classification from a psychometric profile and normalised signal scores
+ * Shared by full classification and incremental genome updates
+ */
+export function classifyFromScores(
+  psychometrics: Psychometrics,
+  signalScores: Record<Designation, number>,
+  config: ScoringConfig,
+  evidence = 0
+): Omit<ClassificationResult, 'signalWeights'> {
   // Calculate psychometric similarity scores
   const psychoScores = calculateAllSimilarities(psychometrics);
 
-  // Calculate raw signal scores
-  const signalScores = calculateSignalScores(input.signals, config);
-
   // Combine psychometric and signal scores
   const rawScores: Record<Designation, number> = {} as Record<Designation, number>;
   for (const d of ALL_DESIGNATIONS) {
@@ -114,7 +156,8 @@ export function classify(input: ClassificationInput): ClassificationResult {
       glyph: toGlyph(secondary),
       confidence: secondaryConfidence * overallConfidence
     } : null,
-    distribution: filtered
+    distribution: filtered,
+    uncertainty: calculateUncertainty(distribution, evidence, config)
   };
 
   return {
@@ -131,7 +174,7 @@ export function classify(input: ClassificationInput): ClassificationResult {
  */
 function calculateSignalScores(
   signals: Signal[],
-  config: ScoringConfig
+  weightings: SignalWeighting[]
 ): Record<Designation, number> {
   const scores: Record<Designation, number> = {} as Record<Designation, number>;
 
@@ -139,37 +182,34 @@ function calculateSignalScores(
     scores[d] = 0;
   }
 
-  for (const signal of signals) {
-    // Get base weight for this signal type
-    const typeWeight = config.signalWeights[
-      signal.type === 'explicit' ? 'explicit' :
-      signal.type === 'intentional_implicit' ? 'intentionalImplicit' :
-      'unintentionalImplicit'
-    ];
-
-    // If explicit signal with archetype weights, apply them
-    if (isExplicitSignal(signal.data)) {
-      const explicit = signal.data;
-      if (explicit.archetypeWeights) {
-        for (const [designation, weight] of Object.entries(explicit.archetypeWeights)) {
-          const d = designation as Designation;
-          scores[d] += weight * typeWeight;
-        }
+  signals.forEach((signal, i) => {
+    // If explicit signal with archetype weights, apply them at the signal's effective weight
+    if (isExplicitSignal(signal.data) && signal.data.archetypeWeights) {
+      const signalWeight = weightings[i].weight;
+      for (const [designation, weight] of Object.entries(signal.data.archetypeWeights)) {
+        const d = designation as Designation;
+        scores[d] += weight * signalWeight;
       }
-
-      // Get signal kind weight
-      const kindWeight = SIGNAL_WEIGHTS[explicit.kind] || 1;
-      // This would be applied if we had item-archetype mappings
     }
-  }
+  });
+
+  return scores;
+}
 
-  // Normalise to 0-1 range
+/**
+ * Normalise accumulated signal scores to the 0-1 range
+ */
+export function normaliseSignalScores(
+  scores: Record<Designation, number>
+): Record<Designation, number> {
+  const normalised: Record<Designation, number> = {} as Record<Designation, number>;
   const max = Math.max(...Object.values(scores), 1);
+
   for (const d of ALL_DESIGNATIONS) {
-    scores[d] = scores[d] / max;
+    normalised[d] = (scores[d] || 0) / max;
   }
 
-  return scores;
+  return normalised;
 }
 
 /**
@@ -0,0 +1,310 @@
+/**
+ * @subtaste/core - Classification Explanations
+ *
+ * Decomposes each designation's raw score into psychometric dimension
+ * contributions and per-signal contributions, so a classification can
+ * answer "why this Glyph and not that one?".
+ *
+ * rawScore = psychometricWeight x sum(dimension contributions)
+ *          + (1 - psychometricWeight) x sum(signal contributions)
+ */
+
+import type {
+  Designation,
+  Glyph,
+  ArchetypeClassification,
+  Psychometrics,
+  SignalSource,
+  ExplicitKind,
+  ImplicitKind
+} from '../types';
+import { ALL_DESIGNATIONS, isExplicitSignal } from '../types';
+import { classify, type ClassificationInput } from './classifier';
+import { calculateSimilarityBreakdown, type DimensionContribution } from './psychometrics';
+import { DEFAULT_SCORING_CONFIG, mergeConfig } from './weights';
+import { getScoringConfig } from './registry';
+import { toGlyph } from '../pantheon/definitions';
+
+/**
+ * Explanation options
+ */
+export interface ExplanationOptions {
+  // Designation to contrast with the primary (defaults to the runner-up)
+  versus?: Designation;
+
+  // Drivers returned on each side of the comparison
+  topDrivers?: number;
+}
+
+/**
+ * Contribution of one signal to a designation's raw score
+ */
+export interface SignalContribution {
+  index: number;
+  source: SignalSource;
+  kind: ExplicitKind | ImplicitKind;
+  questionId?: string;
+  itemId?: string;
+  weight: number;
+  archetypeWeight: number;
+  contribution: number;
+}
+
+/**
+ * Raw score decomposition for one designation
+ */
+export interface DesignationExplanation {
+  designation: Designation;
+  glyph: Glyph;
+  rawScore: number;
+  probability: number;
+  psychometric: {
+    similarity: number;
+    contribution: number;
+    dimensions: DimensionContribution[];
+  };
+  signals: {
+    contribution: number;
+    items: SignalContribution[];
+  };
+}
+
+/**
+ * A dimension or signal that separates primary from the compared designation
+ */
+export interface ExplanationDriver {
+  type: 'dimension' | 'signal';
+  dimension?: string;
+  index?: number;
+  source?: SignalSource;
+  questionId?: string;
+  itemId?: string;
+  primary: number;
+  versus: number;
+  delta: number;
+  // |delta| as a share of all drivers' |delta|
+  share: number;
+}
+
+/**
+ * Full explanation (server-side, includes engine internals)
+ */
+export interface ClassificationExplanation {
+  classification: ArchetypeClassification;
+  designations: Record<Designation, DesignationExplanation>;
+  comparison: {
+    primary: Designation;
+    versus: Designation;
+    margin: number;
+    drivers: ExplanationDriver[];
+    counterDrivers: ExplanationDriver[];
+  };
+  psychometrics: Psychometrics;
+  sephiroticBalance: Record<string, number>;
+  orishaResonance: { primary: string; shadow: string };
+}
+
+/**
+ * Public driver (no trait targets or raw scores)
+ */
+export interface PublicExplanationDriver {
+  type: 'dimension' | 'signal';
+  dimension?: string;
+  source?: SignalSource;
+  questionId?: string;
+  itemId?: string;
+  share: number;
+}
+
+/**
+ * Public explanation (safe for client)
+ */
+export interface ClassificationExplanationPublic {
+  primary: { designation: Designation; glyph: Glyph };
+  versus: { designation: Designation; glyph: Glyph };
+  drivers: PublicExplanationDriver[];
+  counterDrivers: PublicExplanationDriver[];
+}
+
+/**
+ * Classify signals and explain the result
+ */
+export function explainClassification(
+  input: ClassificationInput,
+  options: ExplanationOptions = {}
+): ClassificationExplanation {
+  const base = input.configId
+    ? getScoringConfig(input.configId, input.configVersion)
+    : DEFAULT_SCORING_CONFIG;
+  const config = mergeConfig(base, input.config || {});
+  const result = classify(input);
+
+  // Accumulate per-signal archetype scores, mirroring the classifier
+  const perSignal: Record<Designation, SignalContribution[]> = {} as Record<Designation, SignalContribution[]>;
+  const totals: Record<Designation, number> = {} as Record<Designation, number>;
+  for (const d of ALL_DESIGNATIONS) {
+    perSignal[d] = [];
+    totals[d] = 0;
+  }
+
+  input.signals.forEach((signal, i) => {
+    if (!isExplicitSignal(signal.data) || !signal.data.archetypeWeights) return;
+
+    const weighting = result.signalWeights[i];
+    for (const [designation, archetypeWeight] of Object.entries(signal.data.archetypeWeights)) {
+      const d = designation as Designation;
+      const score = archetypeWeight * weighting.weight;
+      totals[d] += score;
+      perSignal[d].push({
+        index: i,
+        source: weighting.source,
+        kind: weighting.kind,
+        questionId: weighting.questionId,
+        itemId: weighting.itemId,
+        weight: weighting.weight,
+        archetypeWeight,
+        contribution: score
+      });
+    }
+  });
+
+  // Same normaliser as normaliseSignalScores, then the signal share of the blend
+  const normaliser = Math.max(...Object.values(totals), 1);
+  const signalShare = (1 - config.psychometricWeight) / normaliser;
+
+  const designations = {} as Record<Designation, DesignationExplanation>;
+
+  for (const d of ALL_DESIGNATIONS) {
+    const dimensions = calculateSimilarityBreakdown(result.psychometrics, d)
+      .map(dim => ({ ...dim, contribution: dim.contribution * config.psychometricWeight }));
+    const items = perSignal[d]
+      .map(item => ({ ...item, contribution: item.contribution * signalShare }));
+
+    const psychometricContribution = dimensions.reduce((sum, dim) => sum + dim.contribution, 0);
+
+    designations[d] = {
+      designation: d,
+      glyph: toGlyph(d),
+      rawScore: result.rawScores[d],
+      probability: result.classification.distribution[d] || 0,
+      psychometric: {
+        similarity: config.psychometricWeight > 0
+          ? psychometricContribution / config.psychometricWeight
+          : 0,
+        contribution: psychometricContribution,
+        dimensions
+      },
+      signals: {
+        contribution: items.reduce((sum, item) => sum + item.contribution, 0),
+        items
+      }
+    };
+  }
+
+  const primary = result.classification.primary.designation;
+  const versus = options.versus && options.versus !== primary
+    ? options.versus
+    : runnerUp(result.rawScores, primary);
+
+  const drivers = compareDesignations(designations[primary], designations[versus]);
+  const topDrivers = options.topDrivers ?? 5;
+
+  return {
+    classification: result.classification,
+    designations,
+    comparison: {
+      primary,
+      versus,
+      margin: designations[primary].rawScore - designations[versus].rawScore,
+      drivers: drivers.filter(d => d.delta > 0).slice(0, topDrivers),
+      counterDrivers: drivers.filter(d => d.delta < 0).reverse().slice(0, topDrivers)
+    },
+    psychometrics: result.psychometrics,
+    sephiroticBalance: result.sephiroticBalance,
+    orishaResonance: result.orishaResonance
+  };
+}
+
+/**
+ * Convert explanation to public format (strips engine internals)
+ */
+export function toPublicExplanation(
+  explanation: ClassificationExplanation
+): ClassificationExplanationPublic {
+  const toPublicDriver = (driver: ExplanationDriver): PublicExplanationDriver => ({
+    type: driver.type,
+    dimension: driver.dimension,
+    source: driver.source,
+    questionId: driver.questionId,
+    itemId: driver.itemId,
+    share: driver.share
+  });
+
+  const { primary, versus } = explanation.comparison;
+
+  return {
+    primary: { designation: primary, glyph: toGlyph(primary) },
+    versus: { designation: versus, glyph: toGlyph(versus) },
+    drivers: explanation.comparison.drivers.map(toPublicDriver),
+    counterDrivers: explanation.comparison.counterDrivers.map(toPublicDriver)
+  };
+}
+
+/**
+ * Highest raw score other than the primary
+ */
+function runnerUp(
+  rawScores: Record<Designation, number>,
+  primary: Designation
+): Designation {
+  return ALL_DESIGNATIONS
+    .filter(d => d !== primary)
+    .sort((a, b) => rawScores[b] - rawScores[a])[0];
+}
+
+/**
+ * Pair up dimensions and signals across two designations, sorted by delta
+ */
+function compareDesignations(
+  primary: DesignationExplanation,
+  versus: DesignationExplanation
+): ExplanationDriver[] {
+  const drivers = new Map<string, ExplanationDriver>();
+
+  const entry = (key: string, init: Omit<ExplanationDriver, 'primary' | 'versus' | 'delta' | 'share'>) => {
+    let driver = drivers.get(key);
+    if (!driver) {
+      driver = { ...init, primary: 0, versus: 0, delta: 0, share: 0 };
+      drivers.set(key, driver);
+    }
+    return driver;
+  };
+
+  for (const [side, explanation] of [['primary', primary], ['versus', versus]] as const) {
+    for (const dim of explanation.psychometric.dimensions) {
+      entry(`dimension:${dim.dimension}`, { type: 'dimension', dimension: dim.dimension })[side] += dim.contribution;
+    }
+
+    for (const item of explanation.signals.items) {
+      entry(`signal:${item.index}`, {
+        type: 'signal',
+        index: item.index,
+        source: item.source,
+        questionId: item.questionId,
+        itemId: item.itemId
+      })[side] += item.contribution;
+    }
+  }
+
+  const all = Array.from(drivers.values());
+  for (const driver of all) {
+    driver.delta = driver.primary - driver.versus;
+  }
+
+  const total = all.reduce((sum, driver) => sum + Math.abs(driver.delta), 0);
+  for (const driver of all) {
+    driver.share = total > 0 ? Math.abs(driver.delta) / total : 0;
+  }
+
+  return all.sort((a, b) => b.delta - a.delta);
+}
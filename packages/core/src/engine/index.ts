@@ -14,23 +14,86 @@ export type {
   ClassificationResult
 } from './classifier';
 
+// Explanations
+export {
+  explainClassification,
+  toPublicExplanation
+} from './explain';
+
+export type {
+  ExplanationOptions,
+  SignalContribution,
+  DesignationExplanation,
+  ExplanationDriver,
+  ClassificationExplanation,
+  PublicExplanationDriver,
+  ClassificationExplanationPublic
+} from './explain';
+
 // Psychometrics
 export {
   getDefaultPsychometrics,
   applyTraitDeltas,
   extractTraitDeltas,
   calculatePsychometricSimilarity,
+  calculateSimilarityBreakdown,
   calculateAllSimilarities
 } from './psychometrics';
 
-export type { TraitDelta } from './psychometrics';
+export type { TraitDelta, DimensionContribution } from './psychometrics';
+
+// Item features
+export {
+  ITEM_FEATURE_TRAITS,
+  getImplicitPolarity,
+  getItemTraitProfiles
+} from './item-features';
+
+export type { ItemFeature, ItemTraitProfile } from './item-features';
+
+// Uncertainty
+export { calculateUncertainty } from './uncertainty';
+
+// Calibration
+export {
+  evaluateScoringConfig,
+  fitScoringConfig,
+  DEFAULT_CALIBRATION_SEARCH
+} from './calibration';
+
+export type {
+  LabelledExample,
+  CalibrationSearchSpace,
+  CalibrationOptions
+} from './calibration';
+
+// Scoring config registry
+export {
+  DEFAULT_SCORING_CONFIG_ID,
+  registerScoringConfig,
+  getScoringConfigArtefact,
+  getScoringConfig,
+  listScoringConfigs,
+  loadScoringConfigArtefact
+} from './registry';
+
+export type {
+  CalibrationMetrics,
+  ScoringConfigArtefact
+} from './registry';
 
 // Weights configuration
 export {
   DEFAULT_SCORING_CONFIG,
   CONTEXT_WEIGHTS,
   mergeConfig,
-  getContextConfig
+  getContextConfig,
+  getSignalWeighting,
+  getSignalWeightings
 } from './weights';
 
-export type { ScoringConfig } from './weights';
+export type {
+  ScoringConfig,
+  SignalWeighting,
+  TemporallyWeightedSignal
+} from './weights';
@@ -0,0 +1,116 @@
+/**
+ * @subtaste/core - Item Feature Trait Model
+ *
+ * Maps item features carried on implicit signals (saves, repeats, skips)
+ * to the psychometric traits they reveal. Engaging with a complex item is
+ * evidence towards that item's trait profile; skipping it is weaker evidence
+ * away from it.
+ */
+
+import type {
+  Signal,
+  ImplicitSignal,
+  OpennessFacets,
+  MusicPreferences
+} from '../types';
+import { isImplicitSignal } from '../types';
+
+/**
+ * Item features understood by the trait model
+ */
+export type ItemFeature =
+  | 'isObscure'
+  | 'isComplex'
+  | 'isAggressive'
+  | 'isNostalgic'
+  | 'isExperimental';
+
+/**
+ * Trait profile of an item feature (0-1 targets, unlisted traits untouched)
+ */
+export interface ItemTraitProfile {
+  openness?: Partial<OpennessFacets>;
+  intellect?: number;
+  musicPreferences?: Partial<MusicPreferences>;
+}
+
+/**
+ * Trait profile per item feature
+ */
+export const ITEM_FEATURE_TRAITS: Record<ItemFeature, ItemTraitProfile> = {
+  isObscure: {
+    openness: { aesthetics: 0.7, values: 0.65 },
+    musicPreferences: { sophisticated: 0.65, unpretentious: 0.35, contemporary: 0.4 }
+  },
+  isComplex: {
+    openness: { ideas: 0.75, aesthetics: 0.65 },
+    intellect: 0.75,
+    musicPreferences: { sophisticated: 0.8, mellow: 0.45 }
+  },
+  isAggressive: {
+    openness: { actions: 0.6, feelings: 0.6 },
+    musicPreferences: { intense: 0.85, mellow: 0.25 }
+  },
+  isNostalgic: {
+    openness: { feelings: 0.7, actions: 0.4 },
+    musicPreferences: { unpretentious: 0.7, contemporary: 0.3 }
+  },
+  isExperimental: {
+    openness: { actions: 0.8, fantasy: 0.7, ideas: 0.7 },
+    musicPreferences: { unpretentious: 0.3, contemporary: 0.6 }
+  }
+};
+
+/**
+ * Direction and strength of an implicit signal (-1 to 1)
+ * Positive engagement observes the item's traits, avoidance their mirror image.
+ * Dwell on a clip with a known length (metadata.clipDurationMs) is judged by
+ * the share heard rather than absolute time.
+ */
+export function getImplicitPolarity(data: ImplicitSignal): number {
+  switch (data.kind) {
+    case 'save':
+    case 'repeat':
+    case 'share':
+      return 1;
+
+    case 'click':
+      return 0.7;
+
+    case 'skip':
+      return -0.5;
+
+    case 'dwell': {
+      const clipMs = data.metadata?.clipDurationMs;
+      if (typeof clipMs === 'number' && clipMs > 0) {
+        const heard = (data.duration || 0) / clipMs;
+        if (heard >= 0.75) return 0.5;
+        if (heard < 0.25) return -0.25;
+        return 0;
+      }
+
+      const seconds = (data.duration || 0) / 1000;
+      if (seconds > 180) return 0.5;
+      if (seconds < 10) return -0.25;
+      return 0;
+    }
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Trait profiles for the features flagged on an implicit signal's item
+ */
+export function getItemTraitProfiles(signal: Signal): ItemTraitProfile[] {
+  if (!isImplicitSignal(signal.data) || !signal.data.metadata) {
+    return [];
+  }
+
+  const metadata = signal.data.metadata;
+
+  return (Object.keys(ITEM_FEATURE_TRAITS) as ItemFeature[])
+    .filter(feature => metadata[feature] === true)
+    .map(feature => ITEM_FEATURE_TRAITS[feature]);
+}
@@ -13,8 +13,10 @@ import type {
   Signal,
   ExplicitSignal
 } from '../types';
-import { isExplicitSignal, ALL_DESIGNATIONS } from '../types';
+import { isExplicitSignal, isImplicitSignal, ALL_DESIGNATIONS } from '../types';
 import { INTERNAL_MAPPINGS, normalizePsychometricWeights } from '../pantheon/internal';
+import { DEFAULT_SCORING_CONFIG, getSignalWeighting, type ScoringConfig } from './weights';
+import { getImplicitPolarity, getItemTraitProfiles, type ItemTraitProfile } from './item-features';
 
 /**
  * Default psychometric profile (neutral starting point)
@@ -86,12 +88,29 @@ export function applyTraitDeltas(
 }
 
 /**
- * Extract trait deltas from explicit signals (quiz answers)
+ * Extract trait deltas from signals
+ * Quiz answers move traits through their archetype weights; implicit signals
+ * move them through the features of the item acted on, at implicitTraitWeight.
+ * Each delta is scaled by the signal's effective weight (decay, source trust, kind)
  */
-export function extractTraitDeltas(signals: Signal[]): TraitDelta[] {
+export function extractTraitDeltas(
+  signals: Signal[],
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): TraitDelta[] {
   const deltas: TraitDelta[] = [];
 
   for (const signal of signals) {
+    if (isImplicitSignal(signal.data)) {
+      const profiles = getItemTraitProfiles(signal);
+      const polarity = getImplicitPolarity(signal.data);
+
+      if (profiles.length > 0 && polarity !== 0) {
+        const { weight } = getSignalWeighting(signal, config);
+        deltas.push(itemTraitsToPsychometricDelta(profiles, polarity * weight * config.implicitTraitWeight));
+      }
+      continue;
+    }
+
     if (signal.type !== 'explicit' || !isExplicitSignal(signal.data)) {
       continue;
     }
@@ -100,7 +119,8 @@ export function extractTraitDeltas(signals: Signal[]): TraitDelta[] {
 
     // If the signal has archetype weights, convert to psychometric deltas
     if (explicit.archetypeWeights) {
-      const delta = archetypeWeightsToPsychometricDelta(explicit.archetypeWeights);
+      const { weight } = getSignalWeighting(signal, config);
+      const delta = archetypeWeightsToPsychometricDelta(explicit.archetypeWeights, weight);
       deltas.push(delta);
     }
   }
@@ -113,7 +133,8 @@ export function extractTraitDeltas(signals: Signal[]): TraitDelta[] {
  * Uses internal mappings to determine which traits to adjust
  */
 function archetypeWeightsToPsychometricDelta(
-  weights: Partial<Record<Designation, number>>
+  weights: Partial<Record<Designation, number>>,
+  signalWeight = 1
 ): TraitDelta {
   const delta: TraitDelta = {
     openness: {},
@@ -128,7 +149,7 @@ function archetypeWeightsToPsychometricDelta(
     const isLegacyScalar = typeof rawWeights.openness === 'number';
 
     // Scale by the question weight
-    const scale = weight * 0.1; // Small increments per question
+    const scale = weight * signalWeight * 0.1; // Small increments per question
 
     // Adjust openness (general openness affects all facets slightly)
     if (isLegacyScalar) {
@@ -163,44 +184,100 @@ function archetypeWeightsToPsychometricDelta(
 }
 
 /**
- * Calculate psychometric similarity to an archetype
- * Returns 0-1 score of how well a profile matches the archetype
+ * Convert item trait profiles to psychometric deltas
+ * Only the traits a feature describes move; a negative scale moves away.
  */
-export function calculatePsychometricSimilarity(
+function itemTraitsToPsychometricDelta(
+  profiles: ItemTraitProfile[],
+  scale: number
+): TraitDelta {
+  const delta: TraitDelta = {
+    openness: {},
+    intellect: 0,
+    musicPreferences: {}
+  };
+
+  // Same per-question increment as quiz answers
+  const step = scale * 0.1;
+
+  for (const profile of profiles) {
+    for (const [facet, target] of Object.entries(profile.openness || {})) {
+      const key = facet as keyof OpennessFacets;
+      delta.openness![key] = (delta.openness![key] || 0) + (target - 0.5) * step;
+    }
+
+    if (profile.intellect !== undefined) {
+      delta.intellect = (delta.intellect || 0) + (profile.intellect - 0.5) * step;
+    }
+
+    for (const [pref, target] of Object.entries(profile.musicPreferences || {})) {
+      const key = pref as keyof MusicPreferences;
+      delta.musicPreferences![key] = (delta.musicPreferences![key] || 0) + (target - 0.5) * step;
+    }
+  }
+
+  return delta;
+}
+
+/**
+ * Contribution of one psychometric dimension to archetype similarity
+ */
+export interface DimensionContribution {
+  dimension: string;
+  value: number;
+  target: number;
+  contribution: number;
+}
+
+/**
+ * Break psychometric similarity down by dimension
+ * Contributions sum to calculatePsychometricSimilarity
+ */
+export function calculateSimilarityBreakdown(
   profile: Psychometrics,
   designation: Designation
-): number {
+): DimensionContribution[] {
   const rawWeights = INTERNAL_MAPPINGS[designation].psychometricWeights;
   const target = normalizePsychometricWeights(rawWeights);
 
-  // Calculate distance for each dimension
-  const distances: number[] = [];
+  const pairs: [string, number, number][] = [];
 
   if (typeof rawWeights.openness === 'number') {
     const avgOpenness = Object.values(profile.openness).reduce((a, b) => a + b, 0) / 6;
-    distances.push(Math.abs(avgOpenness - target.openness.aesthetics));
+    pairs.push(['openness', avgOpenness, target.openness.aesthetics]);
   } else {
-    distances.push(Math.abs(profile.openness.fantasy - target.openness.fantasy));
-    distances.push(Math.abs(profile.openness.aesthetics - target.openness.aesthetics));
-    distances.push(Math.abs(profile.openness.feelings - target.openness.feelings));
-    distances.push(Math.abs(profile.openness.actions - target.openness.actions));
-    distances.push(Math.abs(profile.openness.ideas - target.openness.ideas));
-    distances.push(Math.abs(profile.openness.values - target.openness.values));
+    for (const facet of Object.keys(profile.openness) as (keyof OpennessFacets)[]) {
+      pairs.push([`openness.${facet}`, profile.openness[facet], target.openness[facet]]);
+    }
   }
 
   // Intellect
-  distances.push(Math.abs(profile.intellect - target.intellect));
+  pairs.push(['intellect', profile.intellect, target.intellect]);
 
   // Music preferences
-  distances.push(Math.abs(profile.musicPreferences.mellow - target.music.mellow));
-  distances.push(Math.abs(profile.musicPreferences.unpretentious - target.music.unpretentious));
-  distances.push(Math.abs(profile.musicPreferences.sophisticated - target.music.sophisticated));
-  distances.push(Math.abs(profile.musicPreferences.intense - target.music.intense));
-  distances.push(Math.abs(profile.musicPreferences.contemporary - target.music.contemporary));
-
-  // Average distance, inverted to similarity
-  const avgDistance = distances.reduce((a, b) => a + b, 0) / distances.length;
-  return 1 - avgDistance;
+  for (const dimension of Object.keys(profile.musicPreferences) as (keyof MusicPreferences)[]) {
+    pairs.push([`music.${dimension}`, profile.musicPreferences[dimension], target.music[dimension]]);
+  }
+
+  // Average distance, inverted to similarity, spread evenly across dimensions
+  return pairs.map(([dimension, value, targetValue]) => ({
+    dimension,
+    value,
+    target: targetValue,
+    contribution: (1 - Math.abs(value - targetValue)) / pairs.length
+  }));
+}
+
+/**
+ * Calculate psychometric similarity to an archetype
+ * Returns 0-1 score of how well a profile matches the archetype
+ */
+export function calculatePsychometricSimilarity(
+  profile: Psychometrics,
+  designation: Designation
+): number {
+  return calculateSimilarityBreakdown(profile, designation)
+    .reduce((sum, d) => sum + d.contribution, 0);
 }
 
 /**
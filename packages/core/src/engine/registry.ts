@@ -0,0 +1,128 @@
+/**
+ * @subtaste/core - Scoring Config Registry
+ *
+ * Versioned ScoringConfig artefacts that classification can load by id.
+ * Artefacts are plain JSON so fitted configs can be stored and shipped.
+ */
+
+import {
+  DEFAULT_SCORING_CONFIG,
+  type ScoringConfig,
+  mergeConfig
+} from './weights';
+
+/**
+ * Fit quality of a ScoringConfig against a labelled corpus
+ */
+export interface CalibrationMetrics {
+  // Number of labelled examples evaluated
+  n: number;
+
+  // Summed log probability assigned to the true designation
+  logLikelihood: number;
+
+  // logLikelihood / n
+  meanLogLikelihood: number;
+
+  // Expected calibration error of the primary assignment
+  ece: number;
+
+  // Share of examples whose primary matches the label
+  accuracy: number;
+}
+
+/**
+ * A versioned, serialisable ScoringConfig
+ */
+export interface ScoringConfigArtefact {
+  id: string;
+  version: number;
+  createdAt: string;
+  config: ScoringConfig;
+  metrics?: CalibrationMetrics;
+  baselineMetrics?: CalibrationMetrics;
+  corpusSize?: number;
+}
+
+/**
+ * Id of the hand-tuned default config
+ */
+export const DEFAULT_SCORING_CONFIG_ID = 'default';
+
+const artefacts = new Map<string, ScoringConfigArtefact[]>();
+
+/**
+ * Register an artefact so classify can load it by id
+ * Missing config fields fall back to the defaults, so older artefacts stay loadable.
+ */
+export function registerScoringConfig(
+  artefact: ScoringConfigArtefact
+): ScoringConfigArtefact {
+  const registered: ScoringConfigArtefact = {
+    ...artefact,
+    config: mergeConfig(DEFAULT_SCORING_CONFIG, artefact.config)
+  };
+
+  const versions = (artefacts.get(artefact.id) || [])
+    .filter(a => a.version !== artefact.version);
+  versions.push(registered);
+  versions.sort((a, b) => a.version - b.version);
+  artefacts.set(artefact.id, versions);
+
+  return registered;
+}
+
+/**
+ * Get an artefact by id (latest version unless one is given)
+ */
+export function getScoringConfigArtefact(
+  id: string,
+  version?: number
+): ScoringConfigArtefact | null {
+  const versions = artefacts.get(id);
+  if (!versions || versions.length === 0) return null;
+
+  if (version === undefined) {
+    return versions[versions.length - 1];
+  }
+
+  return versions.find(a => a.version === version) || null;
+}
+
+/**
+ * Resolve a registered ScoringConfig by id
+ */
+export function getScoringConfig(id: string, version?: number): ScoringConfig {
+  const artefact = getScoringConfigArtefact(id, version);
+  if (!artefact) {
+    throw new Error(`Unknown scoring config: ${id}${version !== undefined ? `@${version}` : ''}`);
+  }
+  return artefact.config;
+}
+
+/**
+ * List the latest version of every registered artefact
+ */
+export function listScoringConfigs(): ScoringConfigArtefact[] {
+  return Array.from(artefacts.values()).map(versions => versions[versions.length - 1]);
+}
+
+/**
+ * Parse a stored artefact and register it
+ */
+export function loadScoringConfigArtefact(json: string): ScoringConfigArtefact {
+  const artefact = JSON.parse(json) as ScoringConfigArtefact;
+
+  if (typeof artefact.id !== 'string' || typeof artefact.version !== 'number' || !artefact.config) {
+    throw new Error('Invalid scoring config artefact');
+  }
+
+  return registerScoringConfig(artefact);
+}
+
+registerScoringConfig({
+  id: DEFAULT_SCORING_CONFIG_ID,
+  version: 1,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  config: DEFAULT_SCORING_CONFIG
+});
@@ -0,0 +1,78 @@
+/**
+ * @subtaste/core - Classification Uncertainty
+ *
+ * Dirichlet posterior over the archetype distribution.
+ * The classifier's distribution is treated as the observed proportions of
+ * (signal weight x concentration) pseudo-observations on top of a uniform
+ * prior, giving a credible interval per designation.
+ */
+
+import type {
+  Designation,
+  ClassificationUncertainty,
+  CredibleInterval
+} from '../types';
+import { ALL_DESIGNATIONS } from '../types';
+import type { ScoringConfig } from './weights';
+
+/**
+ * Uniform Dirichlet prior per designation
+ */
+const DIRICHLET_PRIOR = 1;
+
+/**
+ * Calculate credible intervals, tie flag and evidence gate for a distribution
+ *
+ * @param distribution - Full (unfiltered) probability distribution
+ * @param evidence - Total effective signal weight behind the distribution
+ */
+export function calculateUncertainty(
+  distribution: Record<Designation, number>,
+  evidence: number,
+  config: ScoringConfig
+): ClassificationUncertainty {
+  const observations = Math.max(0, evidence) * config.evidenceConcentration;
+  const alphaTotal = DIRICHLET_PRIOR * ALL_DESIGNATIONS.length + observations;
+  const z = normalQuantile(0.5 + config.credibleLevel / 2);
+
+  const intervals = {} as Record<Designation, CredibleInterval>;
+
+  for (const d of ALL_DESIGNATIONS) {
+    // Marginal of a Dirichlet is Beta(alpha, alphaTotal - alpha)
+    const alpha = DIRICHLET_PRIOR + observations * (distribution[d] || 0);
+    const mean = alpha / alphaTotal;
+    const variance = (alpha * (alphaTotal - alpha)) / (alphaTotal * alphaTotal * (alphaTotal + 1));
+    const spread = z * Math.sqrt(variance);
+
+    intervals[d] = {
+      lower: Math.max(0, mean - spread),
+      upper: Math.min(1, mean + spread)
+    };
+  }
+
+  const [first, second] = [...ALL_DESIGNATIONS]
+    .sort((a, b) => (distribution[b] || 0) - (distribution[a] || 0));
+
+  return {
+    intervals,
+    level: config.credibleLevel,
+    evidence,
+    tie: intervals[first].lower <= intervals[second].upper,
+    sufficientEvidence: evidence >= config.minimumEvidence
+  };
+}
+
+/**
+ * Inverse standard normal CDF (Abramowitz & Stegun 26.2.23)
+ */
+function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < 0.5) return -normalQuantile(1 - p);
+
+  const t = Math.sqrt(-2 * Math.log(1 - p));
+  const numerator = 2.515517 + 0.802853 * t + 0.010328 * t * t;
+  const denominator = 1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t;
+
+  return t - numerator / denominator;
+}
@@ -5,6 +5,9 @@
  * These can be tuned based on empirical performance.
  */
 
+import type { Signal, SignalSource, ExplicitKind, ImplicitKind } from '../types';
+import { SIGNAL_WEIGHTS } from '../types';
+
 /**
  * Scoring configuration
  */
@@ -30,6 +33,21 @@ export interface ScoringConfig {
 
   // Decay factor for older signals (per day)
   temporalDecay: number;
+
+  // Trust multiplier per signal source (unlisted sources count as 1)
+  sourceTrust: Partial<Record<SignalSource, number>>;
+
+  // Credible interval level for per-designation uncertainty
+  credibleLevel: number;
+
+  // Dirichlet pseudo-observations per unit of signal weight
+  evidenceConcentration: number;
+
+  // Minimum signal weight before a Glyph is considered assigned
+  minimumEvidence: number;
+
+  // Trait step of implicit item features relative to a quiz answer
+  implicitTraitWeight: number;
 }
 
 /**
@@ -45,7 +63,25 @@ export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
     unintentionalImplicit: 0.3
   },
   psychometricWeight: 0.7,
-  temporalDecay: 0.99
+  temporalDecay: 0.99,
+  sourceTrust: {
+    quiz: 1.0,
+    calibration: 1.0,
+    swipe: 0.8,
+    feed: 0.7,
+    content: 0.7,
+    refyn: 0.8,
+    selectr: 0.8,
+    dropr: 0.8,
+    canora: 0.8,
+    external: 0.5,
+    api: 0.7,
+    migration: 0.6
+  },
+  credibleLevel: 0.9,
+  evidenceConcentration: 100,
+  minimumEvidence: 4,
+  implicitTraitWeight: 0.3
 };
 
 /**
@@ -92,14 +128,104 @@ export function mergeConfig(
     signalWeights: {
       ...base.signalWeights,
       ...overrides.signalWeights
+    },
+    sourceTrust: {
+      ...base.sourceTrust,
+      ...overrides.sourceTrust
     }
   };
 }
 
+/**
+ * Scoring overrides for contexts defined at runtime
+ * Written by the context registry; checked before CONTEXT_WEIGHTS.
+ */
+const contextOverrides = new Map<string, Partial<ScoringConfig>>();
+
+/**
+ * Set (or with null, clear) the scoring overrides for a context
+ */
+export function setContextWeights(
+  context: string,
+  overrides: Partial<ScoringConfig> | null
+): void {
+  if (overrides) {
+    contextOverrides.set(context, overrides);
+  } else {
+    contextOverrides.delete(context);
+  }
+}
+
 /**
  * Get scoring config for a context
  */
 export function getContextConfig(context: string): ScoringConfig {
-  const overrides = CONTEXT_WEIGHTS[context] || {};
+  const overrides = contextOverrides.get(context) || CONTEXT_WEIGHTS[context] || {};
   return mergeConfig(DEFAULT_SCORING_CONFIG, overrides);
 }
+
+/**
+ * Signal carrying a temporal weight stamped by applyTemporalDecay
+ */
+export type TemporallyWeightedSignal = Signal & { _temporalWeight?: number };
+
+/**
+ * Breakdown of the weight a single signal carries in classification
+ */
+export interface SignalWeighting {
+  index: number;
+  source: SignalSource;
+  kind: ExplicitKind | ImplicitKind;
+  questionId?: string;
+  itemId?: string;
+  temporal: number;
+  sourceTrust: number;
+  kindWeight: number;
+  typeWeight: number;
+  weight: number;
+}
+
+/**
+ * Compute the effective weight of a signal
+ * weight = temporal decay x source trust x kind weight x signal type weight
+ */
+export function getSignalWeighting(
+  signal: TemporallyWeightedSignal,
+  config: ScoringConfig,
+  index = 0
+): SignalWeighting {
+  const typeWeight = config.signalWeights[
+    signal.type === 'explicit' ? 'explicit' :
+    signal.type === 'intentional_implicit' ? 'intentionalImplicit' :
+    'unintentionalImplicit'
+  ];
+
+  const temporal = signal._temporalWeight ?? 1;
+  const sourceTrust = config.sourceTrust[signal.source] ?? 1;
+  const kindWeight = SIGNAL_WEIGHTS[signal.data.kind] ?? 1;
+
+  const data = signal.data as { questionId?: string; itemId?: string };
+
+  return {
+    index,
+    source: signal.source,
+    kind: signal.data.kind,
+    questionId: data.questionId,
+    itemId: data.itemId,
+    temporal,
+    sourceTrust,
+    kindWeight,
+    typeWeight,
+    weight: temporal * sourceTrust * kindWeight * typeWeight
+  };
+}
+
+/**
+ * Compute weightings for a list of signals
+ */
+export function getSignalWeightings(
+  signals: TemporallyWeightedSignal[],
+  config: ScoringConfig
+): SignalWeighting[] {
+  return signals.map((signal, index) => getSignalWeighting(signal, config, index));
+}
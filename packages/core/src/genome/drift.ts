@@ -0,0 +1,251 @@
+/**
+ * @subtaste/core - Drift Detection
+ *
+ * Sliding-window change-point detection over a user's classified history.
+ * Each candidate point compares the mean distribution of the windows before
+ * and after it; peaks above the threshold are reported as change points.
+ */
+
+import type { Designation, Glyph, Signal } from '../types';
+import { ALL_DESIGNATIONS } from '../types';
+import { toGlyph } from '../pantheon/definitions';
+import { classify } from '../engine/classifier';
+import type { ScoringConfig } from '../engine/weights';
+import type { GenomeSnapshot } from './history';
+
+/**
+ * One classified point in a user's history
+ */
+export interface DriftPoint {
+  timestamp: Date;
+  distribution: Record<Designation, number>;
+}
+
+/**
+ * Drift detection configuration
+ */
+export interface DriftConfig {
+  // Points on each side of a candidate change point
+  windowSize: number;
+
+  // Minimum total-variation distance between windows (0-1)
+  threshold: number;
+
+  // Minimum share change for a designation to count as gained or lost
+  minShift: number;
+}
+
+/**
+ * Default drift configuration
+ */
+export const DEFAULT_DRIFT_CONFIG: DriftConfig = {
+  windowSize: 3,
+  threshold: 0.2,
+  minShift: 0.05
+};
+
+/**
+ * Share change for one designation across a change point
+ */
+export interface DesignationShift {
+  designation: Designation;
+  glyph: Glyph;
+  delta: number;
+}
+
+/**
+ * A detected shift in taste
+ */
+export interface DriftChangePoint {
+  // First point after the shift
+  at: Date;
+  index: number;
+
+  // Total-variation distance between the before and after windows
+  magnitude: number;
+
+  from: Designation;
+  to: Designation;
+
+  // Designations gaining share, largest first
+  toward: DesignationShift[];
+
+  // Designations losing share, largest loss first
+  awayFrom: DesignationShift[];
+}
+
+/**
+ * Drift report for a classified history
+ */
+export interface DriftReport {
+  detected: boolean;
+  checkedAt: Date;
+  points: number;
+  changePoints: DriftChangePoint[];
+  latest: DriftChangePoint | null;
+}
+
+/**
+ * Find change points in a classified history
+ * Points are sorted by timestamp; overlapping peaks keep the strongest.
+ */
+export function detectChangePoints(
+  history: DriftPoint[],
+  config: Partial<DriftConfig> = {}
+): DriftChangePoint[] {
+  const { windowSize, threshold, minShift } = { ...DEFAULT_DRIFT_CONFIG, ...config };
+  const points = sortPoints(history);
+
+  if (windowSize < 1 || points.length < windowSize * 2) {
+    return [];
+  }
+
+  const candidates: DriftChangePoint[] = [];
+
+  for (let i = windowSize; i <= points.length - windowSize; i++) {
+    const before = meanDistribution(points.slice(i - windowSize, i));
+    const after = meanDistribution(points.slice(i, i + windowSize));
+    const magnitude = totalVariation(before, after);
+
+    if (magnitude < threshold) continue;
+
+    const shifts = ALL_DESIGNATIONS.map(designation => ({
+      designation,
+      glyph: toGlyph(designation),
+      delta: after[designation] - before[designation]
+    }));
+
+    candidates.push({
+      at: points[i].timestamp,
+      index: i,
+      magnitude,
+      from: argmax(before),
+      to: argmax(after),
+      toward: shifts
+        .filter(s => s.delta >= minShift)
+        .sort((a, b) => b.delta - a.delta),
+      awayFrom: shifts
+        .filter(s => s.delta <= -minShift)
+        .sort((a, b) => a.delta - b.delta)
+    });
+  }
+
+  // Non-maximum suppression: keep peaks at least one window apart
+  const accepted: DriftChangePoint[] = [];
+  for (const candidate of [...candidates].sort((a, b) => b.magnitude - a.magnitude)) {
+    if (accepted.every(p => Math.abs(p.index - candidate.index) >= windowSize)) {
+      accepted.push(candidate);
+    }
+  }
+
+  return accepted.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Run drift detection and summarise the result
+ */
+export function detectDrift(
+  history: DriftPoint[],
+  config: Partial<DriftConfig> = {},
+  now: Date = new Date()
+): DriftReport {
+  const changePoints = detectChangePoints(history, config);
+
+  return {
+    detected: changePoints.length > 0,
+    checkedAt: now,
+    points: history.length,
+    changePoints,
+    latest: changePoints[changePoints.length - 1] || null
+  };
+}
+
+/**
+ * Classified history from stored genome versions
+ */
+export function snapshotsToDriftPoints(snapshots: GenomeSnapshot[]): DriftPoint[] {
+  return sortPoints(snapshots.map(snapshot => ({
+    timestamp: new Date(snapshot.takenAt),
+    distribution: snapshot.genome.archetype.distribution
+  })));
+}
+
+/**
+ * Classified history from a raw signal log
+ * Consecutive windows of `size` signals are classified on their own,
+ * advancing by `step` signals. Each point is stamped with its last signal.
+ */
+export function classifySignalWindows(
+  signals: Signal[],
+  options: { size?: number; step?: number; scoring?: Partial<ScoringConfig> } = {}
+): DriftPoint[] {
+  const size = options.size ?? 10;
+  const step = options.step ?? Math.max(1, Math.floor(size / 2));
+  const ordered = [...signals]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const points: DriftPoint[] = [];
+
+  for (let start = 0; start + size <= ordered.length; start += step) {
+    const window = ordered.slice(start, start + size);
+    const result = classify({ signals: window, config: options.scoring });
+
+    points.push({
+      timestamp: new Date(window[window.length - 1].timestamp),
+      distribution: result.classification.distribution
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Helper: sort points oldest first
+ */
+function sortPoints(points: DriftPoint[]): DriftPoint[] {
+  return [...points].sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+/**
+ * Helper: average distribution over a window
+ */
+function meanDistribution(points: DriftPoint[]): Record<Designation, number> {
+  const mean = {} as Record<Designation, number>;
+
+  for (const d of ALL_DESIGNATIONS) {
+    let total = 0;
+    for (const point of points) {
+      total += point.distribution[d] || 0;
+    }
+    mean[d] = total / points.length;
+  }
+
+  return mean;
+}
+
+/**
+ * Helper: total-variation distance between two distributions
+ */
+function totalVariation(
+  a: Record<Designation, number>,
+  b: Record<Designation, number>
+): number {
+  let total = 0;
+  for (const d of ALL_DESIGNATIONS) {
+    total += Math.abs(a[d] - b[d]);
+  }
+  return total / 2;
+}
+
+/**
+ * Helper: designation with the largest share
+ */
+function argmax(distribution: Record<Designation, number>): Designation {
+  let best = ALL_DESIGNATIONS[0];
+  for (const d of ALL_DESIGNATIONS) {
+    if (distribution[d] > distribution[best]) best = d;
+  }
+  return best;
+}
@@ -7,89 +7,37 @@
 import type {
   TasteGenome,
   Signal,
-  SignalEvent,
   Psychometrics
 } from '../types';
-import { classify, type ClassificationResult } from '../engine/classifier';
-import { createGenome, incrementVersion } from './schema';
+import { classify } from '../engine/classifier';
+import { createGenomeFromSignals, applySignalsIncrementally } from './incremental';
 
 /**
  * Encode signals into a new TasteGenome
  */
 export function encodeSignalsToGenome(
   userId: string,
-  signals: Signal[]
+  signals: Signal[],
+  basePsychometrics?: Psychometrics
 ): TasteGenome {
-  const result = classify({ signals });
-
-  return createGenome({
-    userId,
-    classification: {
-      primary: {
-        designation: result.classification.primary.designation,
-        confidence: result.classification.primary.confidence
-      },
-      secondary: result.classification.secondary ? {
-        designation: result.classification.secondary.designation,
-        confidence: result.classification.secondary.confidence
-      } : null,
-      distribution: result.classification.distribution
-    },
-    psychometrics: result.psychometrics,
-    sephiroticBalance: result.sephiroticBalance,
-    orishaResonance: result.orishaResonance
-  });
+  return createGenomeFromSignals(userId, signals, basePsychometrics);
 }
 
 /**
  * Update an existing genome with new signals
+ * Incremental: only the new batch is processed, id is preserved
  */
 export function updateGenomeWithSignals(
   genome: TasteGenome,
   newSignals: Signal[]
 ): TasteGenome {
-  // Combine existing psychometrics with new signals
-  const result = classify({
-    signals: newSignals,
-    existingPsychometrics: genome._engine.psychometrics
-  });
-
-  const now = new Date();
-
-  // Convert signals to signal events
-  const signalEvents: SignalEvent[] = newSignals.map((signal, index) => ({
-    ...signal,
-    id: `signal_${Date.now()}_${index}`,
-    userId: genome.userId,
-    processed: true,
-    processedAt: now
-  }));
-
-  return {
-    ...genome,
-    version: genome.version + 1,
-    updatedAt: now,
-
-    archetype: result.classification,
-
-    _engine: {
-      ...genome._engine,
-      psychometrics: result.psychometrics,
-      sephiroticBalance: result.sephiroticBalance,
-      orishaResonance: result.orishaResonance
-    },
-
-    behaviour: {
-      ...genome.behaviour,
-      signalHistory: [...genome.behaviour.signalHistory, ...signalEvents].slice(-1000), // Keep last 1000
-      confidence: result.classification.primary.confidence,
-      lastCalibration: now
-    }
-  };
+  return applySignalsIncrementally(genome, newSignals);
 }
 
 /**
  * Merge two genomes (for combining profiles from different sources)
+ * Blends distributions and traits only; to link accounts with signal logs,
+ * use mergeAccountGenomes.
  */
 export function mergeGenomes(
   primary: TasteGenome,
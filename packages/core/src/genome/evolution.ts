@@ -10,7 +10,7 @@ import type {
   Designation
 } from '../types';
 import { classify } from '../engine/classifier';
-import { DEFAULT_SCORING_CONFIG } from '../engine/weights';
+import { applySignalsIncrementally } from './incremental';
 
 /**
  * Evolution configuration
@@ -185,46 +185,32 @@ export function calculateTasteStability(
 
 /**
  * Evolve genome based on new signals and time
+ * Uses the incremental path: existing evidence is aged, only new signals are processed
  */
 export function evolveGenome(
   genome: TasteGenome,
   newSignals: SignalEvent[],
   config: EvolutionConfig = DEFAULT_EVOLUTION_CONFIG
 ): TasteGenome {
-  // Apply temporal decay to existing history
-  const decayedHistory = applyTemporalDecay(genome.behaviour.signalHistory, config);
-
-  // Add new signals
-  const allSignals = [...decayedHistory, ...newSignals];
+  const updated = applySignalsIncrementally(genome, newSignals, {
+    config: {
+      dailyDecay: config.dailyDecay,
+      maxHistorySize: config.maxHistorySize
+    }
+  });
 
   // Prune if necessary
-  const prunedSignals = pruneSignalHistory(allSignals, config);
-
-  // Reclassify
-  const result = classify({
-    signals: prunedSignals,
-    existingPsychometrics: genome._engine.psychometrics
-  });
+  const prunedSignals = pruneSignalHistory(updated.behaviour.signalHistory, config);
 
   // Calculate new confidence
   const confidence = calculateHistoricalConfidence(prunedSignals, config);
 
   return {
-    ...genome,
-    version: genome.version + 1,
-    updatedAt: new Date(),
-    archetype: result.classification,
-    _engine: {
-      ...genome._engine,
-      psychometrics: result.psychometrics,
-      sephiroticBalance: result.sephiroticBalance,
-      orishaResonance: result.orishaResonance
-    },
+    ...updated,
     behaviour: {
-      ...genome.behaviour,
+      ...updated.behaviour,
       signalHistory: prunedSignals,
-      confidence,
-      lastCalibration: new Date()
+      confidence
     }
   };
 }
@@ -0,0 +1,127 @@
+/**
+ * @subtaste/core - Genome History
+ *
+ * Point-in-time reconstruction, version diffs and rollback over
+ * append-only genome snapshots. Storage is left to the caller.
+ */
+
+import type { Designation, Glyph, TasteGenome } from '../types';
+import { ALL_DESIGNATIONS } from '../types';
+import { getGenomeSignalCount } from './incremental';
+
+/**
+ * A stored genome version
+ */
+export interface GenomeSnapshot {
+  genome: TasteGenome;
+  trigger: string;
+  takenAt: Date;
+}
+
+/**
+ * Difference between two genome versions
+ */
+export interface GenomeDiff {
+  genomeId: string;
+  fromVersion: number;
+  toVersion: number;
+  distributionDelta: Record<Designation, number>;
+  primary: { from: Designation; to: Designation; changed: boolean };
+  glyph: { from: Glyph; to: Glyph; changed: boolean };
+  secondary: { from: Designation | null; to: Designation | null; changed: boolean };
+  confidence: { from: number; to: number; delta: number };
+  signalCount: { from: number; to: number; delta: number };
+}
+
+/**
+ * Diff two versions of a genome
+ */
+export function diffGenomes(from: TasteGenome, to: TasteGenome): GenomeDiff {
+  const distributionDelta = {} as Record<Designation, number>;
+  for (const d of ALL_DESIGNATIONS) {
+    distributionDelta[d] = (to.archetype.distribution[d] || 0) - (from.archetype.distribution[d] || 0);
+  }
+
+  const fromSecondary = from.archetype.secondary?.designation || null;
+  const toSecondary = to.archetype.secondary?.designation || null;
+  const fromSignals = getGenomeSignalCount(from);
+  const toSignals = getGenomeSignalCount(to);
+
+  return {
+    genomeId: to.id,
+    fromVersion: from.version,
+    toVersion: to.version,
+    distributionDelta,
+    primary: {
+      from: from.archetype.primary.designation,
+      to: to.archetype.primary.designation,
+      changed: from.archetype.primary.designation !== to.archetype.primary.designation
+    },
+    glyph: {
+      from: from.archetype.primary.glyph,
+      to: to.archetype.primary.glyph,
+      changed: from.archetype.primary.glyph !== to.archetype.primary.glyph
+    },
+    secondary: {
+      from: fromSecondary,
+      to: toSecondary,
+      changed: fromSecondary !== toSecondary
+    },
+    confidence: {
+      from: from.behaviour.confidence,
+      to: to.behaviour.confidence,
+      delta: to.behaviour.confidence - from.behaviour.confidence
+    },
+    signalCount: {
+      from: fromSignals,
+      to: toSignals,
+      delta: toSignals - fromSignals
+    }
+  };
+}
+
+/**
+ * Latest snapshot taken at or before a point in time
+ */
+export function getSnapshotAsOf(
+  snapshots: GenomeSnapshot[],
+  asOf: Date
+): GenomeSnapshot | null {
+  let latest: GenomeSnapshot | null = null;
+
+  for (const snapshot of snapshots) {
+    if (snapshot.takenAt.getTime() > asOf.getTime()) continue;
+    if (!latest || snapshot.takenAt.getTime() >= latest.takenAt.getTime()) {
+      latest = snapshot;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Restore an earlier version as a new version
+ * History stays append-only: the rollback itself gets the next version number.
+ * Sigil reveal state is kept from the current genome.
+ */
+export function rollbackGenome(
+  current: TasteGenome,
+  target: TasteGenome,
+  now: Date = new Date()
+): TasteGenome {
+  const restored = structuredClone(target);
+
+  return {
+    ...restored,
+    id: current.id,
+    userId: current.userId,
+    version: current.version + 1,
+    createdAt: current.createdAt,
+    updatedAt: now,
+    formal: {
+      ...restored.formal,
+      revealed: current.formal.revealed,
+      revealedAt: current.formal.revealedAt
+    }
+  };
+}
@@ -0,0 +1,504 @@
+/**
+ * @subtaste/core - Incremental Genome Updates
+ *
+ * Bayesian updating from sufficient statistics.
+ * A new signal batch updates per-designation evidence and trait posteriors
+ * in O(batch), preserving the genome's id and advancing its version.
+ */
+
+import type {
+  TasteGenome,
+  GenomeEvidence,
+  TraitPosterior,
+  Designation,
+  Signal,
+  SignalEvent,
+  Psychometrics,
+  OpennessFacets,
+  MusicPreferences
+} from '../types';
+import { ALL_DESIGNATIONS, isExplicitSignal, isImplicitSignal } from '../types';
+import {
+  classifyFromScores,
+  normaliseSignalScores,
+  type ClassificationResult
+} from '../engine/classifier';
+import { getDefaultPsychometrics } from '../engine/psychometrics';
+import {
+  getImplicitPolarity,
+  getItemTraitProfiles,
+  type ItemTraitProfile
+} from '../engine/item-features';
+import {
+  DEFAULT_SCORING_CONFIG,
+  mergeConfig,
+  getSignalWeighting,
+  type ScoringConfig
+} from '../engine/weights';
+import { getPsychometricWeights } from '../pantheon/internal';
+import { toSigil } from '../pantheon/definitions';
+import { createGenome } from './schema';
+
+/**
+ * Incremental update configuration
+ */
+export interface IncrementalConfig {
+  // Prior variance of every trait before any evidence
+  priorVariance: number;
+
+  // Observation noise of a single unit-weight signal on a trait
+  observationNoise: number;
+
+  // Variance added per day so old trait evidence loosens over time
+  traitDriftPerDay: number;
+
+  // Decay of designation evidence per day
+  dailyDecay: number;
+
+  // Maximum signal history to retain on the genome (0 keeps aggregates only)
+  maxHistorySize: number;
+}
+
+/**
+ * Default incremental configuration
+ */
+export const DEFAULT_INCREMENTAL_CONFIG: IncrementalConfig = {
+  priorVariance: 0.05,
+  observationNoise: 0.5,
+  traitDriftPerDay: 0.0005,
+  dailyDecay: 0.99,
+  maxHistorySize: 1000
+};
+
+/**
+ * Options for an incremental update
+ */
+export interface IncrementalUpdateOptions {
+  config?: Partial<IncrementalConfig>;
+  scoring?: Partial<ScoringConfig>;
+  now?: Date;
+}
+
+const OPENNESS_KEYS: (keyof OpennessFacets)[] = [
+  'fantasy', 'aesthetics', 'feelings', 'actions', 'ideas', 'values'
+];
+
+const MUSIC_KEYS: (keyof MusicPreferences)[] = [
+  'mellow', 'unpretentious', 'sophisticated', 'intense', 'contemporary'
+];
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Create empty evidence with trait priors centred on a psychometric profile
+ */
+export function createEvidence(
+  psychometrics: Psychometrics = getDefaultPsychometrics(),
+  config: Partial<IncrementalConfig> = {},
+  now: Date = new Date()
+): GenomeEvidence {
+  const { priorVariance } = { ...DEFAULT_INCREMENTAL_CONFIG, ...config };
+  const prior = (mean: number): TraitPosterior => ({ mean, variance: priorVariance });
+
+  const designations = {} as Record<Designation, number>;
+  for (const d of ALL_DESIGNATIONS) {
+    designations[d] = 0;
+  }
+
+  const openness = {} as Record<keyof OpennessFacets, TraitPosterior>;
+  for (const key of OPENNESS_KEYS) {
+    openness[key] = prior(psychometrics.openness[key]);
+  }
+
+  const musicPreferences = {} as Record<keyof MusicPreferences, TraitPosterior>;
+  for (const key of MUSIC_KEYS) {
+    musicPreferences[key] = prior(psychometrics.musicPreferences[key]);
+  }
+
+  return {
+    designations,
+    traits: {
+      openness,
+      intellect: prior(psychometrics.intellect),
+      musicPreferences
+    },
+    signalCount: 0,
+    totalWeight: 0,
+    updatedAt: now
+  };
+}
+
+/**
+ * Update evidence with a batch of signals
+ *
+ * Existing evidence is first aged to `now` (designation evidence decays,
+ * trait variance widens), then each signal adds weighted designation
+ * evidence and a precision-weighted trait observation.
+ */
+export function updateEvidence(
+  evidence: GenomeEvidence,
+  signals: Signal[],
+  options: IncrementalUpdateOptions = {}
+): GenomeEvidence {
+  const config = { ...DEFAULT_INCREMENTAL_CONFIG, ...options.config };
+  const scoring = mergeConfig(DEFAULT_SCORING_CONFIG, options.scoring || {});
+  const now = options.now || new Date();
+
+  const result = ageEvidence(evidence, config, now);
+
+  const weigh = (signal: Signal): number => {
+    const ageDays = Math.max(0, (now.getTime() - new Date(signal.timestamp).getTime()) / MS_PER_DAY);
+    return getSignalWeighting(
+      { ...signal, _temporalWeight: Math.pow(config.dailyDecay, ageDays) } as Signal,
+      scoring
+    ).weight;
+  };
+
+  for (const signal of signals) {
+    // Implicit behaviour only moves traits, through the item's features
+    if (isImplicitSignal(signal.data)) {
+      const profiles = getItemTraitProfiles(signal);
+      const polarity = getImplicitPolarity(signal.data);
+
+      if (profiles.length > 0 && polarity !== 0) {
+        observeItemTraits(result, profiles, polarity * weigh(signal) * scoring.implicitTraitWeight, config);
+        result.signalCount += 1;
+      }
+      continue;
+    }
+
+    if (!isExplicitSignal(signal.data) || !signal.data.archetypeWeights) {
+      continue;
+    }
+
+    const archetypeWeights = signal.data.archetypeWeights;
+    const weight = weigh(signal);
+
+    for (const [designation, value] of Object.entries(archetypeWeights)) {
+      result.designations[designation as Designation] += (value || 0) * weight;
+    }
+
+    if (signal.type === 'explicit') {
+      observeTraits(result, archetypeWeights, weight, config);
+    }
+
+    result.signalCount += 1;
+    result.totalWeight += weight;
+  }
+
+  return result;
+}
+
+/**
+ * Read the current psychometric profile from the trait posterior means
+ */
+export function evidenceToPsychometrics(evidence: GenomeEvidence): Psychometrics {
+  const openness = {} as OpennessFacets;
+  for (const key of OPENNESS_KEYS) {
+    openness[key] = clamp(evidence.traits.openness[key].mean);
+  }
+
+  const musicPreferences = {} as MusicPreferences;
+  for (const key of MUSIC_KEYS) {
+    musicPreferences[key] = clamp(evidence.traits.musicPreferences[key].mean);
+  }
+
+  return {
+    openness,
+    intellect: clamp(evidence.traits.intellect.mean),
+    musicPreferences
+  };
+}
+
+/**
+ * Classify directly from evidence, without touching signal history
+ */
+export function classifyEvidence(
+  evidence: GenomeEvidence,
+  scoring: Partial<ScoringConfig> = {}
+): ClassificationResult {
+  const config = mergeConfig(DEFAULT_SCORING_CONFIG, scoring);
+  const psychometrics = evidenceToPsychometrics(evidence);
+  const signalScores = normaliseSignalScores(evidence.designations);
+
+  return {
+    ...classifyFromScores(psychometrics, signalScores, config, evidence.totalWeight),
+    signalWeights: []
+  };
+}
+
+/**
+ * Build evidence for a genome that predates incremental updates
+ * Trait priors come from the stored psychometrics (which already reflect the
+ * history); designation evidence is accumulated once from the stored history.
+ */
+export function bootstrapEvidence(
+  genome: TasteGenome,
+  options: IncrementalUpdateOptions = {}
+): GenomeEvidence {
+  const now = options.now || new Date();
+  const history = genome.behaviour.signalHistory || [];
+
+  const base = createEvidence(genome._engine.psychometrics, options.config, now);
+  const withHistory = updateEvidence(base, history, options);
+
+  // Keep the trait posteriors at the stored psychometrics; only designation
+  // evidence and counters come from replaying history
+  return {
+    ...withHistory,
+    traits: base.traits
+  };
+}
+
+/**
+ * Create a new genome from signals through the incremental path
+ */
+export function createGenomeFromSignals(
+  userId: string,
+  signals: Signal[],
+  basePsychometrics?: Psychometrics,
+  options: IncrementalUpdateOptions = {}
+): TasteGenome {
+  const config = { ...DEFAULT_INCREMENTAL_CONFIG, ...options.config };
+  const now = options.now || new Date();
+  const evidence = updateEvidence(
+    createEvidence(basePsychometrics, options.config, now),
+    signals,
+    { ...options, now }
+  );
+  const result = classifyEvidence(evidence, options.scoring);
+
+  const genome = createGenome({
+    userId,
+    classification: result.classification,
+    psychometrics: result.psychometrics,
+    sephiroticBalance: result.sephiroticBalance,
+    orishaResonance: result.orishaResonance
+  });
+
+  return {
+    ...genome,
+    _engine: {
+      ...genome._engine,
+      evidence
+    },
+    behaviour: {
+      ...genome.behaviour,
+      signalHistory: trimHistory(toSignalEvents(userId, signals, now), config.maxHistorySize)
+    }
+  };
+}
+
+/**
+ * Apply a batch of signals to an existing genome in O(batch)
+ * Preserves id and createdAt, increments version.
+ */
+export function applySignalsIncrementally(
+  genome: TasteGenome,
+  signals: Signal[],
+  options: IncrementalUpdateOptions = {}
+): TasteGenome {
+  const config = { ...DEFAULT_INCREMENTAL_CONFIG, ...options.config };
+  const now = options.now || new Date();
+
+  const prior = genome._engine.evidence || bootstrapEvidence(genome, options);
+  const evidence = updateEvidence(prior, signals, { ...options, now });
+  const result = classifyEvidence(evidence, options.scoring);
+
+  const history = trimHistory([
+    ...(genome.behaviour.signalHistory || []),
+    ...toSignalEvents(genome.userId, signals, now)
+  ], config.maxHistorySize);
+
+  return {
+    ...genome,
+    version: genome.version + 1,
+    updatedAt: now,
+    archetype: result.classification,
+    formal: {
+      ...genome.formal,
+      primarySigil: toSigil(result.classification.primary.designation),
+      secondarySigil: result.classification.secondary
+        ? toSigil(result.classification.secondary.designation)
+        : null
+    },
+    _engine: {
+      ...genome._engine,
+      psychometrics: result.psychometrics,
+      sephiroticBalance: result.sephiroticBalance,
+      orishaResonance: result.orishaResonance,
+      evidence
+    },
+    behaviour: {
+      ...genome.behaviour,
+      signalHistory: history,
+      confidence: result.classification.primary.confidence,
+      lastCalibration: now
+    }
+  };
+}
+
+/**
+ * Count of signals folded into a genome
+ * Uses the evidence counter, since signal history may be trimmed or empty.
+ */
+export function getGenomeSignalCount(genome: TasteGenome): number {
+  return genome._engine.evidence?.signalCount ?? (genome.behaviour.signalHistory?.length || 0);
+}
+
+/**
+ * Age evidence to a point in time (returns a copy)
+ */
+function ageEvidence(
+  evidence: GenomeEvidence,
+  config: IncrementalConfig,
+  now: Date
+): GenomeEvidence {
+  const days = Math.max(0, (now.getTime() - new Date(evidence.updatedAt).getTime()) / MS_PER_DAY);
+  const decay = Math.pow(config.dailyDecay, days);
+  const drift = config.traitDriftPerDay * days;
+  const widen = (p: TraitPosterior): TraitPosterior => ({
+    mean: p.mean,
+    variance: Math.min(config.priorVariance, p.variance + drift)
+  });
+
+  const designations = {} as Record<Designation, number>;
+  for (const d of ALL_DESIGNATIONS) {
+    designations[d] = (evidence.designations[d] || 0) * decay;
+  }
+
+  const openness = {} as Record<keyof OpennessFacets, TraitPosterior>;
+  for (const key of OPENNESS_KEYS) {
+    openness[key] = widen(evidence.traits.openness[key]);
+  }
+
+  const musicPreferences = {} as Record<keyof MusicPreferences, TraitPosterior>;
+  for (const key of MUSIC_KEYS) {
+    musicPreferences[key] = widen(evidence.traits.musicPreferences[key]);
+  }
+
+  return {
+    designations,
+    traits: {
+      openness,
+      intellect: widen(evidence.traits.intellect),
+      musicPreferences
+    },
+    signalCount: evidence.signalCount,
+    totalWeight: evidence.totalWeight * decay,
+    updatedAt: now
+  };
+}
+
+/**
+ * Fold one signal's archetype weights into the trait posteriors
+ *
+ * A positive weight towards a designation is an observation of that
+ * designation's trait targets; a negative weight observes the mirror image
+ * (1 - target), matching the additive delta model in the classifier.
+ */
+function observeTraits(
+  evidence: GenomeEvidence,
+  archetypeWeights: Partial<Record<Designation, number>>,
+  signalWeight: number,
+  config: IncrementalConfig
+): void {
+  for (const [designation, value] of Object.entries(archetypeWeights)) {
+    if (!value) continue;
+
+    const target = getPsychometricWeights(designation as Designation);
+    const precision = (Math.abs(value) * signalWeight) / config.observationNoise;
+    const observe = (posterior: TraitPosterior, targetValue: number): TraitPosterior =>
+      gaussianUpdate(posterior, value > 0 ? targetValue : 1 - targetValue, precision);
+
+    for (const key of OPENNESS_KEYS) {
+      evidence.traits.openness[key] = observe(evidence.traits.openness[key], target.openness[key]);
+    }
+
+    evidence.traits.intellect = observe(evidence.traits.intellect, target.intellect);
+
+    for (const key of MUSIC_KEYS) {
+      evidence.traits.musicPreferences[key] = observe(evidence.traits.musicPreferences[key], target.music[key]);
+    }
+  }
+}
+
+/**
+ * Fold an implicit signal's item features into the trait posteriors
+ * Only the traits each feature describes are observed; a negative strength
+ * observes the mirror image, as with negative archetype weights.
+ */
+function observeItemTraits(
+  evidence: GenomeEvidence,
+  profiles: ItemTraitProfile[],
+  strength: number,
+  config: IncrementalConfig
+): void {
+  const precision = Math.abs(strength) / config.observationNoise;
+  const observe = (posterior: TraitPosterior, targetValue: number): TraitPosterior =>
+    gaussianUpdate(posterior, strength > 0 ? targetValue : 1 - targetValue, precision);
+
+  for (const profile of profiles) {
+    for (const [key, target] of Object.entries(profile.openness || {})) {
+      const facet = key as keyof OpennessFacets;
+      evidence.traits.openness[facet] = observe(evidence.traits.openness[facet], target);
+    }
+
+    if (profile.intellect !== undefined) {
+      evidence.traits.intellect = observe(evidence.traits.intellect, profile.intellect);
+    }
+
+    for (const [key, target] of Object.entries(profile.musicPreferences || {})) {
+      const pref = key as keyof MusicPreferences;
+      evidence.traits.musicPreferences[pref] = observe(evidence.traits.musicPreferences[pref], target);
+    }
+  }
+}
+
+/**
+ * Conjugate Gaussian update with a precision-weighted observation
+ */
+function gaussianUpdate(
+  posterior: TraitPosterior,
+  observation: number,
+  precision: number
+): TraitPosterior {
+  if (precision <= 0) {
+    return posterior;
+  }
+
+  const priorPrecision = 1 / posterior.variance;
+  const newPrecision = priorPrecision + precision;
+
+  return {
+    mean: (posterior.mean * priorPrecision + observation * precision) / newPrecision,
+    variance: 1 / newPrecision
+  };
+}
+
+/**
+ * Convert signals to stored signal events
+ */
+function toSignalEvents(userId: string, signals: Signal[], now: Date): SignalEvent[] {
+  return signals.map((signal, index) => ({
+    ...signal,
+    id: `signal_${now.getTime()}_${index}`,
+    userId,
+    processed: true,
+    processedAt: now
+  }));
+}
+
+/**
+ * Keep the most recent events (slice(-0) would keep everything)
+ */
+function trimHistory(history: SignalEvent[], maxSize: number): SignalEvent[] {
+  return maxSize > 0 ? history.slice(-maxSize) : [];
+}
+
+/**
+ * Utility: clamp to the 0-1 trait range
+ */
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
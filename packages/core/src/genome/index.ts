@@ -7,6 +7,7 @@ export {
   generateGenomeId,
   createGenome,
   toPublicGenome,
+  getGenomeStatus,
   revealSigil,
   getPrimarySigil,
   incrementVersion,
@@ -36,3 +37,80 @@ export {
 } from './evolution';
 
 export type { EvolutionConfig } from './evolution';
+
+// Incremental updates
+export {
+  createEvidence,
+  updateEvidence,
+  evidenceToPsychometrics,
+  classifyEvidence,
+  bootstrapEvidence,
+  createGenomeFromSignals,
+  applySignalsIncrementally,
+  getGenomeSignalCount,
+  DEFAULT_INCREMENTAL_CONFIG
+} from './incremental';
+
+export type {
+  IncrementalConfig,
+  IncrementalUpdateOptions
+} from './incremental';
+
+// Replay
+export {
+  getSignalKey,
+  dedupeSignals,
+  replayGenome
+} from './replay';
+
+export type { ReplayOptions } from './replay';
+
+// History
+export {
+  diffGenomes,
+  getSnapshotAsOf,
+  rollbackGenome
+} from './history';
+
+export type {
+  GenomeSnapshot,
+  GenomeDiff
+} from './history';
+
+// Account merge
+export { mergeAccountGenomes } from './merge';
+
+export type {
+  MergeAccount,
+  AccountMergeOptions,
+  AccountMergeResult
+} from './merge';
+
+// Drift
+export {
+  detectChangePoints,
+  detectDrift,
+  snapshotsToDriftPoints,
+  classifySignalWindows,
+  DEFAULT_DRIFT_CONFIG
+} from './drift';
+
+export type {
+  DriftPoint,
+  DriftConfig,
+  DesignationShift,
+  DriftChangePoint,
+  DriftReport
+} from './drift';
+
+// Storage
+export {
+  toGenomeRecord,
+  fromGenomeRecord,
+  createMemoryGenomeStorage
+} from './storage';
+
+export type {
+  GenomeRecord,
+  GenomeStorageAdapter
+} from './storage';
@@ -0,0 +1,228 @@
+/**
+ * @subtaste/core - Account Merge
+ *
+ * Merges the genomes and signal logs of linked accounts (e.g. separate
+ * SELECTR, DROPR and CANORA profiles) into one genome. The classification
+ * is recomputed from the deduplicated union of signals rather than by
+ * averaging distributions, and every merged account is recorded as provenance.
+ */
+
+import type {
+  Signal,
+  SignalSource,
+  ContextProfile,
+  GenomeProvenance,
+  TasteGenome
+} from '../types';
+import { getSignalKey, dedupeSignals, replayGenome, type ReplayOptions } from './replay';
+import { getGenomeSignalCount } from './incremental';
+import { updateContextsFromSignals } from '../context/multi';
+
+/**
+ * One account taking part in a merge
+ */
+export interface MergeAccount {
+  userId: string;
+  genome: TasteGenome | null;
+
+  // The account's signal log
+  signals: Signal[];
+}
+
+/**
+ * Options for merging accounts
+ */
+export interface AccountMergeOptions extends Omit<ReplayOptions, 'genome'> {
+  // Merge time recorded in provenance
+  mergedAt?: Date;
+}
+
+/**
+ * Result of an account merge
+ */
+export interface AccountMergeResult {
+  genome: TasteGenome;
+
+  // Deduplicated union of every account's signals, oldest first
+  signals: Signal[];
+
+  // Signals dropped because an earlier account already had them
+  duplicates: number;
+
+  // Provenance entries added by this merge
+  provenance: GenomeProvenance[];
+}
+
+/**
+ * Merge linked accounts into the target account's genome
+ *
+ * The target keeps its genome id and user id; the result is its next version.
+ * Signals seen in more than one account are counted once. The sigil counts as
+ * revealed if any account revealed it. Contexts are rebuilt from the merged
+ * signals; contexts none of them reach are carried over, keeping the most
+ * recently active profile when two accounts share one.
+ */
+export function mergeAccountGenomes(
+  target: MergeAccount,
+  others: MergeAccount[],
+  options: AccountMergeOptions = {}
+): AccountMergeResult {
+  const mergedAt = options.mergedAt ?? options.now ?? new Date();
+  const accounts = [target, ...others];
+
+  const union = new Map<string, Signal>();
+  const provenance: GenomeProvenance[] = [];
+  let total = 0;
+
+  for (const account of accounts) {
+    const signals = getAccountSignals(account);
+    let contributed = 0;
+
+    for (const signal of signals) {
+      const key = getSignalKey(signal);
+      if (!union.has(key)) {
+        union.set(key, signal);
+        contributed++;
+      }
+    }
+
+    total += signals.length;
+
+    if (account !== target) {
+      provenance.push({
+        userId: account.userId,
+        genomeId: account.genome?.id ?? null,
+        version: account.genome?.version ?? null,
+        designation: account.genome?.archetype.primary.designation ?? null,
+        sources: getSources(signals),
+        signalCount: account.genome
+          ? Math.max(getGenomeSignalCount(account.genome), signals.length)
+          : signals.length,
+        contributed,
+        mergedAt
+      });
+    }
+  }
+
+  const signals = Array.from(union.values())
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const rebuilt = replayGenome(target.userId, signals, {
+    ...options,
+    genome: target.genome ?? undefined
+  });
+
+  const genomes = accounts
+    .map(account => account.genome)
+    .filter((genome): genome is TasteGenome => genome !== null);
+
+  const revealedAt = genomes
+    .map(genome => genome.formal.revealed ? genome.formal.revealedAt : null)
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0] || null;
+
+  const genome: TasteGenome = {
+    ...rebuilt,
+    userId: target.userId,
+    formal: {
+      ...rebuilt.formal,
+      revealed: genomes.some(g => g.formal.revealed),
+      revealedAt
+    },
+    behaviour: {
+      ...rebuilt.behaviour,
+      contexts: rebuildContexts(rebuilt, signals, mergeContexts(genomes), options),
+      // The target's quiz validity stands for the merged profile
+      ...(target.genome?.behaviour.validity && { validity: target.genome.behaviour.validity })
+    },
+    provenance: [
+      ...genomes.flatMap(g => g.provenance || []),
+      ...provenance
+    ]
+  };
+
+  return {
+    genome,
+    signals,
+    duplicates: total - signals.length,
+    provenance
+  };
+}
+
+/**
+ * Helper: an account's log plus any raw signals still kept on its genome
+ */
+function getAccountSignals(account: MergeAccount): Signal[] {
+  const embedded = account.genome?.behaviour.signalHistory || [];
+
+  return dedupeSignals([
+    ...account.signals,
+    ...embedded.map(({ type, source, timestamp, data, idempotencyKey, context }) => ({
+      type,
+      source,
+      timestamp: new Date(timestamp),
+      data,
+      ...(idempotencyKey && { idempotencyKey }),
+      ...(context && { context })
+    }))
+  ]);
+}
+
+/**
+ * Helper: distinct signal sources, most frequent first
+ */
+function getSources(signals: Signal[]): SignalSource[] {
+  const counts = new Map<SignalSource, number>();
+  for (const signal of signals) {
+    counts.set(signal.source, (counts.get(signal.source) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([source]) => source);
+}
+
+/**
+ * Helper: union of contexts, latest activity wins on conflict
+ */
+function mergeContexts(genomes: TasteGenome[]): Record<string, ContextProfile> {
+  const merged: Record<string, ContextProfile> = {};
+
+  for (const genome of genomes) {
+    for (const [key, context] of Object.entries(genome.behaviour.contexts)) {
+      const existing = merged[key];
+      if (!existing || new Date(context.lastActive).getTime() > new Date(existing.lastActive).getTime()) {
+        merged[key] = context;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Helper: contexts rebuilt from the merged signals
+ * Every account's evidence for a context counts, and existing profiles keep
+ * their ids. Contexts the signals do not reach are carried over.
+ */
+function rebuildContexts(
+  genome: TasteGenome,
+  signals: Signal[],
+  existing: Record<string, ContextProfile>,
+  options: AccountMergeOptions
+): Record<string, ContextProfile> {
+  // Start empty so evidence already in a context is not counted twice
+  const fromSignals = updateContextsFromSignals(
+    { ...genome, behaviour: { ...genome.behaviour, contexts: {} } },
+    signals,
+    undefined,
+    options
+  ).behaviour.contexts;
+
+  const contexts = { ...existing };
+  for (const [key, context] of Object.entries(fromSignals)) {
+    contexts[key] = { ...context, id: existing[key]?.id ?? context.id };
+  }
+
+  return contexts;
+}
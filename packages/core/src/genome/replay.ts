@@ -0,0 +1,135 @@
+/**
+ * @subtaste/core - Signal Log Replay
+ *
+ * Idempotency keys for raw signals and rebuilding a genome from a full
+ * signal log, e.g. to backfill every genome after a ScoringConfig retune.
+ */
+
+import type { Signal, Psychometrics, TasteGenome } from '../types';
+import {
+  createGenomeFromSignals,
+  type IncrementalUpdateOptions
+} from './incremental';
+
+/**
+ * Options for replaying a signal log
+ */
+export interface ReplayOptions extends IncrementalUpdateOptions {
+  // Trait priors before the first signal
+  basePsychometrics?: Psychometrics;
+
+  // Existing genome whose identity (id, createdAt, version, sigil reveal) and provenance are kept
+  genome?: TasteGenome;
+}
+
+/**
+ * Idempotency key for a signal
+ * Uses the caller-supplied key when present, otherwise a content hash.
+ */
+export function getSignalKey(signal: Signal): string {
+  if (signal.idempotencyKey) {
+    return signal.idempotencyKey;
+  }
+
+  return `sig_${hashString(stableStringify({
+    type: signal.type,
+    source: signal.source,
+    timestamp: new Date(signal.timestamp).toISOString(),
+    data: signal.data
+  }))}`;
+}
+
+/**
+ * Drop repeated signals, keeping the first occurrence of each key
+ */
+export function dedupeSignals(signals: Signal[]): Signal[] {
+  const seen = new Set<string>();
+
+  return signals.filter(signal => {
+    const key = getSignalKey(signal);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Rebuild a genome from its complete signal log
+ * Signals are deduplicated and ordered by timestamp before being folded in,
+ * so the result only depends on the log and the scoring configuration.
+ */
+export function replayGenome(
+  userId: string,
+  signals: Signal[],
+  options: ReplayOptions = {}
+): TasteGenome {
+  const ordered = dedupeSignals(signals)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const rebuilt = createGenomeFromSignals(userId, ordered, options.basePsychometrics, options);
+  const previous = options.genome;
+
+  if (!previous) {
+    return rebuilt;
+  }
+
+  return {
+    ...rebuilt,
+    id: previous.id,
+    version: previous.version + 1,
+    createdAt: previous.createdAt,
+    formal: {
+      ...rebuilt.formal,
+      revealed: previous.formal.revealed,
+      revealedAt: previous.formal.revealedAt
+    },
+    behaviour: {
+      ...rebuilt.behaviour,
+      contexts: previous.behaviour.contexts,
+      // Response quality comes from the quiz, not the log
+      ...(previous.behaviour.validity && { validity: previous.behaviour.validity })
+    },
+    ...(previous.provenance && { provenance: previous.provenance })
+  };
+}
+
+/**
+ * JSON with sorted object keys, so equal content hashes equally
+ */
+function stableStringify(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * 53-bit string hash (cyrb53)
+ */
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
@@ -7,6 +7,8 @@
 import type {
   TasteGenome,
   TasteGenomePublic,
+  GenomeStatus,
+  ClassificationUncertainty,
   Designation,
   Glyph,
   Sigil,
@@ -32,6 +34,7 @@ export function createGenome(params: {
     primary: { designation: Designation; confidence: number };
     secondary: { designation: Designation; confidence: number } | null;
     distribution: Record<Designation, number>;
+    uncertainty?: ClassificationUncertainty;
   };
   psychometrics: Psychometrics;
   sephiroticBalance: Record<string, number>;
@@ -57,7 +60,8 @@ export function createGenome(params: {
         glyph: toGlyph(params.classification.secondary.designation),
         confidence: params.classification.secondary.confidence
       } : null,
-      distribution: params.classification.distribution
+      distribution: params.classification.distribution,
+      ...(params.classification.uncertainty && { uncertainty: params.classification.uncertainty })
     },
 
     formal: {
@@ -113,10 +117,29 @@ export function toPublicGenome(genome: TasteGenome): TasteGenomePublic {
       revealed: genome.formal.revealed
     },
     confidence: genome.behaviour.confidence,
-    tasteTypicality: genome.crossModal.tasteTypicality
+    tasteTypicality: genome.crossModal.tasteTypicality,
+    status: getGenomeStatus(genome)
   };
 }
 
+/**
+ * Determine how settled a genome's classification is
+ * Genomes classified before uncertainty tracking are treated as settled
+ */
+export function getGenomeStatus(genome: TasteGenome): GenomeStatus {
+  const uncertainty = genome.archetype.uncertainty;
+
+  if (!uncertainty) {
+    return 'settled';
+  }
+
+  if (!uncertainty.sufficientEvidence) {
+    return 'forming';
+  }
+
+  return uncertainty.tie ? 'tied' : 'settled';
+}
+
 /**
  * Mark sigil as revealed
  */
@@ -192,7 +215,7 @@ export function serializeGenome(genome: TasteGenome): string {
  */
 export function deserializeGenome(json: string): TasteGenome {
   return JSON.parse(json, (key, value) => {
-    if (key === 'createdAt' || key === 'updatedAt' || key === 'lastCalibration' || key === 'revealedAt' || key === 'lastActive') {
+    if (key === 'createdAt' || key === 'updatedAt' || key === 'lastCalibration' || key === 'revealedAt' || key === 'lastActive' || key === 'mergedAt' || key === 'assessedAt') {
       return value ? new Date(value) : null;
     }
     return value;
@@ -0,0 +1,185 @@
+/**
+ * @subtaste/core - Genome Storage
+ *
+ * Persistence interface so consumers can plug in their own store.
+ * GenomeRecord keeps each genome layer in its own field, matching the
+ * TasteGenome table: public, sigil, engine, behaviour, cross-modal and
+ * merge provenance.
+ */
+
+import type {
+  Designation,
+  Glyph,
+  Sigil,
+  ClassificationUncertainty,
+  GenomeProvenance,
+  GenomeValidity,
+  TasteGenome
+} from '../types';
+import { toGlyph } from '../pantheon/definitions';
+import { serializeGenome, deserializeGenome } from './schema';
+
+/**
+ * Layered, storage-friendly genome row
+ */
+export interface GenomeRecord {
+  id: string;
+  userId: string;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Public layer
+  designation: Designation;
+  glyph: Glyph;
+  primaryConfidence: number;
+  secondaryDesignation: Designation | null;
+  secondaryConfidence: number | null;
+  distribution: Partial<Record<Designation, number>>;
+  uncertainty: ClassificationUncertainty | null;
+
+  // Sigil layer
+  primarySigil: Sigil;
+  secondarySigil: Sigil | null;
+  sigilRevealed: boolean;
+  sigilRevealedAt: Date | null;
+
+  // Engine layer
+  engine: TasteGenome['_engine'];
+
+  // Behaviour layer
+  contexts: TasteGenome['behaviour']['contexts'];
+  signalHistory: TasteGenome['behaviour']['signalHistory'];
+  behaviourConfidence: number;
+  lastCalibration: Date;
+  validity: GenomeValidity | null;
+
+  // Cross-modal
+  crossModal: TasteGenome['crossModal'];
+
+  // Merge provenance
+  provenance: GenomeProvenance[];
+}
+
+/**
+ * Pluggable genome persistence
+ */
+export interface GenomeStorageAdapter {
+  get(userId: string): Promise<TasteGenome | null>;
+  save(genome: TasteGenome): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+/**
+ * Split a genome into its storage layers
+ */
+export function toGenomeRecord(genome: TasteGenome): GenomeRecord {
+  const { archetype, formal, behaviour } = genome;
+
+  return {
+    id: genome.id,
+    userId: genome.userId,
+    version: genome.version,
+    createdAt: genome.createdAt,
+    updatedAt: genome.updatedAt,
+
+    designation: archetype.primary.designation,
+    glyph: archetype.primary.glyph,
+    primaryConfidence: archetype.primary.confidence,
+    secondaryDesignation: archetype.secondary?.designation || null,
+    secondaryConfidence: archetype.secondary?.confidence ?? null,
+    distribution: archetype.distribution,
+    uncertainty: archetype.uncertainty || null,
+
+    primarySigil: formal.primarySigil,
+    secondarySigil: formal.secondarySigil,
+    sigilRevealed: formal.revealed,
+    sigilRevealedAt: formal.revealedAt,
+
+    engine: genome._engine,
+
+    contexts: behaviour.contexts,
+    signalHistory: behaviour.signalHistory,
+    behaviourConfidence: behaviour.confidence,
+    lastCalibration: behaviour.lastCalibration,
+    validity: behaviour.validity || null,
+
+    crossModal: genome.crossModal,
+
+    provenance: genome.provenance || []
+  };
+}
+
+/**
+ * Reassemble a genome from its storage layers
+ * Dates nested in JSON layers are revived the same way as deserializeGenome.
+ */
+export function fromGenomeRecord(record: GenomeRecord): TasteGenome {
+  const genome: TasteGenome = {
+    id: record.id,
+    userId: record.userId,
+    version: record.version,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+
+    archetype: {
+      primary: {
+        designation: record.designation,
+        glyph: record.glyph,
+        confidence: record.primaryConfidence
+      },
+      secondary: record.secondaryDesignation ? {
+        designation: record.secondaryDesignation,
+        glyph: toGlyph(record.secondaryDesignation),
+        confidence: record.secondaryConfidence ?? 0
+      } : null,
+      distribution: record.distribution as Record<Designation, number>,
+      ...(record.uncertainty && { uncertainty: record.uncertainty })
+    },
+
+    formal: {
+      primarySigil: record.primarySigil,
+      secondarySigil: record.secondarySigil,
+      revealed: record.sigilRevealed,
+      revealedAt: record.sigilRevealedAt
+    },
+
+    _engine: record.engine,
+
+    behaviour: {
+      contexts: record.contexts,
+      signalHistory: record.signalHistory,
+      confidence: record.behaviourConfidence,
+      lastCalibration: record.lastCalibration,
+      ...(record.validity && { validity: record.validity })
+    },
+
+    crossModal: record.crossModal,
+
+    ...(record.provenance && record.provenance.length > 0 && { provenance: record.provenance })
+  };
+
+  return deserializeGenome(serializeGenome(genome));
+}
+
+/**
+ * In-memory genome storage (tests, previews, single-process consumers)
+ */
+export function createMemoryGenomeStorage(): GenomeStorageAdapter {
+  const records = new Map<string, GenomeRecord>();
+
+  return {
+    async get(userId: string): Promise<TasteGenome | null> {
+      const record = records.get(userId);
+      return record ? fromGenomeRecord(record) : null;
+    },
+
+    async save(genome: TasteGenome): Promise<void> {
+      records.set(genome.userId, toGenomeRecord(structuredClone(genome)));
+    },
+
+    async delete(userId: string): Promise<void> {
+      records.delete(userId);
+    }
+  };
+}
@@ -21,6 +21,8 @@ export type {
   CreativeMode,
   ArchetypePublic,
   ArchetypeClassification,
+  CredibleInterval,
+  ClassificationUncertainty,
   SigilReveal,
 
   // Genome types
@@ -28,9 +30,15 @@ export type {
   MusicPreferences,
   Psychometrics,
   ContextProfile,
+  TraitPosterior,
+  GenomeEvidence,
+  GenomeProvenance,
+  GenomeValidity,
+  ValidityFlagKind,
   Domain,
   TasteGenome,
   TasteGenomePublic,
+  GenomeStatus,
   GenomeCreateInput,
   GenomeUpdateInput,
 
@@ -87,22 +95,57 @@ export {
   classify,
   classifySignals,
   reclassify,
+  explainClassification,
+  toPublicExplanation,
   getDefaultPsychometrics,
   applyTraitDeltas,
   extractTraitDeltas,
   calculatePsychometricSimilarity,
+  calculateSimilarityBreakdown,
   calculateAllSimilarities,
+  ITEM_FEATURE_TRAITS,
+  getImplicitPolarity,
+  getItemTraitProfiles,
   DEFAULT_SCORING_CONFIG,
   CONTEXT_WEIGHTS,
   mergeConfig,
-  getContextConfig
+  getContextConfig,
+  getSignalWeighting,
+  getSignalWeightings,
+  calculateUncertainty,
+  evaluateScoringConfig,
+  fitScoringConfig,
+  DEFAULT_CALIBRATION_SEARCH,
+  DEFAULT_SCORING_CONFIG_ID,
+  registerScoringConfig,
+  getScoringConfigArtefact,
+  getScoringConfig,
+  listScoringConfigs,
+  loadScoringConfigArtefact
 } from './engine';
 
 export type {
   ClassificationInput,
   ClassificationResult,
+  ExplanationOptions,
+  SignalContribution,
+  DesignationExplanation,
+  ExplanationDriver,
+  ClassificationExplanation,
+  PublicExplanationDriver,
+  ClassificationExplanationPublic,
   TraitDelta,
-  ScoringConfig
+  DimensionContribution,
+  ItemFeature,
+  ItemTraitProfile,
+  ScoringConfig,
+  SignalWeighting,
+  TemporallyWeightedSignal,
+  LabelledExample,
+  CalibrationSearchSpace,
+  CalibrationOptions,
+  CalibrationMetrics,
+  ScoringConfigArtefact
 } from './engine';
 
 // ============================================================================
@@ -113,6 +156,7 @@ export {
   generateGenomeId,
   createGenome,
   toPublicGenome,
+  getGenomeStatus,
   revealSigil,
   getPrimarySigil,
   incrementVersion,
@@ -130,10 +174,51 @@ export {
   pruneSignalHistory,
   calculateTasteStability,
   evolveGenome,
-  DEFAULT_EVOLUTION_CONFIG
+  DEFAULT_EVOLUTION_CONFIG,
+  createEvidence,
+  updateEvidence,
+  evidenceToPsychometrics,
+  classifyEvidence,
+  bootstrapEvidence,
+  createGenomeFromSignals,
+  applySignalsIncrementally,
+  getGenomeSignalCount,
+  DEFAULT_INCREMENTAL_CONFIG,
+  getSignalKey,
+  dedupeSignals,
+  replayGenome,
+  diffGenomes,
+  getSnapshotAsOf,
+  rollbackGenome,
+  mergeAccountGenomes,
+  detectChangePoints,
+  detectDrift,
+  snapshotsToDriftPoints,
+  classifySignalWindows,
+  DEFAULT_DRIFT_CONFIG,
+  toGenomeRecord,
+  fromGenomeRecord,
+  createMemoryGenomeStorage
 } from './genome';
 
-export type { EvolutionConfig } from './genome';
+export type {
+  EvolutionConfig,
+  IncrementalConfig,
+  IncrementalUpdateOptions,
+  ReplayOptions,
+  GenomeSnapshot,
+  GenomeDiff,
+  MergeAccount,
+  AccountMergeOptions,
+  AccountMergeResult,
+  DriftPoint,
+  DriftConfig,
+  DesignationShift,
+  DriftChangePoint,
+  DriftReport,
+  GenomeRecord,
+  GenomeStorageAdapter
+} from './genome';
 
 // ============================================================================
 // CONTEXT
@@ -143,10 +228,32 @@ export {
   createContextProfile,
   getOrCreateContext,
   updateContext,
+  updateContextsFromSignals,
   getContextualDistribution,
   getContextualPrimary,
+  getActiveContexts,
+  SESSION_GAP_MS,
+  DEFAULT_CONTEXT_MODEL,
+  extractContextFeatures,
   detectContext,
-  getActiveContexts
+  splitSessions,
+  tagSignalContexts,
+  trainContextModel,
+  learnContextModel,
+  STANDARD_CONTEXTS,
+  registerContext,
+  unregisterContext,
+  getContextDefinition,
+  listContexts,
+  getContextModel
 } from './context';
 
-export type { StandardContext, ContextDetection } from './context';
+export type {
+  StandardContext,
+  ContextDetection,
+  ContextModel,
+  ContextSession,
+  ContextLabel,
+  ContextDefinition,
+  ContextDetectionRules
+} from './context';
@@ -38,6 +38,25 @@ export interface ArchetypePublic {
   recogniseBy: string;
 }
 
+/**
+ * Credible interval for a designation's share of the distribution
+ */
+export interface CredibleInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Uncertainty attached to a classification
+ */
+export interface ClassificationUncertainty {
+  intervals: Record<Designation, CredibleInterval>;
+  level: number;
+  evidence: number;
+  tie: boolean;
+  sufficientEvidence: boolean;
+}
+
 /**
  * Archetype classification result for a user
  */
@@ -53,6 +72,7 @@ export interface ArchetypeClassification {
     confidence: number;
   } | null;
   distribution: Record<Designation, number>;
+  uncertainty?: ClassificationUncertainty;
 }
 
 /**
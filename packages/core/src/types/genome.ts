@@ -6,7 +6,7 @@
  */
 
 import type { Designation, Glyph, Sigil, ArchetypeClassification } from './archetype';
-import type { SignalEvent } from './signals';
+import type { SignalEvent, SignalSource } from './signals';
 
 /**
  * Big Five Openness sub-facets
@@ -48,8 +48,79 @@ export interface Psychometrics {
 export interface ContextProfile {
   id: string;
   label: 'Creating' | 'Consuming' | 'Curating' | string;
+
+  // Context distribution minus the base distribution
   archetypeShift: Partial<Record<Designation, number>>;
+
   lastActive: Date;
+
+  // The context's own evidence and the distribution classified from it
+  evidence?: GenomeEvidence;
+  distribution?: Record<Designation, number>;
+}
+
+/**
+ * Gaussian posterior over a single 0-1 trait
+ */
+export interface TraitPosterior {
+  mean: number;
+  variance: number;
+}
+
+/**
+ * Sufficient statistics for incremental (Bayesian) genome updates
+ * A new signal batch updates these in O(batch) without replaying history
+ */
+export interface GenomeEvidence {
+  // Accumulated, decayed archetype evidence per designation
+  designations: Record<Designation, number>;
+
+  // Posterior mean/variance for every psychometric trait
+  traits: {
+    openness: Record<keyof OpennessFacets, TraitPosterior>;
+    intellect: TraitPosterior;
+    musicPreferences: Record<keyof MusicPreferences, TraitPosterior>;
+  };
+
+  signalCount: number;
+  totalWeight: number;
+  updatedAt: Date;
+}
+
+/**
+ * Where a merged genome came from
+ * One entry per account folded in by an account merge.
+ */
+export interface GenomeProvenance {
+  userId: string;
+  genomeId: string | null;
+  version: number | null;
+  designation: Designation | null;
+
+  // Apps the account's signals came from (e.g. selectr, dropr, canora)
+  sources: SignalSource[];
+
+  // Signals in the account's log, and how many were new to the merge
+  signalCount: number;
+  contributed: number;
+
+  mergedAt: Date;
+}
+
+/**
+ * Response-quality concerns raised on an assessment
+ */
+export type ValidityFlagKind = 'straight_lining' | 'too_fast' | 'anchor_inconsistency';
+
+/**
+ * Response quality of the latest assessment folded into a genome
+ */
+export interface GenomeValidity {
+  // 0-1, where 1 means no quality concerns
+  score: number;
+  flags: ValidityFlagKind[];
+  responses: number;
+  assessedAt: Date;
 }
 
 /**
@@ -87,6 +158,7 @@ export interface TasteGenome {
       primary: string;
       shadow: string;
     };
+    evidence?: GenomeEvidence;
   };
 
   // BEHAVIOURAL LAYER - evolves over time
@@ -95,6 +167,7 @@ export interface TasteGenome {
     signalHistory: SignalEvent[];
     confidence: number;
     lastCalibration: Date;
+    validity?: GenomeValidity;
   };
 
   // CROSS-MODAL
@@ -102,8 +175,19 @@ export interface TasteGenome {
     tasteTypicality: number;
     domainStrengths: Record<Domain, number>;
   };
+
+  // Accounts merged into this genome, oldest merge first
+  provenance?: GenomeProvenance[];
 }
 
+/**
+ * How settled the public classification is
+ * - forming: not enough evidence to claim a Glyph yet
+ * - tied: primary and secondary credible intervals overlap
+ * - settled: primary is distinguishable from the rest
+ */
+export type GenomeStatus = 'forming' | 'tied' | 'settled';
+
 /**
  * Public-safe genome representation
  * This is what gets sent to the client
@@ -122,6 +206,7 @@ export interface TasteGenomePublic {
   };
   confidence: number;
   tasteTypicality: number;
+  status: GenomeStatus;
 }
 
 /**
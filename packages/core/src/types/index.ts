@@ -10,6 +10,8 @@ export type {
   CreativeMode,
   ArchetypePublic,
   ArchetypeClassification,
+  CredibleInterval,
+  ClassificationUncertainty,
   SigilReveal
 } from './archetype';
 
@@ -25,9 +27,15 @@ export type {
   MusicPreferences,
   Psychometrics,
   ContextProfile,
+  TraitPosterior,
+  GenomeEvidence,
+  GenomeProvenance,
+  GenomeValidity,
+  ValidityFlagKind,
   Domain,
   TasteGenome,
   TasteGenomePublic,
+  GenomeStatus,
   GenomeCreateInput,
   GenomeUpdateInput
 } from './genome';
@@ -46,7 +46,7 @@ export interface ExplicitSignal {
   kind: ExplicitKind;
   questionId?: string;
   itemId?: string;
-  value: number | string | boolean | string[] | number[];
+  value: number | string | boolean | string[] | number[] | number[][];
   archetypeWeights?: Partial<Record<Designation, number>>;
   metadata?: Record<string, unknown>;
 }
@@ -70,6 +70,11 @@ export interface Signal {
   source: SignalSource;
   timestamp: Date;
   data: ExplicitSignal | ImplicitSignal;
+  // Caller-supplied key so retried submissions are only stored once
+  idempotencyKey?: string;
+
+  // Context the signal was given in (e.g. Creating), tagged on ingest
+  context?: string;
 }
 
 /**
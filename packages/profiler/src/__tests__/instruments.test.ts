@@ -14,9 +14,51 @@ import {
   createDeepCalibration,
   isCalibrationComplete,
   behaviourToSignal,
-  behaviourBatchToSignals
+  behaviourBatchToSignals,
+  createAdaptiveAssessment,
+  getCurrentAdaptiveQuestion,
+  submitAdaptiveResponse,
+  isAdaptiveComplete,
+  getAdaptiveProgress,
+  completeAdaptiveAssessment,
+  isClassificationSettled,
+  selectNextQuestion,
+  expectedInformationGain,
+  assessResponseValidity,
+  applyResponseValidity,
+  toGenomeValidity,
+  submitCalibrationResponse,
+  submitStimulusTrial,
+  completeCalibration,
+  createStimulusTrial,
+  recordListen,
+  chooseStimulus,
+  getListenCoverage,
+  getStimulusResponse
 } from '../instruments';
-import { INITIAL_QUESTIONS } from '../questions';
+import {
+  INITIAL_QUESTIONS,
+  MUSIC_CALIBRATION_QUESTIONS,
+  DEEP_CALIBRATION_QUESTIONS,
+  responsesToSignals,
+  responseToSignal,
+  stimulusListeningSignals,
+  fitBradleyTerry,
+  mapComparisonResponse,
+  mapMaxDiffResponse,
+  type BinaryQuestion,
+  type ComparisonQuestion,
+  type MaxDiffQuestion,
+  type StimulusQuestion,
+  type QuestionResponse
+} from '../questions';
+import {
+  classify,
+  classifySignals,
+  type ArchetypeClassification,
+  type Designation,
+  type ExplicitSignal
+} from '@subtaste/core';
 
 describe('Initial Assessment', () => {
   describe('createInitialAssessment()', () => {
@@ -133,6 +175,102 @@ describe('Initial Assessment', () => {
   });
 });
 
+describe('Adaptive Assessment', () => {
+  const answerAll = (response: 0 | 1, config = {}) => {
+    let state = createAdaptiveAssessment(INITIAL_QUESTIONS, config);
+    while (!isAdaptiveComplete(state)) {
+      state = submitAdaptiveResponse(state, response);
+    }
+    return state;
+  };
+
+  const leaders = (a: Designation, b: Designation): ArchetypeClassification => {
+    const classification = classifySignals([]);
+    const distribution = {} as Record<Designation, number>;
+    for (const d of Object.keys(classification.distribution) as Designation[]) {
+      distribution[d] = 0.01;
+    }
+    distribution[a] = 0.45;
+    distribution[b] = 0.4;
+    return { ...classification, distribution };
+  };
+
+  const splitter: BinaryQuestion = {
+    id: 'test-split',
+    type: 'binary',
+    prompt: 'A or B?',
+    category: 'core',
+    options: ['A', 'B'],
+    archetypeWeights: {},
+    optionWeights: [{ 'V-2': 0.8, 'P-7': -0.4 }, { 'P-7': 0.8, 'V-2': -0.4 }]
+  };
+
+  const bystander: BinaryQuestion = {
+    ...splitter,
+    id: 'test-bystander',
+    optionWeights: [{ 'H-6': 0.8 }, { 'H-6': -0.8 }]
+  };
+
+  describe('selectNextQuestion()', () => {
+    it('should prefer questions that separate the leading designations', () => {
+      const classification = leaders('V-2', 'P-7');
+
+      expect(expectedInformationGain(splitter, classification)).toBeGreaterThan(0);
+      expect(expectedInformationGain(bystander, classification)).toBeCloseTo(0);
+      expect(selectNextQuestion(classification, [bystander, splitter])?.id).toBe('test-split');
+    });
+
+    it('should return null when no candidates remain', () => {
+      expect(selectNextQuestion(leaders('V-2', 'P-7'), [])).toBeNull();
+    });
+  });
+
+  describe('session', () => {
+    it('should start on the most informative onboarding question', () => {
+      const state = createAdaptiveAssessment();
+      const expected = selectNextQuestion(classifySignals([]), INITIAL_QUESTIONS);
+
+      expect(getCurrentAdaptiveQuestion(state)?.id).toBe(expected?.id);
+      expect(getAdaptiveProgress(state)).toBe(0);
+    });
+
+    it('should never repeat a question and respect the question cap', () => {
+      const state = answerAll(0, { maxQuestions: 6 });
+
+      expect(new Set(state.asked).size).toBe(state.asked.length);
+      expect(state.asked.length).toBeLessThanOrEqual(6);
+      expect(getCurrentAdaptiveQuestion(state)).toBeNull();
+      expect(getAdaptiveProgress(state)).toBe(1);
+    });
+
+    it('should stop as soon as the Glyph is settled', () => {
+      const state = answerAll(1, { maxQuestions: INITIAL_QUESTIONS.length });
+
+      expect(state.stopReason).toBe('settled');
+      expect(isClassificationSettled(state.classification)).toBe(true);
+      expect(state.asked.length).toBeLessThan(INITIAL_QUESTIONS.length);
+    });
+
+    it('should not stop before the minimum number of questions', () => {
+      const state = answerAll(0, { minQuestions: 5, maxQuestions: 7 });
+
+      expect(state.asked.length).toBeGreaterThanOrEqual(5);
+    });
+
+    it('should only complete once finished', () => {
+      const started = createAdaptiveAssessment();
+      expect(completeAdaptiveAssessment(started)).toBeNull();
+
+      const finished = answerAll(0);
+      const result = completeAdaptiveAssessment(finished);
+
+      expect(result?.questionsAsked).toBe(finished.asked.length);
+      expect(result?.signals.length).toBe(finished.asked.length);
+      expect(result?.classification.primary.designation).toBe(finished.classification.primary.designation);
+    });
+  });
+});
+
 describe('Calibration Instruments', () => {
   describe('createMusicCalibration()', () => {
     it('should create music calibration with 3 questions', () => {
@@ -153,6 +291,223 @@ describe('Calibration Instruments', () => {
   });
 });
 
+describe('Comparison Instruments', () => {
+  const comparison = DEEP_CALIBRATION_QUESTIONS.find(q => q.type === 'comparison') as ComparisonQuestion;
+  const maxdiff = DEEP_CALIBRATION_QUESTIONS.find(q => q.type === 'maxdiff') as MaxDiffQuestion;
+
+  describe('fitBradleyTerry()', () => {
+    it('should order items by wins', () => {
+      const strengths = fitBradleyTerry(3, [[0, 1], [0, 2], [1, 2], [0, 1]]);
+
+      expect(strengths[0]).toBeGreaterThan(strengths[1]);
+      expect(strengths[1]).toBeGreaterThan(strengths[2]);
+    });
+
+    it('should keep unbeaten items finite', () => {
+      const strengths = fitBradleyTerry(2, [[0, 1], [0, 1], [0, 1]]);
+
+      expect(Number.isFinite(strengths[0])).toBe(true);
+      expect(strengths[0] * strengths[1]).toBeCloseTo(1);
+    });
+  });
+
+  describe('mapComparisonResponse()', () => {
+    it('should weigh towards the item picked in every pair', () => {
+      // Always pick "Getting it right" (item 1) when shown, otherwise the first item
+      const response = comparison.pairs.map(([a, b]) => (b === 1 ? b : a));
+      const weights = mapComparisonResponse(comparison, response);
+
+      expect(weights['C-4']).toBeGreaterThan(0);
+      expect(weights['C-4']!).toBeGreaterThan(weights['Ø'] ?? 0);
+    });
+
+    it('should produce a comparison signal', () => {
+      const signal = responseToSignal({
+        questionId: comparison.id,
+        response: comparison.pairs.map(([a]) => a),
+        timestamp: new Date()
+      });
+
+      expect((signal?.data as ExplicitSignal).kind).toBe('comparison');
+    });
+  });
+
+  describe('mapMaxDiffResponse()', () => {
+    it('should weigh towards best picks and away from worst picks', () => {
+      // Archive (0) best and standard (2) worst wherever they appear
+      const response = maxdiff.sets.map(set => {
+        const best = set.includes(0) ? 0 : set.find(i => i !== 2)!;
+        const worst = set.includes(2) ? 2 : set.filter(i => i !== best).pop()!;
+        return [best, worst] as [number, number];
+      });
+      const weights = mapMaxDiffResponse(maxdiff, response);
+
+      expect(weights['P-7']).toBeGreaterThan(0);
+      expect(weights['S-0']).toBeLessThan(0);
+    });
+
+    it('should produce a selection signal', () => {
+      const signal = responseToSignal({
+        questionId: maxdiff.id,
+        response: maxdiff.sets.map(set => [set[0], set[1]] as [number, number]),
+        timestamp: new Date()
+      });
+
+      expect((signal?.data as ExplicitSignal).kind).toBe('selection');
+    });
+  });
+});
+
+describe('Stimulus Trials', () => {
+  const question = MUSIC_CALIBRATION_QUESTIONS.find(q => q.type === 'stimulus') as StimulusQuestion;
+  const industrial = question.stimuli.findIndex(s => s.features?.isAggressive);
+
+  it('should accumulate listening and record the choice', () => {
+    let trial = createStimulusTrial(question);
+    trial = recordListen(trial, industrial, 8000);
+    trial = recordListen(trial, industrial, 7000);
+    trial = chooseStimulus(trial, industrial);
+
+    const response = getStimulusResponse(trial);
+    expect(response?.response).toBe(industrial);
+    expect(response?.listenMs?.[industrial]).toBe(15000);
+    expect(getListenCoverage(trial)[question.stimuli[industrial].id]).toBe(1);
+  });
+
+  it('should only present the requested number of clips', () => {
+    const trial = createStimulusTrial(question, 2);
+    const hidden = question.stimuli.map((_, i) => i).find(i => !trial.shown.includes(i))!;
+
+    expect(trial.shown).toHaveLength(2);
+    expect(recordListen(trial, hidden, 5000)).toBe(trial);
+    expect(chooseStimulus(trial, hidden).choice).toBeNull();
+  });
+
+  it('should turn listening into implicit signals with clip features', () => {
+    const listenMs = question.stimuli.map((_, i) => (i === industrial ? 15000 : 0));
+    const signals = stimulusListeningSignals(question, {
+      questionId: question.id,
+      response: industrial,
+      timestamp: new Date(),
+      listenMs
+    });
+
+    expect(signals.map(s => s.data.kind)).toEqual(['dwell', 'click']);
+    expect(signals[0].data.metadata).toMatchObject({ isAggressive: true, clipDurationMs: 15000 });
+  });
+
+  it('should keep listening from stimulus questions in adaptive sessions', () => {
+    const listenMs = question.stimuli.map((_, i) => (i === industrial ? 15000 : 0));
+    let state = createAdaptiveAssessment([question], { minQuestions: 1 });
+    state = submitAdaptiveResponse(state, industrial, 4000, listenMs);
+
+    expect(state.responses[0].listenMs).toEqual(listenMs);
+    expect(completeAdaptiveAssessment(state)?.signals.some(s => s.data.kind === 'dwell')).toBe(true);
+  });
+
+  it('should move MUSIC preferences from listening in music calibration', () => {
+    let calibration = createMusicCalibration();
+    for (const q of calibration.questions) {
+      if (q.type !== 'stimulus') {
+        calibration = submitCalibrationResponse(calibration, 3 + (q.id.length % 2), 4000);
+      }
+    }
+
+    const listened = (ms: number) => {
+      let trial = createStimulusTrial(question);
+      trial = recordListen(trial, industrial, ms);
+      return submitStimulusTrial(calibration, chooseStimulus(trial, industrial));
+    };
+
+    const heard = completeCalibration(listened(15000))!;
+    const skipped = completeCalibration(listened(1000))!;
+
+    expect(heard.signals.some(s => s.data.kind === 'dwell')).toBe(true);
+    const intense = (signals: typeof heard.signals) =>
+      classify({ signals }).psychometrics.musicPreferences.intense;
+    expect(intense(heard.signals)).toBeGreaterThan(intense(skipped.signals));
+  });
+});
+
+describe('Response Validity', () => {
+  const answer = (
+    questionId: string,
+    response: QuestionResponse['response'],
+    responseTimeMs = 4000
+  ): QuestionResponse => ({ questionId, response, timestamp: new Date(), responseTimeMs });
+
+  // Varied answers, with the two "challenge" anchors in agreement
+  const varied = MUSIC_CALIBRATION_QUESTIONS.map((q, i) =>
+    answer(q.id, q.id === 'music-10-challenge' ? 1 : ((i % 5) + 1) as 1 | 2 | 3 | 4 | 5)
+  );
+
+  it('should pass varied, considered answers', () => {
+    const validity = assessResponseValidity(varied);
+
+    expect(validity.flags).toEqual([]);
+    expect(validity.score).toBe(1);
+    expect(validity.rejected).toBe(false);
+  });
+
+  it('should flag straight-lining on rating items', () => {
+    const ratings = MUSIC_CALIBRATION_QUESTIONS.filter(q => q.type === 'likert');
+    const validity = assessResponseValidity(ratings.map(q => answer(q.id, 4)));
+
+    expect(validity.flags.map(f => f.kind)).toEqual(['straight_lining']);
+    expect(validity.score).toBeCloseTo(0.5);
+    expect(validity.rejected).toBe(false);
+  });
+
+  it('should flag implausibly fast answers', () => {
+    const responses = varied.map((r, i) => i < 2 ? { ...r, responseTimeMs: 300 } : r);
+    const validity = assessResponseValidity(responses);
+
+    const fast = validity.flags.find(f => f.kind === 'too_fast');
+    expect(fast?.questionIds).toEqual([varied[0].questionId, varied[1].questionId]);
+    expect(validity.weights[varied[0].questionId]).toBe(0.25);
+  });
+
+  it('should flag contradictory anchor items', () => {
+    const validity = assessResponseValidity([
+      answer('music-1-complexity', 5),
+      answer('music-10-challenge', 1),
+      answer('deep-2-curation', 5),
+      answer('deep-9-edit', 0)
+    ]);
+
+    const anchor = validity.flags.find(f => f.kind === 'anchor_inconsistency');
+    expect(anchor?.questionIds).toEqual(['music-1-complexity', 'music-10-challenge']);
+  });
+
+  it('should reject careless assessments and return no signals', () => {
+    const careless = MUSIC_CALIBRATION_QUESTIONS.map(q => answer(q.id, 3, 200));
+    const validity = assessResponseValidity(careless);
+
+    expect(validity.rejected).toBe(true);
+    expect(applyResponseValidity(responsesToSignals(careless), validity)).toEqual([]);
+  });
+
+  it('should down-weight flagged signals', () => {
+    const responses = [answer('init-1-approach', 0, 200), answer('init-2-timing', 1)];
+    const validity = assessResponseValidity(responses);
+    const [fast, considered] = applyResponseValidity(responsesToSignals(responses), validity);
+    const [rawFast, rawConsidered] = responsesToSignals(responses);
+
+    const weightOf = (signal: typeof fast) => (signal.data as ExplicitSignal).archetypeWeights!['Ø']!;
+    expect(weightOf(fast)).toBeCloseTo(weightOf(rawFast) * 0.25);
+    expect(considered).toEqual(rawConsidered);
+  });
+
+  it('should summarise validity for the genome', () => {
+    const validity = assessResponseValidity(MUSIC_CALIBRATION_QUESTIONS.map(q => answer(q.id, 4, 300)));
+    const summary = toGenomeValidity(validity, new Date('2026-01-01'));
+
+    expect(summary.flags).toEqual(['too_fast', 'straight_lining']);
+    expect(summary.responses).toBe(MUSIC_CALIBRATION_QUESTIONS.length);
+    expect(summary.score).toBe(validity.score);
+  });
+});
+
 describe('Implicit Signal Processing', () => {
   describe('behaviourToSignal()', () => {
     it('should convert save action to signal', () => {
@@ -2,10 +2,13 @@
  * @subtaste/profiler - Progressive Profiling Tests
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import {
   PROFILING_STAGES,
+  registerStage,
+  unregisterStage,
   getStage,
+  getAllStages,
   createProfilingState,
   isStageAvailable,
   getNextAvailableStage,
@@ -13,8 +16,63 @@ import {
   recordInteraction,
   shouldPromptCalibration,
   getProfilingProgress,
-  createOrchestrator
+  createOrchestrator,
+  loadOrchestrator,
+  createMemoryOrchestratorStore,
+  planReassessment,
+  selectReassessmentQuestions,
+  REASSESSMENT_STAGE_ID,
+  ProfilingOrchestrator,
+  type OrchestratorEvent
 } from '../progressive';
+import {
+  submitAdaptiveResponse,
+  isAdaptiveComplete,
+  expectedInformationGain,
+  createCalibration,
+  submitCalibrationResponse,
+  completeCalibration
+} from '../instruments';
+import { idealResponse } from '../validation';
+import type { LikertQuestion } from '../questions';
+import type { DriftReport } from '@subtaste/core';
+import type { ProfilingStage } from '../progressive';
+
+const VISUAL_QUESTIONS: LikertQuestion[] = [
+  {
+    id: 'visual-01-texture',
+    type: 'likert',
+    prompt: 'Rough, unfinished surfaces draw me in.',
+    category: 'creative',
+    scale: 5,
+    lowLabel: 'Not at all',
+    highLabel: 'Completely',
+    archetypeWeights: { 'D-8': 0.4, 'F-9': 0.3 }
+  },
+  {
+    id: 'visual-02-symmetry',
+    type: 'likert',
+    prompt: 'I prefer images that are balanced and symmetrical.',
+    category: 'creative',
+    scale: 5,
+    lowLabel: 'Not at all',
+    highLabel: 'Completely',
+    archetypeWeights: { 'T-1': 0.4, 'C-4': 0.3 }
+  }
+];
+
+const VISUAL_STAGE: ProfilingStage = {
+  id: 'visual',
+  name: 'Visual Calibration',
+  description: 'Refine your profile with image preferences.',
+  trigger: 'milestone',
+  milestoneThreshold: 2,
+  questions: VISUAL_QUESTIONS,
+  questionCount: VISUAL_QUESTIONS.length,
+  estimatedSeconds: 20,
+  confidenceGain: 0.1,
+  prerequisites: ['initial']
+};
 
 describe('Profiling Stages', () => {
   describe('PROFILING_STAGES', () => {
@@ -52,6 +110,155 @@ describe('Profiling Stages', () => {
   });
 });
 
+describe('Stage registry', () => {
+  afterEach(() => {
+    unregisterStage('visual');
+  });
+
+  it('should register a custom stage after the built-ins', () => {
+    registerStage(VISUAL_STAGE);
+
+    expect(getStage('visual')?.name).toBe('Visual Calibration');
+    expect(getAllStages().map(s => s.id)).toEqual(['initial', 'music', 'deep', 'visual']);
+  });
+
+  it('should offer a registered stage once its milestone is reached', () => {
+    registerStage(VISUAL_STAGE);
+
+    let state = completeStage(createProfilingState(), 'initial');
+    state = recordInteraction(recordInteraction(state));
+
+    expect(getNextAvailableStage(state)?.id).toBe('visual');
+    expect(getProfilingProgress(state)).toBeCloseTo(1 / 4);
+  });
+
+  it('should reopen periodic stages after their period', () => {
+    registerStage({ ...VISUAL_STAGE, trigger: 'periodic', periodDays: 7 });
+
+    const state = {
+      ...completeStage(createProfilingState(), 'initial'),
+      lastStageCompletedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)
+    };
+
+    expect(isStageAvailable(getStage('visual')!, state)).toBe(false);
+    expect(isStageAvailable(getStage('visual')!, {
+      ...state,
+      lastStageCompletedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000)
+    })).toBe(true);
+  });
+
+  it('should reopen a completed periodic stage after its period', () => {
+    const visual = registerStage({ ...VISUAL_STAGE, trigger: 'periodic', periodDays: 7 });
+
+    vi.useFakeTimers();
+    try {
+      const state = completeStage(completeStage(createProfilingState(), 'initial'), 'visual');
+      expect(isStageAvailable(visual, state)).toBe(false);
+
+      vi.advanceTimersByTime(8 * 24 * 60 * 60 * 1000);
+      expect(isStageAvailable(visual, state)).toBe(true);
+
+      const again = completeStage(state, 'visual');
+      expect(again.completedStages).toEqual(['initial', 'visual']);
+      expect(again.lastStageCompletedAt!.getTime()).toBeGreaterThan(state.lastStageCompletedAt!.getTime());
+      expect(isStageAvailable(visual, again)).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should reject unknown prerequisites', () => {
+    expect(() => registerStage({ ...VISUAL_STAGE, prerequisites: ['writing'] }))
+      .toThrow('unknown prerequisite: writing');
+    expect(getStage('visual')).toBeUndefined();
+  });
+
+  it('should not remove a stage other stages depend on', () => {
+    expect(() => unregisterStage('initial')).toThrow('prerequisite of music');
+  });
+
+  it('should run a registered stage through the orchestrator', () => {
+    registerStage(VISUAL_STAGE);
+
+    const orchestrator = createOrchestrator('user-visual');
+    orchestrator.startAdaptiveAssessment({ maxQuestions: 5 });
+    while (orchestrator.getActiveQuestion()) {
+      orchestrator.submitAssessmentResponse(0, 3000);
+    }
+    orchestrator.completeActiveAssessment();
+
+    const events: string[] = [];
+    orchestrator.subscribe(event => events.push(event.type));
+
+    orchestrator.startStage('visual');
+    orchestrator.submitAssessmentResponse(5, 3000);
+
+    const restored = ProfilingOrchestrator.fromJSON(JSON.parse(JSON.stringify(orchestrator.toJSON())));
+    expect(restored.getActiveQuestion()?.id).toBe('visual-02-symmetry');
+
+    restored.subscribe(event => events.push(event.type));
+    restored.submitAssessmentResponse(2, 3000);
+
+    expect(restored.completeActiveAssessment()).not.toBeNull();
+    expect(restored.getState().profiling.completedStages).toEqual(['initial', 'visual']);
+    expect(restored.getGenome()!.behaviour.signalHistory.length)
+      .toBeGreaterThan(orchestrator.getGenome()!.behaviour.signalHistory.length);
+    expect(events).toContain('STAGE_COMPLETED');
+  });
+
+  it('should create the genome from a registered onboarding stage', () => {
+    registerStage({ ...VISUAL_STAGE, trigger: 'onboarding', prerequisites: [] });
+
+    const orchestrator = createOrchestrator('user-visual-first');
+    const events: string[] = [];
+    orchestrator.subscribe(event => events.push(event.type));
+
+    orchestrator.startStage('visual');
+    orchestrator.submitAssessmentResponse(5, 3000);
+    orchestrator.submitAssessmentResponse(2, 3000);
+
+    expect(orchestrator.completeActiveAssessment()).not.toBeNull();
+    expect(orchestrator.getState().profiling.completedStages).toEqual(['visual']);
+    expect(events).toEqual(expect.arrayContaining(['PROFILE_CREATED', 'STAGE_COMPLETED']));
+  });
+
+  it('should infer registered stages from an existing genome', () => {
+    registerStage(VISUAL_STAGE);
+
+    const onboarding = createOrchestrator('user-visual-stored');
+    onboarding.startAdaptiveAssessment({ maxQuestions: 5 });
+    while (onboarding.getActiveQuestion()) {
+      onboarding.submitAssessmentResponse(0, 3000);
+    }
+    const genome = onboarding.completeActiveAssessment()!;
+
+    const stored = {
+      ...genome,
+      behaviour: { ...genome.behaviour, confidence: 0.6, signalHistory: [] },
+      _engine: { ...genome._engine, evidence: { ...genome._engine.evidence!, signalCount: 40 } }
+    };
+    const { profiling } = createOrchestrator('user-visual-stored', stored).getState();
+
+    // Deep needs 0.65; visual needs 0.55 after initial and music
+    expect(profiling.completedStages).toEqual(['initial', 'music', 'visual']);
+  });
+
+  it('should gain the confidence a registered stage declares', () => {
+    registerStage(VISUAL_STAGE);
+
+    let calibration = createCalibration('visual', VISUAL_QUESTIONS);
+    calibration = submitCalibrationResponse(calibration, 5, 3000);
+    calibration = submitCalibrationResponse(calibration, 2, 3000);
+
+    // No genome yet, so the gain is scaled from a base confidence of 0.3
+    expect(completeCalibration(calibration)!.confidenceGain).toBeCloseTo(0.1 * (1 - 0.3 / 0.95));
+  });
+
+  it('should refuse to start an unknown stage', () => {
+    expect(() => createOrchestrator('user-unknown').startStage('writing')).toThrow('Unknown profiling stage');
+  });
+});
+
 describe('Profiling State', () => {
   describe('createProfilingState()', () => {
     it('should create empty state', () => {
@@ -246,6 +453,25 @@ describe('ProfilingOrchestrator', () => {
       // This is internal state, so we test the public interface
       expect(newOrchestrator.getGenome()).toBeNull();
     });
+
+    it('should count the signals of a genome stored without history', () => {
+      const onboarding = createOrchestrator('user-stored');
+      onboarding.startAdaptiveAssessment({ maxQuestions: 5 });
+      while (onboarding.getActiveQuestion()) {
+        onboarding.submitAssessmentResponse(0, 3000);
+      }
+      const genome = onboarding.completeActiveAssessment()!;
+
+      const stored = {
+        ...genome,
+        behaviour: { ...genome.behaviour, confidence: 0.6, signalHistory: [] },
+        _engine: { ...genome._engine, evidence: { ...genome._engine.evidence!, signalCount: 40 } }
+      };
+      const { profiling } = createOrchestrator('user-stored', stored).getState();
+
+      expect(profiling.interactionCount).toBe(40);
+      expect(profiling.completedStages).toEqual(['initial', 'music']);
+    });
   });
 
   describe('Event subscription', () => {
@@ -265,6 +491,59 @@ describe('ProfilingOrchestrator', () => {
     });
   });
 
+  describe('startAdaptiveAssessment()', () => {
+    it('should create the genome once the adaptive session settles', () => {
+      const orchestrator = createOrchestrator('user-cat');
+      const events: string[] = [];
+      orchestrator.subscribe(event => events.push(event.type));
+
+      let state = orchestrator.startAdaptiveAssessment({ maxQuestions: 6 });
+      while (!isAdaptiveComplete(state)) {
+        state = submitAdaptiveResponse(state, 0);
+      }
+      orchestrator.getState().activeAssessment = state;
+
+      const genome = orchestrator.completeActiveAssessment();
+
+      expect(genome?.archetype.primary.designation).toBe(state.classification.primary.designation);
+      expect(orchestrator.getState().profiling.completedStages).toContain('initial');
+      expect(events).toEqual(['PROFILE_CREATED', 'STAGE_COMPLETED']);
+    });
+  });
+
+  describe('response validity', () => {
+    it('should record validity on the genome', () => {
+      const orchestrator = createOrchestrator('user-valid');
+
+      orchestrator.startInitialAssessment();
+      while (orchestrator.getActiveQuestion()) {
+        orchestrator.submitAssessmentResponse(0, 3000);
+      }
+
+      const genome = orchestrator.completeActiveAssessment();
+
+      expect(genome?.behaviour.validity?.score).toBe(1);
+      expect(genome?.behaviour.validity?.flags).toEqual([]);
+    });
+
+    it('should discard careless assessments so they can be retaken', () => {
+      const orchestrator = createOrchestrator('user-careless');
+      const events: string[] = [];
+      orchestrator.subscribe(event => events.push(event.type));
+
+      orchestrator.startInitialAssessment();
+      while (orchestrator.getActiveQuestion()) {
+        orchestrator.submitAssessmentResponse(0, 150);
+      }
+
+      expect(orchestrator.completeActiveAssessment()).toBeNull();
+      expect(events).toEqual(['ASSESSMENT_REJECTED']);
+      expect(orchestrator.getGenome()).toBeNull();
+      expect(orchestrator.getState().activeAssessment).toBeNull();
+      expect(orchestrator.getState().profiling.completedStages).not.toContain('initial');
+    });
+  });
+
   describe('recordBehaviour()', () => {
     it('should buffer behavioural signals', () => {
       const orchestrator = createOrchestrator('user-101');
@@ -286,4 +565,217 @@ describe('ProfilingOrchestrator', () => {
       expect(orchestrator.getState().profiling.interactionCount).toBe(1);
     });
   });
+
+  describe('persistence', () => {
+    const finishOnboarding = (orchestrator: ProfilingOrchestrator) => {
+      orchestrator.startAdaptiveAssessment({ maxQuestions: 5 });
+      while (orchestrator.getActiveQuestion()) {
+        orchestrator.submitAssessmentResponse(0);
+      }
+      return orchestrator.completeActiveAssessment();
+    };
+
+    it('should round-trip state through JSON', () => {
+      const orchestrator = createOrchestrator('user-json');
+      finishOnboarding(orchestrator);
+      orchestrator.startMusicCalibration();
+      orchestrator.submitAssessmentResponse(4);
+      orchestrator.recordBehaviour([{ type: 'save', itemId: 'track-1', timestamp: new Date() }]);
+
+      const restored = ProfilingOrchestrator.fromJSON(JSON.parse(JSON.stringify(orchestrator.toJSON())));
+      const state = restored.getState();
+
+      expect(state.profiling).toEqual(orchestrator.getState().profiling);
+      expect(state.genome?.id).toBe(orchestrator.getGenome()?.id);
+      expect(state.pendingSignals[0].timestamp).toBeInstanceOf(Date);
+      expect(restored.getActiveQuestion()?.id).toBe(orchestrator.getActiveQuestion()?.id);
+      expect(state.driftHistory.length).toBe(1);
+    });
+
+    it('should keep the recorded stages instead of inferring them', () => {
+      const orchestrator = createOrchestrator('user-stages');
+      finishOnboarding(orchestrator);
+      orchestrator.startMusicCalibration();
+
+      const restored = ProfilingOrchestrator.fromJSON(orchestrator.toJSON());
+
+      expect(restored.getState().profiling.completedStages).toEqual(['initial']);
+      expect(restored.getState().profiling.currentStage).toBe('music');
+    });
+
+    it('should resume a half-finished calibration on another device', async () => {
+      const store = createMemoryOrchestratorStore();
+
+      const phone = await loadOrchestrator('user-devices', store);
+      finishOnboarding(phone);
+      const calibration = phone.startMusicCalibration();
+      phone.submitAssessmentResponse(5);
+      phone.submitAssessmentResponse(1);
+      await phone.flush();
+
+      const laptop = await loadOrchestrator('user-devices', store);
+      expect(laptop.getActiveQuestion()?.id).toBe(calibration.questions[2].id);
+
+      for (let i = 2; i < calibration.questions.length; i++) {
+        laptop.submitAssessmentResponse(3);
+      }
+      const genome = laptop.completeActiveAssessment();
+      await laptop.flush();
+
+      expect(genome).not.toBeNull();
+      expect((await store.load('user-devices'))?.profiling.completedStages).toEqual(['initial', 'music']);
+      expect((await store.load('user-devices'))?.activeAssessment).toBeNull();
+    });
+
+    it('should reject unknown snapshot versions', () => {
+      const snapshot = { ...createOrchestrator('user-version').toJSON(), version: 99 };
+
+      expect(() => ProfilingOrchestrator.fromJSON(snapshot)).toThrow('Unsupported orchestrator snapshot version');
+    });
+  });
+});
+
+describe('Re-assessment', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  const onboarded = () => {
+    const orchestrator = createOrchestrator('user-reassess');
+    orchestrator.startAdaptiveAssessment({ maxQuestions: 5 });
+    while (orchestrator.getActiveQuestion()) {
+      orchestrator.submitAssessmentResponse(0, 3000);
+    }
+    orchestrator.completeActiveAssessment();
+    return orchestrator;
+  };
+
+  it('should not be due right after an assessment', () => {
+    const genome = onboarded().getGenome()!;
+    const plan = planReassessment(genome, { lastAssessedAt: new Date() }, { minConfidence: 0 });
+
+    expect(plan.due).toBe(false);
+    expect(plan.questions).toEqual([]);
+    expect(plan.dueAt.getTime()).toBeGreaterThan(Date.now() + 29 * DAY);
+  });
+
+  it('should become due once stale, with questions for the contenders', () => {
+    const genome = onboarded().getGenome()!;
+    const plan = planReassessment(genome, { lastAssessedAt: new Date(Date.now() - 45 * DAY) }, { minConfidence: 0 });
+
+    expect(plan.reasons).toEqual(['stale']);
+    expect(plan.contenders[0]).toBe(genome.archetype.primary.designation);
+    expect(plan.questions.length).toBeGreaterThan(0);
+    expect(plan.questions.length).toBeLessThanOrEqual(5);
+  });
+
+  it('should decay confidence without an assessment', () => {
+    const genome = onboarded().getGenome()!;
+    const lastAssessedAt = new Date(Date.now() - 60 * DAY);
+    const plan = planReassessment(
+      { ...genome, behaviour: { ...genome.behaviour, confidence: 0.6 } },
+      { lastAssessedAt },
+      { stalenessDays: 365 }
+    );
+
+    expect(plan.decayedConfidence).toBeCloseTo(0.6 * Math.pow(0.99, 60), 2);
+    expect(plan.reasons).toEqual(['confidence']);
+  });
+
+  it('should target both ends of a drift since the last assessment', () => {
+    const genome = onboarded().getGenome()!;
+    const primary = genome.archetype.primary.designation;
+    const from = primary === 'L-3' ? 'N-5' : 'L-3';
+    const change = {
+      at: new Date(),
+      index: 3,
+      magnitude: 0.3,
+      from,
+      to: primary,
+      toward: [],
+      awayFrom: []
+    } as DriftReport['changePoints'][number];
+    const drift: DriftReport = { detected: true, checkedAt: new Date(), points: 6, changePoints: [change], latest: change };
+
+    const plan = planReassessment(genome, { drift, lastAssessedAt: new Date(Date.now() - DAY) }, { minConfidence: 0 });
+    const before = planReassessment(genome, { drift, lastAssessedAt: new Date(Date.now() + DAY) }, { minConfidence: 0 });
+
+    expect(plan.reasons).toEqual(['drift']);
+    expect(plan.contenders).toEqual(expect.arrayContaining([primary, from]));
+    expect(before.reasons).toEqual([]);
+  });
+
+  it('should seed a drift target that has no prior mass', () => {
+    const { archetype } = onboarded().getGenome()!;
+    const primary = archetype.primary.designation;
+    const target = primary === 'L-3' ? 'N-5' : 'L-3';
+    const classification = {
+      ...archetype,
+      distribution: { [primary]: 1 } as typeof archetype.distribution
+    };
+
+    const questions = selectReassessmentQuestions(classification, [primary, target], 3);
+
+    expect(questions).toHaveLength(3);
+    expect(questions.every(q => expectedInformationGain(q, {
+      ...classification,
+      distribution: { ...classification.distribution, [target]: 0.05 }
+    }) > 0)).toBe(true);
+  });
+
+  it('should offer and run a re-assessment through the orchestrator', () => {
+    const orchestrator = onboarded();
+    const events: OrchestratorEvent[] = [];
+    orchestrator.subscribe(event => events.push(event));
+
+    orchestrator.getState().profiling.lastStageCompletedAt = new Date(Date.now() - 45 * DAY);
+    orchestrator.recordBehaviour([{ type: 'save', itemId: 'track-1', timestamp: new Date() }]);
+
+    const offer = events.find(e => e.type === 'CALIBRATION_AVAILABLE');
+    expect(offer).toMatchObject({ stageId: REASSESSMENT_STAGE_ID, plan: { due: true } });
+
+    const designation = orchestrator.getGenome()!.archetype.primary.designation;
+    orchestrator.startReassessment();
+    let question = orchestrator.getActiveQuestion();
+    while (question) {
+      orchestrator.submitAssessmentResponse(idealResponse(question, designation), 3000);
+      question = orchestrator.getActiveQuestion();
+    }
+
+    expect(orchestrator.completeActiveAssessment()).not.toBeNull();
+
+    const profiling = orchestrator.getState().profiling;
+    expect(profiling.completedStages).toEqual(['initial']);
+    expect(profiling.currentStage).toBeNull();
+    expect(Date.now() - profiling.lastStageCompletedAt!.getTime()).toBeLessThan(DAY);
+    expect(events.map(e => e.type)).toContain('STAGE_COMPLETED');
+    expect(orchestrator.getReassessmentPlan()?.reasons).not.toContain('stale');
+  });
+
+  it('should offer each re-assessment plan once', () => {
+    const orchestrator = onboarded();
+    const offers: OrchestratorEvent[] = [];
+    orchestrator.subscribe(event => {
+      if (event.type === 'CALIBRATION_AVAILABLE') offers.push(event);
+    });
+    const save = () => orchestrator.recordBehaviour([{ type: 'save', itemId: 'track-1', timestamp: new Date() }]);
+
+    orchestrator.getState().profiling.lastStageCompletedAt = new Date(Date.now() - 45 * DAY);
+    save();
+    save();
+    save();
+    expect(offers).toHaveLength(1);
+
+    const designation = orchestrator.getGenome()!.archetype.primary.designation;
+    orchestrator.startReassessment();
+    let question = orchestrator.getActiveQuestion();
+    while (question) {
+      orchestrator.submitAssessmentResponse(idealResponse(question, designation), 3000);
+      question = orchestrator.getActiveQuestion();
+    }
+    orchestrator.completeActiveAssessment();
+
+    // A later plan is offered again
+    orchestrator.getState().profiling.lastStageCompletedAt = new Date(Date.now() - 60 * DAY);
+    save();
+    expect(offers).toHaveLength(2);
+  });
 });
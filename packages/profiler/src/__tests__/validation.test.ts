@@ -0,0 +1,207 @@
+/**
+ * @subtaste/profiler - Reliability Report Tests
+ *
+ * Gates question bank edits: the live bank must stay valid and reliable,
+ * and must not funnel respondents into a single Glyph.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Designation } from '@subtaste/core';
+import {
+  buildReliabilityReport,
+  getReliabilityFailures,
+  cronbachAlpha,
+  createRng,
+  simulateResponses,
+  idealResponse,
+  diffQuestionBanks,
+  DEFAULT_RELIABILITY_OPTIONS
+} from '../validation';
+import {
+  INITIAL_QUESTIONS,
+  getBuiltInQuestionBank,
+  validateQuestionBank,
+  loadQuestionBank,
+  serializeQuestionBank,
+  type QuestionBankArtefact,
+  type Question,
+  type BinaryQuestion,
+  type LikertQuestion,
+  type RankingQuestion,
+  type StimulusQuestion
+} from '../questions';
+
+type Weights = Partial<Record<Designation, number>>;
+
+/**
+ * Push every answer towards Ø, as a careless bank edit might
+ */
+function collapseToVoid(question: Question): Question {
+  const toVoid = (weights: Weights): Weights => ({ ...weights, 'Ø': (weights['Ø'] ?? 0) + 1.5 });
+
+  switch (question.type) {
+    case 'binary': {
+      const binary = question as BinaryQuestion;
+      return {
+        ...binary,
+        optionWeights: [toVoid(binary.optionWeights[0]), toVoid(binary.optionWeights[1])]
+      } as BinaryQuestion;
+    }
+
+    case 'likert':
+      return { ...question, archetypeWeights: toVoid(question.archetypeWeights) } as LikertQuestion;
+
+    case 'stimulus': {
+      const stimulus = question as StimulusQuestion;
+      return {
+        ...stimulus,
+        stimuli: stimulus.stimuli.map(s => ({ ...s, archetypeWeights: toVoid(s.archetypeWeights) }))
+      } as StimulusQuestion;
+    }
+
+    default: {
+      const ranking = question as RankingQuestion;
+      return { ...ranking, itemWeights: ranking.itemWeights.map(toVoid) } as RankingQuestion;
+    }
+  }
+}
+
+describe('Simulated respondents', () => {
+  it('should be deterministic for a seed', () => {
+    const a = simulateResponses(INITIAL_QUESTIONS, 'V-2', createRng(7), 0.2);
+    const b = simulateResponses(INITIAL_QUESTIONS, 'V-2', createRng(7), 0.2);
+
+    expect(a.map(r => r.response)).toEqual(b.map(r => r.response));
+  });
+
+  it('should answer as the designation when there is no noise', () => {
+    const responses = simulateResponses(INITIAL_QUESTIONS, 'S-0', createRng(1));
+
+    responses.forEach((r, i) => {
+      expect(r.response).toBe(idealResponse(INITIAL_QUESTIONS[i], 'S-0'));
+    });
+  });
+});
+
+describe('Cronbach alpha', () => {
+  it('should be 1 for perfectly consistent items', () => {
+    expect(cronbachAlpha([[1, 1], [2, 2], [3, 3]])).toBeCloseTo(1);
+  });
+
+  it('should be null with fewer than two varying items', () => {
+    expect(cronbachAlpha([[1, 5], [2, 5], [3, 5]])).toBeNull();
+  });
+});
+
+describe('Reliability report', () => {
+  const report = buildReliabilityReport();
+
+  it('should pass the default thresholds for the live bank', () => {
+    expect(getReliabilityFailures(report)).toEqual([]);
+  });
+
+  it('should count every respondent in the confusion matrix', () => {
+    const total = Object.values(report.confusion)
+      .flatMap(row => Object.values(row))
+      .reduce((a, b) => a + b, 0);
+
+    expect(total).toBe(report.respondents);
+    expect(Object.values(report.baseRates).reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+  });
+
+  it('should be reproducible for a seed', () => {
+    expect(buildReliabilityReport({ respondentsPerDesignation: 2 }))
+      .toEqual(buildReliabilityReport({ respondentsPerDesignation: 2 }));
+  });
+
+  it('should fail a bank that collapses everyone into VOID', () => {
+    const collapsed = buildReliabilityReport({
+      bank: DEFAULT_RELIABILITY_OPTIONS.bank.map(group => group.map(collapseToVoid))
+    });
+
+    expect(collapsed.dominant.glyph).toBe('VOID');
+    expect(collapsed.dominant.share).toBeGreaterThan(0.9);
+    expect(getReliabilityFailures(collapsed).some(f => f.startsWith('VOID share'))).toBe(true);
+  });
+});
+
+describe('Question bank format', () => {
+  const bank = getBuiltInQuestionBank();
+
+  const withQuestion = (question: unknown): unknown => ({
+    ...bank,
+    stages: { ...bank.stages, initial: [...bank.stages.initial, question] }
+  });
+
+  it('should validate the built-in bank', () => {
+    expect(validateQuestionBank(bank)).toEqual([]);
+  });
+
+  it('should round-trip through JSON', () => {
+    expect(loadQuestionBank(serializeQuestionBank(bank))).toEqual(bank);
+  });
+
+  it('should reject unknown designations and out-of-range weights', () => {
+    const issues = validateQuestionBank(withQuestion({
+      ...INITIAL_QUESTIONS[0],
+      id: 'init-extra',
+      optionWeights: [{ 'X-99': 0.5 }, { 'S-0': 3 }]
+    }));
+
+    const index = INITIAL_QUESTIONS.length;
+    expect(issues.map(i => i.path)).toEqual([
+      `stages.initial[${index}].optionWeights[0].X-99`,
+      `stages.initial[${index}].optionWeights[1].S-0`
+    ]);
+  });
+
+  it('should reject duplicate ids', () => {
+    const issues = validateQuestionBank(withQuestion(INITIAL_QUESTIONS[0]));
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('Duplicate id');
+  });
+
+  it('should require coverage of every designation', () => {
+    const issues = validateQuestionBank(bank, { minCoverage: 1000 });
+
+    expect(issues).toHaveLength(12);
+  });
+
+  it('should throw with every issue listed', () => {
+    expect(() => loadQuestionBank('{"id":"x","version":1.5}')).toThrow(/version[\s\S]*createdAt[\s\S]*stages/);
+  });
+});
+
+describe('Question bank diff', () => {
+  it('should report no shift between identical banks', () => {
+    const bank = getBuiltInQuestionBank();
+    const diff = diffQuestionBanks(bank, bank, { respondentsPerDesignation: 2, randomSessions: 5 });
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([]);
+    expect(diff.glyphShifts.every(s => s.delta === 0)).toBe(true);
+  });
+
+  it('should report changed questions and the Glyph they shift towards', () => {
+    const before = getBuiltInQuestionBank();
+    const after: QuestionBankArtefact = {
+      ...before,
+      version: 2,
+      stages: {
+        initial: before.stages.initial.map(collapseToVoid),
+        music: before.stages.music.slice(1),
+        deep: before.stages.deep
+      }
+    };
+
+    const diff = diffQuestionBanks(before, after, { respondentsPerDesignation: 3, randomSessions: 5 });
+
+    expect(diff.to.version).toBe(2);
+    expect(diff.removed).toEqual([before.stages.music[0].id]);
+    expect(diff.changed).toHaveLength(before.stages.initial.length);
+    expect(diff.glyphShifts[0].glyph).toBe('VOID');
+    expect(diff.glyphShifts[0].delta).toBeGreaterThan(0);
+  });
+});
@@ -2,7 +2,7 @@
  * @subtaste/profiler
  *
  * Assessment instruments for taste profiling.
- * Progressive profiling from 3-question onboarding to deep calibration.
+ * Progressive profiling from adaptive onboarding to deep calibration.
  */
 
 // ============================================================================
@@ -19,11 +19,25 @@ export {
   completeAssessment,
   estimateTimeRemaining,
 
+  // Adaptive assessment (CAT)
+  createAdaptiveAssessment,
+  getCurrentAdaptiveQuestion,
+  submitAdaptiveResponse,
+  isAdaptiveComplete,
+  getAdaptiveProgress,
+  completeAdaptiveAssessment,
+  isClassificationSettled,
+  selectNextQuestion,
+  expectedInformationGain,
+  DEFAULT_ADAPTIVE_CONFIG,
+
   // Calibration
+  createCalibration,
   createMusicCalibration,
   createDeepCalibration,
   getCurrentCalibrationQuestion,
   submitCalibrationResponse,
+  submitStimulusTrial,
   isCalibrationComplete,
   getCalibrationProgress,
   completeCalibration,
@@ -31,6 +45,19 @@ export {
   qualifiesForDeepCalibration,
   getEstimatedTime,
 
+  // Stimulus trials
+  createStimulusTrial,
+  recordListen,
+  chooseStimulus,
+  getListenCoverage,
+  getStimulusResponse,
+
+  // Response validity
+  assessResponseValidity,
+  applyResponseValidity,
+  toGenomeValidity,
+  DEFAULT_VALIDITY_CONFIG,
+
   // Implicit signals
   behaviourToSignal,
   behaviourBatchToSignals,
@@ -40,9 +67,17 @@ export {
 export type {
   InitialAssessmentState,
   InitialAssessmentResult,
+  AdaptiveConfig,
+  AdaptiveStopReason,
+  AdaptiveAssessmentState,
+  AdaptiveAssessmentResult,
   CalibrationType,
   CalibrationState,
   CalibrationResult,
+  StimulusTrialState,
+  ValidityConfig,
+  ValidityFlag,
+  ResponseValidity,
   BehaviouralEvent,
   ItemMetadata
 } from './instruments';
@@ -60,22 +95,47 @@ export {
   mapBinaryResponse,
   mapLikertResponse,
   mapRankingResponse,
+  mapComparisonResponse,
+  mapMaxDiffResponse,
+  mapStimulusResponse,
+  stimulusListeningSignals,
+  fitBradleyTerry,
   responseToSignal,
   responsesToSignals,
   calculateConfidenceGain,
-  sampleQuestions
+  sampleQuestions,
+  BANK_STAGES,
+  DEFAULT_BANK_VALIDATION,
+  getBuiltInQuestionBank,
+  validateQuestionBank,
+  parseQuestionBank,
+  loadQuestionBank,
+  serializeQuestionBank,
+  getBankQuestions
 } from './questions';
 
 export type {
   QuestionType,
+  AnchorTag,
   Question,
   BinaryQuestion,
   LikertQuestion,
   RankingQuestion,
+  ComparisonQuestion,
+  MaxDiffQuestion,
+  Stimulus,
+  StimulusQuestion,
   BinaryResponse,
   LikertResponse,
   RankingResponse,
-  QuestionResponse
+  ComparisonResponse,
+  MaxDiffResponse,
+  StimulusResponse,
+  QuestionResponse,
+  BankStage,
+  QuestionBankArtefact,
+  BankValidationConfig,
+  BankIssue
 } from './questions';
 
 // ============================================================================
@@ -84,6 +144,8 @@ export type {
 
 export {
   PROFILING_STAGES,
+  registerStage,
+  unregisterStage,
   getStage,
   getAllStages,
   createProfilingState,
@@ -95,15 +157,57 @@ export {
   getProfilingProgress,
   estimateFinalConfidence,
   ProfilingOrchestrator,
-  createOrchestrator
+  createOrchestrator,
+  loadOrchestrator,
+  REASSESSMENT_STAGE_ID,
+  DEFAULT_REASSESSMENT_CONFIG,
+  planReassessment,
+  selectReassessmentQuestions,
+  completeReassessment,
+  ORCHESTRATOR_SNAPSHOT_VERSION,
+  createMemoryOrchestratorStore,
+  serializeProfilingState,
+  deserializeProfilingState,
+  serializeAssessment,
+  deserializeAssessment
 } from './progressive';
 
 export type {
+  BuiltInStageId,
   StageId,
   StageTrigger,
   ProfilingStage,
   ProfilingState,
   OrchestratorState,
   OrchestratorEvent,
-  EventHandler
+  EventHandler,
+  ReassessmentConfig,
+  ReassessmentReason,
+  ReassessmentPlan,
+  ReassessmentInput,
+  OrchestratorSnapshot,
+  OrchestratorStore,
+  SerializedAssessment,
+  SerializedResponse
 } from './progressive';
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export {
+  buildReliabilityReport,
+  getReliabilityFailures,
+  cronbachAlpha,
+  diffQuestionBanks,
+  DEFAULT_RELIABILITY_OPTIONS,
+  RELIABILITY_THRESHOLDS
+} from './validation';
+
+export type {
+  ReliabilityOptions,
+  ReliabilityReport,
+  ReliabilityThresholds,
+  GlyphShift,
+  QuestionBankDiff
+} from './validation';
@@ -0,0 +1,420 @@
+/**
+ * @subtaste/profiler - Adaptive Assessment (CAT)
+ *
+ * Computerised adaptive testing over THE TWELVE question banks.
+ * Each next question is the one with the highest expected information gain
+ * between the current top designations; the session stops as soon as the
+ * classification's credible intervals separate the primary Glyph.
+ */
+
+import type { Designation, Signal, ArchetypeClassification } from '@subtaste/core';
+import { classifySignals } from '@subtaste/core';
+import {
+  INITIAL_QUESTIONS,
+  mapBinaryResponse,
+  mapLikertResponse,
+  mapRankingResponse,
+  mapComparisonResponse,
+  mapMaxDiffResponse,
+  mapStimulusResponse,
+  responsesToSignals,
+  type Question,
+  type BinaryQuestion,
+  type LikertQuestion,
+  type RankingQuestion,
+  type ComparisonQuestion,
+  type MaxDiffQuestion,
+  type StimulusQuestion,
+  type LikertResponse,
+  type QuestionResponse
+} from '../questions';
+import {
+  assessResponseValidity,
+  applyResponseValidity,
+  type ResponseValidity
+} from './validity';
+
+/**
+ * Adaptive assessment configuration
+ */
+export interface AdaptiveConfig {
+  // Never stop before this many answers
+  minQuestions: number;
+
+  // Hard cap on session length
+  maxQuestions: number;
+
+  // Designations whose uncertainty the next question should reduce
+  topDesignations: number;
+
+  // How strongly a designation prefers its highest-weighted answer
+  responseSharpness: number;
+}
+
+/**
+ * Default adaptive configuration
+ */
+export const DEFAULT_ADAPTIVE_CONFIG: AdaptiveConfig = {
+  minQuestions: 3,
+  maxQuestions: 8,
+  topDesignations: 3,
+  responseSharpness: 4
+};
+
+/**
+ * Why an adaptive session ended
+ */
+export type AdaptiveStopReason = 'settled' | 'max_questions' | 'bank_exhausted';
+
+/**
+ * Adaptive assessment state
+ */
+export interface AdaptiveAssessmentState {
+  bank: Question[];
+  config: AdaptiveConfig;
+  current: Question | null;
+  asked: string[];
+  responses: QuestionResponse[];
+  classification: ArchetypeClassification;
+  startedAt: Date;
+  completedAt: Date | null;
+  stopReason: AdaptiveStopReason | null;
+}
+
+/**
+ * Adaptive assessment result
+ */
+export interface AdaptiveAssessmentResult {
+  classification: ArchetypeClassification;
+  signals: Signal[];
+  duration: number;
+  confidence: number;
+  questionsAsked: number;
+  stopReason: AdaptiveStopReason;
+  validity: ResponseValidity;
+}
+
+/**
+ * Any response to a bank question
+ */
+type AnyResponse = QuestionResponse['response'];
+
+/**
+ * Create a new adaptive assessment
+ * Defaults to the onboarding bank.
+ */
+export function createAdaptiveAssessment(
+  bank: Question[] = INITIAL_QUESTIONS,
+  config: Partial<AdaptiveConfig> = {}
+): AdaptiveAssessmentState {
+  const merged = { ...DEFAULT_ADAPTIVE_CONFIG, ...config };
+  const classification = classifySignals([]);
+
+  return {
+    bank,
+    config: merged,
+    current: selectNextQuestion(classification, bank, merged),
+    asked: [],
+    responses: [],
+    classification,
+    startedAt: new Date(),
+    completedAt: bank.length === 0 ? new Date() : null,
+    stopReason: bank.length === 0 ? 'bank_exhausted' : null
+  };
+}
+
+/**
+ * Get the current question
+ */
+export function getCurrentAdaptiveQuestion(state: AdaptiveAssessmentState): Question | null {
+  return state.completedAt ? null : state.current;
+}
+
+/**
+ * Submit a response, reclassify and pick the next question
+ * Stimulus questions also take the time spent on each stimulus.
+ */
+export function submitAdaptiveResponse(
+  state: AdaptiveAssessmentState,
+  response: AnyResponse,
+  responseTimeMs?: number,
+  listenMs?: number[]
+): AdaptiveAssessmentState {
+  const question = getCurrentAdaptiveQuestion(state);
+
+  if (!question) {
+    return state;
+  }
+
+  const responses = [
+    ...state.responses,
+    {
+      questionId: question.id,
+      response,
+      timestamp: new Date(),
+      ...(responseTimeMs !== undefined && { responseTimeMs }),
+      ...(listenMs !== undefined && { listenMs })
+    }
+  ];
+  const asked = [...state.asked, question.id];
+  const classification = classifySignals(responsesToSignals(responses, 'quiz'));
+  const remaining = state.bank.filter(q => !asked.includes(q.id));
+
+  const stopReason = getStopReason(classification, asked.length, remaining.length, state.config);
+
+  return {
+    ...state,
+    current: stopReason ? null : selectNextQuestion(classification, remaining, state.config),
+    asked,
+    responses,
+    classification,
+    completedAt: stopReason ? new Date() : null,
+    stopReason
+  };
+}
+
+/**
+ * Check if assessment is complete
+ */
+export function isAdaptiveComplete(state: AdaptiveAssessmentState): boolean {
+  return state.completedAt !== null;
+}
+
+/**
+ * Get progress (0-1) against the question cap
+ */
+export function getAdaptiveProgress(state: AdaptiveAssessmentState): number {
+  if (isAdaptiveComplete(state)) {
+    return 1;
+  }
+
+  const cap = Math.min(state.config.maxQuestions, state.bank.length);
+  return cap > 0 ? state.asked.length / cap : 1;
+}
+
+/**
+ * Complete the assessment and get results
+ * Careless responses are down-weighted before the final classification.
+ */
+export function completeAdaptiveAssessment(
+  state: AdaptiveAssessmentState
+): AdaptiveAssessmentResult | null {
+  if (!isAdaptiveComplete(state) || !state.stopReason) {
+    return null;
+  }
+
+  const validity = assessResponseValidity(state.responses);
+  const signals = applyResponseValidity(responsesToSignals(state.responses, 'quiz'), validity);
+  const classification = validity.flags.length > 0
+    ? classifySignals(signals)
+    : state.classification;
+
+  return {
+    classification,
+    signals,
+    duration: state.completedAt!.getTime() - state.startedAt.getTime(),
+    confidence: classification.primary.confidence,
+    questionsAsked: state.asked.length,
+    stopReason: state.stopReason,
+    validity
+  };
+}
+
+/**
+ * Whether the classification has settled on a primary Glyph
+ * Settled means enough evidence and no overlap between the primary and
+ * runner-up credible intervals.
+ */
+export function isClassificationSettled(classification: ArchetypeClassification): boolean {
+  const uncertainty = classification.uncertainty;
+
+  if (!uncertainty) {
+    return true;
+  }
+
+  return uncertainty.sufficientEvidence && !uncertainty.tie;
+}
+
+/**
+ * Pick the candidate with the highest expected information gain
+ * Ties keep bank order.
+ */
+export function selectNextQuestion(
+  classification: ArchetypeClassification,
+  candidates: Question[],
+  config: Partial<AdaptiveConfig> = {}
+): Question | null {
+  let best: Question | null = null;
+  let bestGain = -Infinity;
+
+  for (const question of candidates) {
+    const gain = expectedInformationGain(question, classification, config);
+    if (gain > bestGain) {
+      best = question;
+      bestGain = gain;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Expected reduction in entropy (nats) over the top designations
+ *
+ * A designation d answers r with probability proportional to
+ * exp(sharpness x weight the answer gives d), so questions whose answers
+ * pull the current leaders apart score highest.
+ */
+export function expectedInformationGain(
+  question: Question,
+  classification: ArchetypeClassification,
+  config: Partial<AdaptiveConfig> = {}
+): number {
+  const { topDesignations, responseSharpness } = { ...DEFAULT_ADAPTIVE_CONFIG, ...config };
+
+  const prior = getTopPrior(classification, topDesignations);
+  const designations = Object.keys(prior) as Designation[];
+  const answers = getAnswerWeights(question);
+
+  if (designations.length < 2 || answers.length < 2) {
+    return 0;
+  }
+
+  // Likelihood of each answer for each designation
+  const likelihood: Record<string, number[]> = {};
+  for (const d of designations) {
+    const logits = answers.map(weights => responseSharpness * (weights[d] || 0));
+    const max = Math.max(...logits);
+    const exps = logits.map(l => Math.exp(l - max));
+    const total = exps.reduce((a, b) => a + b, 0);
+    likelihood[d] = exps.map(e => e / total);
+  }
+
+  let expectedEntropy = 0;
+  for (let r = 0; r < answers.length; r++) {
+    const joint = designations.map(d => (prior[d] || 0) * likelihood[d][r]);
+    const marginal = joint.reduce((a, b) => a + b, 0);
+    if (marginal <= 0) continue;
+
+    expectedEntropy += marginal * entropy(joint.map(j => j / marginal));
+  }
+
+  return entropy(designations.map(d => prior[d] || 0)) - expectedEntropy;
+}
+
+/**
+ * Helper: renormalised distribution over the top designations
+ */
+function getTopPrior(
+  classification: ArchetypeClassification,
+  count: number
+): Partial<Record<Designation, number>> {
+  const top = (Object.entries(classification.distribution) as [Designation, number][])
+    .filter(([, p]) => p > 0)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, Math.max(2, count));
+
+  const total = top.reduce((sum, [, p]) => sum + p, 0);
+  const prior: Partial<Record<Designation, number>> = {};
+  for (const [d, p] of top) {
+    prior[d] = p / total;
+  }
+
+  return prior;
+}
+
+/**
+ * Helper: archetype weights for each possible answer
+ * Rankings are approximated by which item is ranked first, comparisons and
+ * best-worst sets by which item is favoured wherever it appears.
+ */
+function getAnswerWeights(question: Question): Partial<Record<Designation, number>>[] {
+  switch (question.type) {
+    case 'binary': {
+      const binary = question as BinaryQuestion;
+      return [mapBinaryResponse(binary, 0), mapBinaryResponse(binary, 1)];
+    }
+
+    case 'likert': {
+      const likert = question as LikertQuestion;
+      return Array.from({ length: likert.scale }, (_, i) =>
+        mapLikertResponse(likert, (i + 1) as LikertResponse)
+      );
+    }
+
+    case 'ranking': {
+      const ranking = question as RankingQuestion;
+      const order = ranking.items.map((_, i) => i);
+      return order.map(first =>
+        mapRankingResponse(ranking, [first, ...order.filter(i => i !== first)])
+      );
+    }
+
+    case 'comparison': {
+      const comparison = question as ComparisonQuestion;
+      return comparison.items.map((_, favourite) =>
+        mapComparisonResponse(
+          comparison,
+          comparison.pairs.map(([a, b]) => (b === favourite ? b : a))
+        )
+      );
+    }
+
+    case 'maxdiff': {
+      const maxdiff = question as MaxDiffQuestion;
+      return maxdiff.items.map((_, favourite) =>
+        mapMaxDiffResponse(
+          maxdiff,
+          maxdiff.sets.map(set => {
+            const best = set.includes(favourite) ? favourite : set[0];
+            const worst = set.filter(i => i !== best).pop() ?? best;
+            return [best, worst] as [number, number];
+          })
+        )
+      );
+    }
+
+    case 'stimulus': {
+      const stimulus = question as StimulusQuestion;
+      return stimulus.stimuli.map((_, i) => mapStimulusResponse(stimulus, i));
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Helper: decide whether the session should stop
+ */
+function getStopReason(
+  classification: ArchetypeClassification,
+  answered: number,
+  remaining: number,
+  config: AdaptiveConfig
+): AdaptiveStopReason | null {
+  if (answered >= config.minQuestions && isClassificationSettled(classification)) {
+    return 'settled';
+  }
+
+  if (answered >= config.maxQuestions) {
+    return 'max_questions';
+  }
+
+  if (remaining === 0) {
+    return 'bank_exhausted';
+  }
+
+  return null;
+}
+
+/**
+ * Helper: Shannon entropy in nats
+ */
+function entropy(probabilities: number[]): number {
+  let h = 0;
+  for (const p of probabilities) {
+    if (p > 0) h -= p * Math.log(p);
+  }
+  return h;
+}
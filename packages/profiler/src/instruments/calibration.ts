@@ -2,7 +2,7 @@
  * @subtaste/profiler - Calibration Instruments
  *
  * Follow-up assessments for deeper profiling.
- * Music calibration (~45s) and deep calibration (~2min).
+ * Music calibration (~45s plus listening) and deep calibration (~2min).
  */
 
 import type { Signal, ArchetypeClassification, TasteGenome } from '@subtaste/core';
@@ -15,11 +15,18 @@ import {
   type QuestionResponse,
   responsesToSignals
 } from '../questions';
+import {
+  assessResponseValidity,
+  applyResponseValidity,
+  type ResponseValidity
+} from './validity';
+import { getStimulusResponse, type StimulusTrialState } from './stimulus';
+import { getStage } from '../progressive/stages';
 
 /**
- * Calibration type
+ * Calibration type (a built-in calibration or a registered stage id)
  */
-export type CalibrationType = 'music' | 'deep';
+export type CalibrationType = 'music' | 'deep' | (string & {});
 
 /**
  * Calibration state
@@ -42,15 +49,17 @@ export interface CalibrationResult {
   signals: Signal[];
   duration: number;
   confidenceGain: number;
+  validity: ResponseValidity;
 }
 
 /**
- * Create a music calibration session
+ * Create a calibration session over a set of questions
+ * Used for registered stages that bring their own questions.
  */
-export function createMusicCalibration(): CalibrationState {
+export function createCalibration(type: CalibrationType, questions: Question[]): CalibrationState {
   return {
-    type: 'music',
-    questions: MUSIC_CALIBRATION_QUESTIONS,
+    type,
+    questions,
     currentIndex: 0,
     responses: [],
     startedAt: new Date(),
@@ -58,18 +67,18 @@ export function createMusicCalibration(): CalibrationState {
   };
 }
 
+/**
+ * Create a music calibration session
+ */
+export function createMusicCalibration(): CalibrationState {
+  return createCalibration('music', MUSIC_CALIBRATION_QUESTIONS);
+}
+
 /**
  * Create a deep calibration session
  */
 export function createDeepCalibration(): CalibrationState {
-  return {
-    type: 'deep',
-    questions: DEEP_CALIBRATION_QUESTIONS,
-    currentIndex: 0,
-    responses: [],
-    startedAt: new Date(),
-    completedAt: null
-  };
+  return createCalibration('deep', DEEP_CALIBRATION_QUESTIONS);
 }
 
 /**
@@ -84,10 +93,13 @@ export function getCurrentCalibrationQuestion(state: CalibrationState): Question
 
 /**
  * Submit a calibration response
+ * Stimulus questions also take the time spent on each stimulus.
  */
 export function submitCalibrationResponse(
   state: CalibrationState,
-  response: number | number[]
+  response: QuestionResponse['response'],
+  responseTimeMs?: number,
+  listenMs?: number[]
 ): CalibrationState {
   const question = getCurrentCalibrationQuestion(state);
 
@@ -97,8 +109,10 @@ export function submitCalibrationResponse(
 
   const questionResponse: QuestionResponse = {
     questionId: question.id,
-    response: response as any,
-    timestamp: new Date()
+    response,
+    timestamp: new Date(),
+    ...(responseTimeMs !== undefined && { responseTimeMs }),
+    ...(listenMs !== undefined && { listenMs })
   };
 
   const newState: CalibrationState = {
@@ -114,6 +128,22 @@ export function submitCalibrationResponse(
   return newState;
 }
 
+/**
+ * Submit a finished stimulus trial for the current question
+ */
+export function submitStimulusTrial(
+  state: CalibrationState,
+  trial: StimulusTrialState
+): CalibrationState {
+  const response = getStimulusResponse(trial);
+
+  if (!response || getCurrentCalibrationQuestion(state)?.id !== response.questionId) {
+    return state;
+  }
+
+  return submitCalibrationResponse(state, response.response, response.responseTimeMs, response.listenMs);
+}
+
 /**
  * Check if calibration is complete
  */
@@ -139,7 +169,8 @@ export function completeCalibration(
     return null;
   }
 
-  const signals = responsesToSignals(state.responses, 'calibration');
+  const validity = assessResponseValidity(state.responses);
+  const signals = applyResponseValidity(responsesToSignals(state.responses, 'calibration', state.questions), validity);
 
   const result = classify({
     signals,
@@ -148,9 +179,9 @@ export function completeCalibration(
 
   const duration = state.completedAt!.getTime() - state.startedAt.getTime();
 
-  // Calculate confidence gain
+  // Calculate confidence gain; re-assessments are not registered stages
   const baseConfidence = existingGenome?.behaviour.confidence || 0.3;
-  const confidenceGain = state.type === 'music' ? 0.15 : 0.2;
+  const confidenceGain = getStage(state.type)?.confidenceGain ?? 0.2;
   const effectiveGain = confidenceGain * (1 - baseConfidence / 0.95);
 
   return {
@@ -158,7 +189,8 @@ export function completeCalibration(
     classification: result.classification,
     signals,
     duration,
-    confidenceGain: effectiveGain
+    confidenceGain: validity.rejected ? 0 : effectiveGain,
+    validity
   };
 }
 
@@ -187,5 +219,5 @@ export function qualifiesForDeepCalibration(
  * Get estimated time for calibration type
  */
 export function getEstimatedTime(type: CalibrationType): number {
-  return type === 'music' ? 45 : 120; // seconds
+  return type === 'music' ? 105 : 120; // seconds (music includes ~60s of listening)
 }
@@ -20,6 +20,7 @@ export interface BehaviouralEvent {
 
 /**
  * Item metadata for smarter signal interpretation
+ * The flags also drive psychometric updates (see ITEM_FEATURE_TRAITS in core).
  */
 export interface ItemMetadata {
   isObscure?: boolean;       // Low play count / niche
@@ -18,12 +18,35 @@ export type {
   InitialAssessmentResult
 } from './initial';
 
+// Adaptive assessment (CAT)
+export {
+  createAdaptiveAssessment,
+  getCurrentAdaptiveQuestion,
+  submitAdaptiveResponse,
+  isAdaptiveComplete,
+  getAdaptiveProgress,
+  completeAdaptiveAssessment,
+  isClassificationSettled,
+  selectNextQuestion,
+  expectedInformationGain,
+  DEFAULT_ADAPTIVE_CONFIG
+} from './adaptive';
+
+export type {
+  AdaptiveConfig,
+  AdaptiveStopReason,
+  AdaptiveAssessmentState,
+  AdaptiveAssessmentResult
+} from './adaptive';
+
 // Calibration instruments
 export {
+  createCalibration,
   createMusicCalibration,
   createDeepCalibration,
   getCurrentCalibrationQuestion,
   submitCalibrationResponse,
+  submitStimulusTrial,
   isCalibrationComplete,
   getCalibrationProgress,
   completeCalibration,
@@ -38,6 +61,31 @@ export type {
   CalibrationResult
 } from './calibration';
 
+// Stimulus trials
+export {
+  createStimulusTrial,
+  recordListen,
+  chooseStimulus,
+  getListenCoverage,
+  getStimulusResponse
+} from './stimulus';
+
+export type { StimulusTrialState } from './stimulus';
+
+// Response validity
+export {
+  assessResponseValidity,
+  applyResponseValidity,
+  toGenomeValidity,
+  DEFAULT_VALIDITY_CONFIG
+} from './validity';
+
+export type {
+  ValidityConfig,
+  ValidityFlag,
+  ResponseValidity
+} from './validity';
+
 // Implicit signals
 export {
   behaviourToSignal,
@@ -13,6 +13,11 @@ import {
   type QuestionResponse,
   responsesToSignals
 } from '../questions';
+import {
+  assessResponseValidity,
+  applyResponseValidity,
+  type ResponseValidity
+} from './validity';
 
 /**
  * Initial assessment state
@@ -33,6 +38,7 @@ export interface InitialAssessmentResult {
   signals: Signal[];
   duration: number;
   confidence: number;
+  validity: ResponseValidity;
 }
 
 /**
@@ -60,10 +66,12 @@ export function getCurrentQuestion(state: InitialAssessmentState): BinaryQuestio
 
 /**
  * Submit a response and advance
+ * Pass the client-measured answer time so validity checks can use it.
  */
 export function submitResponse(
   state: InitialAssessmentState,
-  response: 0 | 1
+  response: 0 | 1,
+  responseTimeMs?: number
 ): InitialAssessmentState {
   const question = getCurrentQuestion(state);
 
@@ -74,7 +82,8 @@ export function submitResponse(
   const questionResponse: QuestionResponse = {
     questionId: question.id,
     response,
-    timestamp: new Date()
+    timestamp: new Date(),
+    ...(responseTimeMs !== undefined && { responseTimeMs })
   };
 
   const newState: InitialAssessmentState = {
@@ -107,6 +116,7 @@ export function getProgress(state: InitialAssessmentState): number {
 
 /**
  * Complete the assessment and get results
+ * Careless responses are down-weighted; a rejected assessment yields no signals.
  */
 export function completeAssessment(
   state: InitialAssessmentState
@@ -115,7 +125,8 @@ export function completeAssessment(
     return null;
   }
 
-  const signals = responsesToSignals(state.responses, 'quiz');
+  const validity = assessResponseValidity(state.responses);
+  const signals = applyResponseValidity(responsesToSignals(state.responses, 'quiz'), validity);
   const classification = classifySignals(signals);
 
   const duration = state.completedAt!.getTime() - state.startedAt.getTime();
@@ -124,7 +135,8 @@ export function completeAssessment(
     classification,
     signals,
     duration,
-    confidence: classification.primary.confidence
+    confidence: classification.primary.confidence,
+    validity
   };
 }
 
@@ -0,0 +1,122 @@
+/**
+ * @subtaste/profiler - Stimulus Trials
+ *
+ * Presents a stimulus question's clips, records how long each one is
+ * listened to (or looked at) and which one is chosen, and turns the trial
+ * into a question response that carries the listening times.
+ */
+
+import type { StimulusQuestion, QuestionResponse } from '../questions';
+
+/**
+ * Stimulus trial state
+ */
+export interface StimulusTrialState {
+  question: StimulusQuestion;
+
+  // Stimulus indices presented, in display order
+  shown: number[];
+
+  // Accumulated time per stimulus, in stimulus order
+  listenMs: number[];
+
+  choice: number | null;
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Start a stimulus trial
+ * Presents `count` of the question's stimuli (all by default) in random order.
+ */
+export function createStimulusTrial(
+  question: StimulusQuestion,
+  count: number = question.stimuli.length
+): StimulusTrialState {
+  const indices = question.stimuli.map((_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+
+  return {
+    question,
+    shown: indices.slice(0, Math.max(1, Math.min(count, indices.length))),
+    listenMs: question.stimuli.map(() => 0),
+    choice: null,
+    startedAt: new Date(),
+    completedAt: null
+  };
+}
+
+/**
+ * Record time spent on a stimulus
+ * Repeated plays accumulate; stimuli not on display are ignored.
+ */
+export function recordListen(
+  state: StimulusTrialState,
+  stimulusIndex: number,
+  durationMs: number
+): StimulusTrialState {
+  if (state.completedAt || !state.shown.includes(stimulusIndex) || durationMs <= 0) {
+    return state;
+  }
+
+  return {
+    ...state,
+    listenMs: state.listenMs.map((ms, i) => (i === stimulusIndex ? ms + durationMs : ms))
+  };
+}
+
+/**
+ * Choose a stimulus and finish the trial
+ */
+export function chooseStimulus(
+  state: StimulusTrialState,
+  stimulusIndex: number
+): StimulusTrialState {
+  if (state.completedAt || !state.shown.includes(stimulusIndex)) {
+    return state;
+  }
+
+  return {
+    ...state,
+    choice: stimulusIndex,
+    completedAt: new Date()
+  };
+}
+
+/**
+ * Share of each shown clip that was heard (0-1, capped)
+ * Stimuli without a known length count as fully heard once opened.
+ */
+export function getListenCoverage(state: StimulusTrialState): Record<string, number> {
+  const coverage: Record<string, number> = {};
+
+  for (const i of state.shown) {
+    const stimulus = state.question.stimuli[i];
+    const heard = state.listenMs[i];
+    coverage[stimulus.id] = stimulus.durationMs
+      ? Math.min(1, heard / stimulus.durationMs)
+      : heard > 0 ? 1 : 0;
+  }
+
+  return coverage;
+}
+
+/**
+ * Question response for a finished trial
+ */
+export function getStimulusResponse(state: StimulusTrialState): QuestionResponse | null {
+  if (state.choice === null || !state.completedAt) {
+    return null;
+  }
+
+  return {
+    questionId: state.question.id,
+    response: state.choice,
+    timestamp: state.completedAt,
+    responseTimeMs: state.completedAt.getTime() - state.startedAt.getTime(),
+    listenMs: [...state.listenMs]
+  };
+}
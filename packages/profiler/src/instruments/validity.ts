@@ -0,0 +1,269 @@
+/**
+ * @subtaste/profiler - Response Validity
+ *
+ * Careless-responder detection for assessments. Flags straight-lining on
+ * rating items, implausibly fast answers and contradictions between anchor
+ * items, then down-weights (or rejects) the affected signals before classify.
+ */
+
+import type { Signal, GenomeValidity, ValidityFlagKind } from '@subtaste/core';
+import { isExplicitSignal } from '@subtaste/core';
+import {
+  getQuestionById,
+  type Question,
+  type LikertQuestion,
+  type QuestionResponse
+} from '../questions';
+
+/**
+ * Response validity configuration
+ */
+export interface ValidityConfig {
+  // Answers faster than this are implausible
+  minResponseMs: number;
+
+  // Weight kept by an implausibly fast answer
+  fastWeight: number;
+
+  // Rating items needed before straight-lining can be judged
+  straightLineMinItems: number;
+
+  // Share of rating items with the same answer that counts as straight-lining
+  straightLineShare: number;
+
+  // Weight kept by a straight-lined rating item
+  straightLineWeight: number;
+
+  // Largest tolerated gap (0-1) between answers in one anchor group
+  maxAnchorGap: number;
+
+  // Weight kept by each item of a contradictory anchor group
+  anchorWeight: number;
+
+  // Validity score below which the whole assessment is rejected
+  rejectBelow: number;
+}
+
+/**
+ * Default validity configuration
+ */
+export const DEFAULT_VALIDITY_CONFIG: ValidityConfig = {
+  minResponseMs: 1000,
+  fastWeight: 0.25,
+  straightLineMinItems: 4,
+  straightLineShare: 0.85,
+  straightLineWeight: 0.5,
+  maxAnchorGap: 0.6,
+  anchorWeight: 0.5,
+  rejectBelow: 0.4
+};
+
+/**
+ * A response-quality concern
+ */
+export interface ValidityFlag {
+  kind: ValidityFlagKind;
+  questionIds: string[];
+  detail: string;
+}
+
+/**
+ * Response validity of an assessment
+ */
+export interface ResponseValidity {
+  // Mean retained weight across responses (0-1)
+  score: number;
+  flags: ValidityFlag[];
+
+  // Weight multiplier per question id (1 = untouched)
+  weights: Record<string, number>;
+
+  rejected: boolean;
+  responses: number;
+}
+
+/**
+ * Assess the quality of a set of responses
+ *
+ * Items outside the question bank with numeric answers are treated as
+ * rating items, so legacy quiz sessions can be checked too.
+ */
+export function assessResponseValidity(
+  responses: QuestionResponse[],
+  config: Partial<ValidityConfig> = {}
+): ResponseValidity {
+  const merged = { ...DEFAULT_VALIDITY_CONFIG, ...config };
+  const weights: Record<string, number> = {};
+  const flags: ValidityFlag[] = [];
+
+  for (const response of responses) {
+    weights[response.questionId] = 1;
+  }
+
+  const penalise = (flag: ValidityFlag, weight: number) => {
+    flags.push(flag);
+    for (const id of flag.questionIds) {
+      weights[id] = weights[id] * weight;
+    }
+  };
+
+  // Implausibly fast answers
+  const fast = responses.filter(r =>
+    r.responseTimeMs !== undefined && r.responseTimeMs < merged.minResponseMs
+  );
+  if (fast.length > 0) {
+    penalise({
+      kind: 'too_fast',
+      questionIds: fast.map(r => r.questionId),
+      detail: `${fast.length} of ${responses.length} answers under ${merged.minResponseMs}ms`
+    }, merged.fastWeight);
+  }
+
+  // Straight-lining on rating items
+  const ratings = responses.filter(r => isRatingItem(r, getQuestionById(r.questionId)));
+  if (ratings.length >= merged.straightLineMinItems) {
+    const counts = new Map<number, QuestionResponse[]>();
+    for (const r of ratings) {
+      const value = r.response as number;
+      counts.set(value, [...(counts.get(value) || []), r]);
+    }
+
+    const [value, same] = Array.from(counts.entries())
+      .sort(([, a], [, b]) => b.length - a.length)[0];
+
+    if (same.length / ratings.length >= merged.straightLineShare) {
+      penalise({
+        kind: 'straight_lining',
+        questionIds: same.map(r => r.questionId),
+        detail: `${same.length} of ${ratings.length} rating items answered ${value}`
+      }, merged.straightLineWeight);
+    }
+  }
+
+  // Contradictions between anchor items
+  const groups = new Map<string, { id: string; position: number }[]>();
+  for (const r of responses) {
+    const question = getQuestionById(r.questionId);
+    const position = question?.anchor ? getAnchorPosition(question, r) : null;
+    if (!question?.anchor || position === null) continue;
+
+    const group = groups.get(question.anchor.group) || [];
+    group.push({ id: r.questionId, position });
+    groups.set(question.anchor.group, group);
+  }
+
+  for (const [group, items] of groups) {
+    if (items.length < 2) continue;
+
+    const positions = items.map(i => i.position);
+    const gap = Math.max(...positions) - Math.min(...positions);
+
+    if (gap > merged.maxAnchorGap) {
+      penalise({
+        kind: 'anchor_inconsistency',
+        questionIds: items.map(i => i.id),
+        detail: `Contradictory answers on "${group}" anchors (gap ${gap.toFixed(2)})`
+      }, merged.anchorWeight);
+    }
+  }
+
+  const values = Object.values(weights);
+  const score = values.length > 0
+    ? values.reduce((a, b) => a + b, 0) / values.length
+    : 1;
+
+  return {
+    score,
+    flags,
+    weights,
+    rejected: values.length > 0 && score < merged.rejectBelow,
+    responses: responses.length
+  };
+}
+
+/**
+ * Scale quiz signals by their validity weights
+ * Returns no signals when the assessment was rejected.
+ */
+export function applyResponseValidity(
+  signals: Signal[],
+  validity: ResponseValidity
+): Signal[] {
+  if (validity.rejected) {
+    return [];
+  }
+
+  return signals.map(signal => {
+    if (!isExplicitSignal(signal.data) || !signal.data.questionId || !signal.data.archetypeWeights) {
+      return signal;
+    }
+
+    const weight = validity.weights[signal.data.questionId] ?? 1;
+    if (weight === 1) {
+      return signal;
+    }
+
+    const archetypeWeights: typeof signal.data.archetypeWeights = {};
+    for (const [designation, value] of Object.entries(signal.data.archetypeWeights)) {
+      archetypeWeights[designation as keyof typeof archetypeWeights] = (value || 0) * weight;
+    }
+
+    return {
+      ...signal,
+      data: { ...signal.data, archetypeWeights }
+    };
+  });
+}
+
+/**
+ * Validity summary stored on the genome
+ */
+export function toGenomeValidity(
+  validity: ResponseValidity,
+  assessedAt: Date = new Date()
+): GenomeValidity {
+  return {
+    score: validity.score,
+    flags: Array.from(new Set(validity.flags.map(f => f.kind))),
+    responses: validity.responses,
+    assessedAt
+  };
+}
+
+/**
+ * Helper: whether a response is a single rating on a scale
+ */
+function isRatingItem(response: QuestionResponse, question: Question | undefined): boolean {
+  if (typeof response.response !== 'number') {
+    return false;
+  }
+
+  return question ? question.type === 'likert' : true;
+}
+
+/**
+ * Helper: answer position (0-1) on an anchor item, high end first unless reversed
+ */
+function getAnchorPosition(question: Question, response: QuestionResponse): number | null {
+  if (typeof response.response !== 'number') {
+    return null;
+  }
+
+  let position: number;
+  switch (question.type) {
+    case 'binary':
+      position = response.response;
+      break;
+
+    case 'likert': {
+      const scale = (question as LikertQuestion).scale;
+      position = (response.response - 1) / (scale - 1);
+      break;
+    }
+
+    default:
+      return null;
+  }
+
+  return question.anchor?.reverse ? 1 - position : position;
+}
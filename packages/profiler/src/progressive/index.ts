@@ -4,6 +4,8 @@
 
 export {
   PROFILING_STAGES,
+  registerStage,
+  unregisterStage,
   getStage,
   getAllStages,
   createProfilingState,
@@ -17,6 +19,7 @@ export {
 } from './stages';
 
 export type {
+  BuiltInStageId,
   StageId,
   StageTrigger,
   ProfilingStage,
@@ -25,7 +28,8 @@ export type {
 
 export {
   ProfilingOrchestrator,
-  createOrchestrator
+  createOrchestrator,
+  loadOrchestrator
 } from './orchestrator';
 
 export type {
@@ -33,3 +37,34 @@ export type {
   OrchestratorEvent,
   EventHandler
 } from './orchestrator';
+
+export {
+  REASSESSMENT_STAGE_ID,
+  DEFAULT_REASSESSMENT_CONFIG,
+  planReassessment,
+  selectReassessmentQuestions,
+  completeReassessment
+} from './reassessment';
+
+export type {
+  ReassessmentConfig,
+  ReassessmentReason,
+  ReassessmentPlan,
+  ReassessmentInput
+} from './reassessment';
+
+export {
+  ORCHESTRATOR_SNAPSHOT_VERSION,
+  createMemoryOrchestratorStore,
+  serializeProfilingState,
+  deserializeProfilingState,
+  serializeAssessment,
+  deserializeAssessment
+} from './persistence';
+
+export type {
+  OrchestratorSnapshot,
+  OrchestratorStore,
+  SerializedAssessment,
+  SerializedResponse
+} from './persistence';
@@ -2,14 +2,26 @@
  * @subtaste/profiler - Progressive Profiling Orchestrator
  *
  * Manages the flow of profiling stages and signal collection.
+ * State can be snapshotted with toJSON() and restored with fromJSON(), and
+ * an attached OrchestratorStore is kept up to date after every change.
  */
 
-import type { Signal, TasteGenome } from '@subtaste/core';
-import { encodeSignalsToGenome, updateGenomeWithSignals } from '@subtaste/core';
+import type { Signal, TasteGenome, DriftPoint, DriftReport, DriftConfig } from '@subtaste/core';
+import {
+  encodeSignalsToGenome,
+  updateGenomeWithSignals,
+  detectDrift,
+  serializeGenome,
+  deserializeGenome,
+  getGenomeSignalCount
+} from '@subtaste/core';
+import type { Question, QuestionResponse } from '../questions';
 import {
   type StageId,
   type ProfilingState,
   createProfilingState,
+  getStage,
+  getAllStages,
   getNextAvailableStage,
   completeStage,
   recordInteraction,
@@ -18,18 +30,46 @@ import {
 } from './stages';
 import {
   createInitialAssessment,
+  getCurrentQuestion,
+  submitResponse,
   completeAssessment,
   type InitialAssessmentState,
   type InitialAssessmentResult
 } from '../instruments/initial';
 import {
-  createMusicCalibration,
-  createDeepCalibration,
+  createAdaptiveAssessment,
+  getCurrentAdaptiveQuestion,
+  submitAdaptiveResponse,
+  completeAdaptiveAssessment,
+  type AdaptiveConfig,
+  type AdaptiveAssessmentState
+} from '../instruments/adaptive';
+import {
+  createCalibration,
+  getCurrentCalibrationQuestion,
+  submitCalibrationResponse,
   completeCalibration,
   type CalibrationState,
   type CalibrationResult
 } from '../instruments/calibration';
 import { behaviourBatchToSignals, type BehaviouralEvent } from '../instruments/implicit';
+import { toGenomeValidity, type ResponseValidity } from '../instruments/validity';
+import {
+  REASSESSMENT_STAGE_ID,
+  planReassessment,
+  completeReassessment,
+  type ReassessmentConfig,
+  type ReassessmentPlan
+} from './reassessment';
+import {
+  ORCHESTRATOR_SNAPSHOT_VERSION,
+  serializeProfilingState,
+  deserializeProfilingState,
+  serializeAssessment,
+  deserializeAssessment,
+  type OrchestratorSnapshot,
+  type OrchestratorStore
+} from './persistence';
 
 /**
  * Orchestrator state
@@ -38,7 +78,13 @@ export interface OrchestratorState {
   profiling: ProfilingState;
   genome: TasteGenome | null;
   pendingSignals: Signal[];
-  activeAssessment: InitialAssessmentState | CalibrationState | null;
+  activeAssessment: InitialAssessmentState | AdaptiveAssessmentState | CalibrationState | null;
+
+  // Classified history for drift detection, one point per genome update
+  driftHistory: DriftPoint[];
+
+  // Most recent change point already reported
+  lastDriftAt: Date | null;
 }
 
 /**
@@ -48,8 +94,10 @@ export type OrchestratorEvent =
   | { type: 'PROFILE_CREATED'; genome: TasteGenome }
   | { type: 'PROFILE_UPDATED'; genome: TasteGenome }
   | { type: 'STAGE_COMPLETED'; stageId: StageId }
-  | { type: 'CALIBRATION_AVAILABLE'; stageId: StageId }
-  | { type: 'CONFIDENCE_INCREASED'; newConfidence: number };
+  | { type: 'CALIBRATION_AVAILABLE'; stageId: StageId; plan?: ReassessmentPlan }
+  | { type: 'CONFIDENCE_INCREASED'; newConfidence: number }
+  | { type: 'DRIFT_DETECTED'; report: DriftReport }
+  | { type: 'ASSESSMENT_REJECTED'; validity: ResponseValidity };
 
 /**
  * Event handler type
@@ -63,14 +111,27 @@ export class ProfilingOrchestrator {
   private state: OrchestratorState;
   private eventHandlers: EventHandler[] = [];
   private userId: string;
-
-  constructor(userId: string, existingGenome?: TasteGenome) {
+  private driftConfig: Partial<DriftConfig>;
+  private store: OrchestratorStore | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  // Due date of the re-assessment plan last offered, so each plan is offered once
+  private reassessmentOffered: Date | null = null;
+
+  constructor(
+    userId: string,
+    existingGenome?: TasteGenome,
+    driftConfig: Partial<DriftConfig> = {}
+  ) {
     this.userId = userId;
+    this.driftConfig = driftConfig;
     this.state = {
       profiling: createProfilingState(),
       genome: existingGenome || null,
       pendingSignals: [],
-      activeAssessment: null
+      activeAssessment: null,
+      driftHistory: existingGenome ? [toDriftPoint(existingGenome)] : [],
+      lastDriftAt: null
     };
 
     // If existing genome, infer profiling state
@@ -98,6 +159,91 @@ export class ProfilingOrchestrator {
     }
   }
 
+  /**
+   * Persist every subsequent change to a store
+   */
+  attachStore(store: OrchestratorStore): void {
+    this.store = store;
+    this.persist();
+  }
+
+  /**
+   * Wait for pending saves to finish
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  /**
+   * Save the current state to the attached store, if any
+   * Saves are chained so they land in order.
+   */
+  private persist(): void {
+    const store = this.store;
+    if (!store) return;
+
+    const snapshot = this.toJSON();
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => store.save(snapshot));
+  }
+
+  /**
+   * Snapshot the orchestrator state as JSON-safe data
+   */
+  toJSON(): OrchestratorSnapshot {
+    const { state } = this;
+
+    return {
+      version: ORCHESTRATOR_SNAPSHOT_VERSION,
+      userId: this.userId,
+      savedAt: new Date().toISOString(),
+      profiling: serializeProfilingState(state.profiling),
+      genome: state.genome ? serializeGenome(state.genome) : null,
+      pendingSignals: state.pendingSignals.map(signal => ({
+        ...signal,
+        timestamp: new Date(signal.timestamp).toISOString()
+      })),
+      activeAssessment: state.activeAssessment ? serializeAssessment(state.activeAssessment) : null,
+      driftHistory: state.driftHistory.map(point => ({
+        timestamp: new Date(point.timestamp).toISOString(),
+        distribution: point.distribution
+      })),
+      lastDriftAt: state.lastDriftAt ? state.lastDriftAt.toISOString() : null,
+      driftConfig: this.driftConfig
+    };
+  }
+
+  /**
+   * Restore an orchestrator from a snapshot
+   * The stored stage record is used as-is rather than inferred from the genome.
+   * `genome` is used when the snapshot does not carry one.
+   */
+  static fromJSON(snapshot: OrchestratorSnapshot, genome?: TasteGenome): ProfilingOrchestrator {
+    if (snapshot.version !== ORCHESTRATOR_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported orchestrator snapshot version: ${snapshot.version}`);
+    }
+
+    const orchestrator = new ProfilingOrchestrator(snapshot.userId, undefined, snapshot.driftConfig);
+
+    orchestrator.state = {
+      profiling: deserializeProfilingState(snapshot.profiling),
+      genome: snapshot.genome ? deserializeGenome(snapshot.genome) : genome || null,
+      pendingSignals: snapshot.pendingSignals.map(signal => ({
+        ...signal,
+        timestamp: new Date(signal.timestamp)
+      })),
+      activeAssessment: snapshot.activeAssessment ? deserializeAssessment(snapshot.activeAssessment) : null,
+      driftHistory: snapshot.driftHistory.map(point => ({
+        timestamp: new Date(point.timestamp),
+        distribution: point.distribution as DriftPoint['distribution']
+      })),
+      lastDriftAt: snapshot.lastDriftAt ? new Date(snapshot.lastDriftAt) : null
+    };
+
+    return orchestrator;
+  }
+
   /**
    * Get current state
    */
@@ -124,30 +270,129 @@ export class ProfilingOrchestrator {
    */
   startInitialAssessment(): InitialAssessmentState {
     const assessment = createInitialAssessment();
-    this.state.activeAssessment = assessment;
+    this.beginStage('initial', assessment);
+    return assessment;
+  }
+
+  /**
+   * Start adaptive onboarding
+   * Ends as soon as the primary Glyph is settled instead of after a fixed set.
+   */
+  startAdaptiveAssessment(config?: Partial<AdaptiveConfig>): AdaptiveAssessmentState {
+    const assessment = createAdaptiveAssessment(undefined, config);
+    this.beginStage('initial', assessment);
     return assessment;
   }
 
+  /**
+   * Start a registered stage over the questions it was registered with
+   * Completing an onboarding stage creates the genome; other stages
+   * refine it.
+   */
+  startStage(stageId: StageId): CalibrationState {
+    const stage = getStage(stageId);
+    if (!stage) {
+      throw new Error(`Unknown profiling stage: ${stageId}`);
+    }
+
+    const calibration = createCalibration(stage.id, stage.questions);
+    this.beginStage(stage.id, calibration);
+    return calibration;
+  }
+
   /**
    * Start music calibration
    */
   startMusicCalibration(): CalibrationState {
-    const calibration = createMusicCalibration();
-    this.state.activeAssessment = calibration;
-    return calibration;
+    return this.startStage('music');
   }
 
   /**
    * Start deep calibration
    */
   startDeepCalibration(): CalibrationState {
-    const calibration = createDeepCalibration();
-    this.state.activeAssessment = calibration;
+    return this.startStage('deep');
+  }
+
+  /**
+   * Re-assessment plan from staleness, confidence decay and detected drift
+   * Null until the user has a genome.
+   */
+  getReassessmentPlan(
+    config: Partial<ReassessmentConfig> = {},
+    now: Date = new Date()
+  ): ReassessmentPlan | null {
+    if (!this.state.genome) return null;
+
+    return planReassessment(this.state.genome, {
+      drift: this.checkDrift(),
+      lastAssessedAt: this.state.profiling.lastStageCompletedAt,
+      now
+    }, config);
+  }
+
+  /**
+   * Start a re-assessment over a plan's targeted questions
+   */
+  startReassessment(plan: ReassessmentPlan | null = this.getReassessmentPlan()): CalibrationState | null {
+    if (!plan || plan.questions.length === 0) return null;
+
+    const calibration = createCalibration(REASSESSMENT_STAGE_ID, plan.questions);
+    this.beginStage(REASSESSMENT_STAGE_ID, calibration);
     return calibration;
   }
 
+  /**
+   * Make an assessment the active one
+   */
+  private beginStage(
+    stageId: StageId,
+    assessment: InitialAssessmentState | AdaptiveAssessmentState | CalibrationState
+  ): void {
+    this.state.activeAssessment = assessment;
+    this.state.profiling = { ...this.state.profiling, currentStage: stageId };
+    this.persist();
+  }
+
+  /**
+   * Current question of the active assessment
+   */
+  getActiveQuestion(): Question | null {
+    const assessment = this.state.activeAssessment;
+
+    if (!assessment) return null;
+    if ('bank' in assessment) return getCurrentAdaptiveQuestion(assessment);
+    if ('type' in assessment) return getCurrentCalibrationQuestion(assessment);
+    return getCurrentQuestion(assessment);
+  }
+
+  /**
+   * Answer the current question of the active assessment
+   * Stimulus questions also take the time spent on each stimulus.
+   */
+  submitAssessmentResponse(
+    response: QuestionResponse['response'],
+    responseTimeMs?: number,
+    listenMs?: number[]
+  ): void {
+    const assessment = this.state.activeAssessment;
+
+    if (!assessment) return;
+
+    if ('bank' in assessment) {
+      this.state.activeAssessment = submitAdaptiveResponse(assessment, response, responseTimeMs, listenMs);
+    } else if ('type' in assessment) {
+      this.state.activeAssessment = submitCalibrationResponse(assessment, response, responseTimeMs, listenMs);
+    } else {
+      this.state.activeAssessment = submitResponse(assessment, response as 0 | 1, responseTimeMs);
+    }
+
+    this.persist();
+  }
+
   /**
    * Complete the active assessment
+   * An assessment that fails validity checks is discarded so it can be retaken.
    */
   completeActiveAssessment(): TasteGenome | null {
     if (!this.state.activeAssessment) {
@@ -155,41 +400,43 @@ export class ProfilingOrchestrator {
     }
 
     const assessment = this.state.activeAssessment;
+    const result = 'bank' in assessment
+      ? completeAdaptiveAssessment(assessment)
+      : 'type' in assessment
+        ? completeCalibration(assessment, this.state.genome || undefined)
+        : completeAssessment(assessment);
 
-    // Check if it's initial assessment
-    if ('questions' in assessment && assessment.questions[0]?.id.startsWith('init-')) {
-      const result = completeAssessment(assessment as InitialAssessmentState);
-      if (!result) return null;
-
-      // Create genome from initial assessment
-      const genome = encodeSignalsToGenome(this.userId, result.signals);
-
-      this.state.genome = genome;
-      this.state.profiling = completeStage(this.state.profiling, 'initial');
-      this.state.activeAssessment = null;
+    if (!result) return null;
+    if (result.validity.rejected) return this.rejectAssessment(result.validity);
 
-      this.emit({ type: 'PROFILE_CREATED', genome });
-      this.emit({ type: 'STAGE_COMPLETED', stageId: 'initial' });
+    // Calibrations carry their stage; the other instruments run the current one
+    const stageId = 'type' in assessment ? assessment.type : this.state.profiling.currentStage;
 
-      return genome;
+    if (stageId && getStage(stageId)?.trigger === 'onboarding') {
+      return this.completeOnboarding(stageId, result.signals, result.validity);
     }
 
-    // It's a calibration
-    const calibrationState = assessment as CalibrationState;
-    const result = completeCalibration(calibrationState, this.state.genome || undefined);
-    if (!result) return null;
-
-    // Update genome with calibration signals
-    if (this.state.genome) {
-      const updatedGenome = updateGenomeWithSignals(this.state.genome, result.signals);
+    // Other stages refine the genome onboarding created
+    if (this.state.genome && 'type' in result) {
+      const updatedGenome = withValidity(
+        updateGenomeWithSignals(this.state.genome, result.signals),
+        result.validity
+      );
       this.state.genome = updatedGenome;
 
-      this.state.profiling = completeStage(this.state.profiling, result.type);
+      if (result.type === REASSESSMENT_STAGE_ID) {
+        this.state.profiling = completeReassessment(this.state.profiling);
+        this.reassessmentOffered = null;
+      } else {
+        this.state.profiling = completeStage(this.state.profiling, result.type);
+      }
       this.state.activeAssessment = null;
 
       this.emit({ type: 'PROFILE_UPDATED', genome: updatedGenome });
       this.emit({ type: 'STAGE_COMPLETED', stageId: result.type });
       this.emit({ type: 'CONFIDENCE_INCREASED', newConfidence: updatedGenome.behaviour.confidence });
+      this.trackDrift(updatedGenome);
+      this.persist();
 
       return updatedGenome;
     }
@@ -197,6 +444,37 @@ export class ProfilingOrchestrator {
     return null;
   }
 
+  /**
+   * Create the genome from onboarding signals
+   */
+  private completeOnboarding(stageId: StageId, signals: Signal[], validity: ResponseValidity): TasteGenome {
+    const genome = withValidity(encodeSignalsToGenome(this.userId, signals), validity);
+
+    this.state.genome = genome;
+    this.state.profiling = completeStage(this.state.profiling, stageId);
+    this.state.activeAssessment = null;
+
+    this.emit({ type: 'PROFILE_CREATED', genome });
+    this.emit({ type: 'STAGE_COMPLETED', stageId });
+    this.trackDrift(genome);
+    this.persist();
+
+    return genome;
+  }
+
+  /**
+   * Discard an assessment that failed validity checks
+   */
+  private rejectAssessment(validity: ResponseValidity): null {
+    this.state.activeAssessment = null;
+    this.state.profiling = { ...this.state.profiling, currentStage: null };
+
+    this.emit({ type: 'ASSESSMENT_REJECTED', validity });
+    this.persist();
+
+    return null;
+  }
+
   /**
    * Record a behavioural interaction
    */
@@ -207,13 +485,22 @@ export class ProfilingOrchestrator {
     // Update interaction count
     this.state.profiling = recordInteraction(this.state.profiling);
 
-    // Check if we should prompt for calibration
+    // Check if we should prompt for calibration, or else for a re-assessment
     if (shouldPromptCalibration(this.state.profiling)) {
       const nextStage = getNextAvailableStage(this.state.profiling);
       if (nextStage) {
         this.emit({ type: 'CALIBRATION_AVAILABLE', stageId: nextStage.id });
       }
+    } else if (!this.state.activeAssessment) {
+      const plan = this.getReassessmentPlan();
+      const offered = plan?.dueAt.getTime() === this.reassessmentOffered?.getTime();
+      if (plan?.due && plan.questions.length > 0 && !offered) {
+        this.reassessmentOffered = plan.dueAt;
+        this.emit({ type: 'CALIBRATION_AVAILABLE', stageId: REASSESSMENT_STAGE_ID, plan });
+      }
     }
+
+    this.persist();
   }
 
   /**
@@ -233,39 +520,113 @@ export class ProfilingOrchestrator {
     this.state.pendingSignals = [];
 
     this.emit({ type: 'PROFILE_UPDATED', genome: updatedGenome });
+    this.trackDrift(updatedGenome);
+    this.persist();
 
     return updatedGenome;
   }
 
   /**
-   * Infer profiling state from existing genome
+   * Run drift detection over the classified history
    */
-  private inferProfilingState(genome: TasteGenome): void {
-    // If genome exists with reasonable confidence, assume initial is done
-    if (genome.behaviour.confidence >= 0.3) {
-      this.state.profiling.completedStages.push('initial');
-    }
+  checkDrift(): DriftReport {
+    return detectDrift(this.state.driftHistory, this.driftConfig);
+  }
+
+  /**
+   * Record a genome update and report any new change point
+   */
+  private trackDrift(genome: TasteGenome): void {
+    this.state.driftHistory.push(toDriftPoint(genome));
 
-    // Check for calibration indicators
-    if (genome.behaviour.confidence >= 0.5 && genome.behaviour.signalHistory.length > 10) {
-      this.state.profiling.completedStages.push('music');
+    const report = this.checkDrift();
+    const latest = report.latest;
+    const lastDriftAt = this.state.lastDriftAt;
+
+    if (latest && (!lastDriftAt || latest.at.getTime() > lastDriftAt.getTime())) {
+      this.state.lastDriftAt = latest.at;
+      this.emit({ type: 'DRIFT_DETECTED', report });
     }
+  }
 
-    if (genome.behaviour.confidence >= 0.7) {
-      this.state.profiling.completedStages.push('deep');
+  /**
+   * Infer profiling state from existing genome
+   * Registered stages count as done, in registration order, once their
+   * prerequisites are done and the genome's confidence reaches what
+   * completing them would have added up to. Milestone stages also need
+   * their threshold of signals.
+   */
+  private inferProfilingState(genome: TasteGenome): void {
+    // Stored genomes may keep aggregates only, without signal history
+    const signalCount = getGenomeSignalCount(genome);
+    const completed = this.state.profiling.completedStages;
+    let expectedConfidence = 0;
+
+    for (const stage of getAllStages()) {
+      const reached = stage.prerequisites.every(id => completed.includes(id)) &&
+        genome.behaviour.confidence >= expectedConfidence + stage.confidenceGain &&
+        (stage.trigger !== 'milestone' || signalCount >= (stage.milestoneThreshold ?? 0));
+
+      if (reached) {
+        completed.push(stage.id);
+        expectedConfidence += stage.confidenceGain;
+      }
     }
 
-    this.state.profiling.interactionCount = genome.behaviour.signalHistory.length;
+    this.state.profiling.interactionCount = signalCount;
     this.state.profiling.totalConfidence = genome.behaviour.confidence;
   }
 }
 
+/**
+ * Classified history point for a genome
+ */
+function toDriftPoint(genome: TasteGenome): DriftPoint {
+  return {
+    timestamp: new Date(genome.updatedAt),
+    distribution: { ...genome.archetype.distribution }
+  };
+}
+
+/**
+ * Record an assessment's response validity on a genome
+ */
+function withValidity(genome: TasteGenome, validity: ResponseValidity): TasteGenome {
+  return {
+    ...genome,
+    behaviour: {
+      ...genome.behaviour,
+      validity: toGenomeValidity(validity)
+    }
+  };
+}
+
+/**
+ * Load a user's orchestrator from a store, or start a new one
+ * The returned orchestrator keeps the store up to date.
+ */
+export async function loadOrchestrator(
+  userId: string,
+  store: OrchestratorStore,
+  existingGenome?: TasteGenome,
+  driftConfig?: Partial<DriftConfig>
+): Promise<ProfilingOrchestrator> {
+  const snapshot = await store.load(userId);
+  const orchestrator = snapshot
+    ? ProfilingOrchestrator.fromJSON(snapshot, existingGenome)
+    : new ProfilingOrchestrator(userId, existingGenome, driftConfig);
+
+  orchestrator.attachStore(store);
+  return orchestrator;
+}
+
 /**
  * Create a new orchestrator
  */
 export function createOrchestrator(
   userId: string,
-  existingGenome?: TasteGenome
+  existingGenome?: TasteGenome,
+  driftConfig?: Partial<DriftConfig>
 ): ProfilingOrchestrator {
-  return new ProfilingOrchestrator(userId, existingGenome);
+  return new ProfilingOrchestrator(userId, existingGenome, driftConfig);
 }
@@ -0,0 +1,284 @@
+/**
+ * @subtaste/profiler - Orchestrator Persistence
+ *
+ * JSON snapshots of orchestrator state and a storage-agnostic store
+ * interface, so a half-finished assessment can be resumed on another device.
+ * Questions are stored by id and resolved against the bank on restore.
+ */
+
+import type { Signal, DriftConfig } from '@subtaste/core';
+import { classifySignals } from '@subtaste/core';
+import {
+  getQuestionById,
+  responsesToSignals,
+  type Question,
+  type BinaryQuestion,
+  type QuestionResponse
+} from '../questions';
+import type { InitialAssessmentState } from '../instruments/initial';
+import type { CalibrationState, CalibrationType } from '../instruments/calibration';
+import type {
+  AdaptiveAssessmentState,
+  AdaptiveConfig,
+  AdaptiveStopReason
+} from '../instruments/adaptive';
+import { getStage, type StageId, type ProfilingState } from './stages';
+
+/**
+ * Snapshot format version
+ */
+export const ORCHESTRATOR_SNAPSHOT_VERSION = 1;
+
+/**
+ * Question response with an ISO timestamp
+ */
+export interface SerializedResponse {
+  questionId: string;
+  response: QuestionResponse['response'];
+  timestamp: string;
+  responseTimeMs?: number;
+  listenMs?: number[];
+}
+
+/**
+ * Active assessment in JSON form
+ */
+export type SerializedAssessment =
+  | {
+      kind: 'initial';
+      questionIds: string[];
+      currentIndex: number;
+      responses: SerializedResponse[];
+      startedAt: string;
+      completedAt: string | null;
+    }
+  | {
+      kind: 'calibration';
+      type: CalibrationType;
+      questionIds: string[];
+      currentIndex: number;
+      responses: SerializedResponse[];
+      startedAt: string;
+      completedAt: string | null;
+    }
+  | {
+      kind: 'adaptive';
+      bankIds: string[];
+      config: AdaptiveConfig;
+      currentId: string | null;
+      asked: string[];
+      responses: SerializedResponse[];
+      startedAt: string;
+      completedAt: string | null;
+      stopReason: AdaptiveStopReason | null;
+    };
+
+/**
+ * JSON-safe orchestrator state
+ */
+export interface OrchestratorSnapshot {
+  version: number;
+  userId: string;
+  savedAt: string;
+  profiling: {
+    completedStages: StageId[];
+    currentStage: StageId | null;
+    interactionCount: number;
+    lastStageCompletedAt: string | null;
+    totalConfidence: number;
+  };
+
+  // serializeGenome output
+  genome: string | null;
+
+  pendingSignals: Array<Omit<Signal, 'timestamp'> & { timestamp: string }>;
+  activeAssessment: SerializedAssessment | null;
+  driftHistory: Array<{ timestamp: string; distribution: Record<string, number> }>;
+  lastDriftAt: string | null;
+  driftConfig: Partial<DriftConfig>;
+}
+
+/**
+ * Pluggable orchestrator persistence
+ */
+export interface OrchestratorStore {
+  load(userId: string): Promise<OrchestratorSnapshot | null>;
+  save(snapshot: OrchestratorSnapshot): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+/**
+ * In-memory orchestrator store (tests, previews, single-process consumers)
+ */
+export function createMemoryOrchestratorStore(): OrchestratorStore {
+  const snapshots = new Map<string, string>();
+
+  return {
+    async load(userId: string): Promise<OrchestratorSnapshot | null> {
+      const json = snapshots.get(userId);
+      return json ? JSON.parse(json) : null;
+    },
+
+    async save(snapshot: OrchestratorSnapshot): Promise<void> {
+      snapshots.set(snapshot.userId, JSON.stringify(snapshot));
+    },
+
+    async delete(userId: string): Promise<void> {
+      snapshots.delete(userId);
+    }
+  };
+}
+
+/**
+ * Serialize profiling state
+ */
+export function serializeProfilingState(state: ProfilingState): OrchestratorSnapshot['profiling'] {
+  return {
+    completedStages: [...state.completedStages],
+    currentStage: state.currentStage,
+    interactionCount: state.interactionCount,
+    lastStageCompletedAt: state.lastStageCompletedAt ? new Date(state.lastStageCompletedAt).toISOString() : null,
+    totalConfidence: state.totalConfidence
+  };
+}
+
+/**
+ * Restore profiling state
+ */
+export function deserializeProfilingState(data: OrchestratorSnapshot['profiling']): ProfilingState {
+  return {
+    completedStages: [...data.completedStages],
+    currentStage: data.currentStage,
+    interactionCount: data.interactionCount,
+    lastStageCompletedAt: data.lastStageCompletedAt ? new Date(data.lastStageCompletedAt) : null,
+    totalConfidence: data.totalConfidence
+  };
+}
+
+/**
+ * Serialize an active assessment
+ */
+export function serializeAssessment(
+  assessment: InitialAssessmentState | AdaptiveAssessmentState | CalibrationState
+): SerializedAssessment {
+  const responses = assessment.responses.map(serializeResponse);
+  const startedAt = new Date(assessment.startedAt).toISOString();
+  const completedAt = assessment.completedAt ? new Date(assessment.completedAt).toISOString() : null;
+
+  if ('bank' in assessment) {
+    return {
+      kind: 'adaptive',
+      bankIds: assessment.bank.map(q => q.id),
+      config: assessment.config,
+      currentId: assessment.current?.id ?? null,
+      asked: [...assessment.asked],
+      responses,
+      startedAt,
+      completedAt,
+      stopReason: assessment.stopReason
+    };
+  }
+
+  if ('type' in assessment) {
+    return {
+      kind: 'calibration',
+      type: assessment.type,
+      questionIds: assessment.questions.map(q => q.id),
+      currentIndex: assessment.currentIndex,
+      responses,
+      startedAt,
+      completedAt
+    };
+  }
+
+  return {
+    kind: 'initial',
+    questionIds: assessment.questions.map(q => q.id),
+    currentIndex: assessment.currentIndex,
+    responses,
+    startedAt,
+    completedAt
+  };
+}
+
+/**
+ * Restore an active assessment
+ * Questions no longer in the bank are dropped.
+ */
+export function deserializeAssessment(
+  data: SerializedAssessment
+): InitialAssessmentState | AdaptiveAssessmentState | CalibrationState {
+  const responses = data.responses.map(deserializeResponse);
+  const startedAt = new Date(data.startedAt);
+  const completedAt = data.completedAt ? new Date(data.completedAt) : null;
+
+  switch (data.kind) {
+    case 'adaptive':
+      return {
+        bank: resolveQuestions(data.bankIds),
+        config: data.config,
+        current: data.currentId ? getQuestionById(data.currentId) ?? null : null,
+        asked: [...data.asked],
+        responses,
+        classification: classifySignals(responsesToSignals(responses, 'quiz')),
+        startedAt,
+        completedAt,
+        stopReason: data.stopReason
+      };
+
+    case 'calibration':
+      return {
+        type: data.type,
+        questions: resolveQuestions(data.questionIds, getStage(data.type)?.questions),
+        currentIndex: data.currentIndex,
+        responses,
+        startedAt,
+        completedAt
+      };
+
+    default:
+      return {
+        questions: resolveQuestions(data.questionIds) as BinaryQuestion[],
+        currentIndex: data.currentIndex,
+        responses,
+        startedAt,
+        completedAt
+      };
+  }
+}
+
+/**
+ * Helper: response with ISO timestamp
+ */
+function serializeResponse(response: QuestionResponse): SerializedResponse {
+  return {
+    questionId: response.questionId,
+    response: response.response,
+    timestamp: new Date(response.timestamp).toISOString(),
+    ...(response.responseTimeMs !== undefined && { responseTimeMs: response.responseTimeMs }),
+    ...(response.listenMs !== undefined && { listenMs: [...response.listenMs] })
+  };
+}
+
+/**
+ * Helper: response with Date timestamp
+ */
+function deserializeResponse(response: SerializedResponse): QuestionResponse {
+  return {
+    questionId: response.questionId,
+    response: response.response,
+    timestamp: new Date(response.timestamp),
+    ...(response.responseTimeMs !== undefined && { responseTimeMs: response.responseTimeMs }),
+    ...(response.listenMs !== undefined && { listenMs: [...response.listenMs] })
+  };
+}
+
+/**
+ * Helper: look up questions by id, skipping unknown ids
+ * A registered stage's own questions are checked before the bank.
+ */
+function resolveQuestions(ids: string[], stageQuestions: Question[] = []): Question[] {
+  return ids
+    .map(id => stageQuestions.find(q => q.id === id) ?? getQuestionById(id))
+    .filter((q): q is Question => q !== undefined);
+}
@@ -0,0 +1,219 @@
+/**
+ * @subtaste/profiler - Re-assessment Scheduling
+ *
+ * Decides when a profiled user should be re-assessed, from how long it has
+ * been since their last assessment, how far their confidence has decayed
+ * and whether their taste has drifted. A due plan carries a short question
+ * set aimed at the designations in contention.
+ */
+
+import type {
+  TasteGenome,
+  Designation,
+  ArchetypeClassification,
+  DriftReport,
+  DriftChangePoint
+} from '@subtaste/core';
+import {
+  INITIAL_QUESTIONS,
+  MUSIC_CALIBRATION_QUESTIONS,
+  DEEP_CALIBRATION_QUESTIONS,
+  type Question
+} from '../questions';
+import { expectedInformationGain } from '../instruments/adaptive';
+import type { ProfilingState } from './stages';
+
+/**
+ * Stage id used for re-assessment sessions
+ * Re-assessment repeats, so it is not part of the stage registry.
+ */
+export const REASSESSMENT_STAGE_ID = 'reassessment';
+
+/**
+ * Re-assessment configuration
+ */
+export interface ReassessmentConfig {
+  // Days since the last assessment before one is due
+  stalenessDays: number;
+
+  // Confidence retained per day without an assessment
+  dailyConfidenceDecay: number;
+
+  // Decayed confidence below which one is due
+  minConfidence: number;
+
+  // Designations within this share of the primary are in contention
+  contentionMargin: number;
+
+  maxContenders: number;
+  questionCount: number;
+}
+
+/**
+ * Default re-assessment configuration
+ */
+export const DEFAULT_REASSESSMENT_CONFIG: ReassessmentConfig = {
+  stalenessDays: 30,
+  dailyConfidenceDecay: 0.99,
+  minConfidence: 0.4,
+  contentionMargin: 0.1,
+  maxContenders: 3,
+  questionCount: 5
+};
+
+/**
+ * Why a re-assessment is due
+ */
+export type ReassessmentReason = 'stale' | 'confidence' | 'drift';
+
+/**
+ * Per-user re-assessment plan
+ */
+export interface ReassessmentPlan {
+  due: boolean;
+  reasons: ReassessmentReason[];
+
+  // When staleness alone will make one due
+  dueAt: Date;
+
+  daysSinceAssessment: number;
+  confidence: number;
+  decayedConfidence: number;
+
+  // Change point since the last assessment, if any
+  drift: DriftChangePoint | null;
+
+  // Designations the questions are chosen to separate, primary first
+  contenders: Designation[];
+
+  questions: Question[];
+}
+
+/**
+ * Inputs beyond the genome
+ */
+export interface ReassessmentInput {
+  drift?: DriftReport | null;
+
+  // Last completed stage; defaults to the genome's last calibration
+  lastAssessedAt?: Date | null;
+
+  now?: Date;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Compute a user's re-assessment plan
+ */
+export function planReassessment(
+  genome: TasteGenome,
+  input: ReassessmentInput = {},
+  config: Partial<ReassessmentConfig> = {}
+): ReassessmentPlan {
+  const merged = { ...DEFAULT_REASSESSMENT_CONFIG, ...config };
+  const now = input.now ?? new Date();
+  const since = new Date(input.lastAssessedAt ?? genome.behaviour.lastCalibration);
+
+  const daysSinceAssessment = Math.max(0, (now.getTime() - since.getTime()) / DAY_MS);
+  const confidence = genome.behaviour.confidence;
+  const decayedConfidence = confidence * Math.pow(merged.dailyConfidenceDecay, daysSinceAssessment);
+
+  const latest = input.drift?.latest ?? null;
+  const drift = latest && new Date(latest.at).getTime() > since.getTime() ? latest : null;
+
+  const reasons: ReassessmentReason[] = [];
+  if (daysSinceAssessment >= merged.stalenessDays) reasons.push('stale');
+  if (decayedConfidence < merged.minConfidence) reasons.push('confidence');
+  if (drift) reasons.push('drift');
+
+  const contenders = getContenders(genome.archetype, drift, merged);
+
+  return {
+    due: reasons.length > 0,
+    reasons,
+    dueAt: new Date(since.getTime() + merged.stalenessDays * DAY_MS),
+    daysSinceAssessment,
+    confidence,
+    decayedConfidence,
+    drift,
+    contenders,
+    questions: reasons.length > 0
+      ? selectReassessmentQuestions(genome.archetype, contenders, merged.questionCount)
+      : []
+  };
+}
+
+/**
+ * Pick the questions that best separate the contenders
+ * Questions are ranked by expected information gain over the contenders'
+ * current shares, each at least 0.05 and renormalised.
+ */
+export function selectReassessmentQuestions(
+  classification: ArchetypeClassification,
+  contenders: Designation[],
+  count: number = DEFAULT_REASSESSMENT_CONFIG.questionCount,
+  bank: Question[] = [...INITIAL_QUESTIONS, ...MUSIC_CALIBRATION_QUESTIONS, ...DEEP_CALIBRATION_QUESTIONS]
+): Question[] {
+  if (contenders.length < 2) {
+    return [];
+  }
+
+  // Give every contender some prior mass, so a drift target with no share yet still counts
+  const seeded = contenders.map(d => Math.max(classification.distribution[d] ?? 0, 0.05));
+  const total = seeded.reduce((sum, p) => sum + p, 0);
+  const distribution = Object.fromEntries(
+    (Object.keys(classification.distribution) as Designation[]).map(d => [d, 0])
+  ) as Record<Designation, number>;
+  contenders.forEach((d, i) => {
+    distribution[d] = seeded[i] / total;
+  });
+
+  const prior: ArchetypeClassification = { ...classification, distribution };
+  const options = { topDesignations: contenders.length };
+
+  return bank
+    .map(question => ({ question, gain: expectedInformationGain(question, prior, options) }))
+    .filter(({ gain }) => gain > 0)
+    .sort((a, b) => b.gain - a.gain)
+    .slice(0, count)
+    .map(({ question }) => question);
+}
+
+/**
+ * Record a finished re-assessment
+ * Only the completion time moves; the stage record is unchanged.
+ */
+export function completeReassessment(state: ProfilingState): ProfilingState {
+  return {
+    ...state,
+    currentStage: null,
+    lastStageCompletedAt: new Date()
+  };
+}
+
+/**
+ * Helper: designations in contention, primary first
+ * The primary and secondary always contend; a drift adds both ends of the shift.
+ */
+function getContenders(
+  classification: ArchetypeClassification,
+  drift: DriftChangePoint | null,
+  config: ReassessmentConfig
+): Designation[] {
+  const ranked = (Object.entries(classification.distribution) as [Designation, number][])
+    .sort(([, a], [, b]) => b - a);
+  const top = ranked[0]?.[1] ?? 0;
+
+  const contenders = ranked
+    .filter(([, p], i) => i < 2 || top - p <= config.contentionMargin)
+    .map(([d]) => d);
+
+  if (drift) {
+    for (const d of [drift.to, drift.from]) {
+      if (!contenders.includes(d)) contenders.splice(1, 0, d);
+    }
+  }
+
+  return contenders.slice(0, Math.max(2, config.maxContenders));
+}
@@ -2,14 +2,27 @@
  * @subtaste/profiler - Progressive Profiling Stages
  *
  * Defines the profiling journey from onboarding to deep calibration.
+ * Stages live in a registry: the built-in stages are registered at load,
+ * and partner apps can register their own (e.g. visual calibration).
  */
 
 import type { TasteGenome } from '@subtaste/core';
+import {
+  INITIAL_QUESTIONS,
+  MUSIC_CALIBRATION_QUESTIONS,
+  DEEP_CALIBRATION_QUESTIONS,
+  type Question
+} from '../questions';
 
 /**
- * Stage identifiers
+ * Built-in stage identifiers
  */
-export type StageId = 'initial' | 'music' | 'deep';
+export type BuiltInStageId = 'initial' | 'music' | 'deep';
+
+/**
+ * Stage identifiers (built-in or registered)
+ */
+export type StageId = BuiltInStageId | (string & {});
 
 /**
  * Stage trigger types
@@ -25,6 +38,13 @@ export interface ProfilingStage {
   description: string;
   trigger: StageTrigger;
   milestoneThreshold?: number;
+
+  // Days since the last completed stage before a periodic stage opens (default 30)
+  periodDays?: number;
+
+  // Questions presented when the stage starts
+  questions: Question[];
+
   questionCount: number;
   estimatedSeconds: number;
   confidenceGain: number;
@@ -32,7 +52,7 @@ export interface ProfilingStage {
 }
 
 /**
- * Profiling stage definitions
+ * Built-in profiling stage definitions
  */
 export const PROFILING_STAGES: ProfilingStage[] = [
   {
@@ -40,6 +60,7 @@ export const PROFILING_STAGES: ProfilingStage[] = [
     name: 'Initial Spark',
     description: 'Sampled questions to discover your primary Glyph.',
     trigger: 'onboarding',
+    questions: INITIAL_QUESTIONS,
     questionCount: 10,
     estimatedSeconds: 30,
     confidenceGain: 0.3,
@@ -48,11 +69,12 @@ export const PROFILING_STAGES: ProfilingStage[] = [
   {
     id: 'music',
     name: 'Music Calibration',
-    description: 'Refine your taste profile with music-specific questions.',
+    description: 'Refine your taste profile with music-specific questions and a listening round.',
     trigger: 'milestone',
     milestoneThreshold: 5,
-    questionCount: 10,
-    estimatedSeconds: 45,
+    questions: MUSIC_CALIBRATION_QUESTIONS,
+    questionCount: 11,
+    estimatedSeconds: 105,
     confidenceGain: 0.15,
     prerequisites: ['initial']
   },
@@ -61,27 +83,73 @@ export const PROFILING_STAGES: ProfilingStage[] = [
     name: 'Deep Calibration',
     description: 'Unlock your full taste genome with an extended assessment.',
     trigger: 'on-demand',
-    questionCount: 10,
+    questions: DEEP_CALIBRATION_QUESTIONS,
+    questionCount: 12,
     estimatedSeconds: 120,
     confidenceGain: 0.2,
     prerequisites: ['initial', 'music']
   }
 ];
 
+const registry = new Map<StageId, ProfilingStage>();
+
+/**
+ * Register a profiling stage
+ * Prerequisites must already be registered, so the stage graph stays acyclic.
+ * Registering an existing id replaces that stage in place.
+ */
+export function registerStage(stage: ProfilingStage): ProfilingStage {
+  if (!stage.id) {
+    throw new Error('Profiling stage needs an id');
+  }
+
+  for (const prereq of stage.prerequisites) {
+    if (prereq === stage.id || !registry.has(prereq)) {
+      throw new Error(`Profiling stage ${stage.id} has unknown prerequisite: ${prereq}`);
+    }
+  }
+
+  if (stage.trigger === 'milestone' && stage.milestoneThreshold === undefined) {
+    throw new Error(`Milestone stage ${stage.id} needs a milestoneThreshold`);
+  }
+
+  if (stage.questions.length === 0) {
+    throw new Error(`Profiling stage ${stage.id} has no questions`);
+  }
+
+  registry.set(stage.id, stage);
+  return stage;
+}
+
+/**
+ * Remove a registered stage
+ * Stages that other stages depend on cannot be removed.
+ */
+export function unregisterStage(id: StageId): boolean {
+  const dependant = Array.from(registry.values()).find(s => s.prerequisites.includes(id));
+  if (dependant) {
+    throw new Error(`Profiling stage ${id} is a prerequisite of ${dependant.id}`);
+  }
+
+  return registry.delete(id);
+}
+
 /**
  * Get stage by ID
  */
 export function getStage(id: StageId): ProfilingStage | undefined {
-  return PROFILING_STAGES.find(s => s.id === id);
+  return registry.get(id);
 }
 
 /**
- * Get all stages in order
+ * Get all registered stages in registration order
  */
 export function getAllStages(): ProfilingStage[] {
-  return PROFILING_STAGES;
+  return Array.from(registry.values());
 }
 
+PROFILING_STAGES.forEach(registerStage);
+
 /**
  * User profiling state
  */
@@ -108,13 +176,14 @@ export function createProfilingState(): ProfilingState {
 
 /**
  * Check if a stage is available
+ * Completed stages stay closed, except periodic stages once their period has passed.
  */
 export function isStageAvailable(
   stage: ProfilingStage,
   state: ProfilingState
 ): boolean {
   // Already completed
-  if (state.completedStages.includes(stage.id)) {
+  if (stage.trigger !== 'periodic' && state.completedStages.includes(stage.id)) {
     return false;
   }
 
@@ -137,10 +206,11 @@ export function isStageAvailable(
     case 'on-demand':
       return true;
 
-    case 'periodic':
+    case 'periodic': {
       if (!state.lastStageCompletedAt) return true;
       const daysSince = (Date.now() - state.lastStageCompletedAt.getTime()) / (1000 * 60 * 60 * 24);
-      return daysSince >= 30;
+      return daysSince >= (stage.periodDays ?? 30);
+    }
 
     default:
       return false;
@@ -155,7 +225,7 @@ export function getNextAvailableStage(state: ProfilingState): ProfilingStage | n
   const priorityOrder: StageTrigger[] = ['onboarding', 'milestone', 'periodic', 'on-demand'];
 
   for (const trigger of priorityOrder) {
-    const stage = PROFILING_STAGES.find(
+    const stage = getAllStages().find(
       s => s.trigger === trigger && isStageAvailable(s, state)
     );
     if (stage) return stage;
@@ -166,6 +236,8 @@ export function getNextAvailableStage(state: ProfilingState): ProfilingStage | n
 
 /**
  * Mark a stage as complete
+ * A stage completed again (e.g. a periodic one) is listed once; only the
+ * completion time moves.
  */
 export function completeStage(
   state: ProfilingState,
@@ -176,7 +248,9 @@ export function completeStage(
 
   return {
     ...state,
-    completedStages: [...state.completedStages, stageId],
+    completedStages: state.completedStages.includes(stageId)
+      ? state.completedStages
+      : [...state.completedStages, stageId],
     currentStage: null,
     lastStageCompletedAt: new Date(),
     totalConfidence: Math.min(0.95, state.totalConfidence + stage.confidenceGain)
@@ -211,12 +285,13 @@ export function shouldPromptCalibration(state: ProfilingState): boolean {
  * Get profiling progress (0-1)
  */
 export function getProfilingProgress(state: ProfilingState): number {
-  return state.completedStages.length / PROFILING_STAGES.length;
+  const stages = getAllStages();
+  return stages.filter(s => state.completedStages.includes(s.id)).length / stages.length;
 }
 
 /**
  * Estimate total confidence after completing all stages
  */
 export function estimateFinalConfidence(): number {
-  return PROFILING_STAGES.reduce((acc, stage) => acc + stage.confidenceGain, 0);
+  return getAllStages().reduce((acc, stage) => acc + stage.confidenceGain, 0);
 }
@@ -2,15 +2,27 @@
  * @subtaste/profiler - Question Bank
  *
  * Assessment questions with archetype weight mappings.
- * Uses binary and Likert formats as specified.
+ * Uses binary and Likert formats as specified, plus rankings and
+ * comparison formats (pairwise, best-worst) for deep calibration and
+ * media stimuli (audio clips, images) for music calibration.
  */
 
-import type { Designation } from '@subtaste/core';
+import type { Designation, ItemFeature } from '@subtaste/core';
 
 /**
  * Question types
  */
-export type QuestionType = 'binary' | 'likert' | 'ranking';
+export type QuestionType = 'binary' | 'likert' | 'ranking' | 'comparison' | 'maxdiff' | 'stimulus';
+
+/**
+ * Anchor tag linking questions that measure the same construct
+ * Binary option 1 and the high end of a Likert scale count as "high";
+ * reversed items count the other way.
+ */
+export interface AnchorTag {
+  group: string;
+  reverse?: boolean;
+}
 
 /**
  * Base question interface
@@ -21,6 +33,9 @@ export interface Question {
   prompt: string;
   category: 'core' | 'music' | 'creative' | 'social';
   archetypeWeights: Partial<Record<Designation, number>>;
+
+  // Consistency anchor used by response validity checks
+  anchor?: AnchorTag;
 }
 
 /**
@@ -51,6 +66,60 @@ export interface RankingQuestion extends Question {
   itemWeights: Partial<Record<Designation, number>>[];
 }
 
+/**
+ * Repeated pairwise comparison
+ * One item is picked from each pair; items are scored with Bradley-Terry.
+ */
+export interface ComparisonQuestion extends Question {
+  type: 'comparison';
+  items: string[];
+  itemWeights: Partial<Record<Designation, number>>[];
+
+  // Item indices shown together, in presentation order
+  pairs: [number, number][];
+}
+
+/**
+ * Best-worst scaling (MaxDiff)
+ * The best and worst item are picked from each set; items are scored with Bradley-Terry.
+ */
+export interface MaxDiffQuestion extends Question {
+  type: 'maxdiff';
+  items: string[];
+  itemWeights: Partial<Record<Designation, number>>[];
+
+  // Item indices shown together, in presentation order
+  sets: number[][];
+}
+
+/**
+ * Media presented by a stimulus question
+ */
+export interface Stimulus {
+  id: string;
+  label: string;
+  media: 'audio' | 'image';
+  url: string;
+
+  // Clip length (audio), used to judge how much of it was heard
+  durationMs?: number;
+
+  // Archetype weights applied when this stimulus is chosen
+  archetypeWeights: Partial<Record<Designation, number>>;
+
+  // Item features revealed by listening (see ITEM_FEATURE_TRAITS in core)
+  features?: Partial<Record<ItemFeature, boolean>>;
+}
+
+/**
+ * Stimulus question (pick one of several clips or images)
+ * Listening time per stimulus is recorded alongside the choice.
+ */
+export interface StimulusQuestion extends Question {
+  type: 'stimulus';
+  stimuli: Stimulus[];
+}
+
 /**
  * INITIAL SPARK - question bank for onboarding
  * Sample 4-6 per session
@@ -138,6 +207,7 @@ export const INITIAL_QUESTIONS: BinaryQuestion[] = [
     type: 'binary',
     prompt: 'When shaping a piece, you prioritise...',
     category: 'creative',
+    anchor: { group: 'precision', reverse: true },
     options: ['Exact wording and structure', 'Mood and resonance'],
     archetypeWeights: {},
     optionWeights: [
@@ -241,6 +311,7 @@ export const INITIAL_QUESTIONS: BinaryQuestion[] = [
     type: 'binary',
     prompt: 'You trust...',
     category: 'core',
+    anchor: { group: 'intuition' },
     options: ['Systems and proof', 'Intuition and pattern sense'],
     archetypeWeights: {},
     optionWeights: [
@@ -320,12 +391,13 @@ export const INITIAL_QUESTIONS: BinaryQuestion[] = [
  * MUSIC CALIBRATION - question bank triggered after 5 interactions
  * Sample 4-6 per session, refines MUSIC dimensions
  */
-export const MUSIC_CALIBRATION_QUESTIONS: LikertQuestion[] = [
+export const MUSIC_CALIBRATION_QUESTIONS: (LikertQuestion | StimulusQuestion)[] = [
   {
     id: 'music-1-complexity',
     type: 'likert',
     prompt: 'I gravitate toward music that rewards close listening.',
     category: 'music',
+    anchor: { group: 'challenge' },
     scale: 5,
     lowLabel: 'Strongly disagree',
     highLabel: 'Strongly agree',
@@ -362,6 +434,7 @@ export const MUSIC_CALIBRATION_QUESTIONS: LikertQuestion[] = [
     type: 'likert',
     prompt: 'I lose interest once something becomes popular.',
     category: 'music',
+    anchor: { group: 'originality' },
     scale: 5,
     lowLabel: 'Strongly disagree',
     highLabel: 'Strongly agree',
@@ -474,6 +547,7 @@ export const MUSIC_CALIBRATION_QUESTIONS: LikertQuestion[] = [
     type: 'likert',
     prompt: 'I like music that feels like a challenge.',
     category: 'music',
+    anchor: { group: 'challenge' },
     scale: 5,
     lowLabel: 'Strongly disagree',
     highLabel: 'Strongly agree',
@@ -484,14 +558,59 @@ export const MUSIC_CALIBRATION_QUESTIONS: LikertQuestion[] = [
       'L-3': -0.3,   // SILT (opposite)
       'Ø': -0.2      // VOID (opposite)
     }
-  }
+  },
+  {
+    id: 'music-11-listen',
+    type: 'stimulus',
+    prompt: 'Listen, then pick the one that draws you in.',
+    category: 'music',
+    archetypeWeights: {},
+    stimuli: [
+      {
+        id: 'ambient-drone',
+        label: 'Ambient drone',
+        media: 'audio',
+        url: '/audio/quiz/ambient-drone.mp3',
+        durationMs: 15000,
+        archetypeWeights: { 'Ø': 0.7, 'D-8': 0.5, 'L-3': 0.3 },
+        features: { isObscure: true, isExperimental: true }
+      },
+      {
+        id: 'rhythmic-electronic',
+        label: 'Rhythmic electronic',
+        media: 'audio',
+        url: '/audio/quiz/rhythmic-electronic.mp3',
+        durationMs: 15000,
+        archetypeWeights: { 'V-2': 0.6, 'T-1': 0.5, 'H-6': 0.3 },
+        features: { isComplex: true }
+      },
+      {
+        id: 'acoustic-folk',
+        label: 'Acoustic folk',
+        media: 'audio',
+        url: '/audio/quiz/acoustic-folk.mp3',
+        durationMs: 15000,
+        archetypeWeights: { 'P-7': 0.6, 'L-3': 0.5, 'N-5': 0.3 },
+        features: { isNostalgic: true }
+      },
+      {
+        id: 'intense-industrial',
+        label: 'Intense industrial',
+        media: 'audio',
+        url: '/audio/quiz/intense-industrial.mp3',
+        durationMs: 15000,
+        archetypeWeights: { 'R-10': 0.7, 'F-9': 0.4, 'C-4': 0.3 },
+        features: { isAggressive: true, isExperimental: true }
+      }
+    ]
+  } as StimulusQuestion
 ];
 
 /**
  * DEEP CALIBRATION - on-demand extended assessment
  * Sample 4-6 per session, unlocks confidence boost
  */
-export const DEEP_CALIBRATION_QUESTIONS: (BinaryQuestion | LikertQuestion | RankingQuestion)[] = [
+export const DEEP_CALIBRATION_QUESTIONS: (BinaryQuestion | LikertQuestion | RankingQuestion | ComparisonQuestion | MaxDiffQuestion)[] = [
   {
     id: 'deep-1-role',
     type: 'ranking',
@@ -518,6 +637,7 @@ export const DEEP_CALIBRATION_QUESTIONS: (BinaryQuestion | LikertQuestion | Rank
     type: 'likert',
     prompt: 'When curating a playlist, less is more.',
     category: 'creative',
+    anchor: { group: 'edit' },
     scale: 5,
     lowLabel: 'Strongly disagree',
     highLabel: 'Strongly agree',
@@ -613,6 +733,7 @@ export const DEEP_CALIBRATION_QUESTIONS: (BinaryQuestion | LikertQuestion | Rank
     type: 'binary',
     prompt: 'A work should feel...',
     category: 'core',
+    anchor: { group: 'precision', reverse: true },
     options: ['Precise and final', 'Open and alive'],
     archetypeWeights: {},
     optionWeights: [
@@ -639,6 +760,7 @@ export const DEEP_CALIBRATION_QUESTIONS: (BinaryQuestion | LikertQuestion | Rank
     type: 'likert',
     prompt: 'I want to be moved even if I cannot explain why.',
     category: 'core',
+    anchor: { group: 'intuition' },
     scale: 5,
     lowLabel: 'Strongly disagree',
     highLabel: 'Strongly agree',
@@ -654,6 +776,7 @@ export const DEEP_CALIBRATION_QUESTIONS: (BinaryQuestion | LikertQuestion | Rank
     type: 'binary',
     prompt: 'In a collection, you prefer...',
     category: 'creative',
+    anchor: { group: 'edit', reverse: true },
     options: ['A tight edit', 'A wide range of perspectives'],
     archetypeWeights: {},
     optionWeights: [
@@ -680,6 +803,7 @@ export const DEEP_CALIBRATION_QUESTIONS: (BinaryQuestion | LikertQuestion | Rank
     type: 'likert',
     prompt: 'I would trade popularity for originality.',
     category: 'core',
+    anchor: { group: 'originality' },
     scale: 5,
     lowLabel: 'Strongly disagree',
     highLabel: 'Strongly agree',
@@ -690,7 +814,51 @@ export const DEEP_CALIBRATION_QUESTIONS: (BinaryQuestion | LikertQuestion | Rank
       'H-6': -0.3,   // TOLL (opposite)
       'L-3': -0.2    // SILT (opposite)
     }
-  } as LikertQuestion
+  } as LikertQuestion,
+  {
+    id: 'deep-11-tradeoffs',
+    type: 'comparison',
+    prompt: 'Which matters more to you?',
+    category: 'core',
+    items: [
+      'Getting there first',
+      'Getting it right',
+      'Bringing people with you',
+      'Leaving room for the unknown'
+    ],
+    archetypeWeights: {},
+    itemWeights: [
+      { 'V-2': 0.8, 'R-10': 0.4 },   // first → OMEN, SCHISM
+      { 'C-4': 0.7, 'T-1': 0.6 },    // right → CULL, STRATA
+      { 'H-6': 0.8, 'N-5': 0.5 },    // people → TOLL, LIMN
+      { 'Ø': 0.8, 'D-8': 0.6 }       // unknown → VOID, WICK
+    ],
+    pairs: [[0, 1], [2, 3], [0, 2], [1, 3], [0, 3], [1, 2]]
+  } as ComparisonQuestion,
+  {
+    id: 'deep-12-legacy',
+    type: 'maxdiff',
+    prompt: 'Pick what you would most and least like to leave behind:',
+    category: 'creative',
+    items: [
+      'An archive nobody else kept',
+      'A scene that outlived you',
+      'A standard others measure against',
+      'A body of finished work',
+      'A slow practice that kept deepening',
+      'A break from what came before'
+    ],
+    archetypeWeights: {},
+    itemWeights: [
+      { 'P-7': 0.9 },                // archive → VAULT
+      { 'H-6': 0.6, 'N-5': 0.5 },    // scene → TOLL, LIMN
+      { 'S-0': 0.9 },                // standard → KETH
+      { 'F-9': 0.9 },                // finished work → ANVIL
+      { 'L-3': 0.9 },                // slow practice → SILT
+      { 'R-10': 0.7, 'V-2': 0.4 }    // break → SCHISM, OMEN
+    ],
+    sets: [[0, 1, 2, 3], [2, 3, 4, 5], [4, 5, 0, 1]]
+  } as MaxDiffQuestion
 ];
 
 /**
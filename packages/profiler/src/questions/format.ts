@@ -0,0 +1,336 @@
+/**
+ * @subtaste/profiler - Question Bank Format
+ *
+ * Versioned, serialisable question banks so questions can be authored
+ * outside TypeScript. Artefacts are plain JSON (YAML parses to the same
+ * shape) and are validated before use: weights must name real designations
+ * and stay in bounds, IDs must be unique and every designation needs items.
+ */
+
+import type { Designation } from '@subtaste/core';
+import { ALL_DESIGNATIONS, ITEM_FEATURE_TRAITS } from '@subtaste/core';
+import {
+  INITIAL_QUESTIONS,
+  MUSIC_CALIBRATION_QUESTIONS,
+  DEEP_CALIBRATION_QUESTIONS,
+  type Question
+} from './bank';
+
+/**
+ * Bank stages, in the order they are taken
+ */
+export type BankStage = 'initial' | 'music' | 'deep';
+
+export const BANK_STAGES: BankStage[] = ['initial', 'music', 'deep'];
+
+/**
+ * A versioned, serialisable question bank
+ */
+export interface QuestionBankArtefact {
+  id: string;
+  version: number;
+  createdAt: string;
+  description?: string;
+  stages: Record<BankStage, Question[]>;
+}
+
+/**
+ * Validation limits for a question bank
+ */
+export interface BankValidationConfig {
+  // Largest absolute weight any answer may carry
+  maxWeight: number;
+
+  // Questions that must weigh towards each designation
+  // (positive option weights, or any Likert weight since either end of the scale counts)
+  minCoverage: number;
+}
+
+/**
+ * Default validation limits
+ */
+export const DEFAULT_BANK_VALIDATION: BankValidationConfig = {
+  maxWeight: 1,
+  minCoverage: 2
+};
+
+/**
+ * A problem found in a question bank
+ */
+export interface BankIssue {
+  // Location in the artefact, e.g. stages.music[2].itemWeights[1]
+  path: string;
+  message: string;
+}
+
+const QUESTION_TYPES = ['binary', 'likert', 'ranking', 'comparison', 'maxdiff', 'stimulus'];
+const CATEGORIES = ['core', 'music', 'creative', 'social'];
+
+/**
+ * Artefact for the built-in bank
+ */
+export function getBuiltInQuestionBank(): QuestionBankArtefact {
+  return {
+    id: 'default',
+    version: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    stages: {
+      initial: INITIAL_QUESTIONS,
+      music: MUSIC_CALIBRATION_QUESTIONS,
+      deep: DEEP_CALIBRATION_QUESTIONS
+    }
+  };
+}
+
+/**
+ * Validate a parsed question bank
+ * Returns every issue found; an empty list means the bank is usable.
+ */
+export function validateQuestionBank(
+  data: unknown,
+  config: Partial<BankValidationConfig> = {}
+): BankIssue[] {
+  const merged = { ...DEFAULT_BANK_VALIDATION, ...config };
+  const issues: BankIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isObject(data)) {
+    return [{ path: '', message: 'Bank must be an object' }];
+  }
+
+  if (typeof data.id !== 'string' || data.id.length === 0) issue('id', 'Missing bank id');
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version)) issue('version', 'Version must be an integer');
+  if (typeof data.createdAt !== 'string' || isNaN(Date.parse(data.createdAt))) issue('createdAt', 'createdAt must be an ISO date');
+
+  if (!isObject(data.stages)) {
+    issue('stages', 'Missing stages');
+    return issues;
+  }
+
+  const stages = data.stages;
+  const seen = new Map<string, string>();
+  const coverage = new Map<Designation, number>(ALL_DESIGNATIONS.map(d => [d, 0]));
+
+  for (const key of Object.keys(stages)) {
+    if (!BANK_STAGES.includes(key as BankStage)) issue(`stages.${key}`, `Unknown stage "${key}"`);
+  }
+
+  for (const stage of BANK_STAGES) {
+    const questions = stages[stage];
+    if (!Array.isArray(questions) || questions.length === 0) {
+      issue(`stages.${stage}`, 'Stage must list at least one question');
+      continue;
+    }
+
+    questions.forEach((question: unknown, index) => {
+      const path = `stages.${stage}[${index}]`;
+      if (!isObject(question)) {
+        issue(path, 'Question must be an object');
+        return;
+      }
+
+      if (typeof question.id !== 'string' || question.id.length === 0) {
+        issue(`${path}.id`, 'Missing question id');
+      } else if (seen.has(question.id)) {
+        issue(`${path}.id`, `Duplicate id "${question.id}" (first at ${seen.get(question.id)})`);
+      } else {
+        seen.set(question.id, path);
+      }
+
+      if (typeof question.prompt !== 'string' || question.prompt.length === 0) issue(`${path}.prompt`, 'Missing prompt');
+      if (!CATEGORIES.includes(question.category as string)) issue(`${path}.category`, `Unknown category "${question.category}"`);
+      if (!QUESTION_TYPES.includes(question.type as string)) {
+        issue(`${path}.type`, `Unknown question type "${question.type}"`);
+        return;
+      }
+
+      if (question.anchor !== undefined) {
+        const anchor = question.anchor;
+        if (!isObject(anchor) || typeof anchor.group !== 'string' || (anchor.reverse !== undefined && typeof anchor.reverse !== 'boolean')) {
+          issue(`${path}.anchor`, 'Anchor must have a group and an optional reverse flag');
+        }
+      }
+
+      // Weight maps this question answers with
+      const maps: Array<[string, unknown]> = [[`${path}.archetypeWeights`, question.archetypeWeights]];
+
+      switch (question.type) {
+        case 'binary':
+          if (!isStringList(question.options, 2, 2)) issue(`${path}.options`, 'Binary questions need two options');
+          if (!Array.isArray(question.optionWeights) || question.optionWeights.length !== 2) {
+            issue(`${path}.optionWeights`, 'Binary questions need two option weight maps');
+          } else {
+            question.optionWeights.forEach((w, i) => maps.push([`${path}.optionWeights[${i}]`, w]));
+          }
+          break;
+
+        case 'likert':
+          if (question.scale !== 5 && question.scale !== 7) issue(`${path}.scale`, 'Likert scale must be 5 or 7');
+          if (typeof question.lowLabel !== 'string' || typeof question.highLabel !== 'string') {
+            issue(`${path}.lowLabel`, 'Likert questions need low and high labels');
+          }
+          break;
+
+        case 'stimulus': {
+          if (!Array.isArray(question.stimuli) || question.stimuli.length < 2) {
+            issue(`${path}.stimuli`, 'Stimulus questions need at least two stimuli');
+            break;
+          }
+
+          const stimulusIds = new Set<unknown>();
+          question.stimuli.forEach((stimulus: unknown, i) => {
+            const stimulusPath = `${path}.stimuli[${i}]`;
+            if (!isObject(stimulus)) {
+              issue(stimulusPath, 'Stimulus must be an object');
+              return;
+            }
+
+            if (typeof stimulus.id !== 'string' || stimulusIds.has(stimulus.id)) issue(`${stimulusPath}.id`, 'Stimulus ids must be unique strings');
+            stimulusIds.add(stimulus.id);
+            if (typeof stimulus.label !== 'string') issue(`${stimulusPath}.label`, 'Missing label');
+            if (stimulus.media !== 'audio' && stimulus.media !== 'image') issue(`${stimulusPath}.media`, 'Media must be audio or image');
+            if (typeof stimulus.url !== 'string' || stimulus.url.length === 0) issue(`${stimulusPath}.url`, 'Missing media url');
+            if (stimulus.durationMs !== undefined && !(typeof stimulus.durationMs === 'number' && stimulus.durationMs > 0)) {
+              issue(`${stimulusPath}.durationMs`, 'Duration must be a positive number of milliseconds');
+            }
+            if (stimulus.features !== undefined && (!isObject(stimulus.features)
+              || Object.entries(stimulus.features).some(([k, v]) => !(k in ITEM_FEATURE_TRAITS) || typeof v !== 'boolean'))) {
+              issue(`${stimulusPath}.features`, 'Features must be known item features set to true or false');
+            }
+
+            maps.push([`${stimulusPath}.archetypeWeights`, stimulus.archetypeWeights]);
+          });
+          break;
+        }
+
+        case 'ranking':
+        case 'comparison':
+        case 'maxdiff': {
+          if (!isStringList(question.items, 2)) issue(`${path}.items`, 'Questions with items need at least two');
+          if (!Array.isArray(question.itemWeights) || !Array.isArray(question.items) || question.itemWeights.length !== question.items.length) {
+            issue(`${path}.itemWeights`, 'Questions with items need one weight map per item');
+          } else {
+            question.itemWeights.forEach((w, i) => maps.push([`${path}.itemWeights[${i}]`, w]));
+          }
+
+          const itemCount = Array.isArray(question.items) ? question.items.length : 0;
+          if (question.type === 'comparison' && !isIndexGroups(question.pairs, itemCount, 2, 2)) {
+            issue(`${path}.pairs`, 'Pairs must be two distinct item indices each');
+          }
+          if (question.type === 'maxdiff' && !isIndexGroups(question.sets, itemCount, 3)) {
+            issue(`${path}.sets`, 'Sets must be three or more distinct item indices each');
+          }
+          break;
+        }
+      }
+
+      // Designations this question can weigh towards
+      const covered = new Set<Designation>();
+      for (const [mapPath, weights] of maps) {
+        if (!isObject(weights)) {
+          issue(mapPath, 'Weights must be an object');
+          continue;
+        }
+
+        for (const [designation, weight] of Object.entries(weights)) {
+          if (!ALL_DESIGNATIONS.includes(designation as Designation)) {
+            issue(`${mapPath}.${designation}`, `Unknown designation "${designation}"`);
+          } else if (typeof weight !== 'number' || !Number.isFinite(weight)) {
+            issue(`${mapPath}.${designation}`, 'Weight must be a number');
+          } else if (Math.abs(weight) > merged.maxWeight) {
+            issue(`${mapPath}.${designation}`, `Weight ${weight} outside ±${merged.maxWeight}`);
+          } else if (weight > 0 || (question.type === 'likert' && weight !== 0)) {
+            covered.add(designation as Designation);
+          }
+        }
+      }
+
+      for (const d of covered) {
+        coverage.set(d, (coverage.get(d) || 0) + 1);
+      }
+    });
+  }
+
+  for (const [designation, count] of coverage) {
+    if (count < merged.minCoverage) {
+      issue('stages', `Designation ${designation} is weighted by ${count} question(s), needs ${merged.minCoverage}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a parsed bank and return it as an artefact
+ * Throws with every issue listed when the bank is invalid.
+ */
+export function parseQuestionBank(
+  data: unknown,
+  config: Partial<BankValidationConfig> = {}
+): QuestionBankArtefact {
+  const issues = validateQuestionBank(data, config);
+
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid question bank:\n${issues.map(i => `  ${i.path || '(root)'}: ${i.message}`).join('\n')}`
+    );
+  }
+
+  return data as QuestionBankArtefact;
+}
+
+/**
+ * Parse a stored JSON question bank
+ */
+export function loadQuestionBank(
+  json: string,
+  config: Partial<BankValidationConfig> = {}
+): QuestionBankArtefact {
+  return parseQuestionBank(JSON.parse(json), config);
+}
+
+/**
+ * Serialise a question bank artefact
+ */
+export function serializeQuestionBank(bank: QuestionBankArtefact): string {
+  return JSON.stringify(bank, null, 2);
+}
+
+/**
+ * Every question in a bank, in stage order
+ */
+export function getBankQuestions(bank: QuestionBankArtefact): Question[] {
+  return BANK_STAGES.flatMap(stage => bank.stages[stage]);
+}
+
+/**
+ * Helper: plain object check
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Helper: non-empty list of groups of distinct item indices with a size range
+ */
+function isIndexGroups(value: unknown, itemCount: number, min: number, max = Infinity): boolean {
+  return Array.isArray(value)
+    && value.length > 0
+    && value.every(group =>
+      Array.isArray(group)
+      && group.length >= min
+      && group.length <= max
+      && new Set(group).size === group.length
+      && group.every(i => Number.isInteger(i) && i >= 0 && i < itemCount)
+    );
+}
+
+/**
+ * Helper: array of strings with a length range
+ */
+function isStringList(value: unknown, min: number, max = Infinity): boolean {
+  return Array.isArray(value)
+    && value.length >= min
+    && value.length <= max
+    && value.every(v => typeof v === 'string');
+}
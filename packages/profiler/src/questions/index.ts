@@ -12,16 +12,26 @@ export {
 
 export type {
   QuestionType,
+  AnchorTag,
   Question,
   BinaryQuestion,
   LikertQuestion,
-  RankingQuestion
+  RankingQuestion,
+  ComparisonQuestion,
+  MaxDiffQuestion,
+  Stimulus,
+  StimulusQuestion
 } from './bank';
 
 export {
   mapBinaryResponse,
   mapLikertResponse,
   mapRankingResponse,
+  mapComparisonResponse,
+  mapMaxDiffResponse,
+  mapStimulusResponse,
+  stimulusListeningSignals,
+  fitBradleyTerry,
   responseToSignal,
   responsesToSignals,
   calculateConfidenceGain
@@ -29,9 +39,30 @@ export {
 
 export { sampleQuestions } from './sample';
 
+export {
+  BANK_STAGES,
+  DEFAULT_BANK_VALIDATION,
+  getBuiltInQuestionBank,
+  validateQuestionBank,
+  parseQuestionBank,
+  loadQuestionBank,
+  serializeQuestionBank,
+  getBankQuestions
+} from './format';
+
+export type {
+  BankStage,
+  QuestionBankArtefact,
+  BankValidationConfig,
+  BankIssue
+} from './format';
+
 export type {
   BinaryResponse,
   LikertResponse,
   RankingResponse,
+  ComparisonResponse,
+  MaxDiffResponse,
+  StimulusResponse,
   QuestionResponse
 } from './mapping';
@@ -4,8 +4,17 @@
  * Converts question responses to archetype weight signals.
  */
 
-import type { Designation, Signal, ExplicitSignal } from '@subtaste/core';
-import type { Question, BinaryQuestion, LikertQuestion, RankingQuestion } from './bank';
+import type { Designation, Signal, ExplicitSignal, ExplicitKind, ImplicitSignal } from '@subtaste/core';
+import type {
+  Question,
+  QuestionType,
+  BinaryQuestion,
+  LikertQuestion,
+  RankingQuestion,
+  ComparisonQuestion,
+  MaxDiffQuestion,
+  StimulusQuestion
+} from './bank';
 import { getQuestionById, INITIAL_QUESTIONS, MUSIC_CALIBRATION_QUESTIONS, DEEP_CALIBRATION_QUESTIONS } from './bank';
 
 /**
@@ -14,16 +23,37 @@ import { getQuestionById, INITIAL_QUESTIONS, MUSIC_CALIBRATION_QUESTIONS, DEEP_C
 export type BinaryResponse = 0 | 1;
 export type LikertResponse = 1 | 2 | 3 | 4 | 5 | 6 | 7;
 export type RankingResponse = number[]; // Indices in order of preference
+export type ComparisonResponse = number[]; // Chosen item index for each pair
+export type MaxDiffResponse = [number, number][]; // [best, worst] item indices for each set
+export type StimulusResponse = number; // Chosen stimulus index
 
 /**
  * Generic question response
  */
 export interface QuestionResponse {
   questionId: string;
-  response: BinaryResponse | LikertResponse | RankingResponse;
+  response: BinaryResponse | LikertResponse | RankingResponse | MaxDiffResponse | StimulusResponse;
   timestamp: Date;
+
+  // Time from the question being shown to the answer, when the client measured it
+  responseTimeMs?: number;
+
+  // Stimulus questions: time spent on each stimulus, in stimulus order
+  listenMs?: number[];
 }
 
+/**
+ * Explicit signal kind produced by each question type
+ */
+const SIGNAL_KINDS: Record<QuestionType, ExplicitKind> = {
+  binary: 'choice',
+  likert: 'likert',
+  ranking: 'ranking',
+  comparison: 'comparison',
+  maxdiff: 'selection',
+  stimulus: 'choice'
+};
+
 /**
  * Convert a binary response to archetype weights
  */
@@ -86,15 +116,177 @@ export function mapRankingResponse(
   return result;
 }
 
+/**
+ * Fit Bradley-Terry item strengths to pairwise outcomes
+ * Uses the MM algorithm with one virtual win and loss against a unit-strength
+ * reference per item, so unbeaten or winless items stay finite.
+ * Strengths are normalised to a geometric mean of 1.
+ */
+export function fitBradleyTerry(
+  itemCount: number,
+  outcomes: [winner: number, loser: number][],
+  iterations = 100
+): number[] {
+  const wins = new Array(itemCount).fill(0);
+  const games: number[][] = Array.from({ length: itemCount }, () => new Array(itemCount).fill(0));
+
+  for (const [winner, loser] of outcomes) {
+    wins[winner]++;
+    games[winner][loser]++;
+    games[loser][winner]++;
+  }
+
+  let strengths = new Array(itemCount).fill(1);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const next = strengths.map((p, i) => {
+      let denominator = 2 / (p + 1);
+      for (let j = 0; j < itemCount; j++) {
+        if (games[i][j] > 0) {
+          denominator += games[i][j] / (p + strengths[j]);
+        }
+      }
+      return (wins[i] + 1) / denominator;
+    });
+
+    const logMean = next.reduce((sum, p) => sum + Math.log(p), 0) / itemCount;
+    strengths = next.map(p => p / Math.exp(logMean));
+  }
+
+  return strengths;
+}
+
+/**
+ * Helper: designation weights from pairwise outcomes
+ * Items are scored by centred log strength (-1 to +1), then applied to item weights.
+ */
+function mapPairwiseOutcomes(
+  itemWeights: Partial<Record<Designation, number>>[],
+  outcomes: [number, number][]
+): Partial<Record<Designation, number>> {
+  const strengths = fitBradleyTerry(itemWeights.length, outcomes);
+  const logs = strengths.map(p => Math.log(p));
+  const scale = Math.max(...logs.map(Math.abs)) || 1;
+
+  const result: Partial<Record<Designation, number>> = {};
+
+  itemWeights.forEach((weights, i) => {
+    const score = logs[i] / scale;
+    for (const [designation, weight] of Object.entries(weights)) {
+      const d = designation as Designation;
+      result[d] = (result[d] || 0) + (weight || 0) * score;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Convert a pairwise comparison response to archetype weights
+ */
+export function mapComparisonResponse(
+  question: ComparisonQuestion,
+  response: ComparisonResponse
+): Partial<Record<Designation, number>> {
+  const outcomes: [number, number][] = [];
+
+  question.pairs.forEach(([a, b], i) => {
+    const chosen = response[i];
+    if (chosen === a) outcomes.push([a, b]);
+    else if (chosen === b) outcomes.push([b, a]);
+  });
+
+  return mapPairwiseOutcomes(question.itemWeights, outcomes);
+}
+
+/**
+ * Convert a best-worst (MaxDiff) response to archetype weights
+ * Each pick implies the best item beat the rest of its set and the rest beat the worst.
+ */
+export function mapMaxDiffResponse(
+  question: MaxDiffQuestion,
+  response: MaxDiffResponse
+): Partial<Record<Designation, number>> {
+  const outcomes: [number, number][] = [];
+
+  question.sets.forEach((set, i) => {
+    const [best, worst] = response[i] || [];
+
+    for (const item of set) {
+      if (set.includes(best) && item !== best) outcomes.push([best, item]);
+      if (set.includes(worst) && item !== worst && item !== best) outcomes.push([item, worst]);
+    }
+  });
+
+  return mapPairwiseOutcomes(question.itemWeights, outcomes);
+}
+
+/**
+ * Convert a stimulus choice to archetype weights
+ */
+export function mapStimulusResponse(
+  question: StimulusQuestion,
+  response: StimulusResponse
+): Partial<Record<Designation, number>> {
+  return question.stimuli[response]?.archetypeWeights || {};
+}
+
+/**
+ * Implicit signals from listening to a stimulus question's clips
+ * Each stimulus heard becomes a dwell on an item with its features, and the
+ * chosen one a click, so listening moves MUSIC preferences through the
+ * item feature trait model instead of self-report.
+ */
+export function stimulusListeningSignals(
+  question: StimulusQuestion,
+  response: QuestionResponse,
+  source: 'quiz' | 'calibration' = 'calibration'
+): Signal[] {
+  const signals: Signal[] = [];
+
+  const implicit = (
+    type: Signal['type'],
+    data: ImplicitSignal
+  ): Signal => ({ type, source, timestamp: response.timestamp, data });
+
+  question.stimuli.forEach((stimulus, i) => {
+    const heard = response.listenMs?.[i] || 0;
+    const metadata = {
+      ...stimulus.features,
+      questionId: question.id,
+      ...(stimulus.durationMs && { clipDurationMs: stimulus.durationMs })
+    };
+
+    if (heard > 0) {
+      signals.push(implicit('unintentional_implicit', {
+        kind: 'dwell',
+        itemId: stimulus.id,
+        duration: heard,
+        metadata
+      }));
+    }
+
+    if (i === response.response) {
+      signals.push(implicit('intentional_implicit', {
+        kind: 'click',
+        itemId: stimulus.id,
+        metadata
+      }));
+    }
+  });
+
+  return signals;
+}
+
 /**
  * Convert a question response to a Signal
+ * The question is looked up in the bank unless one is passed in.
  */
 export function responseToSignal(
   response: QuestionResponse,
-  source: 'quiz' | 'calibration' = 'quiz'
+  source: 'quiz' | 'calibration' = 'quiz',
+  question: Question | undefined = getQuestionById(response.questionId)
 ): Signal | null {
-  const question = getQuestionById(response.questionId);
-
   if (!question) {
     return null;
   }
@@ -123,13 +315,33 @@ export function responseToSignal(
       );
       break;
 
+    case 'comparison':
+      archetypeWeights = mapComparisonResponse(
+        question as ComparisonQuestion,
+        response.response as ComparisonResponse
+      );
+      break;
+
+    case 'maxdiff':
+      archetypeWeights = mapMaxDiffResponse(
+        question as MaxDiffQuestion,
+        response.response as MaxDiffResponse
+      );
+      break;
+
+    case 'stimulus':
+      archetypeWeights = mapStimulusResponse(
+        question as StimulusQuestion,
+        response.response as StimulusResponse
+      );
+      break;
+
     default:
       return null;
   }
 
   const explicitSignal: ExplicitSignal = {
-    kind: question.type === 'binary' ? 'choice' :
-          question.type === 'likert' ? 'likert' : 'ranking',
+    kind: SIGNAL_KINDS[question.type],
     questionId: response.questionId,
     value: response.response,
     archetypeWeights
@@ -145,14 +357,23 @@ export function responseToSignal(
 
 /**
  * Convert multiple responses to signals
+ * Stimulus questions also contribute their listening signals.
+ * Questions outside the bank (e.g. a registered stage's own) can be passed in.
  */
 export function responsesToSignals(
   responses: QuestionResponse[],
-  source: 'quiz' | 'calibration' = 'quiz'
+  source: 'quiz' | 'calibration' = 'quiz',
+  questions: Question[] = []
 ): Signal[] {
-  return responses
-    .map(r => responseToSignal(r, source))
-    .filter((s): s is Signal => s !== null);
+  return responses.flatMap(r => {
+    const question = questions.find(q => q.id === r.questionId) ?? getQuestionById(r.questionId);
+    const signal = responseToSignal(r, source, question);
+    if (!signal) return [];
+
+    return question?.type === 'stimulus'
+      ? [signal, ...stimulusListeningSignals(question as StimulusQuestion, r, source)]
+      : [signal];
+  });
 }
 
 /**
@@ -0,0 +1,98 @@
+/**
+ * @subtaste/profiler - Question Bank Diff
+ *
+ * Compares two question bank versions: which questions were added, removed
+ * or edited, and how the Glyph base-rates of simulated respondents move as
+ * a result. Both versions are run with the same seed so shifts come from
+ * the bank alone.
+ */
+
+import type { Designation, Glyph } from '@subtaste/core';
+import { ALL_DESIGNATIONS, toGlyph } from '@subtaste/core';
+import {
+  BANK_STAGES,
+  getBankQuestions,
+  type QuestionBankArtefact
+} from '../questions';
+import { buildReliabilityReport, type ReliabilityOptions } from './reliability';
+
+/**
+ * Base-rate change of one Glyph between bank versions
+ */
+export interface GlyphShift {
+  glyph: Glyph;
+  designation: Designation;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/**
+ * Differences between two question bank versions
+ */
+export interface QuestionBankDiff {
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+
+  added: string[];
+  removed: string[];
+  changed: string[];
+
+  // Simulated respondents, largest shift first
+  glyphShifts: GlyphShift[];
+
+  // Random responders, largest shift first
+  randomGlyphShifts: GlyphShift[];
+}
+
+/**
+ * Diff two question bank versions
+ */
+export function diffQuestionBanks(
+  before: QuestionBankArtefact,
+  after: QuestionBankArtefact,
+  options: Partial<Omit<ReliabilityOptions, 'bank'>> = {}
+): QuestionBankDiff {
+  const beforeById = new Map(getBankQuestions(before).map(q => [q.id, q]));
+  const afterById = new Map(getBankQuestions(after).map(q => [q.id, q]));
+
+  const added = Array.from(afterById.keys()).filter(id => !beforeById.has(id));
+  const removed = Array.from(beforeById.keys()).filter(id => !afterById.has(id));
+  const changed = Array.from(afterById.keys()).filter(id =>
+    beforeById.has(id) && JSON.stringify(beforeById.get(id)) !== JSON.stringify(afterById.get(id))
+  );
+
+  const reportBefore = buildReliabilityReport({ ...options, bank: BANK_STAGES.map(s => before.stages[s]) });
+  const reportAfter = buildReliabilityReport({ ...options, bank: BANK_STAGES.map(s => after.stages[s]) });
+
+  return {
+    from: { id: before.id, version: before.version },
+    to: { id: after.id, version: after.version },
+    added,
+    removed,
+    changed,
+    glyphShifts: getGlyphShifts(reportBefore.baseRates, reportAfter.baseRates),
+    randomGlyphShifts: getGlyphShifts(reportBefore.random.baseRates, reportAfter.random.baseRates)
+  };
+}
+
+/**
+ * Helper: per-Glyph base-rate changes, largest first
+ */
+function getGlyphShifts(
+  before: Record<Glyph, number>,
+  after: Record<Glyph, number>
+): GlyphShift[] {
+  return ALL_DESIGNATIONS
+    .map(designation => {
+      const glyph = toGlyph(designation);
+      return {
+        glyph,
+        designation,
+        before: before[glyph],
+        after: after[glyph],
+        delta: after[glyph] - before[glyph]
+      };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
@@ -0,0 +1,32 @@
+/**
+ * @subtaste/profiler/validation - Reliability Exports
+ */
+
+export {
+  createRng,
+  shuffle,
+  idealResponse,
+  randomResponse,
+  simulateResponses,
+  simulatedSignals
+} from './simulate';
+
+export type { Rng } from './simulate';
+
+export {
+  buildReliabilityReport,
+  getReliabilityFailures,
+  cronbachAlpha,
+  DEFAULT_RELIABILITY_OPTIONS,
+  RELIABILITY_THRESHOLDS
+} from './reliability';
+
+export type {
+  ReliabilityOptions,
+  ReliabilityReport,
+  ReliabilityThresholds
+} from './reliability';
+
+export { diffQuestionBanks } from './diff';
+
+export type { GlyphShift, QuestionBankDiff } from './diff';
@@ -0,0 +1,374 @@
+/**
+ * @subtaste/profiler - Reliability Report
+ *
+ * Psychometric checks for a question bank and scoring config, run against
+ * seeded simulated respondents: internal consistency per designation,
+ * test-retest agreement, a confusion matrix of true vs assigned designation
+ * and Glyph base-rates. Deterministic for a given seed, so it can gate CI.
+ */
+
+import type { Designation, Glyph, ScoringConfig } from '@subtaste/core';
+import { ALL_DESIGNATIONS, classify, isExplicitSignal, toGlyph } from '@subtaste/core';
+import { getQuestionsForStage, type Question } from '../questions';
+import {
+  createRng,
+  shuffle,
+  simulateResponses,
+  simulatedSignals,
+  type Rng
+} from './simulate';
+
+/**
+ * Reliability run options
+ */
+export interface ReliabilityOptions {
+  // Question bank grouped by stage; each session samples from every group
+  bank: Question[][];
+
+  // Scoring config overrides passed to classify
+  scoring: Partial<ScoringConfig>;
+
+  seed: number;
+
+  // Simulated respondents per true designation
+  respondentsPerDesignation: number;
+
+  // Questions sampled from each group per session
+  questionsPerGroup: number;
+
+  // Chance that a respondent gives a different answer than their designation would
+  noise: number;
+
+  // Sessions answered entirely at random
+  randomSessions: number;
+
+  // Confidence below which a random session counts as correctly gated
+  entropyGate: number;
+}
+
+/**
+ * Default reliability options (the live three-stage bank)
+ */
+export const DEFAULT_RELIABILITY_OPTIONS: ReliabilityOptions = {
+  bank: [
+    getQuestionsForStage('initial'),
+    getQuestionsForStage('music'),
+    getQuestionsForStage('deep')
+  ],
+  scoring: {},
+  seed: 1000,
+  respondentsPerDesignation: 10,
+  questionsPerGroup: 4,
+  noise: 0.12,
+  randomSessions: 40,
+  entropyGate: 0.35
+};
+
+/**
+ * Reliability report
+ */
+export interface ReliabilityReport {
+  respondents: number;
+
+  // Cronbach's alpha per designation over the full bank (null when fewer than two items vary)
+  alpha: Record<Designation, number | null>;
+
+  testRetest: {
+    // Share of respondents assigned the same primary in two sampled sessions
+    agreement: number;
+
+    // Mean cosine similarity of the two distributions
+    similarity: number;
+  };
+
+  // Mean cosine similarity between odd and even halves of one session
+  splitHalf: number;
+
+  // Counts of assigned designation per true designation
+  confusion: Record<Designation, Record<Designation, number>>;
+
+  // Share of respondents assigned their true designation
+  accuracy: number;
+
+  // Share of respondents assigned each Glyph
+  baseRates: Record<Glyph, number>;
+
+  // Most assigned Glyph and its share
+  dominant: { designation: Designation; glyph: Glyph; share: number };
+
+  random: {
+    // Share of random sessions with confidence under the entropy gate
+    belowGate: number;
+    baseRates: Record<Glyph, number>;
+  };
+}
+
+/**
+ * Thresholds a bank must meet
+ */
+export interface ReliabilityThresholds {
+  minTestRetestAgreement: number;
+  minTestRetestSimilarity: number;
+  minSplitHalf: number;
+  minAccuracy: number;
+  minMeanAlpha: number;
+
+  // No Glyph may take more than this share of respondents
+  maxGlyphShare: number;
+
+  minRandomBelowGate: number;
+}
+
+/**
+ * Default reliability thresholds
+ * Set below the live bank's results with margin; a bank edit that funnels
+ * respondents into one Glyph fails on share and accuracy.
+ */
+export const RELIABILITY_THRESHOLDS: ReliabilityThresholds = {
+  minTestRetestAgreement: 0.3,
+  minTestRetestSimilarity: 0.7,
+  minSplitHalf: 0.6,
+  minAccuracy: 0.4,
+  minMeanAlpha: 0.5,
+  maxGlyphShare: 0.4,
+  minRandomBelowGate: 0.7
+};
+
+/**
+ * Build a reliability report for a question bank and scoring config
+ */
+export function buildReliabilityReport(
+  options: Partial<ReliabilityOptions> = {}
+): ReliabilityReport {
+  const merged = { ...DEFAULT_RELIABILITY_OPTIONS, ...options };
+  const rng = createRng(merged.seed);
+  const fullBank = merged.bank.flat();
+
+  const classifyResponses = (questions: Question[], designation: Designation | null) => {
+    const responses = simulateResponses(questions, designation, rng, merged.noise);
+    const signals = simulatedSignals(fullBank, responses);
+    return { signals, result: classify({ signals, config: merged.scoring }) };
+  };
+
+  const confusion = emptyMatrix();
+  const assigned = ALL_DESIGNATIONS.map(() => 0);
+  const itemScores: Record<Designation, number[][]> = emptyRecord(() => []);
+  let agreements = 0;
+  let retestSimilarity = 0;
+  let splitHalf = 0;
+  let respondents = 0;
+
+  for (const truth of ALL_DESIGNATIONS) {
+    for (let i = 0; i < merged.respondentsPerDesignation; i++) {
+      respondents++;
+
+      // Full bank: internal consistency, confusion matrix and base-rates
+      const full = classifyResponses(fullBank, truth);
+      const primary = full.result.classification.primary.designation;
+      confusion[truth][primary]++;
+      assigned[ALL_DESIGNATIONS.indexOf(primary)]++;
+
+      for (const d of ALL_DESIGNATIONS) {
+        itemScores[d].push(full.signals.map(s =>
+          isExplicitSignal(s.data) ? s.data.archetypeWeights?.[d] ?? 0 : 0
+        ));
+      }
+
+      // Two sampled sessions: test-retest
+      const a = classifyResponses(sampleSession(merged.bank, merged.questionsPerGroup, rng), truth);
+      const b = classifyResponses(sampleSession(merged.bank, merged.questionsPerGroup, rng), truth);
+      if (a.result.classification.primary.designation === b.result.classification.primary.designation) {
+        agreements++;
+      }
+      retestSimilarity += cosineSimilarity(
+        a.result.classification.distribution,
+        b.result.classification.distribution
+      );
+
+      // Odd and even halves of one session: split-half
+      const session = sampleSession(merged.bank, merged.questionsPerGroup, rng);
+      const even = classifyResponses(session.filter((_, idx) => idx % 2 === 0), truth);
+      const odd = classifyResponses(session.filter((_, idx) => idx % 2 === 1), truth);
+      splitHalf += cosineSimilarity(
+        even.result.classification.distribution,
+        odd.result.classification.distribution
+      );
+    }
+  }
+
+  // Random responders
+  const randomAssigned = ALL_DESIGNATIONS.map(() => 0);
+  let belowGate = 0;
+  for (let i = 0; i < merged.randomSessions; i++) {
+    const { result } = classifyResponses(sampleSession(merged.bank, merged.questionsPerGroup, rng), null);
+    randomAssigned[ALL_DESIGNATIONS.indexOf(result.classification.primary.designation)]++;
+    if (distributionConfidence(result.classification.distribution) < merged.entropyGate) {
+      belowGate++;
+    }
+  }
+
+  const top = assigned.indexOf(Math.max(...assigned));
+  const dominant = ALL_DESIGNATIONS[top];
+
+  return {
+    respondents,
+    alpha: emptyRecord(d => cronbachAlpha(itemScores[d])),
+    testRetest: {
+      agreement: respondents > 0 ? agreements / respondents : 0,
+      similarity: respondents > 0 ? retestSimilarity / respondents : 0
+    },
+    splitHalf: respondents > 0 ? splitHalf / respondents : 0,
+    confusion,
+    accuracy: respondents > 0
+      ? ALL_DESIGNATIONS.reduce((sum, d) => sum + confusion[d][d], 0) / respondents
+      : 0,
+    baseRates: toGlyphRates(assigned),
+    dominant: {
+      designation: dominant,
+      glyph: toGlyph(dominant),
+      share: respondents > 0 ? assigned[top] / respondents : 0
+    },
+    random: {
+      belowGate: merged.randomSessions > 0 ? belowGate / merged.randomSessions : 0,
+      baseRates: toGlyphRates(randomAssigned)
+    }
+  };
+}
+
+/**
+ * Thresholds a report fails, as readable messages (empty when it passes)
+ */
+export function getReliabilityFailures(
+  report: ReliabilityReport,
+  thresholds: Partial<ReliabilityThresholds> = {}
+): string[] {
+  const t = { ...RELIABILITY_THRESHOLDS, ...thresholds };
+  const failures: string[] = [];
+
+  const check = (name: string, value: number, limit: number, atMost = false) => {
+    if (atMost ? value > limit : value < limit) {
+      failures.push(`${name} ${value.toFixed(2)} ${atMost ? 'above' : 'below'} ${limit.toFixed(2)}`);
+    }
+  };
+
+  const alphas = Object.values(report.alpha).filter((a): a is number => a !== null);
+  const meanAlpha = alphas.length > 0 ? alphas.reduce((a, b) => a + b, 0) / alphas.length : 0;
+
+  check('Test-retest agreement', report.testRetest.agreement, t.minTestRetestAgreement);
+  check('Test-retest similarity', report.testRetest.similarity, t.minTestRetestSimilarity);
+  check('Split-half similarity', report.splitHalf, t.minSplitHalf);
+  check('Accuracy', report.accuracy, t.minAccuracy);
+  check('Mean alpha', meanAlpha, t.minMeanAlpha);
+  check(`${report.dominant.glyph} share`, report.dominant.share, t.maxGlyphShare, true);
+  check('Random sessions below gate', report.random.belowGate, t.minRandomBelowGate);
+
+  return failures;
+}
+
+/**
+ * Cronbach's alpha for respondent x item scores
+ * Items with no variance are left out; null when fewer than two remain.
+ */
+export function cronbachAlpha(scores: number[][]): number | null {
+  if (scores.length < 2) {
+    return null;
+  }
+
+  const items = scores[0].length;
+  const varying: number[] = [];
+  for (let j = 0; j < items; j++) {
+    if (variance(scores.map(row => row[j])) > 0) {
+      varying.push(j);
+    }
+  }
+
+  const k = varying.length;
+  if (k < 2) {
+    return null;
+  }
+
+  const itemVariance = varying.reduce((sum, j) => sum + variance(scores.map(row => row[j])), 0);
+  const totalVariance = variance(scores.map(row => varying.reduce((sum, j) => sum + row[j], 0)));
+
+  if (totalVariance === 0) {
+    return null;
+  }
+
+  return (k / (k - 1)) * (1 - itemVariance / totalVariance);
+}
+
+/**
+ * Helper: sample one session from each bank group
+ */
+function sampleSession(bank: Question[][], perGroup: number, rng: Rng): Question[] {
+  return bank.flatMap(group => shuffle(group, rng).slice(0, Math.max(1, perGroup)));
+}
+
+/**
+ * Helper: population variance
+ */
+function variance(values: number[]): number {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+}
+
+/**
+ * Helper: cosine similarity of two distributions
+ */
+function cosineSimilarity(
+  a: Record<Designation, number>,
+  b: Record<Designation, number>
+): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (const d of ALL_DESIGNATIONS) {
+    dot += (a[d] || 0) * (b[d] || 0);
+    normA += (a[d] || 0) ** 2;
+    normB += (b[d] || 0) ** 2;
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Helper: 1 - normalised entropy of a distribution
+ */
+function distributionConfidence(distribution: Record<Designation, number>): number {
+  let entropy = 0;
+  for (const p of Object.values(distribution)) {
+    if (p > 0) entropy -= p * Math.log(p);
+  }
+  return 1 - entropy / Math.log(ALL_DESIGNATIONS.length);
+}
+
+/**
+ * Helper: Glyph shares from counts indexed like ALL_DESIGNATIONS
+ */
+function toGlyphRates(counts: number[]): Record<Glyph, number> {
+  const total = counts.reduce((a, b) => a + b, 0);
+  const rates = {} as Record<Glyph, number>;
+  ALL_DESIGNATIONS.forEach((d, i) => {
+    rates[toGlyph(d)] = total > 0 ? counts[i] / total : 0;
+  });
+  return rates;
+}
+
+/**
+ * Helper: record keyed by every designation
+ */
+function emptyRecord<T>(init: (d: Designation) => T): Record<Designation, T> {
+  const record = {} as Record<Designation, T>;
+  for (const d of ALL_DESIGNATIONS) {
+    record[d] = init(d);
+  }
+  return record;
+}
+
+/**
+ * Helper: designation x designation zero matrix
+ */
+function emptyMatrix(): Record<Designation, Record<Designation, number>> {
+  return emptyRecord(() => emptyRecord(() => 0));
+}
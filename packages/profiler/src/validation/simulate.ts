@@ -0,0 +1,172 @@
+/**
+ * @subtaste/profiler - Simulated Respondents
+ *
+ * Seeded synthetic respondents for reliability checks. A respondent of a
+ * given designation picks the answer that designation weights highest,
+ * with a configurable chance of answering at random instead.
+ */
+
+import type { Designation, Signal } from '@subtaste/core';
+import {
+  responseToSignal,
+  type Question,
+  type BinaryQuestion,
+  type LikertQuestion,
+  type RankingQuestion,
+  type ComparisonQuestion,
+  type MaxDiffQuestion,
+  type StimulusQuestion,
+  type QuestionResponse
+} from '../questions';
+
+/**
+ * Random number source returning 0-1
+ */
+export type Rng = () => number;
+
+/**
+ * Create a seeded random number generator (mulberry32)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed;
+
+  return () => {
+    let t = state += 0x6D2B79F5;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle a copy of an array
+ */
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Answer a designation would give to a question
+ */
+export function idealResponse(
+  question: Question,
+  designation: Designation
+): QuestionResponse['response'] {
+  switch (question.type) {
+    case 'binary': {
+      const binary = question as BinaryQuestion;
+      const [a, b] = binary.optionWeights.map(weights => weights[designation] ?? 0);
+      return b > a ? 1 : 0;
+    }
+
+    case 'likert': {
+      const likert = question as LikertQuestion;
+      const weight = likert.archetypeWeights[designation] ?? 0;
+      if (weight > 0) return likert.scale;
+      if (weight < 0) return 1;
+      return ((likert.scale + 1) / 2) as QuestionResponse['response'];
+    }
+
+    case 'comparison': {
+      const comparison = question as ComparisonQuestion;
+      const weight = (i: number) => comparison.itemWeights[i][designation] ?? 0;
+      return comparison.pairs.map(([a, b]) => (weight(b) > weight(a) ? b : a));
+    }
+
+    case 'maxdiff': {
+      const maxdiff = question as MaxDiffQuestion;
+      return maxdiff.sets.map(set => {
+        const sorted = [...set].sort((a, b) =>
+          (maxdiff.itemWeights[b][designation] ?? 0) - (maxdiff.itemWeights[a][designation] ?? 0) || a - b
+        );
+        return [sorted[0], sorted[sorted.length - 1]] as [number, number];
+      });
+    }
+
+    case 'stimulus': {
+      const weights = (question as StimulusQuestion).stimuli.map(st => st.archetypeWeights[designation] ?? 0);
+      return weights.indexOf(Math.max(...weights));
+    }
+
+    default: {
+      const ranking = question as RankingQuestion;
+      return ranking.itemWeights
+        .map((weights, index) => ({ index, weight: weights[designation] ?? 0 }))
+        .sort((a, b) => b.weight - a.weight || a.index - b.index)
+        .map(entry => entry.index);
+    }
+  }
+}
+
+/**
+ * Uniformly random answer to a question
+ */
+export function randomResponse(question: Question, rng: Rng): QuestionResponse['response'] {
+  switch (question.type) {
+    case 'binary':
+      return rng() < 0.5 ? 0 : 1;
+
+    case 'likert':
+      return (1 + Math.floor(rng() * (question as LikertQuestion).scale)) as QuestionResponse['response'];
+
+    case 'comparison':
+      return (question as ComparisonQuestion).pairs.map(pair => pair[rng() < 0.5 ? 0 : 1]);
+
+    case 'maxdiff':
+      return (question as MaxDiffQuestion).sets.map(set => {
+        const [best, worst] = shuffle(set, rng);
+        return [best, worst] as [number, number];
+      });
+
+    case 'stimulus':
+      return Math.floor(rng() * (question as StimulusQuestion).stimuli.length);
+
+    default:
+      return shuffle((question as RankingQuestion).items.map((_, i) => i), rng);
+  }
+}
+
+/**
+ * Simulate one respondent answering a set of questions
+ * With probability `noise` an answer is replaced (binary answers flip).
+ * Pass null as the designation for a respondent who answers at random.
+ */
+export function simulateResponses(
+  questions: Question[],
+  designation: Designation | null,
+  rng: Rng,
+  noise = 0
+): QuestionResponse[] {
+  return questions.map(question => {
+    let response = designation === null
+      ? randomResponse(question, rng)
+      : idealResponse(question, designation);
+
+    if (designation !== null && rng() < noise) {
+      response = question.type === 'binary'
+        ? (response === 0 ? 1 : 0)
+        : randomResponse(question, rng);
+    }
+
+    return { questionId: question.id, response, timestamp: new Date() };
+  });
+}
+
+/**
+ * Convert simulated responses to signals against a specific bank
+ */
+export function simulatedSignals(
+  questions: Question[],
+  responses: QuestionResponse[]
+): Signal[] {
+  const byId = new Map(questions.map(q => [q.id, q]));
+
+  return responses
+    .map(r => responseToSignal(r, 'quiz', byId.get(r.questionId)))
+    .filter((s): s is Signal => s !== null);
+}
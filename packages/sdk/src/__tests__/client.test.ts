@@ -0,0 +1,382 @@
+/**
+ * @subtaste/sdk - API Client Contract Tests
+ *
+ * The client runs against a local mock of the v2 routes.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  createClient,
+  type SubtasteClient
+} from '../client';
+import {
+  SubtasteError,
+  SubtasteApiError,
+  SubtasteValidationError,
+  SubtasteNotFoundError,
+  SubtasteServerError,
+  SubtasteTimeoutError,
+  SubtasteNetworkError,
+  SubtasteResponseError
+} from '../errors';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+// `rawBody` replaces the JSON body; `stall` sends the headers and part of the body, then stops
+type Handler = (req: RecordedRequest) => { status?: number; body: unknown; delayMs?: number; rawBody?: string; stall?: boolean };
+
+const publicGenome = {
+  id: 'genome-1',
+  userId: 'user-1',
+  version: 2,
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-02T00:00:00.000Z',
+  archetype: {
+    primary: { designation: 'V-2', glyph: 'OMEN', sigil: null, confidence: 0.6 },
+    secondary: { designation: 'L-3', glyph: 'SILT', sigil: null, confidence: 0.2 },
+    distribution: { 'V-2': 0.6, 'L-3': 0.2 }
+  },
+  formal: { primarySigil: null, secondarySigil: null, revealed: false },
+  confidence: 0.6,
+  tasteTypicality: 0.5,
+  status: 'established'
+};
+
+let server: Server;
+let baseUrl: string;
+let routes: Record<string, Handler>;
+let requests: RecordedRequest[];
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks).toString();
+
+  const recorded: RecordedRequest = {
+    method: req.method || 'GET',
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams),
+    headers: req.headers,
+    body: raw ? JSON.parse(raw) : undefined
+  };
+  requests.push(recorded);
+
+  const handler = routes[`${recorded.method} ${recorded.path}`];
+  const { status = 200, body, delayMs = 0, rawBody, stall } = handler
+    ? handler(recorded)
+    : { status: 404, body: { error: 'Not found' } };
+
+  setTimeout(() => {
+    if (res.destroyed) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    const text = rawBody ?? JSON.stringify(body);
+    if (stall) {
+      res.write(text.slice(0, 10));
+    } else {
+      res.end(text);
+    }
+  }, delayMs);
+}
+
+function client(overrides: Partial<Parameters<typeof createClient>[0]> = {}): SubtasteClient {
+  return createClient({ baseUrl, timeout: 500, retryDelay: 5, ...overrides });
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => void handle(req, res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  routes = {};
+  requests = [];
+});
+
+describe('SubtasteClient', () => {
+  describe('v2 routes', () => {
+    it('should read genomes from the v2 genome routes', async () => {
+      routes['GET /api/v2/genome/user-1'] = () => ({ body: { ...publicGenome, _engine: {} } });
+      routes['GET /api/v2/genome/user-1/public'] = () => ({ body: publicGenome });
+
+      const api = client();
+      await api.getGenome('user-1', { migrate: true });
+      const genome = await api.getPublicGenome('user-1');
+
+      expect(requests[0].query).toEqual({ migrate: 'true' });
+      expect(genome.archetype.primary.designation).toBe('V-2');
+    });
+
+    it('should derive the public profile from the public genome', async () => {
+      routes['GET /api/v2/genome/user-1/public'] = () => ({ body: publicGenome });
+
+      const profile = await client().getPublicProfile('user-1');
+
+      expect(profile.glyph).toBe('OMEN');
+      expect(profile.creativeMode).toBeTruthy();
+      expect(profile.secondary).toEqual({ glyph: 'SILT', confidence: 0.2 });
+    });
+
+    it('should reveal the sigil with a POST', async () => {
+      routes['POST /api/v2/genome/user-1/sigil'] = () => ({
+        body: { success: true, sigil: 'Voxis', genome: publicGenome }
+      });
+
+      const result = await client().revealSigil('user-1');
+
+      expect(result.sigil).toBe('Voxis');
+    });
+
+    it('should fetch quiz questions with stage and count', async () => {
+      routes['GET /api/v2/quiz/questions'] = req => ({
+        body: { stage: req.query.stage, count: 4, totalAvailable: 9, questions: [] }
+      });
+
+      const result = await client().getQuizQuestions('music', 4);
+
+      expect(requests[0].query).toEqual({ stage: 'music', count: '4' });
+      expect(result.stage).toBe('music');
+    });
+
+    it('should submit quizzes and read progress from /api/v2/quiz', async () => {
+      routes['POST /api/v2/quiz'] = () => ({
+        body: { success: true, userId: 'user-1', genome: publicGenome, glyph: 'OMEN', validityFlags: [] }
+      });
+      routes['GET /api/v2/quiz'] = () => ({
+        body: { hasStarted: true, currentStage: null, stagesCompleted: ['initial'], signalCount: 3 }
+      });
+
+      const api = client();
+      const submission = { userId: 'user-1', responses: [{ questionId: 'init-1-approach', response: 0 }] };
+      const result = await api.submitQuiz(submission);
+      const progress = await api.getQuizProgress('user-1');
+
+      expect(requests[0].body).toEqual(submission);
+      expect(result.glyph).toBe('OMEN');
+      expect(requests[1].query).toEqual({ userId: 'user-1' });
+      expect(progress.stagesCompleted).toEqual(['initial']);
+    });
+
+    it('should post signals in the server\'s shape', async () => {
+      routes['POST /api/v2/signals/user-1'] = req => ({
+        body: { success: true, signalsProcessed: (req.body as { signals: unknown[] }).signals.length, genome: publicGenome }
+      });
+      routes['GET /api/v2/signals/user-1'] = () => ({
+        body: { userId: 'user-1', hasGenome: true, version: 2, confidence: 0.6 }
+      });
+
+      const api = client();
+      const result = await api.submitSignals('user-1', {
+        signals: [{ type: 'intentional_implicit', itemId: 'track-1', kind: 'save', context: 'Curating' }]
+      });
+      const stats = await api.getSignalStats('user-1');
+
+      expect(result.signalsProcessed).toBe(1);
+      expect(stats.hasGenome).toBe(true);
+    });
+
+    it('should call the Refyn context and affinity routes', async () => {
+      routes['GET /api/v2/refyn/user-1'] = () => ({
+        body: { context: {}, systemPrompt: 'prompt', glyph: 'OMEN', creativeMode: 'Prophetic' }
+      });
+      routes['POST /api/v2/refyn/user-1'] = req => ({
+        body: { userId: 'user-1', glyph: 'OMEN', affinity: { score: 0.7, reasoning: JSON.stringify(req.body) } }
+      });
+
+      const api = client();
+      const context = await api.getRefynContext('user-1');
+      const affinity = await api.assessContentAffinity('user-1', { isExperimental: true });
+
+      expect(context.systemPrompt).toBe('prompt');
+      expect(requests[1].body).toEqual({ contentAttributes: { isExperimental: true } });
+      expect(affinity.affinity.score).toBe(0.7);
+    });
+
+    it('should encode context labels and read contexts', async () => {
+      routes['GET /api/v2/contexts'] = () => ({
+        body: { contexts: [{ label: 'Creating', description: 'Making things', standard: true }] }
+      });
+      routes['GET /api/v2/genome/user-1/contexts/DJ%20set%20prep'] = () => ({
+        body: { context: 'DJ set prep', active: true }
+      });
+
+      const api = client();
+      const contexts = await api.listContexts();
+      const profile = await api.getContextualProfile('user-1', 'DJ set prep');
+
+      expect(contexts[0].label).toBe('Creating');
+      expect(profile.context).toBe('DJ set prep');
+    });
+
+    it('should read history, drift and reassessment routes', async () => {
+      routes['GET /api/v2/genome/user-1/history'] = () => ({ body: { versions: [{ version: 2 }] } });
+      routes['GET /api/v2/genome/user-1/drift'] = () => ({ body: { detected: false, changePoints: [] } });
+      routes['GET /api/v2/profiling/user-1/reassessment'] = () => ({ body: { due: false, questions: [] } });
+
+      const api = client();
+
+      expect((await api.getGenomeHistory('user-1'))[0].version).toBe(2);
+      expect((await api.getDrift('user-1')).detected).toBe(false);
+      expect((await api.getReassessmentPlan('user-1')).due).toBe(false);
+    });
+
+    it('should send the API key as a bearer token', async () => {
+      routes['GET /api/v2/genome/user-1/public'] = () => ({ body: publicGenome });
+
+      await client({ apiKey: 'key-123' }).getPublicGenome('user-1');
+
+      expect(requests[0].headers.authorization).toBe('Bearer key-123');
+    });
+  });
+
+  describe('errors', () => {
+    it('should map statuses to error classes', async () => {
+      routes['POST /api/v2/quiz'] = () => ({
+        status: 400,
+        body: { error: 'Invalid response format', details: [{ field: 'responses[0].questionId', questionId: 'x', error: 'Unknown questionId' }] }
+      });
+
+      const api = client({ retries: 0 });
+      const invalid = await api.submitQuiz({ responses: [] }).catch(e => e);
+      const missing = await api.getPublicGenome('nobody').catch(e => e);
+
+      expect(invalid).toBeInstanceOf(SubtasteValidationError);
+      expect(invalid).toBeInstanceOf(SubtasteApiError);
+      expect(invalid).toBeInstanceOf(SubtasteError);
+      expect(invalid.message).toBe('Invalid response format');
+      expect(invalid.issues).toEqual([{ field: 'responses[0].questionId', questionId: 'x', error: 'Unknown questionId' }]);
+      expect(missing).toBeInstanceOf(SubtasteNotFoundError);
+      expect(missing.status).toBe(404);
+    });
+
+    it('should keep the body of quality-check rejections', async () => {
+      routes['POST /api/v2/quiz'] = () => ({
+        status: 422,
+        body: { error: 'Responses failed quality checks', validityScore: 0.25, validityFlags: [] }
+      });
+
+      const error = await client().submitQuiz({ responses: [] }).catch(e => e);
+
+      expect(error).toBeInstanceOf(SubtasteValidationError);
+      expect(error.body.validityScore).toBe(0.25);
+      expect(error.issues).toEqual([]);
+    });
+
+    it('should report a missing profile only for 404', async () => {
+      routes['GET /api/v2/genome/user-2/public'] = () => ({ status: 500, body: { error: 'Failed to fetch genome' } });
+
+      const api = client({ retries: 0 });
+
+      expect(await api.hasProfile('nobody')).toBe(false);
+      await expect(api.hasProfile('user-2')).rejects.toBeInstanceOf(SubtasteServerError);
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      routes['GET /api/v2/genome/user-1/public'] = () => ({ body: publicGenome, delayMs: 300 });
+
+      const error = await client({ timeout: 50, retries: 0 }).getPublicGenome('user-1').catch(e => e);
+
+      expect(error).toBeInstanceOf(SubtasteTimeoutError);
+      expect(error.timeoutMs).toBe(50);
+    });
+
+    it('should time out a body that stops arriving', async () => {
+      routes['GET /api/v2/genome/user-1/public'] = () => ({ body: publicGenome, stall: true });
+
+      const error = await client({ timeout: 50, retries: 0 }).getPublicGenome('user-1').catch(e => e);
+
+      expect(error).toBeInstanceOf(SubtasteTimeoutError);
+    });
+
+    it('should report a success body that is not JSON', async () => {
+      routes['GET /api/v2/genome/user-1/public'] = () => ({ body: null, rawBody: '<html>Bad gateway' });
+
+      const error = await client({ retries: 0 }).getPublicGenome('user-1').catch(e => e);
+
+      expect(error).toBeInstanceOf(SubtasteResponseError);
+      expect(error.status).toBe(200);
+      expect(error.retryable).toBe(true);
+      expect(error.cause).toBeInstanceOf(SyntaxError);
+    });
+
+    it('should report unreachable servers as network errors', async () => {
+      const error = await client({ baseUrl: 'http://127.0.0.1:1', retries: 0 })
+        .getPublicGenome('user-1')
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(SubtasteNetworkError);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry idempotent calls on server errors', async () => {
+      let calls = 0;
+      routes['GET /api/v2/genome/user-1/public'] = () => (
+        ++calls < 3 ? { status: 503, body: { error: 'Unavailable' } } : { body: publicGenome }
+      );
+
+      const genome = await client({ retries: 2 }).getPublicGenome('user-1');
+
+      expect(genome.id).toBe('genome-1');
+      expect(requests.length).toBe(3);
+    });
+
+    it('should retry after a timeout', async () => {
+      let calls = 0;
+      routes['GET /api/v2/genome/user-1/public'] = () => ({ body: publicGenome, delayMs: ++calls === 1 ? 300 : 0 });
+
+      const genome = await client({ timeout: 50 }).getPublicGenome('user-1');
+
+      expect(genome.id).toBe('genome-1');
+      expect(requests.length).toBe(2);
+    });
+
+    it('should give up after the configured retries', async () => {
+      routes['GET /api/v2/genome/user-1/public'] = () => ({ status: 500, body: { error: 'Failed to fetch genome' } });
+
+      await expect(client({ retries: 1 }).getPublicGenome('user-1')).rejects.toBeInstanceOf(SubtasteServerError);
+      expect(requests.length).toBe(2);
+    });
+
+    it('should not retry client errors', async () => {
+      await expect(client().getPublicGenome('nobody')).rejects.toBeInstanceOf(SubtasteNotFoundError);
+      expect(requests.length).toBe(1);
+    });
+
+    it('should not retry quiz submissions', async () => {
+      routes['POST /api/v2/quiz'] = () => ({ status: 500, body: { error: 'Failed to process quiz' } });
+
+      await expect(client().submitQuiz({ responses: [] })).rejects.toBeInstanceOf(SubtasteServerError);
+      expect(requests.length).toBe(1);
+    });
+
+    it('should retry signal batches only when every signal has an idempotency key', async () => {
+      routes['POST /api/v2/signals/user-1'] = () => ({ status: 500, body: { error: 'Failed to process signals' } });
+
+      const api = client({ retries: 2 });
+      const signal = { type: 'explicit' as const, itemId: 'track-1', kind: 'rating' as const, value: 5 };
+
+      await expect(api.submitSignals('user-1', { signals: [signal] })).rejects.toBeInstanceOf(SubtasteServerError);
+      expect(requests.length).toBe(1);
+
+      await expect(api.submitSignals('user-1', {
+        signals: [{ ...signal, idempotencyKey: 'rating-track-1' }]
+      })).rejects.toBeInstanceOf(SubtasteServerError);
+      expect(requests.length).toBe(4);
+    });
+  });
+});
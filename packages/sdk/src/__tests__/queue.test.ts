@@ -0,0 +1,295 @@
+/**
+ * @subtaste/sdk - Signal Queue Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { SignalInput, SignalResult, SignalSubmission } from '../client';
+import {
+  SubtasteServerError,
+  SubtasteValidationError,
+  SubtasteQueueFullError
+} from '../errors';
+import {
+  SignalQueue,
+  createMemorySignalQueueStore,
+  createWebStorageSignalQueueStore,
+  createFileSignalQueueStore,
+  type QueuedSignal
+} from '../queue';
+
+const result: SignalResult = { success: true, signalsProcessed: 0, genome: null };
+
+function fakeClient(fail: (batch: number) => Error | null = () => null) {
+  const batches: QueuedSignal[][] = [];
+  const client = {
+    submitSignals: vi.fn(async (_userId: string, submission: SignalSubmission) => {
+      const error = fail(client.submitSignals.mock.calls.length);
+      if (error) throw error;
+      batches.push(submission.signals as QueuedSignal[]);
+      return { ...result, signalsProcessed: submission.signals.length };
+    })
+  };
+  return { client, batches };
+}
+
+function signals(count: number, from = 0): SignalInput[] {
+  return Array.from({ length: count }, (_, i) => ({
+    type: 'unintentional_implicit' as const,
+    itemId: `track-${from + i}`,
+    kind: 'dwell' as const,
+    value: 30000
+  }));
+}
+
+const itemIds = (batch: QueuedSignal[]) => batch.map(s => s.itemId);
+
+describe('Signal Queue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send full batches in enqueue order', async () => {
+    const { client, batches } = fakeClient();
+    const queue = new SignalQueue({ client, userId: 'user-1', batchSize: 2, flushInterval: 60000 });
+
+    await queue.enqueue(signals(5));
+    await queue.flush();
+
+    expect(batches.map(itemIds)).toEqual([
+      ['track-0', 'track-1'],
+      ['track-2', 'track-3'],
+      ['track-4']
+    ]);
+    expect(queue.getState()).toMatchObject({ pending: 0, sent: 5, dropped: 0 });
+    await queue.close();
+  });
+
+  it('should stamp every signal with a unique idempotency key and timestamp', async () => {
+    const { client } = fakeClient();
+    const queue = new SignalQueue({ client, userId: 'user-1', flushInterval: 60000 });
+
+    const queued = await queue.enqueue([...signals(3), { ...signals(1, 3)[0], idempotencyKey: 'mine' }]);
+
+    expect(new Set(queued.map(s => s.idempotencyKey)).size).toBe(4);
+    expect(queued[3].idempotencyKey).toBe('mine');
+    expect(queued.every(s => !isNaN(Date.parse(s.timestamp)))).toBe(true);
+    queue.pause();
+    await queue.close();
+  });
+
+  it('should flush after the interval', async () => {
+    vi.useFakeTimers();
+    const { client, batches } = fakeClient();
+    const queue = new SignalQueue({ client, userId: 'user-1', batchSize: 10, flushInterval: 1000 });
+
+    await queue.enqueue(signals(3));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(batches).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(batches.map(itemIds)).toEqual([['track-0', 'track-1', 'track-2']]);
+    await queue.close();
+  });
+
+  it('should flush as soon as a batch is full', async () => {
+    const { client, batches } = fakeClient();
+    const queue = new SignalQueue({ client, userId: 'user-1', batchSize: 3, flushInterval: 60000 });
+
+    await queue.enqueue(signals(3));
+    await vi.waitFor(() => expect(batches).toHaveLength(1));
+    await queue.close();
+  });
+
+  it('should keep a failed batch at the head and retry it with the same keys', async () => {
+    vi.useFakeTimers();
+    const { client, batches } = fakeClient(call => (call === 1 ? new SubtasteServerError(503, { error: 'Unavailable' }) : null));
+    const onError = vi.fn();
+    const queue = new SignalQueue({ client, userId: 'user-1', batchSize: 2, flushInterval: 60000, retryDelay: 500, onError });
+
+    const queued = await queue.enqueue(signals(2));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getState()).toMatchObject({ pending: 2, sent: 0 });
+    expect(queue.getState().lastError).toBeInstanceOf(SubtasteServerError);
+    expect(onError).toHaveBeenCalledWith(expect.any(SubtasteServerError), []);
+
+    // Signals added meanwhile wait behind the failed batch
+    await queue.enqueue(signals(2, 2));
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(batches.map(itemIds)).toEqual([['track-0', 'track-1'], ['track-2', 'track-3']]);
+    expect(batches[0].map(s => s.idempotencyKey)).toEqual(queued.map(s => s.idempotencyKey));
+    expect(queue.getState()).toMatchObject({ pending: 0, sent: 4, lastError: null });
+    await queue.close();
+  });
+
+  it('should drop a batch the API rejects as invalid and carry on', async () => {
+    const { client, batches } = fakeClient(call => (call === 1 ? new SubtasteValidationError(400, { error: 'Invalid request body' }) : null));
+    const onError = vi.fn();
+    const queue = new SignalQueue({ client, userId: 'user-1', batchSize: 2, flushInterval: 60000, onError });
+
+    queue.pause();
+    await queue.enqueue(signals(3));
+    queue.resume();
+    await queue.flush();
+
+    expect(batches.map(itemIds)).toEqual([['track-2']]);
+    expect(queue.getState()).toMatchObject({ pending: 0, sent: 1, dropped: 2 });
+    expect(itemIds(onError.mock.calls[0][1])).toEqual(['track-0', 'track-1']);
+    await queue.close();
+  });
+
+  it('should keep sending when the callbacks throw', async () => {
+    const { client, batches } = fakeClient();
+    const onFlush = vi.fn(() => { throw new Error('onFlush failed'); });
+    const onError = vi.fn(() => { throw new Error('onError failed'); });
+    const queue = new SignalQueue({ client, userId: 'user-1', batchSize: 2, flushInterval: 60000, onFlush, onError });
+
+    // A full batch flushes from schedule(), outside any caller's await
+    await queue.enqueue(signals(2));
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+    await queue.enqueue(signals(1, 2));
+    await expect(queue.flush()).resolves.toBeUndefined();
+
+    expect(batches.map(itemIds)).toEqual([['track-0', 'track-1'], ['track-2']]);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'onFlush failed' }), []);
+    expect(queue.getState()).toMatchObject({ pending: 0, sent: 3 });
+    await queue.close();
+  });
+
+  it('should hold signals while paused', async () => {
+    const { client, batches } = fakeClient();
+    const queue = new SignalQueue({ client, userId: 'user-1', batchSize: 2 });
+
+    queue.pause();
+    await queue.enqueue(signals(4));
+    await queue.flush();
+    expect(batches).toHaveLength(0);
+    expect(queue.getState()).toMatchObject({ pending: 4, paused: true });
+
+    queue.resume();
+    await vi.waitFor(() => expect(queue.getState().pending).toBe(0));
+    expect(batches).toHaveLength(2);
+    await queue.close();
+  });
+
+  it('should reject signals when full', async () => {
+    const { client } = fakeClient();
+    const queue = new SignalQueue({ client, userId: 'user-1', batchSize: 2, maxSize: 3 });
+
+    queue.pause();
+    await queue.enqueue(signals(3));
+
+    expect(queue.getState().full).toBe(true);
+    await expect(queue.enqueue(signals(1, 3))).rejects.toBeInstanceOf(SubtasteQueueFullError);
+    expect(queue.getState().pending).toBe(3);
+    await queue.close();
+  });
+
+  it('should drop the oldest signals when set to', async () => {
+    const { client, batches } = fakeClient();
+    const onError = vi.fn();
+    const queue = new SignalQueue({ client, userId: 'user-1', batchSize: 3, maxSize: 3, overflow: 'drop-oldest', onError });
+
+    queue.pause();
+    await queue.enqueue(signals(3));
+    await queue.enqueue(signals(2, 3));
+    queue.resume();
+    await queue.flush();
+
+    expect(batches.map(itemIds)).toEqual([['track-2', 'track-3', 'track-4']]);
+    expect(queue.getState().dropped).toBe(2);
+    expect(onError).toHaveBeenCalledWith(expect.any(SubtasteQueueFullError), expect.any(Array));
+    await queue.close();
+  });
+
+  it('should resume signals persisted by an earlier session', async () => {
+    const store = createMemorySignalQueueStore();
+    const first = fakeClient(() => new SubtasteServerError(500, { error: 'Down' }));
+    const offline = new SignalQueue({ client: first.client, userId: 'user-1', store, batchSize: 2, retryDelay: 60000 });
+
+    await offline.enqueue(signals(2));
+    await offline.flush();
+    offline.pause();
+    await offline.close();
+    expect(await store.load('user-1')).toHaveLength(2);
+
+    const second = fakeClient();
+    const online = new SignalQueue({ client: second.client, userId: 'user-1', store, batchSize: 2 });
+    await online.ready;
+    await online.flush();
+
+    expect(second.batches.map(itemIds)).toEqual([['track-0', 'track-1']]);
+    await online.settled();
+    expect(await store.load('user-1')).toEqual([]);
+    await online.close();
+  });
+
+  it('should load only after the previous queue has closed', async () => {
+    const store = createMemorySignalQueueStore();
+    let release = () => {};
+    const slow = {
+      submitSignals: vi.fn(async (_userId: string, submission: SignalSubmission) => {
+        await new Promise<void>(resolve => { release = resolve; });
+        return { ...result, signalsProcessed: submission.signals.length };
+      })
+    };
+    const previous = new SignalQueue({ client: slow, userId: 'user-1', store, flushInterval: 60000 });
+    await previous.enqueue(signals(2));
+    const closing = previous.close();
+    await vi.waitFor(() => expect(slow.submitSignals).toHaveBeenCalled());
+
+    const next = fakeClient();
+    const queue = new SignalQueue({ client: next.client, userId: 'user-1', store, flushInterval: 60000, after: closing });
+    const added = queue.enqueue(signals(1, 2));
+    release();
+    await added;
+    await queue.settled();
+
+    // The previous queue's final save lands first and its signals are not resent
+    expect((await store.load('user-1')).map(s => s.itemId)).toEqual(['track-2']);
+    await queue.close();
+    expect(next.batches.map(itemIds)).toEqual([['track-2']]);
+  });
+});
+
+describe('Signal Queue Stores', () => {
+  const queued: QueuedSignal[] = [
+    { type: 'explicit', itemId: 'track-1', kind: 'rating', value: 5, idempotencyKey: 'k1', timestamp: '2026-10-01T00:00:00.000Z' }
+  ];
+
+  it('should keep queues per user in Web Storage', async () => {
+    const items = new Map<string, string>();
+    const store = createWebStorageSignalQueueStore({
+      getItem: key => items.get(key) ?? null,
+      setItem: (key, value) => items.set(key, value),
+      removeItem: key => items.delete(key)
+    });
+
+    await store.save('user-1', queued);
+    expect(await store.load('user-1')).toEqual(queued);
+    expect(await store.load('user-2')).toEqual([]);
+    expect([...items.keys()]).toEqual(['subtaste:signals:user-1']);
+
+    await store.save('user-1', []);
+    expect(items.size).toBe(0);
+  });
+
+  it('should keep queues per user in files', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'subtaste-queue-'));
+    try {
+      const store = createFileSignalQueueStore(join(directory, 'signals'));
+
+      expect(await store.load('user/1')).toEqual([]);
+      await store.save('user/1', queued);
+      expect(await store.load('user/1')).toEqual(queued);
+
+      await store.delete('user/1');
+      expect(await store.load('user/1')).toEqual([]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
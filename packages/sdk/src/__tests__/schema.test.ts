@@ -0,0 +1,212 @@
+/**
+ * @subtaste/sdk - API Contract Tests
+ *
+ * Validator behaviour, and the OpenAPI document against the app's routes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import {
+  validate,
+  validateQuery,
+  buildOpenApiDocument,
+  API_OPERATIONS,
+  SignalSubmissionSchema,
+  QuizQuestionsQuerySchema,
+  DiffQuerySchema,
+  DistributionSchema,
+  QuizSubmissionSchema,
+  ProfilingSessionSchema
+} from '../schema';
+
+const ROUTES_DIR = resolve(__dirname, '../../../../src/app/api/v2');
+
+function findRoutes(dir: string): string[] {
+  return readdirSync(dir).flatMap(entry => {
+    const path = join(dir, entry);
+    if (statSync(path).isDirectory()) return findRoutes(path);
+    return entry === 'route.ts' ? [path] : [];
+  });
+}
+
+describe('Schema Validation', () => {
+  it('should accept a valid signal batch', () => {
+    const issues = validate(SignalSubmissionSchema, {
+      signals: [
+        { type: 'explicit', itemId: 'track-1', kind: 'rating', value: 5 },
+        { type: 'unintentional_implicit', itemId: 'track-2', kind: 'dwell', value: 42000, context: 'focus' }
+      ]
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should report every issue with its path', () => {
+    const issues = validate(SignalSubmissionSchema, {
+      signals: [
+        { type: 'psychic', itemId: '' },
+        { itemId: 'track-2', timestamp: 'yesterday' }
+      ]
+    });
+
+    expect(issues).toEqual([
+      { field: 'signals[0].type', error: 'must be one of: explicit, intentional_implicit, unintentional_implicit' },
+      { field: 'signals[0].itemId', error: 'must not be empty' },
+      { field: 'signals[1].type', error: 'is required' },
+      { field: 'signals[1].timestamp', error: 'must be an ISO date' }
+    ]);
+  });
+
+  it('should reject an empty signal batch', () => {
+    expect(validate(SignalSubmissionSchema, { signals: [] })).toEqual([
+      { field: 'signals', error: 'must not be empty' }
+    ]);
+    expect(validate(SignalSubmissionSchema, 'signals')).toEqual([
+      { field: '', error: 'must be of type object' }
+    ]);
+  });
+
+  it('should accept any response shape the union allows', () => {
+    const responses = [2, [3, 0, 1, 2], [[0, 3], [1, 2]]].map((response, i) => ({
+      questionId: `q-${i}`,
+      response
+    }));
+
+    expect(validate(QuizSubmissionSchema, { responses })).toEqual([]);
+    expect(validate(QuizSubmissionSchema, { responses: [{ questionId: 'q-1', response: 'first' }] })).toHaveLength(1);
+  });
+
+  it('should check MaxDiff answers are [best, worst] pairs', () => {
+    const submit = (response: unknown) => validate(QuizSubmissionSchema, { responses: [{ questionId: 'q-1', response }] });
+
+    expect(submit([[0, 3], [1, 2]])).toEqual([]);
+    expect(submit([[0, 3, 1]])).toHaveLength(1);
+    expect(submit([[0, 'worst']])).toHaveLength(1);
+  });
+
+  it('should accept re-assessment submissions', () => {
+    const responses = [{ questionId: 'q-1', response: 0 }];
+
+    expect(validate(QuizSubmissionSchema, { stageId: 'reassessment', responses })).toEqual([]);
+    expect(validate(QuizSubmissionSchema, { stageId: 'visual', responses })).toHaveLength(1);
+  });
+
+  it('should check the profiling snapshot down to the active assessment', () => {
+    const snapshot = {
+      version: 1,
+      userId: 'user-1',
+      savedAt: '2026-10-01T00:00:00.000Z',
+      profiling: {
+        completedStages: ['initial'],
+        currentStage: 'music',
+        interactionCount: 6,
+        lastStageCompletedAt: '2026-09-30T00:00:00.000Z',
+        totalConfidence: 0.3
+      },
+      genome: null,
+      pendingSignals: [],
+      activeAssessment: {
+        kind: 'calibration',
+        type: 'music',
+        questionIds: ['music-01', 'music-02'],
+        currentIndex: 1,
+        responses: [{ questionId: 'music-01', response: 4, timestamp: '2026-10-01T00:00:00.000Z' }],
+        startedAt: '2026-10-01T00:00:00.000Z',
+        completedAt: null
+      },
+      driftHistory: [],
+      lastDriftAt: null,
+      driftConfig: {}
+    };
+
+    expect(validate(ProfilingSessionSchema, { snapshot })).toEqual([]);
+    expect(validate(ProfilingSessionSchema, {
+      snapshot: { ...snapshot, profiling: {}, activeAssessment: { ...snapshot.activeAssessment, kind: 'quiz' } }
+    })).toEqual(expect.arrayContaining([
+      { field: 'snapshot.profiling.completedStages', error: 'is required' },
+      expect.objectContaining({ field: 'snapshot.activeAssessment.kind' })
+    ]));
+  });
+
+  it('should only allow designations as distribution keys', () => {
+    expect(validate(DistributionSchema, { 'S-0': 0.6, 'V-2': 0.4 })).toEqual([]);
+
+    const issues = validate(DistributionSchema, { 'S-0': 0.6, 'Z-9': 0.4 });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].field).toBe('Z-9');
+  });
+
+  it('should convert query strings before validating', () => {
+    const { value, issues } = validateQuery(
+      QuizQuestionsQuerySchema,
+      new URLSearchParams('stage=music&count=5')
+    );
+
+    expect(issues).toEqual([]);
+    expect(value).toEqual({ stage: 'music', count: 5 });
+  });
+
+  it('should report invalid and missing query parameters', () => {
+    expect(validateQuery(QuizQuestionsQuerySchema, new URLSearchParams('count=9')).issues).toEqual([
+      { field: 'stage', error: 'is required' },
+      { field: 'count', error: 'must be at most 6' }
+    ]);
+    expect(validateQuery(DiffQuerySchema, new URLSearchParams('from=two')).issues).toEqual([
+      { field: 'from', error: 'must be of type integer' }
+    ]);
+  });
+});
+
+describe('OpenAPI Document', () => {
+  const document = buildOpenApiDocument() as {
+    openapi: string;
+    paths: Record<string, Record<string, { operationId: string; responses: Record<string, unknown> }>>;
+    components: { schemas: Record<string, unknown> };
+  };
+
+  it('should be OpenAPI 3.1', () => {
+    expect(document.openapi).toBe('3.1.0');
+  });
+
+  it('should document every exported handler under /api/v2', () => {
+    const handlers = findRoutes(ROUTES_DIR).flatMap(file => {
+      const path = '/api/v2/' + relative(ROUTES_DIR, file)
+        .replace(/\/?route\.ts$/, '')
+        .replace(/\[(\w+)\]/g, '{$1}');
+      const source = readFileSync(file, 'utf8');
+      return [...source.matchAll(/export async function (GET|POST|PUT|PATCH|DELETE)\b/g)]
+        .map(match => `${match[1].toLowerCase()} ${path.replace(/\/$/, '')}`);
+    });
+
+    const documented = API_OPERATIONS.map(o => `${o.method} ${o.path}`);
+
+    expect(handlers.length).toBeGreaterThan(0);
+    expect([...handlers].sort()).toEqual([...documented].sort());
+  });
+
+  it('should have unique operation IDs', () => {
+    const ids = API_OPERATIONS.map(o => o.operationId);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should resolve every $ref to a component', () => {
+    const refs = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g) || [];
+
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      expect(document.components.schemas[ref.split('/').pop()!]).toBeDefined();
+    }
+  });
+
+  it('should use the error envelope for error responses', () => {
+    const signals = document.paths['/api/v2/signals/{userId}'].post.responses;
+    const quiz = document.paths['/api/v2/quiz'].post.responses;
+
+    expect(signals['400']).toEqual({
+      description: 'Invalid request',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } }
+    });
+    expect(JSON.stringify(quiz['422'])).toContain('QualityRejection');
+  });
+});
@@ -1,17 +1,51 @@
 /**
  * @subtaste/sdk - API Client
  *
- * Client for interacting with subtaste REST API.
+ * Client for the subtaste v2 REST API.
+ * Requests time out after `timeout` ms; idempotent calls (reads, sigil
+ * reveals and signal batches where every signal has an idempotency key)
+ * are retried with exponential backoff on timeouts, network errors, 429 and 5xx.
  */
 
 import type {
   TasteGenome,
   TasteGenomePublic,
-  Signal,
   Glyph,
-  Sigil,
-  Designation
+  Designation,
+  DriftReport
 } from '@subtaste/core';
+import { getArchetype } from '@subtaste/core';
+import type { FromSchema } from './schema/json-schema';
+import type {
+  PublicQuestionSchema,
+  QuizStageSchema,
+  QuizQuestionsSchema,
+  QuizSubmissionSchema,
+  ValidityFlagSchema,
+  QuizResultSchema,
+  QuizProgressSchema,
+  SignalInputSchema,
+  SignalSubmissionSchema,
+  SignalResultSchema,
+  SignalStatsSchema,
+  SigilRevealSchema,
+  GenomeVersionSchema,
+  ContextInfoSchema,
+  ContextualProfileSchema,
+  ReassessmentPlanSchema,
+  RefynContextSchema,
+  AffinityRequestSchema,
+  AffinityResultSchema
+} from './schema/schemas';
+import {
+  SubtasteError,
+  SubtasteTimeoutError,
+  SubtasteNetworkError,
+  SubtasteResponseError,
+  SubtasteNotFoundError,
+  createApiError,
+  type ApiErrorBody
+} from './errors';
 
 /**
  * Client configuration
@@ -19,11 +53,19 @@ import type {
 export interface SubtasteClientConfig {
   baseUrl: string;
   apiKey?: string;
+
+  // Per-attempt timeout in ms (default 10000)
   timeout?: number;
+
+  // Retries for idempotent calls (default 2)
+  retries?: number;
+
+  // First retry delay in ms, doubled on each retry (default 250)
+  retryDelay?: number;
 }
 
 /**
- * Public profile response
+ * Public profile, derived from the public genome
  */
 export interface PublicProfile {
   glyph: Glyph;
@@ -37,59 +79,59 @@ export interface PublicProfile {
 }
 
 /**
- * Quiz submission input
+ * API types, derived from the schemas the server validates against
  */
-export interface QuizSubmission {
-  userId?: string;
-  sessionId?: string;
-  responses: Array<{
-    questionId: string;
-    response: number | number[];
-  }>;
-}
-
-/**
- * Quiz result response
- */
-export interface QuizResult {
-  success: boolean;
-  userId: string;
-  glyph: Glyph;
-  confidence: number;
-  genome?: TasteGenomePublic;
-}
+export type PublicQuestion = FromSchema<typeof PublicQuestionSchema>;
+export type QuizStage = FromSchema<typeof QuizStageSchema>;
+export type QuizQuestions = FromSchema<typeof QuizQuestionsSchema>;
+export type QuizSubmission = FromSchema<typeof QuizSubmissionSchema>;
+export type ValidityFlag = FromSchema<typeof ValidityFlagSchema>;
+export type QuizResult = FromSchema<typeof QuizResultSchema>;
+export type QuizProgress = FromSchema<typeof QuizProgressSchema>;
+export type SignalInput = FromSchema<typeof SignalInputSchema>;
+export type SignalSubmission = FromSchema<typeof SignalSubmissionSchema>;
+export type SignalResult = FromSchema<typeof SignalResultSchema>;
+export type SignalStats = FromSchema<typeof SignalStatsSchema>;
+export type SigilReveal = FromSchema<typeof SigilRevealSchema>;
+export type GenomeVersion = FromSchema<typeof GenomeVersionSchema>;
+export type ContextInfo = FromSchema<typeof ContextInfoSchema>;
+export type ContextualProfile = FromSchema<typeof ContextualProfileSchema>;
+export type ReassessmentPlan = FromSchema<typeof ReassessmentPlanSchema>;
+export type RefynContextResult = FromSchema<typeof RefynContextSchema>;
+export type ContentAttributes = FromSchema<typeof AffinityRequestSchema>['contentAttributes'];
+export type ContentAffinityResult = FromSchema<typeof AffinityResultSchema>;
 
 /**
- * Signal submission input
+ * Options for a single request
  */
-export interface SignalSubmission {
-  type: 'behaviour' | 'feedback';
-  events: Array<{
-    type: string;
-    itemId: string;
-    timestamp?: string;
-    metadata?: Record<string, unknown>;
-  }>;
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT';
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined>;
+  idempotent?: boolean;
 }
 
 /**
  * Subtaste API client
  */
 export class SubtasteClient {
-  private config: SubtasteClientConfig;
+  private config: Required<Omit<SubtasteClientConfig, 'apiKey'>> & Pick<SubtasteClientConfig, 'apiKey'>;
 
   constructor(config: SubtasteClientConfig) {
     this.config = {
       timeout: 10000,
-      ...config
+      retries: 2,
+      retryDelay: 250,
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, '')
     };
   }
 
   /**
    * Get headers for requests
    */
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json'
     };
 
@@ -101,77 +143,224 @@ export class SubtasteClient {
   }
 
   /**
-   * Make a request
+   * Make a request, retrying idempotent ones
    */
-  private async request<T>(
-    path: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.config.baseUrl}${path}`;
+  private async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method || 'GET';
+    const idempotent = options.idempotent ?? method === 'GET';
+    const attempts = idempotent ? this.config.retries + 1 : 1;
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...this.getHeaders(),
-        ...options.headers
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send<T>(method, this.buildUrl(path, options.query), options.body);
+      } catch (error) {
+        if (!(error instanceof SubtasteError) || !error.retryable || attempt >= attempts) {
+          throw error;
+        }
+        await sleep(this.config.retryDelay * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * Send one attempt, aborting it after the timeout
+   * The timeout covers reading the body as well as the response headers.
+   */
+  private async send<T>(method: string, url: string, body: unknown): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: this.getHeaders(),
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: controller.signal
+        });
+      } catch (error) {
+        throw controller.signal.aborted
+          ? new SubtasteTimeoutError(this.config.timeout)
+          : new SubtasteNetworkError(error);
+      }
+
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => ({})) as ApiErrorBody;
+        throw createApiError(response.status, errorBody);
       }
-    });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      throw new Error(error.message || `Request failed: ${response.status}`);
+      try {
+        return await response.json() as T;
+      } catch (error) {
+        throw controller.signal.aborted
+          ? new SubtasteTimeoutError(this.config.timeout)
+          : new SubtasteResponseError(response.status, error);
+      }
+    } finally {
+      clearTimeout(timer);
     }
+  }
+
+  /**
+   * Helper: absolute URL with query parameters
+   */
+  private buildUrl(path: string, query: RequestOptions['query'] = {}): string {
+    const params = Object.entries(query)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
 
-    return response.json();
+    return `${this.config.baseUrl}${path}${params.length > 0 ? `?${params.join('&')}` : ''}`;
   }
 
   /**
    * Get full genome (server-side only)
+   * With migrate, users without a genome are migrated from their legacy profile.
    */
-  async getGenome(userId: string): Promise<TasteGenome> {
-    return this.request<TasteGenome>(`/api/genome/${userId}`);
+  async getGenome(userId: string, options: { migrate?: boolean } = {}): Promise<TasteGenome> {
+    return this.request<TasteGenome>(`/api/v2/genome/${encodeURIComponent(userId)}`, {
+      query: { migrate: options.migrate || undefined }
+    });
+  }
+
+  /**
+   * Get public genome
+   */
+  async getPublicGenome(userId: string): Promise<TasteGenomePublic> {
+    return this.request<TasteGenomePublic>(`/api/v2/genome/${encodeURIComponent(userId)}/public`);
   }
 
   /**
    * Get public profile (client-safe)
    */
   async getPublicProfile(userId: string): Promise<PublicProfile> {
-    return this.request<PublicProfile>(`/api/profile/${userId}/public`);
+    const genome = await this.getPublicGenome(userId);
+    const { primary, secondary } = genome.archetype;
+    const archetype = getArchetype(primary.designation);
+
+    return {
+      glyph: archetype.glyph,
+      essence: archetype.essence,
+      creativeMode: archetype.creativeMode,
+      confidence: genome.confidence,
+      ...(secondary && {
+        secondary: { glyph: getArchetype(secondary.designation).glyph, confidence: secondary.confidence }
+      })
+    };
   }
 
   /**
-   * Get public genome
+   * Request sigil reveal
    */
-  async getPublicGenome(userId: string): Promise<TasteGenomePublic> {
-    return this.request<TasteGenomePublic>(`/api/profile/${userId}`);
+  async revealSigil(userId: string): Promise<SigilReveal> {
+    return this.request<SigilReveal>(`/api/v2/genome/${encodeURIComponent(userId)}/sigil`, {
+      method: 'POST',
+      idempotent: true
+    });
+  }
+
+  /**
+   * List stored genome versions, newest first (server-side only)
+   */
+  async getGenomeHistory(userId: string): Promise<GenomeVersion[]> {
+    const { versions } = await this.request<{ versions: GenomeVersion[] }>(
+      `/api/v2/genome/${encodeURIComponent(userId)}/history`
+    );
+    return versions;
+  }
+
+  /**
+   * Check the user's signal log for taste drift
+   */
+  async getDrift(userId: string): Promise<DriftReport> {
+    return this.request<DriftReport>(`/api/v2/genome/${encodeURIComponent(userId)}/drift`);
+  }
+
+  /**
+   * List registered contexts
+   */
+  async listContexts(): Promise<ContextInfo[]> {
+    const { contexts } = await this.request<{ contexts: ContextInfo[] }>('/api/v2/contexts');
+    return contexts;
+  }
+
+  /**
+   * Get the user's distribution within a context
+   */
+  async getContextualProfile(userId: string, context: string): Promise<ContextualProfile> {
+    return this.request<ContextualProfile>(
+      `/api/v2/genome/${encodeURIComponent(userId)}/contexts/${encodeURIComponent(context)}`
+    );
+  }
+
+  /**
+   * Get the user's re-assessment plan
+   */
+  async getReassessmentPlan(userId: string): Promise<ReassessmentPlan> {
+    return this.request<ReassessmentPlan>(`/api/v2/profiling/${encodeURIComponent(userId)}/reassessment`);
+  }
+
+  /**
+   * Sample questions from a stage's bank
+   */
+  async getQuizQuestions(stage: QuizStage, count?: number): Promise<QuizQuestions> {
+    return this.request<QuizQuestions>('/api/v2/quiz/questions', { query: { stage, count } });
   }
 
   /**
    * Submit quiz responses
    */
   async submitQuiz(submission: QuizSubmission): Promise<QuizResult> {
-    return this.request<QuizResult>('/api/quiz', {
+    return this.request<QuizResult>('/api/v2/quiz', {
       method: 'POST',
-      body: JSON.stringify(submission)
+      body: submission
     });
   }
 
+  /**
+   * Get profiling progress
+   */
+  async getQuizProgress(userId: string): Promise<QuizProgress> {
+    return this.request<QuizProgress>('/api/v2/quiz', { query: { userId } });
+  }
+
   /**
    * Submit signals
+   * Retried only when every signal carries an idempotency key.
    */
-  async submitSignals(userId: string, submission: SignalSubmission): Promise<void> {
-    await this.request(`/api/signals/${userId}`, {
+  async submitSignals(userId: string, submission: SignalSubmission): Promise<SignalResult> {
+    return this.request<SignalResult>(`/api/v2/signals/${encodeURIComponent(userId)}`, {
       method: 'POST',
-      body: JSON.stringify(submission)
+      body: submission,
+      idempotent: submission.signals.every(s => Boolean(s.idempotencyKey))
     });
   }
 
   /**
-   * Request sigil reveal
+   * Get signal stats
+   */
+  async getSignalStats(userId: string): Promise<SignalStats> {
+    return this.request<SignalStats>(`/api/v2/signals/${encodeURIComponent(userId)}`);
+  }
+
+  /**
+   * Get Refyn taste context and system prompt
    */
-  async revealSigil(userId: string): Promise<{ sigil: Sigil }> {
-    return this.request<{ sigil: Sigil }>(`/api/profile/${userId}/sigil`, {
-      method: 'POST'
+  async getRefynContext(userId: string): Promise<RefynContextResult> {
+    return this.request<RefynContextResult>(`/api/v2/refyn/${encodeURIComponent(userId)}`);
+  }
+
+  /**
+   * Score how well content suits the user
+   */
+  async assessContentAffinity(
+    userId: string,
+    contentAttributes: ContentAttributes
+  ): Promise<ContentAffinityResult> {
+    return this.request<ContentAffinityResult>(`/api/v2/refyn/${encodeURIComponent(userId)}`, {
+      method: 'POST',
+      body: { contentAttributes },
+      idempotent: true
     });
   }
 
@@ -180,10 +369,13 @@ export class SubtasteClient {
    */
   async hasProfile(userId: string): Promise<boolean> {
     try {
-      await this.getPublicProfile(userId);
+      await this.getPublicGenome(userId);
       return true;
-    } catch {
-      return false;
+    } catch (error) {
+      if (error instanceof SubtasteNotFoundError) {
+        return false;
+      }
+      throw error;
     }
   }
 
@@ -202,3 +394,10 @@ export class SubtasteClient {
 export function createClient(config: SubtasteClientConfig): SubtasteClient {
   return new SubtasteClient(config);
 }
+
+/**
+ * Helper: wait before a retry
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
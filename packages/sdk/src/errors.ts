@@ -0,0 +1,167 @@
+/**
+ * @subtaste/sdk - Errors
+ *
+ * Every client failure is a SubtasteError. HTTP failures carry the status
+ * and the server's error body; timeouts and network failures are separate
+ * so callers can tell "the API said no" from "the API was not reached".
+ */
+
+import type { ValidationIssue } from './schema/json-schema';
+
+/**
+ * Error body returned by the v2 routes
+ */
+export interface ApiErrorBody {
+  error?: string;
+  details?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Base class for all SDK errors
+ */
+export class SubtasteError extends Error {
+  // Whether the same call may succeed if retried
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable = false, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SubtasteError';
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * The API answered with a non-2xx status
+ */
+export class SubtasteApiError extends SubtasteError {
+  readonly status: number;
+  readonly body: ApiErrorBody;
+
+  constructor(status: number, body: ApiErrorBody, retryable = false) {
+    super(body.error || `Request failed: ${status}`, retryable);
+    this.name = 'SubtasteApiError';
+    this.status = status;
+    this.body = body;
+  }
+
+  get details(): unknown {
+    return this.body.details;
+  }
+}
+
+/**
+ * 400 or 422: the request was rejected as invalid
+ */
+export class SubtasteValidationError extends SubtasteApiError {
+  constructor(status: number, body: ApiErrorBody) {
+    super(status, body);
+    this.name = 'SubtasteValidationError';
+  }
+
+  // One entry per invalid field, for schema validation failures
+  get issues(): ValidationIssue[] {
+    return Array.isArray(this.body.details) ? this.body.details as ValidationIssue[] : [];
+  }
+}
+
+/**
+ * 401 or 403
+ */
+export class SubtasteAuthError extends SubtasteApiError {
+  constructor(status: number, body: ApiErrorBody) {
+    super(status, body);
+    this.name = 'SubtasteAuthError';
+  }
+}
+
+/**
+ * 404: no genome, user or context
+ */
+export class SubtasteNotFoundError extends SubtasteApiError {
+  constructor(body: ApiErrorBody) {
+    super(404, body);
+    this.name = 'SubtasteNotFoundError';
+  }
+}
+
+/**
+ * 429
+ */
+export class SubtasteRateLimitError extends SubtasteApiError {
+  constructor(body: ApiErrorBody) {
+    super(429, body, true);
+    this.name = 'SubtasteRateLimitError';
+  }
+}
+
+/**
+ * 5xx
+ */
+export class SubtasteServerError extends SubtasteApiError {
+  constructor(status: number, body: ApiErrorBody) {
+    super(status, body, true);
+    this.name = 'SubtasteServerError';
+  }
+}
+
+/**
+ * No response within the client's timeout
+ */
+export class SubtasteTimeoutError extends SubtasteError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`, true);
+    this.name = 'SubtasteTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The request never reached the API (DNS, connection, CORS)
+ */
+export class SubtasteNetworkError extends SubtasteError {
+  constructor(cause: unknown) {
+    super(cause instanceof Error ? cause.message : 'Network request failed', true, { cause });
+    this.name = 'SubtasteNetworkError';
+  }
+}
+
+/**
+ * The API answered with a 2xx status but a body that is not valid JSON
+ */
+export class SubtasteResponseError extends SubtasteError {
+  readonly status: number;
+
+  constructor(status: number, cause: unknown) {
+    super(`Invalid response body (status ${status})`, true, { cause });
+    this.name = 'SubtasteResponseError';
+    this.status = status;
+  }
+}
+
+/**
+ * A signal queue is at capacity and set to reject new signals
+ */
+export class SubtasteQueueFullError extends SubtasteError {
+  readonly maxSize: number;
+
+  constructor(maxSize: number) {
+    super(`Signal queue is full (${maxSize} signals)`, true);
+    this.name = 'SubtasteQueueFullError';
+    this.maxSize = maxSize;
+  }
+}
+
+/**
+ * Map a failed response to its error class
+ */
+export function createApiError(status: number, body: ApiErrorBody): SubtasteApiError {
+  if (status === 400 || status === 422) return new SubtasteValidationError(status, body);
+  if (status === 401 || status === 403) return new SubtasteAuthError(status, body);
+  if (status === 404) return new SubtasteNotFoundError(body);
+  if (status === 429) return new SubtasteRateLimitError(body);
+  if (status >= 500) return new SubtasteServerError(status, body);
+  return new SubtasteApiError(status, body);
+}
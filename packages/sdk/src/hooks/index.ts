@@ -10,5 +10,14 @@ export type {
   UseProfilerState,
   UseProfilerActions,
   UseProfilerReturn,
-  DisplayQuestion
+  DisplayQuestion,
+  DisplayResponse
 } from './useProfiler';
+
+export { useSignalQueue } from './useSignalQueue';
+export type {
+  UseSignalQueueOptions,
+  UseSignalQueueState,
+  UseSignalQueueActions,
+  UseSignalQueueReturn
+} from './useSignalQueue';
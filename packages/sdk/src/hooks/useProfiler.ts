@@ -9,14 +9,67 @@ import type { Glyph } from '@subtaste/core';
 import type { SubtasteClient, QuizResult } from '../client';
 
 /**
- * Question for display
+ * Question for display, by format
+ * Mirrors the question types of @subtaste/profiler.
  */
-export interface DisplayQuestion {
-  id: string;
-  prompt: string;
-  options: [string, string];
-  type: 'binary';
-}
+export type DisplayQuestion =
+  | {
+      id: string;
+      prompt: string;
+      type: 'binary';
+      options: [string, string];
+    }
+  | {
+      id: string;
+      prompt: string;
+      type: 'likert';
+      scale: 5 | 7;
+      lowLabel: string;
+      highLabel: string;
+    }
+  | {
+      id: string;
+      prompt: string;
+      type: 'ranking';
+      items: string[];
+    }
+  | {
+      id: string;
+      prompt: string;
+      type: 'comparison';
+      items: string[];
+      // Item indices shown together; answer with the chosen index per pair
+      pairs: [number, number][];
+    }
+  | {
+      id: string;
+      prompt: string;
+      type: 'maxdiff';
+      items: string[];
+      // Item indices shown together; answer with [best, worst] per set
+      sets: number[][];
+    }
+  | {
+      id: string;
+      prompt: string;
+      type: 'stimulus';
+      // Clips or images to present; answer with the chosen index
+      stimuli: Array<{
+        id: string;
+        label: string;
+        media: 'audio' | 'image';
+        url: string;
+        durationMs?: number;
+      }>;
+    };
+
+/**
+ * Answer to a display question
+ * 0/1 for binary, 1-scale for Likert, item order for ranking,
+ * chosen index per pair for comparison, [best, worst] per set for MaxDiff,
+ * chosen index for stimulus questions.
+ */
+export type DisplayResponse = number | number[] | [number, number][];
 
 /**
  * Profiler hook state
@@ -38,7 +91,8 @@ export interface UseProfilerState {
  */
 export interface UseProfilerActions {
   start: () => void;
-  answer: (response: 0 | 1) => void;
+  // listenMs: time spent on each stimulus, for stimulus questions
+  answer: (response: DisplayResponse, listenMs?: number[]) => void;
   reset: () => void;
 }
 
@@ -78,20 +132,21 @@ const INITIAL_QUESTIONS: DisplayQuestion[] = [
  * @param client - Subtaste API client
  * @param userId - User ID (optional for anonymous profiling)
  * @param onComplete - Callback when profiling completes
+ * @param questions - Questions to ask (defaults to the initial onboarding set)
  */
 export function useProfiler(
   client: SubtasteClient,
   userId?: string,
-  onComplete?: (result: QuizResult) => void
+  onComplete?: (result: QuizResult) => void,
+  questions: DisplayQuestion[] = INITIAL_QUESTIONS
 ): UseProfilerReturn {
   const [isActive, setIsActive] = useState(false);
   const [questionIndex, setQuestionIndex] = useState(0);
-  const [responses, setResponses] = useState<Array<{ questionId: string; response: number }>>([]);
+  const [responses, setResponses] = useState<Array<{ questionId: string; response: DisplayResponse; listenMs?: number[] }>>([]);
   const [result, setResult] = useState<QuizResult | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const [submitting, setSubmitting] = useState(false);
 
-  const questions = INITIAL_QUESTIONS;
   const totalQuestions = questions.length;
   const isComplete = questionIndex >= totalQuestions;
 
@@ -112,12 +167,12 @@ export function useProfiler(
     setError(null);
   }, []);
 
-  const answer = useCallback(async (response: 0 | 1) => {
+  const answer = useCallback(async (response: DisplayResponse, listenMs?: number[]) => {
     if (!isActive || !currentQuestion) return;
 
     const newResponses = [
       ...responses,
-      { questionId: currentQuestion.id, response }
+      { questionId: currentQuestion.id, response, ...(listenMs && { listenMs }) }
     ];
     setResponses(newResponses);
 
@@ -0,0 +1,147 @@
+/**
+ * @subtaste/sdk - React Hook: useSignalQueue
+ *
+ * Hook for recording behavioural signals through an offline-first queue.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { SubtasteClient, SignalInput } from '../client';
+import {
+  SignalQueue,
+  type SignalQueueConfig,
+  type SignalQueueState
+} from '../queue/signal-queue';
+import type { QueuedSignal } from '../queue/store';
+
+/**
+ * Signal queue hook options
+ * Read when the queue is created, i.e. when the client or user changes.
+ */
+export type UseSignalQueueOptions = Omit<SignalQueueConfig, 'client' | 'userId' | 'after'>;
+
+/**
+ * Signal queue hook state
+ */
+export type UseSignalQueueState = SignalQueueState;
+
+/**
+ * Signal queue hook actions
+ */
+export interface UseSignalQueueActions {
+  enqueue: (signal: SignalInput | SignalInput[]) => Promise<QueuedSignal[]>;
+  flush: () => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+}
+
+/**
+ * Signal queue hook return type
+ */
+export type UseSignalQueueReturn = UseSignalQueueState & UseSignalQueueActions;
+
+const IDLE_STATE: SignalQueueState = {
+  pending: 0,
+  sending: false,
+  paused: false,
+  full: false,
+  sent: 0,
+  dropped: 0,
+  lastError: null,
+  lastFlushedAt: null
+};
+
+/**
+ * Browser connectivity events, when running in a browser
+ */
+interface ConnectivityTarget {
+  addEventListener(type: 'online' | 'offline', listener: () => void): void;
+  removeEventListener(type: 'online' | 'offline', listener: () => void): void;
+  navigator?: { onLine?: boolean };
+}
+
+/**
+ * Hook for queueing signals for a user
+ * Sending pauses while the browser is offline and resumes when it
+ * reconnects. Unsent signals are flushed when the component unmounts and
+ * kept in the store if that fails.
+ *
+ * @param client - Subtaste API client
+ * @param userId - User the signals belong to; nothing is queued while null
+ * @param options - Batching, persistence and backpressure settings
+ */
+export function useSignalQueue(
+  client: SubtasteClient,
+  userId: string | null,
+  options: UseSignalQueueOptions = {}
+): UseSignalQueueReturn {
+  const queueRef = useRef<SignalQueue | null>(null);
+  const [state, setState] = useState<SignalQueueState>(IDLE_STATE);
+  const optionsRef = useRef(options);
+  // Close of the queue this hook created last, which may still be saving
+  const closingRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Runs before the effect below, so a new queue gets the latest options
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    // State arrives from the queue once persisted signals are loaded, which
+    // waits for the previous queue's final save so it cannot overwrite ours
+    const created = new SignalQueue({
+      ...optionsRef.current,
+      client,
+      userId,
+      after: closingRef.current
+    });
+    const unsubscribe = created.subscribe(setState);
+    queueRef.current = created;
+
+    const target = typeof (globalThis as Partial<ConnectivityTarget>).addEventListener === 'function'
+      ? globalThis as unknown as ConnectivityTarget
+      : null;
+    const goOffline = () => created.pause();
+    const goOnline = () => created.resume();
+
+    if (target) {
+      if (target.navigator?.onLine === false) created.pause();
+      target.addEventListener('offline', goOffline);
+      target.addEventListener('online', goOnline);
+    }
+
+    return () => {
+      unsubscribe();
+      queueRef.current = null;
+      setState(IDLE_STATE);
+      target?.removeEventListener('offline', goOffline);
+      target?.removeEventListener('online', goOnline);
+      closingRef.current = created.close().catch(() => {
+        // Unsent signals stay in the store
+      });
+    };
+  }, [client, userId]);
+
+  const enqueue = useCallback(async (signal: SignalInput | SignalInput[]) => {
+    if (!queueRef.current) {
+      throw new Error('No user to queue signals for');
+    }
+    return queueRef.current.enqueue(signal);
+  }, []);
+
+  const flush = useCallback(async () => {
+    await queueRef.current?.flush();
+  }, []);
+
+  const pause = useCallback(() => queueRef.current?.pause(), []);
+  const resume = useCallback(() => queueRef.current?.resume(), []);
+
+  return {
+    ...state,
+    enqueue,
+    flush,
+    pause,
+    resume
+  };
+}
@@ -9,11 +9,63 @@ export { SubtasteClient, createClient } from './client';
 export type {
   SubtasteClientConfig,
   PublicProfile,
+  PublicQuestion,
+  QuizStage,
+  QuizQuestions,
   QuizSubmission,
+  ValidityFlag,
   QuizResult,
-  SignalSubmission
+  QuizProgress,
+  SignalInput,
+  SignalSubmission,
+  SignalResult,
+  SignalStats,
+  SigilReveal,
+  GenomeVersion,
+  ContextInfo,
+  ContextualProfile,
+  ReassessmentPlan,
+  RefynContextResult,
+  ContentAttributes,
+  ContentAffinityResult
 } from './client';
 
+// Errors
+export {
+  SubtasteError,
+  SubtasteApiError,
+  SubtasteValidationError,
+  SubtasteAuthError,
+  SubtasteNotFoundError,
+  SubtasteRateLimitError,
+  SubtasteServerError,
+  SubtasteTimeoutError,
+  SubtasteNetworkError,
+  SubtasteResponseError,
+  SubtasteQueueFullError,
+  createApiError
+} from './errors';
+export type { ApiErrorBody } from './errors';
+
+// Signal Queue
+export {
+  SignalQueue,
+  createSignalQueue,
+  createMemorySignalQueueStore,
+  createWebStorageSignalQueueStore,
+  createIndexedDbSignalQueueStore,
+  createFileSignalQueueStore
+} from './queue';
+export type {
+  SignalQueueConfig,
+  SignalQueueState,
+  SignalQueueListener,
+  QueuedSignal,
+  SignalQueueStore,
+  WebStorageLike,
+  IdbFactoryLike
+} from './queue';
+
 // Refyn Adapter
 export {
   derivePromptModifiers,
@@ -32,7 +84,7 @@ export type {
 } from './adapters/refyn';
 
 // React Hooks (conditionally available)
-export { useGenome, useProfiler } from './hooks';
+export { useGenome, useProfiler, useSignalQueue } from './hooks';
 export type {
   UseGenomeState,
   UseGenomeActions,
@@ -40,5 +92,10 @@ export type {
   UseProfilerState,
   UseProfilerActions,
   UseProfilerReturn,
-  DisplayQuestion
+  UseSignalQueueOptions,
+  UseSignalQueueState,
+  UseSignalQueueActions,
+  UseSignalQueueReturn,
+  DisplayQuestion,
+  DisplayResponse
 } from './hooks';
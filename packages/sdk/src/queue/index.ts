@@ -0,0 +1,14 @@
+/**
+ * @subtaste/sdk/queue - Offline Signal Queue
+ */
+
+export { SignalQueue, createSignalQueue } from './signal-queue';
+export type { SignalQueueConfig, SignalQueueState, SignalQueueListener } from './signal-queue';
+
+export {
+  createMemorySignalQueueStore,
+  createWebStorageSignalQueueStore,
+  createIndexedDbSignalQueueStore,
+  createFileSignalQueueStore
+} from './store';
+export type { QueuedSignal, SignalQueueStore, WebStorageLike, IdbFactoryLike } from './store';
@@ -0,0 +1,407 @@
+/**
+ * @subtaste/sdk - Signal Queue
+ *
+ * Client-side buffer for behavioural signals. Signals are persisted on
+ * enqueue, sent in batches when `batchSize` are waiting or `flushInterval`
+ * has passed, and removed only once the API has accepted them.
+ *
+ * Batches go out one at a time in enqueue order. Every signal carries an
+ * idempotency key, so a batch resent after a timeout is applied once.
+ * Transient failures (network, timeout, 429, 5xx, auth) keep the batch at
+ * the head of the queue and retry with backoff; batches the API rejects as
+ * invalid, or whose user no longer exists, are dropped and reported.
+ */
+
+import type { SubtasteClient, SignalInput, SignalResult } from '../client';
+import {
+  SubtasteError,
+  SubtasteValidationError,
+  SubtasteNotFoundError,
+  SubtasteQueueFullError
+} from '../errors';
+import {
+  createMemorySignalQueueStore,
+  type QueuedSignal,
+  type SignalQueueStore
+} from './store';
+
+/**
+ * Signal queue configuration
+ */
+export interface SignalQueueConfig {
+  client: Pick<SubtasteClient, 'submitSignals'>;
+  userId: string;
+
+  // Persistence (default in-memory)
+  store?: SignalQueueStore;
+
+  // Load from the store only once this settles, e.g. an earlier queue for the user closing
+  after?: Promise<unknown>;
+
+  // Signals per request; reaching it flushes immediately (default 25)
+  batchSize?: number;
+
+  // Longest a signal waits before a flush, in ms (default 5000)
+  flushInterval?: number;
+
+  // Signals held before backpressure applies (default 1000)
+  maxSize?: number;
+
+  // When full: throw SubtasteQueueFullError, or drop the oldest unsent signals (default 'reject')
+  overflow?: 'reject' | 'drop-oldest';
+
+  // First retry delay after a failed flush in ms, doubled per failure up to maxRetryDelay
+  retryDelay?: number;
+  maxRetryDelay?: number;
+
+  // A batch was accepted; anything it throws is passed to onError
+  onFlush?: (result: SignalResult, batch: QueuedSignal[]) => void;
+
+  // A flush or save failed; `dropped` lists signals that will not be sent
+  onError?: (error: Error, dropped: QueuedSignal[]) => void;
+}
+
+/**
+ * Signal queue state
+ */
+export interface SignalQueueState {
+  pending: number;
+  sending: boolean;
+  paused: boolean;
+  full: boolean;
+  sent: number;
+  dropped: number;
+  lastError: Error | null;
+  lastFlushedAt: Date | null;
+}
+
+/**
+ * State listener
+ */
+export type SignalQueueListener = (state: SignalQueueState) => void;
+
+const DEFAULT_BATCH_SIZE = 25;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_SIZE = 1000;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 60000;
+
+/**
+ * Offline-first signal buffer
+ */
+export class SignalQueue {
+  private client: Pick<SubtasteClient, 'submitSignals'>;
+  private userId: string;
+  private store: SignalQueueStore;
+  private batchSize: number;
+  private flushInterval: number;
+  private maxSize: number;
+  private overflow: 'reject' | 'drop-oldest';
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private onFlush?: SignalQueueConfig['onFlush'];
+  private onError?: SignalQueueConfig['onError'];
+
+  private signals: QueuedSignal[] = [];
+  // Signals at the head of the queue in the batch being sent
+  private inFlight = 0;
+  private flushing: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private sequence = 0;
+  private closed = false;
+  private listeners: SignalQueueListener[] = [];
+  private state: SignalQueueState = {
+    pending: 0,
+    sending: false,
+    paused: false,
+    full: false,
+    sent: 0,
+    dropped: 0,
+    lastError: null,
+    lastFlushedAt: null
+  };
+
+  // Resolves once signals persisted by an earlier session are loaded
+  readonly ready: Promise<void>;
+
+  constructor(config: SignalQueueConfig) {
+    this.client = config.client;
+    this.userId = config.userId;
+    this.store = config.store ?? createMemorySignalQueueStore();
+    this.batchSize = config.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.flushInterval = config.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    this.maxSize = config.maxSize ?? DEFAULT_MAX_SIZE;
+    this.overflow = config.overflow ?? 'reject';
+    this.retryDelay = config.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.maxRetryDelay = config.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+    this.onFlush = config.onFlush;
+    this.onError = config.onError;
+
+    if (this.batchSize < 1 || this.maxSize < this.batchSize) {
+      throw new Error('batchSize must be at least 1 and no larger than maxSize');
+    }
+
+    this.ready = Promise.resolve(config.after)
+      .catch(() => undefined)
+      .then(() => this.store.load(this.userId))
+      .then(
+        stored => {
+          this.signals = [...stored, ...this.signals];
+          this.update({});
+          this.schedule();
+        },
+        error => this.fail(error, [])
+      );
+  }
+
+  /**
+   * Current state
+   */
+  getState(): SignalQueueState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to state changes
+   */
+  subscribe(listener: SignalQueueListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Add signals to the queue
+   * Stamps each with an idempotency key and timestamp if missing, and
+   * resolves once they are persisted. Throws SubtasteQueueFullError when
+   * full and `overflow` is 'reject'.
+   */
+  async enqueue(input: SignalInput | SignalInput[]): Promise<QueuedSignal[]> {
+    if (this.closed) {
+      throw new Error('Signal queue is closed');
+    }
+    await this.ready;
+
+    const added = (Array.isArray(input) ? input : [input]).map(signal => this.stamp(signal));
+    const overflow = this.signals.length + added.length - this.maxSize;
+
+    if (overflow > 0) {
+      // Never drop the batch being sent, nor part of what is being added
+      const droppable = this.signals.length - this.inFlight;
+      if (this.overflow === 'reject' || overflow > droppable) {
+        throw new SubtasteQueueFullError(this.maxSize);
+      }
+
+      const dropped = this.signals.splice(this.inFlight, overflow);
+      this.update({ dropped: this.state.dropped + dropped.length });
+      this.report(new SubtasteQueueFullError(this.maxSize), dropped);
+    }
+
+    this.signals.push(...added);
+    this.update({});
+    await this.persist();
+    this.schedule();
+
+    return added;
+  }
+
+  /**
+   * Send everything queued now
+   * Resolves when the queue is empty or a transient failure stops it; the
+   * retry is then scheduled. Concurrent calls share one flush.
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.drain().finally(() => {
+      this.flushing = null;
+      this.update({ sending: false });
+      // Signals enqueued while sending
+      this.schedule();
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Stop sending, e.g. while offline; signals are still accepted
+   */
+  pause(): void {
+    this.clearTimer();
+    this.update({ paused: true });
+  }
+
+  /**
+   * Resume sending and flush what queued up meanwhile
+   */
+  resume(): void {
+    this.update({ paused: false });
+    this.failures = 0;
+    if (this.signals.length > 0) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Wait for pending saves to finish
+   */
+  settled(): Promise<void> {
+    return this.saving;
+  }
+
+  /**
+   * Flush once, then stop all timers
+   * Unsent signals stay in the store for the next session.
+   */
+  async close(): Promise<void> {
+    if (!this.state.paused) {
+      await this.flush();
+    }
+    this.closed = true;
+    this.clearTimer();
+    await this.saving;
+    this.listeners = [];
+  }
+
+  /**
+   * Send batches until the queue is empty, paused or a batch fails
+   */
+  private async drain(): Promise<void> {
+    await this.ready;
+    this.clearTimer();
+
+    while (this.signals.length > 0 && !this.state.paused) {
+      const batch = this.signals.slice(0, this.batchSize);
+      this.inFlight = batch.length;
+      this.update({ sending: true });
+
+      try {
+        const result = await this.client.submitSignals(this.userId, { signals: batch });
+        this.signals.splice(0, batch.length);
+        this.failures = 0;
+        this.update({
+          sent: this.state.sent + batch.length,
+          lastError: null,
+          lastFlushedAt: new Date()
+        });
+        try {
+          this.onFlush?.(result, batch);
+        } catch (error) {
+          // The batch was accepted; a throwing callback must not resend it
+          this.fail(error, []);
+        }
+      } catch (error) {
+        if (error instanceof SubtasteValidationError || error instanceof SubtasteNotFoundError) {
+          // Resending cannot succeed; drop the batch and carry on
+          this.signals.splice(0, batch.length);
+          this.update({ dropped: this.state.dropped + batch.length });
+          this.fail(error, batch);
+        } else {
+          this.failures++;
+          this.fail(error, []);
+          this.scheduleRetry();
+          return;
+        }
+      } finally {
+        this.inFlight = 0;
+        await this.persist();
+      }
+    }
+  }
+
+  /**
+   * Flush now if a batch is ready, otherwise within flushInterval
+   */
+  private schedule(): void {
+    // After a failure the retry timer decides when to send
+    if (this.closed || this.state.paused || this.flushing || this.failures > 0) return;
+    if (this.signals.length === 0) return;
+
+    if (this.signals.length >= this.batchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, this.flushInterval);
+    }
+  }
+
+  /**
+   * Retry after a transient failure, backing off exponentially
+   */
+  private scheduleRetry(): void {
+    if (this.closed || this.state.paused) return;
+
+    const delay = Math.min(this.retryDelay * 2 ** (this.failures - 1), this.maxRetryDelay);
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Save the queue; saves are chained so they land in order
+   */
+  private persist(): Promise<void> {
+    const snapshot = [...this.signals];
+    this.saving = this.saving
+      .then(() => this.store.save(this.userId, snapshot))
+      .catch(error => this.fail(error, []));
+    return this.saving;
+  }
+
+  private stamp(signal: SignalInput): QueuedSignal {
+    this.sequence++;
+    return {
+      ...signal,
+      timestamp: signal.timestamp ?? new Date().toISOString(),
+      idempotencyKey: signal.idempotencyKey
+        ?? `${this.userId}:${Date.now().toString(36)}:${this.sequence}:${Math.random().toString(36).slice(2, 10)}`
+    };
+  }
+
+  private fail(error: unknown, dropped: QueuedSignal[]): void {
+    const failure = error instanceof Error ? error : new SubtasteError(String(error));
+    this.update({ lastError: failure });
+    this.report(failure, dropped);
+  }
+
+  /**
+   * Call onError without letting it throw into the flush
+   */
+  private report(error: Error, dropped: QueuedSignal[]): void {
+    try {
+      this.onError?.(error, dropped);
+    } catch {
+      // Nowhere left to report it
+    }
+  }
+
+  private update(changes: Partial<SignalQueueState>): void {
+    this.state = {
+      ...this.state,
+      ...changes,
+      pending: this.signals.length,
+      full: this.signals.length >= this.maxSize
+    };
+    for (const listener of this.listeners) {
+      listener(this.state);
+    }
+  }
+}
+
+/**
+ * Create a signal queue
+ */
+export function createSignalQueue(config: SignalQueueConfig): SignalQueue {
+  return new SignalQueue(config);
+}
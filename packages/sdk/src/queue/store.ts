@@ -0,0 +1,214 @@
+/**
+ * @subtaste/sdk - Signal Queue Stores
+ *
+ * Pluggable persistence for queued signals, so signals recorded offline
+ * survive a reload or restart. Each store keeps one list per user.
+ */
+
+import type { SignalInput } from '../client';
+
+/**
+ * A queued signal
+ * Stamped on enqueue so retries are deduplicated and order is kept.
+ */
+export type QueuedSignal = SignalInput & {
+  idempotencyKey: string;
+  timestamp: string;
+};
+
+/**
+ * Pluggable signal queue persistence
+ */
+export interface SignalQueueStore {
+  load(userId: string): Promise<QueuedSignal[]>;
+  save(userId: string, signals: QueuedSignal[]): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+/**
+ * In-memory store (tests, server-side consumers)
+ * Signals are lost when the process exits.
+ */
+export function createMemorySignalQueueStore(): SignalQueueStore {
+  const queues = new Map<string, string>();
+
+  return {
+    async load(userId: string): Promise<QueuedSignal[]> {
+      const json = queues.get(userId);
+      return json ? JSON.parse(json) : [];
+    },
+
+    async save(userId: string, signals: QueuedSignal[]): Promise<void> {
+      queues.set(userId, JSON.stringify(signals));
+    },
+
+    async delete(userId: string): Promise<void> {
+      queues.delete(userId);
+    }
+  };
+}
+
+/**
+ * Key-value storage with the Web Storage API's shape
+ * localStorage and sessionStorage match it.
+ */
+export interface WebStorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Web Storage store (localStorage in browsers and extensions)
+ * Suits small queues; use IndexedDB when thousands of signals may wait.
+ */
+export function createWebStorageSignalQueueStore(
+  storage: WebStorageLike,
+  prefix = 'subtaste:signals:'
+): SignalQueueStore {
+  return {
+    async load(userId: string): Promise<QueuedSignal[]> {
+      const json = storage.getItem(prefix + userId);
+      return json ? JSON.parse(json) : [];
+    },
+
+    async save(userId: string, signals: QueuedSignal[]): Promise<void> {
+      if (signals.length === 0) {
+        storage.removeItem(prefix + userId);
+      } else {
+        storage.setItem(prefix + userId, JSON.stringify(signals));
+      }
+    },
+
+    async delete(userId: string): Promise<void> {
+      storage.removeItem(prefix + userId);
+    }
+  };
+}
+
+/**
+ * The parts of the IndexedDB API the store uses
+ * Declared here because the SDK builds without DOM types.
+ */
+interface IdbRequestLike<T> {
+  result: T;
+  error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface IdbTransactionLike {
+  objectStore(name: string): {
+    get(key: string): IdbRequestLike<unknown>;
+    put(value: unknown, key: string): unknown;
+    delete(key: string): unknown;
+  };
+  oncomplete: (() => void) | null;
+  onerror: (() => void) | null;
+  error: unknown;
+}
+
+interface IdbDatabaseLike {
+  objectStoreNames: { contains(name: string): boolean };
+  createObjectStore(name: string): unknown;
+  transaction(store: string, mode: 'readonly' | 'readwrite'): IdbTransactionLike;
+}
+
+export interface IdbFactoryLike {
+  open(name: string, version?: number): IdbRequestLike<IdbDatabaseLike> & {
+    onupgradeneeded: (() => void) | null;
+  };
+}
+
+const IDB_STORE = 'signals';
+
+/**
+ * IndexedDB store (browsers, extension service workers)
+ * Defaults to the global indexedDB.
+ */
+export function createIndexedDbSignalQueueStore(
+  factory: IdbFactoryLike = (globalThis as { indexedDB?: IdbFactoryLike }).indexedDB as IdbFactoryLike,
+  databaseName = 'subtaste'
+): SignalQueueStore {
+  if (!factory) {
+    throw new Error('IndexedDB is not available');
+  }
+
+  let database: Promise<IdbDatabaseLike> | null = null;
+
+  const open = (): Promise<IdbDatabaseLike> => {
+    database ??= new Promise((resolve, reject) => {
+      const request = factory.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(IDB_STORE)) {
+          request.result.createObjectStore(IDB_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const write = async (apply: (store: ReturnType<IdbTransactionLike['objectStore']>) => void): Promise<void> => {
+    const db = await open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(IDB_STORE, 'readwrite');
+      apply(transaction.objectStore(IDB_STORE));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    async load(userId: string): Promise<QueuedSignal[]> {
+      const db = await open();
+      return new Promise((resolve, reject) => {
+        const request = db.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE).get(userId);
+        request.onsuccess = () => resolve((request.result as QueuedSignal[] | undefined) ?? []);
+        request.onerror = () => reject(request.error);
+      });
+    },
+
+    save(userId: string, signals: QueuedSignal[]): Promise<void> {
+      return write(store => (signals.length === 0 ? store.delete(userId) : store.put(signals, userId)));
+    },
+
+    delete(userId: string): Promise<void> {
+      return write(store => store.delete(userId));
+    }
+  };
+}
+
+/**
+ * File store (Node, Electron, CLI tools)
+ * One JSON file per user in `directory`, replaced atomically on save.
+ */
+export function createFileSignalQueueStore(directory: string): SignalQueueStore {
+  const pathFor = (userId: string) => `${directory}/${encodeURIComponent(userId)}.json`;
+
+  return {
+    async load(userId: string): Promise<QueuedSignal[]> {
+      const fs = await import('node:fs/promises');
+      try {
+        return JSON.parse(await fs.readFile(pathFor(userId), 'utf8'));
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+
+    async save(userId: string, signals: QueuedSignal[]): Promise<void> {
+      const fs = await import('node:fs/promises');
+      const path = pathFor(userId);
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(`${path}.tmp`, JSON.stringify(signals));
+      await fs.rename(`${path}.tmp`, path);
+    },
+
+    async delete(userId: string): Promise<void> {
+      const fs = await import('node:fs/promises');
+      await fs.rm(pathFor(userId), { force: true });
+    }
+  };
+}
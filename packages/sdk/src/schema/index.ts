@@ -0,0 +1,69 @@
+/**
+ * @subtaste/sdk/schema - API Contract
+ *
+ * JSON schemas for the v2 routes, the route table and the OpenAPI
+ * document built from them.
+ */
+
+export { validate, validateQuery } from './json-schema';
+export type { JsonType, JsonSchema, FromSchema, ValidationIssue } from './json-schema';
+
+export {
+  DesignationSchema,
+  GlyphSchema,
+  DistributionSchema,
+  ArchetypeWeightsSchema,
+  ArchetypeClassificationSchema,
+  PublicGenomeSchema,
+  GenomeSchema,
+  ValidationIssueSchema,
+  ErrorResponseSchema,
+  UserParamsSchema,
+  PublicQuestionSchema,
+  QuizStageSchema,
+  QuizSubmissionStageSchema,
+  QuizQuestionsQuerySchema,
+  QuizQuestionsSchema,
+  QuizSubmissionSchema,
+  ValidityFlagSchema,
+  QuizResultSchema,
+  QualityRejectionSchema,
+  QuizProgressQuerySchema,
+  QuizProgressSchema,
+  SignalInputSchema,
+  SignalSubmissionSchema,
+  SignalResultSchema,
+  SignalStatsSchema,
+  GenomeQuerySchema,
+  SigilRevealSchema,
+  HistoryQuerySchema,
+  GenomeVersionSchema,
+  GenomeHistorySchema,
+  DiffQuerySchema,
+  GenomeDiffSchema,
+  DriftChangePointSchema,
+  DriftReportSchema,
+  ReplayRequestSchema,
+  ReplayResultSchema,
+  MergeRequestSchema,
+  GenomeProvenanceSchema,
+  MergeResultSchema,
+  RollbackRequestSchema,
+  RollbackResultSchema,
+  ContextInfoSchema,
+  ContextListSchema,
+  ContextParamsSchema,
+  ContextualProfileSchema,
+  OrchestratorSnapshotSchema,
+  ProfilingSessionSchema,
+  ProfilingSavedSchema,
+  ReassessmentPlanSchema,
+  RefynContextSchema,
+  AffinityRequestSchema,
+  AffinityResultSchema
+} from './schemas';
+
+export { API_OPERATIONS } from './routes';
+export type { ApiOperation, ApiResponse } from './routes';
+
+export { API_VERSION, buildOpenApiDocument } from './openapi';
@@ -0,0 +1,253 @@
+/**
+ * @subtaste/sdk - JSON Schema
+ *
+ * The subset of JSON Schema (2020-12, as used by OpenAPI 3.1) the API
+ * contract is written in, with type inference for the SDK and a validator
+ * for the server. Schemas are declared `as const` so types can be derived.
+ */
+
+import type { TasteGenome, TasteGenomePublic } from '@subtaste/core';
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'array' | 'object';
+
+type JsonValue = string | number | boolean | null;
+
+/**
+ * A JSON Schema node
+ * A `title` names the schema as an OpenAPI component.
+ */
+export interface JsonSchema {
+  type?: JsonType | readonly JsonType[];
+  title?: string;
+  description?: string;
+  enum?: readonly JsonValue[];
+  const?: JsonValue;
+  format?: 'date-time' | 'uri';
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  prefixItems?: readonly JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  properties?: { readonly [key: string]: JsonSchema };
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: JsonSchema;
+  anyOf?: readonly JsonSchema[];
+}
+
+/**
+ * Schemas whose TypeScript type is a core domain type
+ * Keyed by title; the schema documents the JSON form of the type.
+ */
+interface DomainTypes {
+  TasteGenome: TasteGenome;
+  TasteGenomePublic: TasteGenomePublic;
+}
+
+/**
+ * TypeScript type described by a schema
+ */
+export type FromSchema<S> =
+  S extends { title: infer T extends keyof DomainTypes } ? DomainTypes[T]
+  : S extends { anyOf: readonly (infer U)[] } ? (U extends unknown ? FromSchema<U> : never)
+  : S extends { const: infer C } ? C
+  : S extends { enum: readonly (infer E)[] } ? E
+  : S extends { type: readonly (infer T)[] } ? (T extends JsonType ? FromType<T, S> : never)
+  : S extends { type: infer T extends JsonType } ? FromType<T, S>
+  : unknown;
+
+type FromType<T extends JsonType, S> =
+  T extends 'string' ? string
+  : T extends 'number' | 'integer' ? number
+  : T extends 'boolean' ? boolean
+  : T extends 'null' ? null
+  : T extends 'array' ? FromArray<S>
+  : FromObject<S>;
+
+type FromArray<S> =
+  S extends { prefixItems: infer P extends readonly JsonSchema[] } ? { -readonly [K in keyof P]: FromSchema<P[K]> }
+  : S extends { items: infer I } ? FromSchema<I>[]
+  : unknown[];
+
+type FromObject<S> =
+  S extends { properties: infer P }
+    ? Flatten<
+        { -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]> } &
+        { -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]> } &
+        (S extends { additionalProperties: infer A extends JsonSchema } ? Record<string, FromSchema<A>> : unknown)
+      >
+    : S extends { propertyNames: infer N; additionalProperties: infer A }
+      ? Partial<Record<FromSchema<N> & string, FromSchema<A>>>
+      : S extends { additionalProperties: infer A extends JsonSchema }
+        ? Record<string, FromSchema<A>>
+        : Record<string, unknown>;
+
+type RequiredKeys<S> = S extends { required: readonly (infer R)[] } ? R : never;
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/**
+ * A single validation failure
+ * `field` is a path like `signals[0].type`; empty for the value itself.
+ */
+export interface ValidationIssue {
+  field: string;
+  error: string;
+}
+
+/**
+ * Validate a value against a schema
+ */
+export function validate(schema: JsonSchema, value: unknown, field = ''): ValidationIssue[] {
+  if (schema.anyOf) {
+    const attempts = schema.anyOf.map(s => validate(s, value, field));
+    return attempts.some(issues => issues.length === 0)
+      ? []
+      : attempts.reduce((best, issues) => (issues.length < best.length ? issues : best));
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    return [{ field, error: `must be ${JSON.stringify(schema.const)}` }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as JsonValue)) {
+    return [{ field, error: `must be one of: ${schema.enum.join(', ')}` }];
+  }
+
+  if (schema.type !== undefined) {
+    const types = typeof schema.type === 'string' ? [schema.type] : schema.type;
+    if (!types.some(t => isType(t, value))) {
+      return [{ field, error: `must be of type ${types.join(' or ')}` }];
+    }
+  }
+
+  if (typeof value === 'string') return validateString(schema, value, field);
+  if (typeof value === 'number') return validateNumber(schema, value, field);
+  if (Array.isArray(value)) return validateArray(schema, value, field);
+  if (value !== null && typeof value === 'object') {
+    return validateObject(schema, value as Record<string, unknown>, field);
+  }
+
+  return [];
+}
+
+/**
+ * Validate query parameters, converting numeric and boolean strings first
+ * Returns the converted values alongside any issues.
+ */
+export function validateQuery(
+  schema: JsonSchema,
+  params: URLSearchParams
+): { value: Record<string, unknown>; issues: ValidationIssue[] } {
+  const value: Record<string, unknown> = {};
+
+  for (const [key, property] of Object.entries(schema.properties || {})) {
+    const raw = params.get(key);
+    if (raw === null) continue;
+
+    const types = property.type === undefined ? [] : typeof property.type === 'string' ? [property.type] : property.type;
+    if (types.includes('integer') || types.includes('number')) {
+      value[key] = raw.trim() !== '' && Number.isFinite(Number(raw)) ? Number(raw) : raw;
+    } else if (types.includes('boolean')) {
+      value[key] = raw === 'true' ? true : raw === 'false' ? false : raw;
+    } else {
+      value[key] = raw;
+    }
+  }
+
+  return { value, issues: validate(schema, value) };
+}
+
+/**
+ * Helper: JSON type check
+ */
+function isType(type: JsonType, value: unknown): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default: return typeof value === type;
+  }
+}
+
+function validateString(schema: JsonSchema, value: string, field: string): ValidationIssue[] {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    return [{ field, error: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` }];
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return [{ field, error: `must be at most ${schema.maxLength} characters` }];
+  }
+  if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+    return [{ field, error: 'must be an ISO date' }];
+  }
+  return [];
+}
+
+function validateNumber(schema: JsonSchema, value: number, field: string): ValidationIssue[] {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    return [{ field, error: `must be at least ${schema.minimum}` }];
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    return [{ field, error: `must be at most ${schema.maximum}` }];
+  }
+  return [];
+}
+
+function validateArray(schema: JsonSchema, value: unknown[], field: string): ValidationIssue[] {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    return [{ field, error: schema.minItems === 1 ? 'must not be empty' : `must have at least ${schema.minItems} items` }];
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    return [{ field, error: `must have at most ${schema.maxItems} items` }];
+  }
+
+  // Positional schemas first; `items` covers the rest
+  const prefix = schema.prefixItems || [];
+  const items = schema.items;
+  return value.flatMap((item, i) => {
+    const itemSchema = i < prefix.length ? prefix[i] : items;
+    return itemSchema ? validate(itemSchema, item, `${field}[${i}]`) : [];
+  });
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  field: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const path = (key: string) => (field ? `${field}.${key}` : key);
+  const properties = schema.properties || {};
+
+  for (const key of schema.required || []) {
+    if (value[key] === undefined) {
+      issues.push({ field: path(key), error: 'is required' });
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+
+    if (properties[key]) {
+      issues.push(...validate(properties[key], item, path(key)));
+      continue;
+    }
+
+    if (schema.propertyNames) {
+      issues.push(...validate(schema.propertyNames, key, path(key)).map(i => ({ ...i, error: `is not a valid key: ${i.error}` })));
+    }
+
+    if (schema.additionalProperties === false) {
+      issues.push({ field: path(key), error: 'is not allowed' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      issues.push(...validate(schema.additionalProperties, item, path(key)));
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,131 @@
+/**
+ * @subtaste/sdk - OpenAPI
+ *
+ * Builds the OpenAPI 3.1 document for /api/v2 from the route table.
+ * Titled schemas become components and are referenced by $ref.
+ */
+
+import type { JsonSchema } from './json-schema';
+import { API_OPERATIONS, type ApiOperation } from './routes';
+import { ErrorResponseSchema } from './schemas';
+
+export const API_VERSION = '2.0.0';
+
+type OpenApiSchema = Record<string, unknown>;
+
+/**
+ * Build the OpenAPI document
+ */
+export function buildOpenApiDocument(operations: ApiOperation[] = API_OPERATIONS): Record<string, unknown> {
+  const components = new Map<string, { source: JsonSchema; schema?: OpenApiSchema }>();
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  const ref = (schema: JsonSchema): OpenApiSchema => {
+    if (!schema.title) return convert(schema);
+
+    const existing = components.get(schema.title);
+    if (existing && existing.source !== schema) {
+      throw new Error(`Two different schemas are titled ${schema.title}`);
+    }
+    if (!existing) {
+      const entry: { source: JsonSchema; schema?: OpenApiSchema } = { source: schema };
+      components.set(schema.title, entry);
+      entry.schema = convert(schema);
+    }
+    return { $ref: `#/components/schemas/${schema.title}` };
+  };
+
+  const convert = (schema: JsonSchema): OpenApiSchema => {
+    const out: OpenApiSchema = { ...schema };
+    if (schema.items) out.items = ref(schema.items);
+    if (schema.prefixItems) out.prefixItems = schema.prefixItems.map(ref);
+    if (schema.anyOf) out.anyOf = schema.anyOf.map(ref);
+    if (schema.propertyNames) out.propertyNames = ref(schema.propertyNames);
+    if (typeof schema.additionalProperties === 'object') {
+      out.additionalProperties = ref(schema.additionalProperties);
+    }
+    if (schema.properties) {
+      out.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, ref(value)])
+      );
+    }
+    return out;
+  };
+
+  for (const operation of operations) {
+    const parameters = [
+      ...toParameters(operation.params, 'path', ref),
+      ...toParameters(operation.query, 'query', ref)
+    ];
+
+    const responses = Object.fromEntries(
+      Object.entries(operation.responses).map(([status, response]) => {
+        const schema = response.schema || (Number(status) >= 400 ? ErrorResponseSchema : undefined);
+        return [
+          status,
+          schema
+            ? { description: response.description, content: { 'application/json': { schema: ref(schema) } } }
+            : { description: response.description }
+        ];
+      })
+    );
+
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        operationId: operation.operationId,
+        summary: operation.summary,
+        tags: [operation.tag],
+        ...(operation.serverOnly && {
+          description: 'Returns hidden layers. Call from server-side code only.'
+        }),
+        ...(parameters.length > 0 && { parameters }),
+        ...(operation.body && {
+          requestBody: {
+            required: Boolean(operation.bodyRequired),
+            content: { 'application/json': { schema: ref(operation.body) } }
+          }
+        }),
+        responses
+      }
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Subtaste API',
+      version: API_VERSION,
+      description: 'Taste genome profiling, signals and Refyn context.'
+    },
+    tags: [...new Set(operations.map(o => o.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        [...components.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([title, entry]) => [title, entry.schema])
+      )
+    }
+  };
+}
+
+/**
+ * Helper: path or query parameters from an object schema
+ */
+function toParameters(
+  schema: JsonSchema | undefined,
+  location: 'path' | 'query',
+  ref: (schema: JsonSchema) => OpenApiSchema
+): OpenApiSchema[] {
+  if (!schema?.properties) return [];
+
+  const required = new Set(schema.required || []);
+  return Object.entries(schema.properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.has(name),
+    ...(property.description && { description: property.description }),
+    schema: ref(property)
+  }));
+}
@@ -0,0 +1,308 @@
+/**
+ * @subtaste/sdk - API Routes
+ *
+ * Every /api/v2 operation with its parameter, body and response schemas.
+ * Paths use OpenAPI templating ({userId}).
+ */
+
+import type { JsonSchema } from './json-schema';
+import {
+  UserParamsSchema,
+  ContextParamsSchema,
+  GenomeSchema,
+  PublicGenomeSchema,
+  GenomeQuerySchema,
+  SigilRevealSchema,
+  HistoryQuerySchema,
+  GenomeHistorySchema,
+  DiffQuerySchema,
+  GenomeDiffSchema,
+  DriftReportSchema,
+  ReplayRequestSchema,
+  ReplayResultSchema,
+  MergeRequestSchema,
+  MergeResultSchema,
+  RollbackRequestSchema,
+  RollbackResultSchema,
+  ContextListSchema,
+  ContextualProfileSchema,
+  QuizQuestionsQuerySchema,
+  QuizQuestionsSchema,
+  QuizSubmissionSchema,
+  QuizResultSchema,
+  QualityRejectionSchema,
+  QuizProgressQuerySchema,
+  QuizProgressSchema,
+  ProfilingSessionSchema,
+  ProfilingSavedSchema,
+  ReassessmentPlanSchema,
+  SignalSubmissionSchema,
+  SignalResultSchema,
+  SignalStatsSchema,
+  RefynContextSchema,
+  AffinityRequestSchema,
+  AffinityResultSchema
+} from './schemas';
+
+/**
+ * Response for one status
+ * Error statuses without a schema use ErrorResponse.
+ */
+export interface ApiResponse {
+  description: string;
+  schema?: JsonSchema;
+}
+
+/**
+ * A single API operation
+ */
+export interface ApiOperation {
+  operationId: string;
+  method: 'get' | 'post' | 'put';
+  path: string;
+  tag: 'Genome' | 'Contexts' | 'Quiz' | 'Profiling' | 'Signals' | 'Refyn' | 'Meta';
+  summary: string;
+
+  // Returns hidden layers; call from server-side code only
+  serverOnly?: boolean;
+
+  params?: JsonSchema;
+  query?: JsonSchema;
+  body?: JsonSchema;
+  bodyRequired?: boolean;
+
+  responses: Record<number, ApiResponse>;
+}
+
+const NOT_FOUND: ApiResponse = { description: 'Not found' };
+const INVALID: ApiResponse = { description: 'Invalid request' };
+const FAILED: ApiResponse = { description: 'Server error' };
+
+/**
+ * The v2 API
+ */
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    operationId: 'getGenome',
+    method: 'get',
+    path: '/api/v2/genome/{userId}',
+    tag: 'Genome',
+    summary: 'Get the full genome',
+    serverOnly: true,
+    params: UserParamsSchema,
+    query: GenomeQuerySchema,
+    responses: { 200: { description: 'Full genome', schema: GenomeSchema }, 400: INVALID, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'getPublicGenome',
+    method: 'get',
+    path: '/api/v2/genome/{userId}/public',
+    tag: 'Genome',
+    summary: 'Get the client-safe genome',
+    params: UserParamsSchema,
+    responses: { 200: { description: 'Public genome', schema: PublicGenomeSchema }, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'revealSigil',
+    method: 'post',
+    path: '/api/v2/genome/{userId}/sigil',
+    tag: 'Genome',
+    summary: 'Reveal the user\'s sigil',
+    params: UserParamsSchema,
+    responses: { 200: { description: 'Revealed sigil', schema: SigilRevealSchema }, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'getGenomeHistory',
+    method: 'get',
+    path: '/api/v2/genome/{userId}/history',
+    tag: 'Genome',
+    summary: 'List stored genome versions, or get the genome as of a date',
+    serverOnly: true,
+    params: UserParamsSchema,
+    query: HistoryQuerySchema,
+    responses: {
+      200: { description: 'Versions, newest first; the full genome with asOf', schema: { anyOf: [GenomeHistorySchema, GenomeSchema] } },
+      400: INVALID,
+      404: NOT_FOUND,
+      500: FAILED
+    }
+  },
+  {
+    operationId: 'diffGenome',
+    method: 'get',
+    path: '/api/v2/genome/{userId}/diff',
+    tag: 'Genome',
+    summary: 'Diff two stored genome versions',
+    params: UserParamsSchema,
+    query: DiffQuerySchema,
+    responses: { 200: { description: 'Diff', schema: GenomeDiffSchema }, 400: INVALID, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'getDrift',
+    method: 'get',
+    path: '/api/v2/genome/{userId}/drift',
+    tag: 'Genome',
+    summary: 'Check recent signals for taste drift',
+    params: UserParamsSchema,
+    responses: { 200: { description: 'Drift report', schema: DriftReportSchema }, 500: FAILED }
+  },
+  {
+    operationId: 'replayGenome',
+    method: 'post',
+    path: '/api/v2/genome/{userId}/replay',
+    tag: 'Genome',
+    summary: 'Rebuild the genome from the signal log',
+    params: UserParamsSchema,
+    body: ReplayRequestSchema,
+    responses: { 200: { description: 'Rebuilt genome', schema: ReplayResultSchema }, 400: INVALID, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'mergeAccounts',
+    method: 'post',
+    path: '/api/v2/genome/{userId}/merge',
+    tag: 'Genome',
+    summary: 'Merge linked accounts into this genome',
+    params: UserParamsSchema,
+    body: MergeRequestSchema,
+    bodyRequired: true,
+    responses: { 200: { description: 'Merged genome', schema: MergeResultSchema }, 400: INVALID, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'rollbackGenome',
+    method: 'post',
+    path: '/api/v2/genome/{userId}/rollback',
+    tag: 'Genome',
+    summary: 'Restore an earlier genome version',
+    params: UserParamsSchema,
+    body: RollbackRequestSchema,
+    bodyRequired: true,
+    responses: { 200: { description: 'Restored genome', schema: RollbackResultSchema }, 400: INVALID, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'getContextualProfile',
+    method: 'get',
+    path: '/api/v2/genome/{userId}/contexts/{context}',
+    tag: 'Contexts',
+    summary: 'Get the user\'s distribution within a context',
+    params: ContextParamsSchema,
+    responses: { 200: { description: 'Contextual profile', schema: ContextualProfileSchema }, 400: INVALID, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'listContexts',
+    method: 'get',
+    path: '/api/v2/contexts',
+    tag: 'Contexts',
+    summary: 'List registered contexts',
+    responses: { 200: { description: 'Contexts', schema: ContextListSchema }, 500: FAILED }
+  },
+  {
+    operationId: 'getQuizQuestions',
+    method: 'get',
+    path: '/api/v2/quiz/questions',
+    tag: 'Quiz',
+    summary: 'Sample questions from a stage\'s bank',
+    query: QuizQuestionsQuerySchema,
+    responses: { 200: { description: 'Questions', schema: QuizQuestionsSchema }, 400: INVALID, 500: FAILED }
+  },
+  {
+    operationId: 'submitQuiz',
+    method: 'post',
+    path: '/api/v2/quiz',
+    tag: 'Quiz',
+    summary: 'Submit quiz responses and classify',
+    body: QuizSubmissionSchema,
+    bodyRequired: true,
+    responses: {
+      200: { description: 'Classification', schema: QuizResultSchema },
+      400: INVALID,
+      422: { description: 'Responses failed quality checks', schema: QualityRejectionSchema },
+      500: FAILED
+    }
+  },
+  {
+    operationId: 'getQuizProgress',
+    method: 'get',
+    path: '/api/v2/quiz',
+    tag: 'Quiz',
+    summary: 'Get profiling progress',
+    query: QuizProgressQuerySchema,
+    responses: { 200: { description: 'Progress', schema: QuizProgressSchema }, 400: INVALID, 500: FAILED }
+  },
+  {
+    operationId: 'getProfilingSession',
+    method: 'get',
+    path: '/api/v2/profiling/{userId}',
+    tag: 'Profiling',
+    summary: 'Load the orchestrator session',
+    params: UserParamsSchema,
+    responses: { 200: { description: 'Session snapshot', schema: ProfilingSessionSchema }, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'saveProfilingSession',
+    method: 'put',
+    path: '/api/v2/profiling/{userId}',
+    tag: 'Profiling',
+    summary: 'Save the orchestrator session',
+    params: UserParamsSchema,
+    body: ProfilingSessionSchema,
+    bodyRequired: true,
+    responses: { 200: { description: 'Saved', schema: ProfilingSavedSchema }, 400: INVALID, 500: FAILED }
+  },
+  {
+    operationId: 'getReassessmentPlan',
+    method: 'get',
+    path: '/api/v2/profiling/{userId}/reassessment',
+    tag: 'Profiling',
+    summary: 'Get the re-assessment plan',
+    params: UserParamsSchema,
+    responses: { 200: { description: 'Plan', schema: ReassessmentPlanSchema }, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'submitSignals',
+    method: 'post',
+    path: '/api/v2/signals/{userId}',
+    tag: 'Signals',
+    summary: 'Submit behavioural signals',
+    params: UserParamsSchema,
+    body: SignalSubmissionSchema,
+    bodyRequired: true,
+    responses: { 200: { description: 'Updated genome', schema: SignalResultSchema }, 400: INVALID, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'getSignalStats',
+    method: 'get',
+    path: '/api/v2/signals/{userId}',
+    tag: 'Signals',
+    summary: 'Get signal stats',
+    params: UserParamsSchema,
+    responses: { 200: { description: 'Stats', schema: SignalStatsSchema }, 500: FAILED }
+  },
+  {
+    operationId: 'getRefynContext',
+    method: 'get',
+    path: '/api/v2/refyn/{userId}',
+    tag: 'Refyn',
+    summary: 'Get Refyn prompt context',
+    params: UserParamsSchema,
+    responses: { 200: { description: 'Context and system prompt', schema: RefynContextSchema }, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'assessContentAffinity',
+    method: 'post',
+    path: '/api/v2/refyn/{userId}',
+    tag: 'Refyn',
+    summary: 'Score how well content suits the user',
+    params: UserParamsSchema,
+    body: AffinityRequestSchema,
+    bodyRequired: true,
+    responses: { 200: { description: 'Affinity', schema: AffinityResultSchema }, 400: INVALID, 404: NOT_FOUND, 500: FAILED }
+  },
+  {
+    operationId: 'getOpenApiDocument',
+    method: 'get',
+    path: '/api/v2/openapi',
+    tag: 'Meta',
+    summary: 'This OpenAPI document',
+    responses: { 200: { description: 'OpenAPI 3.1 document', schema: { type: 'object' } } }
+  }
+];
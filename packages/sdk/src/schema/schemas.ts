@@ -0,0 +1,985 @@
+/**
+ * @subtaste/sdk - API Schemas
+ *
+ * Request and response schemas for the v2 routes. The server validates
+ * against them, the OpenAPI document is built from them and the client's
+ * types are derived from them.
+ */
+
+import { ALL_DESIGNATIONS, toGlyph } from '@subtaste/core';
+import type { JsonSchema } from './json-schema';
+
+// Shared
+
+export const DesignationSchema = {
+  title: 'Designation',
+  type: 'string',
+  enum: ALL_DESIGNATIONS
+} as const satisfies JsonSchema;
+
+export const GlyphSchema = {
+  title: 'Glyph',
+  type: 'string',
+  enum: ALL_DESIGNATIONS.map(toGlyph)
+} as const satisfies JsonSchema;
+
+export const DistributionSchema = {
+  title: 'Distribution',
+  description: 'Share of each designation, summing to 1',
+  type: 'object',
+  propertyNames: DesignationSchema,
+  additionalProperties: { type: 'number' }
+} as const satisfies JsonSchema;
+
+export const ArchetypeWeightsSchema = {
+  title: 'ArchetypeWeights',
+  type: 'object',
+  propertyNames: DesignationSchema,
+  additionalProperties: { type: 'number' }
+} as const satisfies JsonSchema;
+
+const RankedDesignationSchema = {
+  type: 'object',
+  properties: {
+    designation: DesignationSchema,
+    glyph: GlyphSchema,
+    confidence: { type: 'number' }
+  },
+  required: ['designation', 'glyph', 'confidence']
+} as const satisfies JsonSchema;
+
+export const ArchetypeClassificationSchema = {
+  title: 'ArchetypeClassification',
+  type: 'object',
+  properties: {
+    primary: RankedDesignationSchema,
+    secondary: { anyOf: [RankedDesignationSchema, { type: 'null' }] },
+    distribution: DistributionSchema
+  },
+  required: ['primary', 'secondary', 'distribution']
+} as const satisfies JsonSchema;
+
+export const PublicGenomeSchema = {
+  title: 'TasteGenomePublic',
+  description: 'Client-safe genome: no hidden layers',
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    userId: { type: 'string' },
+    version: { type: 'integer' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    archetype: ArchetypeClassificationSchema,
+    formal: {
+      type: 'object',
+      properties: {
+        primarySigil: { type: ['string', 'null'] },
+        secondarySigil: { type: ['string', 'null'] },
+        revealed: { type: 'boolean' }
+      },
+      required: ['primarySigil', 'secondarySigil', 'revealed']
+    },
+    confidence: { type: 'number' },
+    tasteTypicality: { type: 'number' },
+    status: { type: 'string', enum: ['forming', 'tied', 'settled'] }
+  },
+  required: ['id', 'userId', 'version', 'createdAt', 'updatedAt', 'archetype', 'formal', 'confidence', 'tasteTypicality', 'status']
+} as const satisfies JsonSchema;
+
+export const GenomeSchema = {
+  title: 'TasteGenome',
+  description: 'Full genome including hidden layers. Server-side only.',
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    userId: { type: 'string' },
+    version: { type: 'integer' },
+    archetype: ArchetypeClassificationSchema,
+    behaviour: { type: 'object' },
+    _engine: { type: 'object' }
+  },
+  required: ['id', 'userId', 'version', 'archetype'],
+  additionalProperties: true
+} as const satisfies JsonSchema;
+
+export const ValidationIssueSchema = {
+  title: 'ValidationIssue',
+  type: 'object',
+  properties: {
+    field: { type: 'string', description: 'Path to the offending value, e.g. signals[0].type' },
+    error: { type: 'string' }
+  },
+  required: ['field', 'error']
+} as const satisfies JsonSchema;
+
+export const ErrorResponseSchema = {
+  title: 'ErrorResponse',
+  description: 'Error envelope for every 4xx and 5xx response. Validation failures list their issues in details.',
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    details: {
+      anyOf: [
+        { type: 'array', items: ValidationIssueSchema },
+        { type: 'string' }
+      ]
+    }
+  },
+  required: ['error']
+} as const satisfies JsonSchema;
+
+export const UserParamsSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string', minLength: 1 }
+  },
+  required: ['userId']
+} as const satisfies JsonSchema;
+
+const SuccessSchema = { type: 'boolean', const: true } as const satisfies JsonSchema;
+
+// Questions
+
+const QuestionBase = {
+  id: { type: 'string' },
+  prompt: { type: 'string' },
+  category: { type: 'string' }
+} as const;
+
+const ItemsSchema = { type: 'array', items: { type: 'string' } } as const satisfies JsonSchema;
+
+export const PublicQuestionSchema = {
+  title: 'PublicQuestion',
+  description: 'Question as served to clients. Archetype weights stay on the server.',
+  anyOf: [
+    {
+      type: 'object',
+      properties: {
+        ...QuestionBase,
+        type: { type: 'string', const: 'binary' },
+        options: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 2 }
+      },
+      required: ['id', 'prompt', 'category', 'type', 'options']
+    },
+    {
+      type: 'object',
+      properties: {
+        ...QuestionBase,
+        type: { type: 'string', const: 'likert' },
+        scale: { type: 'integer', enum: [5, 7] },
+        lowLabel: { type: 'string' },
+        highLabel: { type: 'string' }
+      },
+      required: ['id', 'prompt', 'category', 'type', 'scale', 'lowLabel', 'highLabel']
+    },
+    {
+      type: 'object',
+      properties: {
+        ...QuestionBase,
+        type: { type: 'string', const: 'ranking' },
+        items: ItemsSchema
+      },
+      required: ['id', 'prompt', 'category', 'type', 'items']
+    },
+    {
+      type: 'object',
+      properties: {
+        ...QuestionBase,
+        type: { type: 'string', const: 'comparison' },
+        items: ItemsSchema,
+        pairs: { type: 'array', items: { type: 'array', items: { type: 'integer' }, minItems: 2, maxItems: 2 } }
+      },
+      required: ['id', 'prompt', 'category', 'type', 'items', 'pairs']
+    },
+    {
+      type: 'object',
+      properties: {
+        ...QuestionBase,
+        type: { type: 'string', const: 'maxdiff' },
+        items: ItemsSchema,
+        sets: { type: 'array', items: { type: 'array', items: { type: 'integer' } } }
+      },
+      required: ['id', 'prompt', 'category', 'type', 'items', 'sets']
+    },
+    {
+      type: 'object',
+      properties: {
+        ...QuestionBase,
+        type: { type: 'string', const: 'stimulus' },
+        stimuli: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              label: { type: 'string' },
+              media: { type: 'string', enum: ['audio', 'image'] },
+              url: { type: 'string' },
+              durationMs: { type: 'integer' }
+            },
+            required: ['id', 'label', 'media', 'url']
+          }
+        }
+      },
+      required: ['id', 'prompt', 'category', 'type', 'stimuli']
+    }
+  ]
+} as const satisfies JsonSchema;
+
+// Quiz
+
+export const QuizStageSchema = {
+  title: 'QuizStage',
+  type: 'string',
+  enum: ['initial', 'music', 'deep']
+} as const satisfies JsonSchema;
+
+export const QuizSubmissionStageSchema = {
+  title: 'QuizSubmissionStage',
+  description: 'Stage the responses complete; reassessment answers a due re-assessment plan',
+  type: 'string',
+  enum: ['initial', 'music', 'deep', 'reassessment']
+} as const satisfies JsonSchema;
+
+export const QuizQuestionsQuerySchema = {
+  type: 'object',
+  properties: {
+    stage: QuizStageSchema,
+    count: { type: 'integer', minimum: 4, maximum: 6, description: 'Questions to sample (default 6)' }
+  },
+  required: ['stage']
+} as const satisfies JsonSchema;
+
+export const QuizQuestionsSchema = {
+  title: 'QuizQuestions',
+  type: 'object',
+  properties: {
+    stage: QuizStageSchema,
+    count: { type: 'integer' },
+    totalAvailable: { type: 'integer' },
+    questions: { type: 'array', items: PublicQuestionSchema }
+  },
+  required: ['stage', 'count', 'totalAvailable', 'questions']
+} as const satisfies JsonSchema;
+
+export const QuizSubmissionSchema = {
+  title: 'QuizSubmission',
+  type: 'object',
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    sessionId: { type: 'string', minLength: 1 },
+    stageId: QuizSubmissionStageSchema,
+    responses: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          questionId: { type: 'string', minLength: 1 },
+          response: {
+            description: 'Option index, Likert point, item order, pick per pair, or [best, worst] per MaxDiff set',
+            anyOf: [
+              { type: 'integer' },
+              { type: 'array', items: { type: 'integer' } },
+              {
+                type: 'array',
+                items: { type: 'array', prefixItems: [{ type: 'integer' }, { type: 'integer' }], minItems: 2, maxItems: 2 }
+              }
+            ]
+          },
+          responseTimeMs: { type: 'number', minimum: 0 },
+          listenMs: {
+            description: 'Time spent on each stimulus, for stimulus questions',
+            type: 'array',
+            items: { type: 'number', minimum: 0 }
+          }
+        },
+        required: ['questionId', 'response']
+      }
+    }
+  },
+  required: ['responses']
+} as const satisfies JsonSchema;
+
+export const ValidityFlagSchema = {
+  title: 'ValidityFlag',
+  type: 'object',
+  properties: {
+    kind: { type: 'string', enum: ['straight_lining', 'too_fast', 'anchor_inconsistency'] },
+    questionIds: { type: 'array', items: { type: 'string' } },
+    detail: { type: 'string' }
+  },
+  required: ['kind', 'questionIds', 'detail']
+} as const satisfies JsonSchema;
+
+export const QuizResultSchema = {
+  title: 'QuizResult',
+  type: 'object',
+  properties: {
+    success: SuccessSchema,
+    userId: { type: 'string' },
+    genome: PublicGenomeSchema,
+    glyph: GlyphSchema,
+    designation: DesignationSchema,
+    confidence: { type: 'number' },
+    entropyConfidence: { type: 'number' },
+    confidenceThreshold: { type: 'number' },
+    sufficientData: { type: 'boolean' },
+    status: { type: 'string', enum: ['forming', 'tied', 'settled'] },
+    validityScore: { type: 'number' },
+    validityFlags: { type: 'array', items: ValidityFlagSchema }
+  },
+  required: [
+    'success', 'userId', 'genome', 'glyph', 'designation', 'confidence', 'entropyConfidence',
+    'confidenceThreshold', 'sufficientData', 'status', 'validityScore', 'validityFlags'
+  ]
+} as const satisfies JsonSchema;
+
+export const QualityRejectionSchema = {
+  title: 'QualityRejection',
+  description: 'Quiz responses that failed quality checks (422)',
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    validityScore: { type: 'number' },
+    validityFlags: { type: 'array', items: ValidityFlagSchema }
+  },
+  required: ['error', 'validityScore', 'validityFlags']
+} as const satisfies JsonSchema;
+
+export const QuizProgressQuerySchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string', minLength: 1 }
+  },
+  required: ['userId']
+} as const satisfies JsonSchema;
+
+export const QuizProgressSchema = {
+  title: 'QuizProgress',
+  type: 'object',
+  properties: {
+    hasStarted: { type: 'boolean' },
+    currentStage: { type: ['string', 'null'] },
+    stagesCompleted: { type: 'array', items: { type: 'string' } },
+    signalCount: { type: 'integer' },
+    inProgress: { type: 'boolean' },
+    lastStageCompletedAt: { type: ['string', 'null'], format: 'date-time' }
+  },
+  required: ['hasStarted', 'currentStage', 'stagesCompleted', 'signalCount']
+} as const satisfies JsonSchema;
+
+// Signals
+
+export const SignalInputSchema = {
+  title: 'SignalInput',
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['explicit', 'intentional_implicit', 'unintentional_implicit'] },
+    itemId: { type: 'string', minLength: 1 },
+    kind: {
+      type: 'string',
+      enum: [
+        'rating', 'choice', 'likert', 'block', 'ranking', 'preference', 'comparison', 'selection',
+        'dwell', 'skip', 'repeat', 'save', 'share', 'click'
+      ]
+    },
+    value: { type: ['string', 'number'], description: 'Explicit value, or dwell duration in ms for implicit signals' },
+    archetypeWeights: ArchetypeWeightsSchema,
+    timestamp: { type: 'string', format: 'date-time' },
+    metadata: { type: 'object' },
+    idempotencyKey: { type: 'string', minLength: 1, description: 'Retries with the same key are stored and applied once' },
+    context: { type: 'string', minLength: 1, description: 'Context the signal was given in; detected from the session when omitted' }
+  },
+  required: ['type', 'itemId']
+} as const satisfies JsonSchema;
+
+export const SignalSubmissionSchema = {
+  title: 'SignalSubmission',
+  type: 'object',
+  properties: {
+    signals: { type: 'array', minItems: 1, items: SignalInputSchema }
+  },
+  required: ['signals']
+} as const satisfies JsonSchema;
+
+export const SignalResultSchema = {
+  title: 'SignalResult',
+  type: 'object',
+  properties: {
+    success: SuccessSchema,
+    signalsProcessed: { type: 'integer' },
+    genome: { anyOf: [PublicGenomeSchema, { type: 'null' }] }
+  },
+  required: ['success', 'signalsProcessed', 'genome']
+} as const satisfies JsonSchema;
+
+export const SignalStatsSchema = {
+  title: 'SignalStats',
+  type: 'object',
+  properties: {
+    userId: { type: 'string' },
+    hasGenome: { type: 'boolean' },
+    version: { type: 'integer' },
+    confidence: { type: 'number' },
+    signalCount: { type: 'integer' }
+  },
+  required: ['userId', 'hasGenome']
+} as const satisfies JsonSchema;
+
+// Genome
+
+export const GenomeQuerySchema = {
+  type: 'object',
+  properties: {
+    migrate: { type: 'boolean', description: 'Migrate users without a genome from their legacy profile' }
+  }
+} as const satisfies JsonSchema;
+
+export const SigilRevealSchema = {
+  title: 'SigilReveal',
+  type: 'object',
+  properties: {
+    success: SuccessSchema,
+    sigil: { type: ['string', 'null'] },
+    genome: PublicGenomeSchema
+  },
+  required: ['success', 'sigil', 'genome']
+} as const satisfies JsonSchema;
+
+export const HistoryQuerySchema = {
+  type: 'object',
+  properties: {
+    asOf: { type: 'string', format: 'date-time', description: 'Return the full genome as it was at this time instead of the list' }
+  }
+} as const satisfies JsonSchema;
+
+export const GenomeVersionSchema = {
+  title: 'GenomeVersion',
+  type: 'object',
+  properties: {
+    version: { type: 'integer' },
+    trigger: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    designation: DesignationSchema,
+    glyph: GlyphSchema,
+    confidence: { type: 'number' }
+  },
+  required: ['version', 'trigger', 'createdAt', 'designation', 'glyph', 'confidence']
+} as const satisfies JsonSchema;
+
+export const GenomeHistorySchema = {
+  title: 'GenomeHistory',
+  type: 'object',
+  properties: {
+    versions: { type: 'array', items: GenomeVersionSchema }
+  },
+  required: ['versions']
+} as const satisfies JsonSchema;
+
+export const DiffQuerySchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'integer', minimum: 1 },
+    to: { type: 'integer', minimum: 1, description: 'Defaults to the current version' }
+  },
+  required: ['from']
+} as const satisfies JsonSchema;
+
+const ChangeSchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'number' },
+    to: { type: 'number' },
+    delta: { type: 'number' }
+  },
+  required: ['from', 'to', 'delta']
+} as const satisfies JsonSchema;
+
+export const GenomeDiffSchema = {
+  title: 'GenomeDiff',
+  type: 'object',
+  properties: {
+    genomeId: { type: 'string' },
+    fromVersion: { type: 'integer' },
+    toVersion: { type: 'integer' },
+    distributionDelta: DistributionSchema,
+    primary: {
+      type: 'object',
+      properties: { from: DesignationSchema, to: DesignationSchema, changed: { type: 'boolean' } },
+      required: ['from', 'to', 'changed']
+    },
+    glyph: {
+      type: 'object',
+      properties: { from: GlyphSchema, to: GlyphSchema, changed: { type: 'boolean' } },
+      required: ['from', 'to', 'changed']
+    },
+    secondary: {
+      type: 'object',
+      properties: {
+        from: { anyOf: [DesignationSchema, { type: 'null' }] },
+        to: { anyOf: [DesignationSchema, { type: 'null' }] },
+        changed: { type: 'boolean' }
+      },
+      required: ['from', 'to', 'changed']
+    },
+    confidence: ChangeSchema,
+    signalCount: ChangeSchema
+  },
+  required: ['genomeId', 'fromVersion', 'toVersion', 'distributionDelta', 'primary', 'glyph', 'secondary', 'confidence', 'signalCount']
+} as const satisfies JsonSchema;
+
+const DesignationShiftSchema = {
+  type: 'object',
+  properties: {
+    designation: DesignationSchema,
+    glyph: GlyphSchema,
+    delta: { type: 'number' }
+  },
+  required: ['designation', 'glyph', 'delta']
+} as const satisfies JsonSchema;
+
+export const DriftChangePointSchema = {
+  title: 'DriftChangePoint',
+  type: 'object',
+  properties: {
+    at: { type: 'string', format: 'date-time' },
+    index: { type: 'integer' },
+    magnitude: { type: 'number', description: 'Total-variation distance between the windows either side' },
+    from: DesignationSchema,
+    to: DesignationSchema,
+    toward: { type: 'array', items: DesignationShiftSchema },
+    awayFrom: { type: 'array', items: DesignationShiftSchema }
+  },
+  required: ['at', 'index', 'magnitude', 'from', 'to', 'toward', 'awayFrom']
+} as const satisfies JsonSchema;
+
+export const DriftReportSchema = {
+  title: 'DriftReport',
+  type: 'object',
+  properties: {
+    detected: { type: 'boolean' },
+    checkedAt: { type: 'string', format: 'date-time' },
+    points: { type: 'integer' },
+    changePoints: { type: 'array', items: DriftChangePointSchema },
+    latest: { anyOf: [DriftChangePointSchema, { type: 'null' }] }
+  },
+  required: ['detected', 'checkedAt', 'points', 'changePoints', 'latest']
+} as const satisfies JsonSchema;
+
+export const ReplayRequestSchema = {
+  title: 'ReplayRequest',
+  type: 'object',
+  properties: {
+    configId: { type: 'string', minLength: 1, description: 'Registered scoring config to replay under' },
+    configVersion: { type: 'integer' }
+  }
+} as const satisfies JsonSchema;
+
+export const ReplayResultSchema = {
+  title: 'ReplayResult',
+  type: 'object',
+  properties: {
+    success: SuccessSchema,
+    configId: { type: 'string' },
+    genome: PublicGenomeSchema
+  },
+  required: ['success', 'configId', 'genome']
+} as const satisfies JsonSchema;
+
+export const MergeRequestSchema = {
+  title: 'MergeRequest',
+  type: 'object',
+  properties: {
+    sourceUserIds: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } }
+  },
+  required: ['sourceUserIds']
+} as const satisfies JsonSchema;
+
+export const GenomeProvenanceSchema = {
+  title: 'GenomeProvenance',
+  type: 'object',
+  properties: {
+    userId: { type: 'string' },
+    genomeId: { type: ['string', 'null'] },
+    version: { type: ['integer', 'null'] },
+    designation: { anyOf: [DesignationSchema, { type: 'null' }] },
+    sources: { type: 'array', items: { type: 'string' } },
+    signalCount: { type: 'integer' },
+    contributed: { type: 'integer' },
+    mergedAt: { type: 'string', format: 'date-time' }
+  },
+  required: ['userId', 'genomeId', 'version', 'designation', 'sources', 'signalCount', 'contributed', 'mergedAt']
+} as const satisfies JsonSchema;
+
+export const MergeResultSchema = {
+  title: 'MergeResult',
+  type: 'object',
+  properties: {
+    success: SuccessSchema,
+    mergedSignals: { type: 'integer' },
+    duplicates: { type: 'integer' },
+    provenance: { type: 'array', items: GenomeProvenanceSchema },
+    genome: PublicGenomeSchema
+  },
+  required: ['success', 'mergedSignals', 'duplicates', 'provenance', 'genome']
+} as const satisfies JsonSchema;
+
+export const RollbackRequestSchema = {
+  title: 'RollbackRequest',
+  type: 'object',
+  properties: {
+    version: { type: 'integer', minimum: 1 }
+  },
+  required: ['version']
+} as const satisfies JsonSchema;
+
+export const RollbackResultSchema = {
+  title: 'RollbackResult',
+  type: 'object',
+  properties: {
+    success: SuccessSchema,
+    restoredFrom: { type: 'integer' },
+    genome: PublicGenomeSchema
+  },
+  required: ['success', 'restoredFrom', 'genome']
+} as const satisfies JsonSchema;
+
+// Contexts
+
+export const ContextInfoSchema = {
+  title: 'ContextInfo',
+  type: 'object',
+  properties: {
+    label: { type: 'string' },
+    description: { type: 'string' },
+    standard: { type: 'boolean' }
+  },
+  required: ['label', 'description', 'standard']
+} as const satisfies JsonSchema;
+
+export const ContextListSchema = {
+  title: 'ContextList',
+  type: 'object',
+  properties: {
+    contexts: { type: 'array', items: ContextInfoSchema }
+  },
+  required: ['contexts']
+} as const satisfies JsonSchema;
+
+export const ContextParamsSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    context: { type: 'string', minLength: 1 }
+  },
+  required: ['userId', 'context']
+} as const satisfies JsonSchema;
+
+export const ContextualProfileSchema = {
+  title: 'ContextualProfile',
+  type: 'object',
+  properties: {
+    context: { type: 'string' },
+    description: { type: ['string', 'null'], description: 'Null for contexts only known from tagged signals' },
+    active: { type: 'boolean', description: 'False until signals in the context have been applied' },
+    lastActive: { type: ['string', 'null'], format: 'date-time' },
+    primary: RankedDesignationSchema,
+    distribution: DistributionSchema
+  },
+  required: ['context', 'description', 'active', 'lastActive', 'primary', 'distribution']
+} as const satisfies JsonSchema;
+
+// Profiling
+
+const SerializedResponseSchema = {
+  type: 'object',
+  properties: {
+    questionId: { type: 'string', minLength: 1 },
+    response: QuizSubmissionSchema.properties.responses.items.properties.response,
+    timestamp: { type: 'string', format: 'date-time' },
+    responseTimeMs: { type: 'number', minimum: 0 },
+    listenMs: { type: 'array', items: { type: 'number', minimum: 0 } }
+  },
+  required: ['questionId', 'response', 'timestamp']
+} as const satisfies JsonSchema;
+
+const AssessmentTimesSchema = {
+  startedAt: { type: 'string', format: 'date-time' },
+  completedAt: { type: ['string', 'null'], format: 'date-time' }
+} as const;
+
+const SerializedAssessmentSchema = {
+  title: 'SerializedAssessment',
+  description: 'Active assessment; questions are referenced by id',
+  anyOf: [
+    {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', const: 'initial' },
+        questionIds: ItemsSchema,
+        currentIndex: { type: 'integer', minimum: 0 },
+        responses: { type: 'array', items: SerializedResponseSchema },
+        ...AssessmentTimesSchema
+      },
+      required: ['kind', 'questionIds', 'currentIndex', 'responses', 'startedAt', 'completedAt']
+    },
+    {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', const: 'calibration' },
+        type: { type: 'string', minLength: 1, description: 'Stage id' },
+        questionIds: ItemsSchema,
+        currentIndex: { type: 'integer', minimum: 0 },
+        responses: { type: 'array', items: SerializedResponseSchema },
+        ...AssessmentTimesSchema
+      },
+      required: ['kind', 'type', 'questionIds', 'currentIndex', 'responses', 'startedAt', 'completedAt']
+    },
+    {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', const: 'adaptive' },
+        bankIds: ItemsSchema,
+        config: {
+          type: 'object',
+          properties: {
+            minQuestions: { type: 'integer', minimum: 0 },
+            maxQuestions: { type: 'integer', minimum: 1 },
+            topDesignations: { type: 'integer', minimum: 1 },
+            responseSharpness: { type: 'number' }
+          },
+          required: ['minQuestions', 'maxQuestions', 'topDesignations', 'responseSharpness']
+        },
+        currentId: { type: ['string', 'null'] },
+        asked: ItemsSchema,
+        responses: { type: 'array', items: SerializedResponseSchema },
+        ...AssessmentTimesSchema,
+        stopReason: { type: ['string', 'null'], enum: ['settled', 'max_questions', 'bank_exhausted', null] }
+      },
+      required: ['kind', 'bankIds', 'config', 'currentId', 'asked', 'responses', 'startedAt', 'completedAt', 'stopReason']
+    }
+  ]
+} as const satisfies JsonSchema;
+
+const SignalValueSchema = {
+  anyOf: [
+    { type: ['string', 'number', 'boolean'] },
+    { type: 'array', items: { type: 'string' } },
+    { type: 'array', items: { type: 'number' } },
+    { type: 'array', items: { type: 'array', items: { type: 'number' } } }
+  ]
+} as const satisfies JsonSchema;
+
+const StoredSignalSchema = {
+  title: 'StoredSignal',
+  description: 'A core signal with an ISO timestamp',
+  type: 'object',
+  properties: {
+    type: SignalInputSchema.properties.type,
+    source: {
+      type: 'string',
+      enum: [
+        'quiz', 'calibration', 'swipe', 'feed', 'content', 'refyn',
+        'selectr', 'dropr', 'canora', 'external', 'api', 'migration'
+      ]
+    },
+    timestamp: { type: 'string', format: 'date-time' },
+    data: {
+      anyOf: [
+        {
+          type: 'object',
+          properties: {
+            kind: {
+              type: 'string',
+              enum: ['rating', 'choice', 'likert', 'block', 'ranking', 'preference', 'comparison', 'selection']
+            },
+            questionId: { type: 'string' },
+            itemId: { type: 'string' },
+            value: SignalValueSchema,
+            archetypeWeights: ArchetypeWeightsSchema,
+            metadata: { type: 'object' }
+          },
+          required: ['kind', 'value']
+        },
+        {
+          type: 'object',
+          properties: {
+            kind: { type: 'string', enum: ['dwell', 'skip', 'repeat', 'save', 'share', 'click'] },
+            itemId: { type: 'string' },
+            duration: { type: 'number' },
+            context: { type: 'string' },
+            metadata: { type: 'object' }
+          },
+          required: ['kind', 'itemId']
+        }
+      ]
+    },
+    idempotencyKey: { type: 'string' },
+    context: { type: 'string' }
+  },
+  required: ['type', 'source', 'timestamp', 'data']
+} as const satisfies JsonSchema;
+
+export const OrchestratorSnapshotSchema = {
+  title: 'OrchestratorSnapshot',
+  description: 'Output of ProfilingOrchestrator.toJSON()',
+  type: 'object',
+  properties: {
+    version: { type: 'integer' },
+    userId: { type: 'string', minLength: 1 },
+    savedAt: { type: 'string', format: 'date-time' },
+    profiling: {
+      type: 'object',
+      properties: {
+        completedStages: ItemsSchema,
+        currentStage: { type: ['string', 'null'] },
+        interactionCount: { type: 'integer', minimum: 0 },
+        lastStageCompletedAt: { type: ['string', 'null'], format: 'date-time' },
+        totalConfidence: { type: 'number', minimum: 0 }
+      },
+      required: ['completedStages', 'currentStage', 'interactionCount', 'lastStageCompletedAt', 'totalConfidence']
+    },
+    genome: { type: ['string', 'null'], description: 'serializeGenome output' },
+    pendingSignals: { type: 'array', items: StoredSignalSchema },
+    activeAssessment: { anyOf: [SerializedAssessmentSchema, { type: 'null' }] },
+    driftHistory: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          timestamp: { type: 'string', format: 'date-time' },
+          distribution: { type: 'object', additionalProperties: { type: 'number' } }
+        },
+        required: ['timestamp', 'distribution']
+      }
+    },
+    lastDriftAt: { type: ['string', 'null'], format: 'date-time' },
+    driftConfig: {
+      type: 'object',
+      properties: {
+        windowSize: { type: 'integer', minimum: 1 },
+        threshold: { type: 'number', minimum: 0, maximum: 1 },
+        minShift: { type: 'number', minimum: 0 }
+      }
+    }
+  },
+  required: [
+    'version', 'userId', 'savedAt', 'profiling', 'genome', 'pendingSignals',
+    'activeAssessment', 'driftHistory', 'lastDriftAt', 'driftConfig'
+  ]
+} as const satisfies JsonSchema;
+
+export const ProfilingSessionSchema = {
+  title: 'ProfilingSession',
+  type: 'object',
+  properties: {
+    snapshot: OrchestratorSnapshotSchema
+  },
+  required: ['snapshot']
+} as const satisfies JsonSchema;
+
+export const ProfilingSavedSchema = {
+  title: 'ProfilingSaved',
+  type: 'object',
+  properties: {
+    success: SuccessSchema,
+    savedAt: { type: 'string', format: 'date-time' }
+  },
+  required: ['success']
+} as const satisfies JsonSchema;
+
+export const ReassessmentPlanSchema = {
+  title: 'ReassessmentPlan',
+  type: 'object',
+  properties: {
+    due: { type: 'boolean' },
+    reasons: { type: 'array', items: { type: 'string', enum: ['stale', 'confidence', 'drift'] } },
+    dueAt: { type: 'string', format: 'date-time' },
+    daysSinceAssessment: { type: 'number' },
+    confidence: { type: 'number' },
+    decayedConfidence: { type: 'number' },
+    drift: { anyOf: [DriftChangePointSchema, { type: 'null' }] },
+    contenders: { type: 'array', items: DesignationSchema },
+    questions: { type: 'array', items: PublicQuestionSchema }
+  },
+  required: ['due', 'reasons', 'dueAt', 'daysSinceAssessment', 'confidence', 'decayedConfidence', 'drift', 'contenders', 'questions']
+} as const satisfies JsonSchema;
+
+// Refyn
+
+const ComplexitySchema = { type: 'string', enum: ['accessible', 'moderate', 'sophisticated'] } as const satisfies JsonSchema;
+
+export const RefynContextSchema = {
+  title: 'RefynContext',
+  type: 'object',
+  properties: {
+    context: {
+      type: 'object',
+      properties: {
+        glyph: GlyphSchema,
+        creativeMode: { type: 'string' },
+        confidence: { type: 'number' },
+        promptModifiers: {
+          type: 'object',
+          properties: {
+            tone: { type: 'string' },
+            complexity: ComplexitySchema,
+            exampleStyle: { type: 'string' },
+            pacing: { type: 'string', enum: ['direct', 'exploratory', 'methodical'] },
+            aestheticKeywords: { type: 'array', items: { type: 'string' } },
+            avoidKeywords: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['tone', 'complexity', 'exampleStyle', 'pacing', 'aestheticKeywords', 'avoidKeywords']
+        },
+        identityStatement: { type: 'string' },
+        secondary: {
+          type: 'object',
+          properties: { glyph: GlyphSchema, creativeMode: { type: 'string' } },
+          required: ['glyph', 'creativeMode']
+        }
+      },
+      required: ['glyph', 'creativeMode', 'confidence', 'promptModifiers', 'identityStatement']
+    },
+    systemPrompt: { type: 'string' },
+    glyph: GlyphSchema,
+    creativeMode: { type: 'string' }
+  },
+  required: ['context', 'systemPrompt', 'glyph', 'creativeMode']
+} as const satisfies JsonSchema;
+
+export const AffinityRequestSchema = {
+  title: 'AffinityRequest',
+  type: 'object',
+  properties: {
+    contentAttributes: {
+      type: 'object',
+      properties: {
+        complexity: ComplexitySchema,
+        isExperimental: { type: 'boolean' },
+        isNostalgic: { type: 'boolean' },
+        isMinimal: { type: 'boolean' },
+        isMaximal: { type: 'boolean' }
+      }
+    }
+  },
+  required: ['contentAttributes']
+} as const satisfies JsonSchema;
+
+export const AffinityResultSchema = {
+  title: 'AffinityResult',
+  type: 'object',
+  properties: {
+    userId: { type: 'string' },
+    glyph: GlyphSchema,
+    affinity: {
+      type: 'object',
+      properties: {
+        score: { type: 'number' },
+        reasoning: { type: 'string' }
+      },
+      required: ['score', 'reasoning']
+    }
+  },
+  required: ['userId', 'glyph', 'affinity']
+} as const satisfies JsonSchema;
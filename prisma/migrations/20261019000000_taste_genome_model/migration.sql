@@ -0,0 +1,101 @@
+-- Dedicated TasteGenome table for THE TWELVE system
+-- Replaces the serialized genome previously stored in ConstellationProfile.blendWeights._genomeData
+
+CREATE TABLE IF NOT EXISTS "TasteGenome" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "userId" TEXT NOT NULL UNIQUE,
+  "version" INTEGER NOT NULL DEFAULT 1,
+
+  -- Public layer
+  "designation" TEXT NOT NULL,
+  "glyph" TEXT NOT NULL,
+  "primaryConfidence" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "secondaryDesignation" TEXT,
+  "secondaryConfidence" DOUBLE PRECISION,
+  "distribution" JSONB NOT NULL,
+  "uncertainty" JSONB,
+
+  -- Sigil layer
+  "primarySigil" TEXT NOT NULL,
+  "secondarySigil" TEXT,
+  "sigilRevealed" BOOLEAN NOT NULL DEFAULT false,
+  "sigilRevealedAt" TIMESTAMP(3),
+
+  -- Engine layer
+  "engine" JSONB NOT NULL,
+
+  -- Behaviour layer
+  "contexts" JSONB NOT NULL DEFAULT '{}',
+  "signalHistory" JSONB NOT NULL DEFAULT '[]',
+  "behaviourConfidence" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "lastCalibration" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  -- Cross-modal
+  "crossModal" JSONB NOT NULL,
+
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "TasteGenome_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "TasteGenome_designation_idx" ON "TasteGenome"("designation");
+CREATE INDEX IF NOT EXISTS "TasteGenome_glyph_idx" ON "TasteGenome"("glyph");
+
+-- Lift existing serialized genomes out of ConstellationProfile.blendWeights
+INSERT INTO "TasteGenome" (
+  "id", "userId", "version",
+  "designation", "glyph", "primaryConfidence",
+  "secondaryDesignation", "secondaryConfidence", "distribution", "uncertainty",
+  "primarySigil", "secondarySigil", "sigilRevealed", "sigilRevealedAt",
+  "engine",
+  "contexts", "signalHistory", "behaviourConfidence", "lastCalibration",
+  "crossModal",
+  "createdAt", "updatedAt"
+)
+SELECT
+  g->>'id',
+  cp."userId",
+  COALESCE((g->>'version')::INTEGER, 1),
+  g->'archetype'->'primary'->>'designation',
+  g->'archetype'->'primary'->>'glyph',
+  COALESCE((g->'archetype'->'primary'->>'confidence')::DOUBLE PRECISION, 0),
+  g->'archetype'->'secondary'->>'designation',
+  (g->'archetype'->'secondary'->>'confidence')::DOUBLE PRECISION,
+  COALESCE(g->'archetype'->'distribution', '{}'::JSONB),
+  g->'archetype'->'uncertainty',
+  g->'formal'->>'primarySigil',
+  g->'formal'->>'secondarySigil',
+  COALESCE((g->'formal'->>'revealed')::BOOLEAN, false),
+  (g->'formal'->>'revealedAt')::TIMESTAMP(3),
+  g->'_engine',
+  COALESCE(g->'behaviour'->'contexts', '{}'::JSONB),
+  COALESCE(g->'behaviour'->'signalHistory', '[]'::JSONB),
+  COALESCE((g->'behaviour'->>'confidence')::DOUBLE PRECISION, 0),
+  COALESCE((g->'behaviour'->>'lastCalibration')::TIMESTAMP(3), CURRENT_TIMESTAMP),
+  COALESCE(g->'crossModal', '{}'::JSONB),
+  COALESCE((g->>'createdAt')::TIMESTAMP(3), cp."createdAt"),
+  COALESCE((g->>'updatedAt')::TIMESTAMP(3), cp."updatedAt")
+FROM (
+  SELECT "userId", "createdAt", "updatedAt", ("blendWeights"->>'_genomeData')::JSONB AS g
+  FROM "ConstellationProfile"
+  WHERE "blendWeights" ? '_genomeData'
+) AS cp
+ON CONFLICT ("userId") DO NOTHING;
+
+-- Record THE TWELVE summary in its own columns and drop the blob
+UPDATE "ConstellationProfile" cp
+SET
+  "designation" = tg."designation",
+  "glyph" = tg."glyph",
+  "sigil" = tg."primarySigil",
+  "sigilRevealed" = tg."sigilRevealed",
+  "primaryConfidence" = tg."primaryConfidence",
+  "secondaryDesignation" = tg."secondaryDesignation",
+  "secondaryConfidence" = COALESCE(tg."secondaryConfidence", 0),
+  "dimensionScores" = tg."distribution",
+  "genomeVersion" = tg."version",
+  "migratedToTwelve" = true,
+  "blendWeights" = cp."blendWeights" - '_genomeData'
+FROM "TasteGenome" tg
+WHERE tg."userId" = cp."userId"
+  AND cp."blendWeights" ? '_genomeData';
@@ -0,0 +1,12 @@
+-- SignalHistory becomes the append-only signal log
+-- Idempotency keys make retried submissions safe to store
+
+ALTER TABLE "SignalHistory" ADD COLUMN IF NOT EXISTS "idempotencyKey" TEXT;
+ALTER TABLE "SignalHistory" ADD COLUMN IF NOT EXISTS "source" TEXT;
+ALTER TABLE "SignalHistory" ADD COLUMN IF NOT EXISTS "occurredAt" TIMESTAMP(3);
+
+-- Any pre-existing rows get their own id as key
+UPDATE "SignalHistory" SET "idempotencyKey" = "id" WHERE "idempotencyKey" IS NULL;
+ALTER TABLE "SignalHistory" ALTER COLUMN "idempotencyKey" SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "SignalHistory_userId_idempotencyKey_key" ON "SignalHistory"("userId", "idempotencyKey");
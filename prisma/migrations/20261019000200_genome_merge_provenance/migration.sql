@@ -0,0 +1,3 @@
+-- Record which linked accounts were merged into each genome
+
+ALTER TABLE "TasteGenome" ADD COLUMN IF NOT EXISTS "provenance" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,7 @@
+-- ProfilingProgress holds the real stage record and a resumable orchestrator session
+
+ALTER TABLE "ProfilingProgress" ADD COLUMN IF NOT EXISTS "inProgress" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "ProfilingProgress" ADD COLUMN IF NOT EXISTS "interactionCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "ProfilingProgress" ADD COLUMN IF NOT EXISTS "totalConfidence" DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE "ProfilingProgress" ADD COLUMN IF NOT EXISTS "lastStageCompletedAt" TIMESTAMP(3);
+ALTER TABLE "ProfilingProgress" ADD COLUMN IF NOT EXISTS "session" JSONB;
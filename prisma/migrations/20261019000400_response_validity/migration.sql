@@ -0,0 +1,6 @@
+-- Record response quality on genomes and quiz sessions
+
+ALTER TABLE "TasteGenome" ADD COLUMN IF NOT EXISTS "validity" JSONB;
+
+ALTER TABLE "QuizSession" ADD COLUMN IF NOT EXISTS "validityScore" DOUBLE PRECISION;
+ALTER TABLE "QuizSession" ADD COLUMN IF NOT EXISTS "validityFlags" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,40 @@
+/**
+ * Drift Check
+ *
+ * Checks every stored genome's recent signals for taste drift and records
+ * the result on the constellation profile. Meant to run on a schedule, so
+ * signal ingest does not reload the log.
+ *
+ * Run with: npx tsx scripts/check-drift.ts
+ */
+
+import { prisma } from '../src/lib/prisma';
+import { recordGenomeDrift } from '../src/lib/genome-service';
+
+async function main() {
+  const users: Array<{ userId: string }> = await prisma.tasteGenome.findMany({
+    select: { userId: true }
+  });
+
+  let checked = 0;
+  let failed = 0;
+
+  for (const { userId } of users) {
+    try {
+      await recordGenomeDrift(userId);
+      checked++;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to check drift for ${userId}:`, error);
+    }
+  }
+
+  console.log(`Checked ${checked} genomes for drift, ${failed} failed`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
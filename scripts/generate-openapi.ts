@@ -0,0 +1,16 @@
+/**
+ * OpenAPI generator
+ *
+ * Writes the /api/v2 OpenAPI document (also served at GET /api/v2/openapi)
+ * so it can be committed and diffed alongside route changes.
+ *
+ * Run with: npx tsx scripts/generate-openapi.ts [out.json]
+ */
+
+import { writeFileSync } from 'fs';
+import { buildOpenApiDocument } from '@subtaste/sdk/schema';
+
+const out = process.argv[2] || 'docs/openapi.json';
+
+writeFileSync(out, JSON.stringify(buildOpenApiDocument(), null, 2) + '\n');
+console.log(`Wrote OpenAPI document to ${out}`);
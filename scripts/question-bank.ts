@@ -0,0 +1,80 @@
+/**
+ * Question bank tool
+ *
+ * Run with:
+ *   npx tsx scripts/question-bank.ts export <out.json>       Write the built-in bank as an artefact
+ *   npx tsx scripts/question-bank.ts validate <bank.json>     Check a bank file
+ *   npx tsx scripts/question-bank.ts diff <old.json> <new.json>
+ *                                                            Report question changes and Glyph shifts
+ * A bank path of "builtin" stands for the bank compiled into the profiler.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import {
+  getBuiltInQuestionBank,
+  loadQuestionBank,
+  serializeQuestionBank,
+  validateQuestionBank,
+  type QuestionBankArtefact
+} from '@subtaste/profiler/questions';
+import { diffQuestionBanks } from '@subtaste/profiler/validation';
+
+function readBank(path: string): QuestionBankArtefact {
+  return path === 'builtin'
+    ? getBuiltInQuestionBank()
+    : loadQuestionBank(readFileSync(path, 'utf8'));
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function runExport(out: string) {
+  writeFileSync(out, serializeQuestionBank(getBuiltInQuestionBank()) + '\n');
+  console.log(`Wrote built-in bank to ${out}`);
+}
+
+function runValidate(path: string) {
+  const issues = validateQuestionBank(JSON.parse(readFileSync(path, 'utf8')));
+
+  if (issues.length === 0) {
+    console.log(`PASS ${path}`);
+    return;
+  }
+
+  issues.forEach(issue => console.log(`FAIL ${issue.path || '(root)'}: ${issue.message}`));
+  process.exitCode = 1;
+}
+
+function runDiff(fromPath: string, toPath: string) {
+  const diff = diffQuestionBanks(readBank(fromPath), readBank(toPath));
+
+  console.log(`${diff.from.id}@${diff.from.version} -> ${diff.to.id}@${diff.to.version}`);
+  console.log(`Added:   ${diff.added.join(', ') || '-'}`);
+  console.log(`Removed: ${diff.removed.join(', ') || '-'}`);
+  console.log(`Changed: ${diff.changed.join(', ') || '-'}`);
+  console.log('');
+
+  console.log('Glyph base-rates (simulated respondents)');
+  for (const shift of diff.glyphShifts) {
+    const sign = shift.delta >= 0 ? '+' : '';
+    console.log(`  ${shift.glyph.padEnd(8)} ${percent(shift.before).padStart(6)} -> ${percent(shift.after).padStart(6)}  (${sign}${percent(shift.delta)})`);
+  }
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+switch (command) {
+  case 'export':
+    runExport(args[0] || 'question-bank.json');
+    break;
+  case 'validate':
+    runValidate(args[0]);
+    break;
+  case 'diff':
+    runDiff(args[0], args[1]);
+    break;
+  default:
+    console.log('Usage: question-bank.ts export <out.json> | validate <bank.json> | diff <old.json> <new.json>');
+    process.exitCode = 1;
+}
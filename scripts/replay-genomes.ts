@@ -0,0 +1,55 @@
+/**
+ * Genome Backfill
+ *
+ * Rebuilds every stored genome from its SignalHistory log, e.g. after
+ * retuning scoring weights. Optionally loads a fitted ScoringConfig artefact.
+ *
+ * Run with: npx tsx scripts/replay-genomes.ts [artefact.json]
+ */
+
+import { readFileSync } from 'fs';
+import { loadScoringConfigArtefact } from '@subtaste/core';
+import type { ScoringConfig } from '@subtaste/core';
+import { prisma } from '../src/lib/prisma';
+import { replayGenomeFromLog } from '../src/lib/genome-service';
+
+async function main() {
+  const artefactPath = process.argv[2];
+  let scoring: ScoringConfig | undefined;
+
+  if (artefactPath) {
+    const artefact = loadScoringConfigArtefact(readFileSync(artefactPath, 'utf8'));
+    scoring = artefact.config;
+    console.log(`Replaying with scoring config ${artefact.id}@${artefact.version}`);
+  }
+
+  const users: Array<{ userId: string }> = await prisma.tasteGenome.findMany({
+    select: { userId: true }
+  });
+
+  let replayed = 0;
+  let skipped = 0;
+
+  for (const { userId } of users) {
+    try {
+      const genome = await replayGenomeFromLog(userId, scoring);
+      if (genome) {
+        replayed++;
+      } else {
+        skipped++;
+      }
+    } catch (error) {
+      skipped++;
+      console.error(`Failed to replay ${userId}:`, error);
+    }
+  }
+
+  console.log(`Replayed ${replayed} genomes, skipped ${skipped}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { selectAdaptiveQuestions } from '@/lib/quiz/adaptive-selection';
 import { itemBank } from '@/lib/quiz/item-bank';
+import { assessResponseValidity } from '@subtaste/profiler';
 
 interface QuizAnswer {
   questionId: string;
@@ -114,6 +115,7 @@ export async function GET(request: NextRequest) {
  * PATCH /api/quiz/session
  *
  * Submit answer and advance session.
+ * On the last answer the session's response validity is recorded.
  */
 export async function PATCH(request: NextRequest) {
   try {
@@ -165,6 +167,16 @@ export async function PATCH(request: NextRequest) {
     const nextIndex = session.currentQuestionIndex + 1;
     const isComplete = nextIndex >= questionIds.length;
 
+    // Straight-lining and answer speed across the whole session
+    const validity = isComplete
+      ? assessResponseValidity(answers.map((a) => ({
+          questionId: a.questionId,
+          response: a.answer as 1 | 2 | 3 | 4 | 5,
+          timestamp: new Date(a.answeredAt),
+          responseTimeMs: a.responseTimeMs,
+        })))
+      : null;
+
     // Update session
     await prisma.quizSession.update({
       where: { id: sessionId },
@@ -172,6 +184,10 @@ export async function PATCH(request: NextRequest) {
         answers,
         currentQuestionIndex: nextIndex,
         status: isComplete ? 'completed' : 'in_progress',
+        ...(validity && {
+          validityScore: validity.score,
+          validityFlags: validity.flags,
+        }),
       },
     });
 
@@ -191,6 +207,10 @@ export async function PATCH(request: NextRequest) {
         answeredCount: answers.length,
       },
       nextQuestion,
+      ...(validity && {
+        validityScore: validity.score,
+        validityFlags: validity.flags,
+      }),
     });
   } catch (error) {
     console.error('Answer submission error:', error);
@@ -0,0 +1,28 @@
+/**
+ * GET /api/v2/contexts
+ *
+ * The contexts profiles are kept for: the standard three plus those apps
+ * registered. Detection rules and scoring overrides stay on the server.
+ */
+
+import { NextResponse } from 'next/server';
+import { listContexts, STANDARD_CONTEXTS } from '@subtaste/core';
+import '@/lib/app-contexts';
+
+export async function GET() {
+  try {
+    const contexts = listContexts().map(({ label, description }) => ({
+      label,
+      description,
+      standard: STANDARD_CONTEXTS.some(c => c.label === label)
+    }));
+
+    return NextResponse.json({ contexts });
+  } catch (error) {
+    console.error('Context list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list contexts' },
+      { status: 500 }
+    );
+  }
+}
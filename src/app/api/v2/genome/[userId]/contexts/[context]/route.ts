@@ -0,0 +1,50 @@
+/**
+ * GET /api/v2/genome/[userId]/contexts/[context]
+ *
+ * The user's archetype distribution within a named context, e.g.
+ * /contexts/Curating or /contexts/DJ%20set%20prep.
+ * Safe for client-side use - reports designations and glyphs only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getContextualProfile } from '@/lib/genome-service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string; context: string }> }
+) {
+  try {
+    const { userId, context } = await params;
+
+    if (!userId || !context) {
+      return NextResponse.json(
+        { error: 'User ID and context are required' },
+        { status: 400 }
+      );
+    }
+
+    const profile = await getContextualProfile(userId, decodeURIComponent(context));
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Genome not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!profile.description && !profile.active) {
+      return NextResponse.json(
+        { error: 'Unknown context' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error('Context distribution error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get context distribution' },
+      { status: 500 }
+    );
+  }
+}
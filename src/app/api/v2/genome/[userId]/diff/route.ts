@@ -0,0 +1,47 @@
+/**
+ * GET /api/v2/genome/[userId]/diff?from=<version>&to=<version>
+ *
+ * Diff two genome versions: distribution delta, Glyph change and
+ * confidence change. `to` defaults to the current genome.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DiffQuerySchema } from '@subtaste/sdk/schema';
+import { diffGenomeVersions } from '@/lib/genome-service';
+import { readQuery } from '@/lib/api-validation';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const query = readQuery(request, DiffQuerySchema);
+    if (query instanceof NextResponse) return query;
+
+    const diff = await diffGenomeVersions(userId, query.from, query.to);
+
+    if (!diff) {
+      return NextResponse.json(
+        { error: 'Genome version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error('Genome diff error:', error);
+    return NextResponse.json(
+      { error: 'Failed to diff genome versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * GET /api/v2/genome/[userId]/drift
+ *
+ * Run change-point detection over the user's recent classified signals.
+ * Read-only; the stored drift flags are refreshed on signal ingest.
+ * Safe for client-side use - reports designations and glyphs only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkGenomeDrift } from '@/lib/genome-service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const report = await checkGenomeDrift(userId);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Drift check error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check drift' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * GET /api/v2/genome/[userId]/history
+ *
+ * List stored genome versions (server-side only).
+ * With ?asOf=<ISO date>, returns the full genome as it was at that time.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { HistoryQuerySchema } from '@subtaste/sdk/schema';
+import { getGenomeHistory, getGenomeAsOf } from '@/lib/genome-service';
+import { readQuery } from '@/lib/api-validation';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const query = readQuery(request, HistoryQuerySchema);
+    if (query instanceof NextResponse) return query;
+
+    if (query.asOf) {
+      const genome = await getGenomeAsOf(userId, new Date(query.asOf));
+
+      if (!genome) {
+        return NextResponse.json(
+          { error: 'No genome version at that time' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(genome);
+    }
+
+    const versions = await getGenomeHistory(userId);
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Genome history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch genome history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * POST /api/v2/genome/[userId]/merge
+ *
+ * Merge linked accounts (e.g. SELECTR, DROPR and CANORA profiles) into this
+ * user's genome. Signal logs are deduplicated and the classification is
+ * recomputed from their union; each merged account is recorded as provenance.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { mergeAccounts } from '@/lib/genome-service';
+import { toPublicGenome } from '@subtaste/core';
+import { MergeRequestSchema } from '@subtaste/sdk/schema';
+import { readBody } from '@/lib/api-validation';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await readBody(request, MergeRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { sourceUserIds } = body;
+
+    const result = await mergeAccounts(userId, sourceUserIds);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Account not found, or no genome or signals for these accounts' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      mergedSignals: result.signals.length,
+      duplicates: result.duplicates,
+      provenance: result.provenance,
+      genome: toPublicGenome(result.genome)
+    });
+  } catch (error) {
+    console.error('Account merge error:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge accounts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * POST /api/v2/genome/[userId]/replay
+ *
+ * Rebuild the genome from the user's SignalHistory log.
+ * Optionally replays under a registered ScoringConfig (e.g. after a retune).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { replayGenomeFromLog } from '@/lib/genome-service';
+import { getScoringConfig, toPublicGenome } from '@subtaste/core';
+import { ReplayRequestSchema } from '@subtaste/sdk/schema';
+import { readBody } from '@/lib/api-validation';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await readBody(request, ReplayRequestSchema, { optional: true });
+    if (body instanceof NextResponse) return body;
+
+    let scoring;
+    try {
+      scoring = body.configId
+        ? getScoringConfig(body.configId, body.configVersion)
+        : undefined;
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Unknown scoring config' },
+        { status: 400 }
+      );
+    }
+
+    const genome = await replayGenomeFromLog(userId, scoring);
+
+    if (!genome) {
+      return NextResponse.json(
+        { error: 'No signals logged for user' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      configId: body.configId || 'default',
+      genome: toPublicGenome(genome)
+    });
+  } catch (error) {
+    console.error('Genome replay error:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay genome' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * POST /api/v2/genome/[userId]/rollback
+ *
+ * Restore an earlier genome version, e.g. after a bad signal import.
+ * The restored state is stored as a new version.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rollbackGenomeToVersion } from '@/lib/genome-service';
+import { toPublicGenome } from '@subtaste/core';
+import { RollbackRequestSchema } from '@subtaste/sdk/schema';
+import { readBody } from '@/lib/api-validation';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await readBody(request, RollbackRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { version } = body;
+
+    const genome = await rollbackGenomeToVersion(userId, version);
+
+    if (!genome) {
+      return NextResponse.json(
+        { error: 'Genome version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      restoredFrom: version,
+      genome: toPublicGenome(genome)
+    });
+  } catch (error) {
+    console.error('Genome rollback error:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back genome' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,7 +7,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { GenomeQuerySchema } from '@subtaste/sdk/schema';
 import { getGenome, migrateToTwelve } from '@/lib/genome-service';
+import { readQuery } from '@/lib/api-validation';
 
 export async function GET(
   request: NextRequest,
@@ -24,8 +26,9 @@ export async function GET(
     }
 
     // Check for migration flag
-    const { searchParams } = new URL(request.url);
-    const migrate = searchParams.get('migrate') === 'true';
+    const query = readQuery(request, GenomeQuerySchema);
+    if (query instanceof NextResponse) return query;
+    const { migrate = false } = query;
 
     let genome = await getGenome(userId);
 
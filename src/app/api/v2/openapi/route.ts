@@ -0,0 +1,13 @@
+/**
+ * GET /api/v2/openapi
+ *
+ * OpenAPI 3.1 document for every /api/v2 route, built from the same
+ * schemas the routes validate against.
+ */
+
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@subtaste/sdk/schema';
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
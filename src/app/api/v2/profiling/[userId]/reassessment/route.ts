@@ -0,0 +1,47 @@
+/**
+ * GET /api/v2/profiling/[userId]/reassessment
+ *
+ * The user's re-assessment plan: whether one is due (staleness, confidence
+ * decay, drift) and the short question set aimed at the designations in
+ * contention. Safe for client-side use - questions carry no weights.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getReassessmentPlan } from '@/lib/genome-service';
+import { toPublicQuestion } from '@/lib/public-questions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const plan = await getReassessmentPlan(userId);
+
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Genome not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...plan,
+      questions: plan.questions.map(toPublicQuestion)
+    });
+  } catch (error) {
+    console.error('Reassessment plan error:', error);
+    return NextResponse.json(
+      { error: 'Failed to plan reassessment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * GET/PUT /api/v2/profiling/[userId]
+ *
+ * Load and save a user's profiling orchestrator session, so a half-finished
+ * calibration started on one device can be resumed on another.
+ * The stage record is kept in ProfilingProgress alongside the snapshot.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { orchestratorStore } from '@/lib/profiling-store';
+import {
+  ORCHESTRATOR_SNAPSHOT_VERSION,
+  type OrchestratorSnapshot
+} from '@subtaste/profiler';
+import { ProfilingSessionSchema } from '@subtaste/sdk/schema';
+import { readBody } from '@/lib/api-validation';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await orchestratorStore.load(userId);
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: 'No profiling session found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ snapshot });
+  } catch (error) {
+    console.error('Profiling session fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch profiling session' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await readBody(request, ProfilingSessionSchema);
+    if (body instanceof NextResponse) return body;
+    const snapshot: OrchestratorSnapshot = body.snapshot;
+
+    if (snapshot.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Snapshot belongs to a different user' },
+        { status: 400 }
+      );
+    }
+
+    if (snapshot.version !== ORCHESTRATOR_SNAPSHOT_VERSION) {
+      return NextResponse.json(
+        { error: `Unsupported snapshot version: ${snapshot.version}` },
+        { status: 400 }
+      );
+    }
+
+    await orchestratorStore.save(snapshot);
+
+    return NextResponse.json({ success: true, savedAt: snapshot.savedAt });
+  } catch (error) {
+    console.error('Profiling session save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save profiling session' },
+      { status: 500 }
+    );
+  }
+}
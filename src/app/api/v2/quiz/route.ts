@@ -6,68 +6,100 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { processQuizSubmission, getProfilingProgress } from '@/lib/genome-service';
+import {
+  processQuizSubmission,
+  assessQuizResponses,
+  getProfilingProgress
+} from '@/lib/genome-service';
 import {
   getQuestionById,
   type Question,
   type LikertQuestion,
-  type RankingQuestion
+  type RankingQuestion,
+  type ComparisonQuestion,
+  type MaxDiffQuestion,
+  type StimulusQuestion,
+  type QuestionResponse
 } from '@subtaste/profiler';
+import {
+  QuizSubmissionSchema,
+  QuizProgressQuerySchema,
+  type ValidationIssue
+} from '@subtaste/sdk/schema';
 import { prisma } from '@/lib/prisma';
-
-interface QuizSubmission {
-  userId?: string;
-  sessionId?: string;
-  stageId?: 'initial' | 'music' | 'deep';
-  responses: Array<{
-    questionId: string;
-    response: number | number[];
-  }>;
-}
+import { readBody, readQuery, invalidRequest } from '@/lib/api-validation';
 
 const ENTROPY_CONFIDENCE_GATE = 0.35;
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json() as QuizSubmission;
-    const { userId, sessionId, responses } = body;
-
-    if (!Array.isArray(responses) || responses.length === 0) {
-      return NextResponse.json(
-        { error: 'No responses provided' },
-        { status: 400 }
-      );
-    }
-
-    // Validate responses against question definitions
-    const validationErrors: Array<{ questionId: string; error: string }> = [];
-    for (const r of responses) {
-      if (!r || typeof r.questionId !== 'string' || r.questionId.length === 0) {
-        validationErrors.push({ questionId: String(r?.questionId || ''), error: 'Missing questionId' });
-        continue;
-      }
-
+    const body = await readBody(request, QuizSubmissionSchema);
+    if (body instanceof NextResponse) return body;
+    const { userId, sessionId, stageId } = body;
+    // The schema checks shape; validateResponse checks each answer fits its question
+    const responses = body.responses as Array<
+      Omit<(typeof body.responses)[number], 'response'> & Pick<QuestionResponse, 'response'>
+    >;
+    const validationErrors: Array<ValidationIssue & { questionId: string }> = [];
+    responses.forEach((r, i) => {
+      const field = `responses[${i}]`;
       const question = getQuestionById(r.questionId);
       if (!question) {
-        validationErrors.push({ questionId: r.questionId, error: 'Unknown questionId' });
-        continue;
+        validationErrors.push({ field: `${field}.questionId`, questionId: r.questionId, error: 'Unknown questionId' });
+        return;
       }
 
       const error = validateResponse(question, r.response);
       if (error) {
-        validationErrors.push({ questionId: r.questionId, error });
+        validationErrors.push({ field: `${field}.response`, questionId: r.questionId, error });
       }
-    }
+
+      if (r.listenMs !== undefined) {
+        const stimuli = question.type === 'stimulus' ? (question as StimulusQuestion).stimuli.length : 0;
+        if (r.listenMs.length !== stimuli) {
+          validationErrors.push({
+            field: `${field}.listenMs`,
+            questionId: r.questionId,
+            error: stimuli > 0
+              ? `listenMs must list ${stimuli} non-negative durations`
+              : 'listenMs is only accepted for stimulus questions'
+          });
+        }
+      }
+    });
 
     if (validationErrors.length > 0) {
+      return invalidRequest('Invalid response format', validationErrors);
+    }
+
+    // Reject careless submissions before they reach the classifier
+    const validity = assessQuizResponses(responses);
+
+    if (validity.rejected) {
+      if (sessionId) {
+        await prisma.quizSession.update({
+          where: { id: sessionId },
+          data: {
+            validityScore: validity.score,
+            validityFlags: validity.flags
+          }
+        }).catch(() => {
+          console.log('Quiz session not found:', sessionId);
+        });
+      }
+
       return NextResponse.json(
-        { error: 'Invalid response format', details: validationErrors },
-        { status: 400 }
+        {
+          error: 'Responses failed quality checks',
+          validityScore: validity.score,
+          validityFlags: validity.flags
+        },
+        { status: 422 }
       );
     }
 
     // Process quiz and create genome
-    const result = await processQuizSubmission(userId, responses);
+    const result = await processQuizSubmission(userId, responses, stageId, validity);
     const entropyConfidence = calculateEntropyConfidence(result.genome.archetype.distribution);
     const sufficientData = entropyConfidence >= ENTROPY_CONFIDENCE_GATE;
 
@@ -83,7 +115,9 @@ export async function POST(request: NextRequest) {
             glyph: result.genome.archetype.primary.glyph,
             confidence: result.genome.confidence,
             responses
-          }
+          },
+          validityScore: validity.score,
+          validityFlags: validity.flags
         }
       }).catch(() => {
         // Session might not exist, ignore error
@@ -91,20 +125,7 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Save to profile history
-    await prisma.profileHistory.create({
-      data: {
-        userId: result.userId,
-        profileType: 'genome',
-        profileData: {
-          designation: result.genome.archetype.primary.designation,
-          glyph: result.genome.archetype.primary.glyph,
-          confidence: result.genome.confidence,
-          version: result.genome.version
-        },
-        trigger: 'quiz_complete'
-      }
-    });
+    // Profile history snapshot is written by the genome service
 
     console.log('Quiz submitted for user:', result.userId);
 
@@ -117,7 +138,10 @@ export async function POST(request: NextRequest) {
       confidence: result.genome.confidence,
       entropyConfidence,
       confidenceThreshold: ENTROPY_CONFIDENCE_GATE,
-      sufficientData
+      sufficientData,
+      status: result.genome.status,
+      validityScore: validity.score,
+      validityFlags: validity.flags
     });
   } catch (error) {
     console.error('Quiz submission error:', error);
@@ -136,15 +160,9 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID required' },
-        { status: 400 }
-      );
-    }
+    const query = readQuery(request, QuizProgressQuerySchema);
+    if (query instanceof NextResponse) return query;
+    const { userId } = query;
 
     const progress = await getProfilingProgress(userId);
 
@@ -161,7 +179,9 @@ export async function GET(request: NextRequest) {
       hasStarted: true,
       currentStage: progress.currentStage,
       stagesCompleted: progress.stagesCompleted,
-      signalCount: progress.signalCount
+      signalCount: progress.signalCount,
+      inProgress: progress.inProgress,
+      lastStageCompletedAt: progress.lastStageCompletedAt
     });
   } catch (error) {
     console.error('Quiz progress fetch error:', error);
@@ -172,7 +192,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function validateResponse(question: Question, response: number | number[]): string | null {
+function validateResponse(question: Question, response: QuestionResponse['response']): string | null {
   if (question.type === 'binary') {
     if (typeof response !== 'number' || !Number.isInteger(response) || (response !== 0 && response !== 1)) {
       return 'Binary response must be 0 or 1';
@@ -219,6 +239,45 @@ function validateResponse(question: Question, response: number | number[]): stri
     return null;
   }
 
+  if (question.type === 'comparison') {
+    const comparison = question as ComparisonQuestion;
+    if (!Array.isArray(response) || response.length !== comparison.pairs.length) {
+      return `Comparison response must pick one item for each of ${comparison.pairs.length} pairs`;
+    }
+    for (let i = 0; i < response.length; i++) {
+      if (!comparison.pairs[i].includes(response[i] as number)) {
+        return `Comparison pick ${i} must be one of items ${comparison.pairs[i].join(' or ')}`;
+      }
+    }
+    return null;
+  }
+
+  if (question.type === 'maxdiff') {
+    const maxdiff = question as MaxDiffQuestion;
+    if (!Array.isArray(response) || response.length !== maxdiff.sets.length) {
+      return `MaxDiff response must give [best, worst] for each of ${maxdiff.sets.length} sets`;
+    }
+    for (let i = 0; i < response.length; i++) {
+      const pick = response[i];
+      const set = maxdiff.sets[i];
+      if (!Array.isArray(pick) || pick.length !== 2 || !set.includes(pick[0]) || !set.includes(pick[1])) {
+        return `MaxDiff pick ${i} must be [best, worst] from items ${set.join(', ')}`;
+      }
+      if (pick[0] === pick[1]) {
+        return `MaxDiff pick ${i} must not use the same item as best and worst`;
+      }
+    }
+    return null;
+  }
+
+  if (question.type === 'stimulus') {
+    const stimulus = question as StimulusQuestion;
+    if (typeof response !== 'number' || !Number.isInteger(response) || response < 0 || response >= stimulus.stimuli.length) {
+      return `Stimulus response must be an index between 0 and ${stimulus.stimuli.length - 1}`;
+    }
+    return null;
+  }
+
   return 'Unsupported question type';
 }
 
@@ -12,7 +12,8 @@ import {
   generateTasteSystemPrompt,
   assessContentAffinity
 } from '@subtaste/sdk';
-import type { ComplexityLevel } from '@subtaste/sdk';
+import { AffinityRequestSchema } from '@subtaste/sdk/schema';
+import { readBody } from '@/lib/api-validation';
 
 export async function GET(
   request: NextRequest,
@@ -59,7 +60,7 @@ export async function GET(
 }
 
 /**
- * POST /api/v2/refyn/[userId]/affinity
+ * POST /api/v2/refyn/[userId]
  *
  * Assess content affinity for a user.
  * Returns compatibility score and reasoning.
@@ -78,23 +79,9 @@ export async function POST(
       );
     }
 
-    const body = await request.json();
-    const { contentAttributes } = body as {
-      contentAttributes: {
-        complexity?: ComplexityLevel;
-        isExperimental?: boolean;
-        isNostalgic?: boolean;
-        isMinimal?: boolean;
-        isMaximal?: boolean;
-      };
-    };
-
-    if (!contentAttributes) {
-      return NextResponse.json(
-        { error: 'Content attributes required' },
-        { status: 400 }
-      );
-    }
+    const body = await readBody(request, AffinityRequestSchema);
+    if (body instanceof NextResponse) return body;
+    const { contentAttributes } = body;
 
     const genome = await getPublicGenome(userId);
 
@@ -7,20 +7,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { updateGenomeFromSignals, getPublicGenome } from '@/lib/genome-service';
-import type { Signal, Designation } from '@subtaste/core';
+import type { Signal } from '@subtaste/core';
+import { SignalSubmissionSchema } from '@subtaste/sdk/schema';
 import { prisma } from '@/lib/prisma';
-
-interface SignalSubmission {
-  signals: Array<{
-    type: 'explicit' | 'intentional_implicit' | 'unintentional_implicit';
-    itemId: string;
-    kind?: string;
-    value?: string | number;
-    archetypeWeights?: Partial<Record<Designation, number>>;
-    timestamp?: string;
-    metadata?: Record<string, unknown>;
-  }>;
-}
+import { readBody } from '@/lib/api-validation';
 
 export async function POST(
   request: NextRequest,
@@ -49,16 +39,10 @@ export async function POST(
       );
     }
 
-    const body = await request.json() as SignalSubmission;
+    const body = await readBody(request, SignalSubmissionSchema);
+    if (body instanceof NextResponse) return body;
     const { signals } = body;
 
-    if (!signals || signals.length === 0) {
-      return NextResponse.json(
-        { error: 'No signals provided' },
-        { status: 400 }
-      );
-    }
-
     // Convert to Signal format
     const normalisedSignals: Signal[] = signals.map(s => ({
       type: s.type,
@@ -75,7 +59,9 @@ export async function POST(
         itemId: s.itemId,
         duration: typeof s.value === 'number' ? s.value : undefined,
         metadata: s.metadata
-      }
+      },
+      ...(s.idempotencyKey && { idempotencyKey: s.idempotencyKey }),
+      ...(s.context && { context: s.context })
     }));
 
     // Update genome with new signals
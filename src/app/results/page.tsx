@@ -3,10 +3,11 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { Share2, RefreshCw, Sparkles, LogIn, Trash2, LogOut } from 'lucide-react';
+import { Share2, RefreshCw, Sparkles, LogIn, Trash2, LogOut, TrendingUp, X } from 'lucide-react';
 import { ARCHETYPES } from '@/lib/archetypes/config';
 import { ArchetypeId, ARCHETYPE_IDS } from '@/lib/archetypes/types';
 import { AuthModal, useAuth } from '@/components/auth';
+import type { DriftReport } from '@subtaste/core';
 
 interface ArchetypeResult {
   primaryArchetypeId: ArchetypeId;
@@ -33,6 +34,7 @@ export default function ResultsPage() {
   const [loading, setLoading] = useState(true);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [drift, setDrift] = useState<DriftReport['latest']>(null);
 
   useEffect(() => {
     // Load results from localStorage
@@ -57,13 +59,32 @@ export default function ResultsPage() {
     }
 
     setLoading(false);
+
+    // Check for taste drift since the last dismissed notification
+    fetch(`/api/v2/genome/${userId}/drift`)
+      .then(res => (res.ok ? res.json() : null))
+      .then((report: DriftReport | null) => {
+        const latest = report?.latest;
+        if (latest && localStorage.getItem('subtaste_drift_seen') !== String(latest.at)) {
+          setDrift(latest);
+        }
+      })
+      .catch(e => console.error('Failed to check drift:', e));
   }, [router]);
 
+  const handleDismissDrift = () => {
+    if (drift) {
+      localStorage.setItem('subtaste_drift_seen', String(drift.at));
+    }
+    setDrift(null);
+  };
+
   const handleClearData = async () => {
     // Clear localStorage
     localStorage.removeItem('subtaste_user_id');
     localStorage.removeItem('subtaste_archetype');
     localStorage.removeItem('subtaste_enneagram');
+    localStorage.removeItem('subtaste_drift_seen');
 
     // If logged in, sign out
     if (user) {
@@ -187,6 +208,37 @@ export default function ResultsPage() {
           </motion.div>
         )}
 
+        {/* Taste drift notification */}
+        {drift && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="relative bg-fuchsia-900/20 border border-fuchsia-800/50 rounded-xl p-4 mb-6"
+          >
+            <button
+              onClick={handleDismissDrift}
+              className="absolute top-3 right-3 text-neutral-500 hover:text-white transition-colors"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+            <div className="flex items-start gap-3 pr-6">
+              <TrendingUp className="w-5 h-5 text-fuchsia-400 mt-0.5 shrink-0" />
+              <div>
+                <p className="text-sm font-medium text-white">Your taste has evolved</p>
+                <p className="text-sm text-fuchsia-300 mt-1">
+                  Since {new Date(drift.at).toLocaleDateString()} you have been moving toward{' '}
+                  {drift.toward.slice(0, 2).map(s => s.glyph).join(' and ') || drift.to}
+                  {drift.awayFrom.length > 0 && (
+                    <> and away from {drift.awayFrom.slice(0, 2).map(s => s.glyph).join(' and ')}</>
+                  )}
+                  .
+                </p>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
         {/* Primary Archetype Card */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
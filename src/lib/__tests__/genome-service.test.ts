@@ -0,0 +1,168 @@
+/**
+ * Genome Service Tests
+ *
+ * Persistence is replaced with in-memory fakes; the genome maths is real.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Signal, Designation } from '@subtaste/core';
+import { createGenomeFromSignals } from '@subtaste/core';
+import { INITIAL_QUESTIONS } from '@subtaste/profiler';
+
+const db = vi.hoisted(() => {
+  const prisma = {
+    constellationProfile: { updateMany: vi.fn(), findUnique: vi.fn() },
+    psychometricProfile: { findUnique: vi.fn() },
+    profileHistory: { create: vi.fn() },
+    profilingProgress: { findUnique: vi.fn(), upsert: vi.fn() },
+    user: { findMany: vi.fn() },
+    $transaction: vi.fn()
+  };
+  prisma.$transaction.mockImplementation(async (run: (tx: typeof prisma) => unknown) => run(prisma));
+
+  return {
+    prisma,
+    genomeStorage: { get: vi.fn(), save: vi.fn() },
+    signalLog: {
+      recordSignals: vi.fn(async (_userId: string, signals: Signal[]) => signals),
+      markSignalsProcessed: vi.fn(),
+      loadSignals: vi.fn<(userId: string) => Promise<Signal[]>>(async () => [])
+    }
+  };
+});
+
+vi.mock('../prisma', () => ({ prisma: db.prisma }));
+vi.mock('../genome-storage', () => ({
+  genomeStorage: db.genomeStorage,
+  createPrismaGenomeStorage: () => db.genomeStorage
+}));
+vi.mock('../signal-log', () => ({
+  ...db.signalLog,
+  toSignals: () => []
+}));
+
+import {
+  updateGenomeFromSignals,
+  processQuizSubmission,
+  getReassessmentPlan,
+  revealSigil,
+  mergeAccounts
+} from '../genome-service';
+
+const now = new Date('2026-10-01T12:00:00Z');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeSignal = (weights: Partial<Record<Designation, number>>, id: string): Signal => ({
+  type: 'explicit',
+  source: 'quiz',
+  timestamp: now,
+  idempotencyKey: id,
+  data: { kind: 'choice', questionId: id, value: 0, archetypeWeights: weights }
+});
+
+describe('Genome Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('updateGenomeFromSignals()', () => {
+    it('should fold in only the new batch for an existing genome', async () => {
+      db.genomeStorage.get.mockResolvedValue(
+        createGenomeFromSignals('user-1', [makeSignal({ 'V-2': 0.8 }, 'a-1')], undefined, { now })
+      );
+
+      const genome = await updateGenomeFromSignals('user-1', [makeSignal({ 'C-4': 0.9 }, 'b-1')]);
+
+      expect(db.signalLog.loadSignals).not.toHaveBeenCalled();
+      expect(db.genomeStorage.save).toHaveBeenCalledWith(genome);
+      expect(db.signalLog.markSignalsProcessed).toHaveBeenCalledWith('user-1', [expect.objectContaining({ idempotencyKey: 'b-1' })]);
+    });
+  });
+
+  describe('processQuizSubmission()', () => {
+    it('should mark a due re-assessment as done', async () => {
+      db.genomeStorage.get.mockResolvedValue(
+        createGenomeFromSignals('user-1', [makeSignal({ 'V-2': 0.8 }, 'a-1')], undefined, { now })
+      );
+
+      let row = {
+        userId: 'user-1',
+        currentStage: 'calibration',
+        stagesCompleted: ['initial'],
+        signalCount: 1,
+        inProgress: false,
+        interactionCount: 1,
+        totalConfidence: 0.3,
+        lastStageCompletedAt: new Date(Date.now() - 45 * DAY),
+        session: null
+      };
+      db.prisma.profilingProgress.findUnique.mockImplementation(async () => row);
+      db.prisma.profilingProgress.upsert.mockImplementation(async ({ update }: { update: Partial<typeof row> }) => {
+        row = { ...row, ...update };
+      });
+
+      expect((await getReassessmentPlan('user-1'))?.reasons).toContain('stale');
+
+      await processQuizSubmission(
+        'user-1',
+        INITIAL_QUESTIONS.slice(0, 3).map(q => ({ questionId: q.id, response: 0, responseTimeMs: 3000 })),
+        'reassessment'
+      );
+
+      expect(row.stagesCompleted).toEqual(['initial']);
+      expect(Date.now() - row.lastStageCompletedAt.getTime()).toBeLessThan(DAY);
+      expect((await getReassessmentPlan('user-1'))?.reasons).not.toContain('stale');
+    });
+  });
+
+  describe('revealSigil()', () => {
+    it('should write one version however often the reveal is retried', async () => {
+      let stored = createGenomeFromSignals('user-1', [makeSignal({ 'V-2': 0.8 }, 'a-1')], undefined, { now });
+      db.genomeStorage.get.mockImplementation(async () => stored);
+      db.genomeStorage.save.mockImplementation(async (genome: typeof stored) => {
+        stored = genome;
+      });
+
+      expect(await revealSigil('user-1')).toBe(true);
+      expect(await revealSigil('user-1')).toBe(true);
+
+      expect(stored.formal.revealed).toBe(true);
+      expect(db.genomeStorage.save).toHaveBeenCalledTimes(1);
+      expect(db.prisma.profileHistory.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('mergeAccounts()', () => {
+    const logs: Record<string, Signal[]> = {
+      'user-1': [makeSignal({ 'V-2': 0.8 }, 'a-1')],
+      'user-2': [makeSignal({ 'C-4': 0.9 }, 'b-1'), makeSignal({ 'C-4': 0.7 }, 'b-2')]
+    };
+
+    beforeEach(() => {
+      db.genomeStorage.get.mockResolvedValue(null);
+      db.signalLog.loadSignals.mockImplementation(async (userId: string) => logs[userId] ?? []);
+      db.prisma.psychometricProfile.findUnique.mockResolvedValue(null);
+    });
+
+    it('should not merge into an account that does not exist', async () => {
+      db.prisma.user.findMany.mockResolvedValue([{ id: 'user-2' }]);
+
+      expect(await mergeAccounts('user-1', ['user-2'])).toBeNull();
+      expect(db.prisma.$transaction).not.toHaveBeenCalled();
+      expect(db.signalLog.recordSignals).not.toHaveBeenCalled();
+    });
+
+    it('should write the log and the genome in one transaction', async () => {
+      db.prisma.user.findMany.mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }]);
+
+      const result = await mergeAccounts('user-1', ['user-2']);
+
+      expect(result?.signals).toHaveLength(3);
+      expect(db.prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(db.signalLog.recordSignals).toHaveBeenCalledWith('user-1', result!.signals, true, db.prisma);
+      expect(db.signalLog.markSignalsProcessed).toHaveBeenCalledWith('user-1', result!.signals, db.prisma);
+      expect(db.genomeStorage.save).toHaveBeenCalledWith(result!.genome);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * API Validation
+ *
+ * Reads request bodies and query strings against the shared v2 schemas.
+ * Failures become a 400 with the ErrorResponse envelope:
+ * { error, details: [{ field, error }] }.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  validate,
+  validateQuery,
+  type FromSchema,
+  type JsonSchema,
+  type ValidationIssue
+} from '@subtaste/sdk/schema';
+
+/**
+ * 400 response for validation issues
+ */
+export function invalidRequest(error: string, details: ValidationIssue[]): NextResponse {
+  return NextResponse.json({ error, details }, { status: 400 });
+}
+
+/**
+ * Parse and validate a JSON body
+ * An empty body is read as {} when `optional` is set.
+ * Returns the body, or a 400 response to return as-is.
+ */
+export async function readBody<S extends JsonSchema>(
+  request: NextRequest,
+  schema: S,
+  options: { optional?: boolean } = {}
+): Promise<FromSchema<S> | NextResponse> {
+  const text = await request.text();
+  let body: unknown;
+
+  if (text.trim() === '' && options.optional) {
+    body = {};
+  } else {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return invalidRequest('Invalid request body', [{ field: '', error: 'must be valid JSON' }]);
+    }
+  }
+
+  const issues = validate(schema, body);
+  return issues.length > 0
+    ? invalidRequest('Invalid request body', issues)
+    : body as FromSchema<S>;
+}
+
+/**
+ * Validate the query string
+ * Returns the parsed parameters, or a 400 response to return as-is.
+ */
+export function readQuery<S extends JsonSchema>(
+  request: NextRequest,
+  schema: S
+): FromSchema<S> | NextResponse {
+  const { searchParams } = new URL(request.url);
+  const { value, issues } = validateQuery(schema, searchParams);
+
+  return issues.length > 0
+    ? invalidRequest('Invalid query', issues)
+    : value as FromSchema<S>;
+}
@@ -0,0 +1,65 @@
+/**
+ * App Contexts
+ *
+ * Contexts the Subtaste apps define on top of Creating, Consuming and
+ * Curating. Importing this module registers them with @subtaste/core.
+ */
+
+import { registerContext, type ContextDefinition } from '@subtaste/core';
+
+/**
+ * DROPR contexts
+ */
+export const DROPR_CONTEXTS: ContextDefinition[] = [
+  {
+    label: 'DJ set prep',
+    description: 'Digging, saving and ordering tracks for a set',
+    scoring: {
+      psychometricWeight: 0.7,
+      signalWeights: {
+        explicit: 1.0,
+        intentionalImplicit: 0.9,
+        unintentionalImplicit: 0.2
+      }
+    },
+    detection: {
+      features: {
+        'source:dropr': 5,
+        'kind:save': 4,
+        'kind:ranking': 3,
+        'kind:skip': 3,
+        'shape:burst': 2,
+        'span:long': 2,
+        'hour:afternoon': 1,
+        'hour:evening': 2
+      },
+      prior: 2
+    }
+  },
+  {
+    label: 'Late-night listening',
+    description: 'Long, unhurried listening after midnight',
+    scoring: {
+      psychometricWeight: 0.5,
+      signalWeights: {
+        explicit: 0.6,
+        intentionalImplicit: 0.7,
+        unintentionalImplicit: 0.6
+      }
+    },
+    detection: {
+      features: {
+        'source:dropr': 4,
+        'hour:night': 6,
+        'kind:dwell': 3,
+        'kind:repeat': 3,
+        'dwell:long': 4,
+        'explicit:low': 3,
+        'span:long': 3
+      },
+      prior: 2
+    }
+  }
+];
+
+DROPR_CONTEXTS.forEach(registerContext);
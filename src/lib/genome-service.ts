@@ -4,54 +4,107 @@
  * Bridge between @subtaste/core packages and Prisma database.
  * Handles genome storage, retrieval, and updates for THE TWELVE system.
  *
- * Note: Until the database migration is applied, this service stores
- * genome data in the existing ConstellationProfile JSON fields.
+ * Genomes live in the TasteGenome table (see genome-storage.ts). Genomes
+ * still serialized in ConstellationProfile.blendWeights._genomeData from
+ * before the migration are lifted into the table on first read.
  */
 
+import type { Prisma } from '@prisma/client';
 import { prisma } from './prisma';
+import { genomeStorage, createPrismaGenomeStorage } from './genome-storage';
+import { recordSignals, markSignalsProcessed, loadSignals, toSignals } from './signal-log';
 import type {
   TasteGenome,
   TasteGenomePublic,
   Signal,
-  Psychometrics
+  Psychometrics,
+  Designation,
+  Glyph,
+  GenomeDiff,
+  DriftReport,
+  AccountMergeResult,
+  GenomeValidity,
+  ScoringConfig
 } from '@subtaste/core';
 import {
-  createGenome,
   toPublicGenome,
-  classify,
   generateIdentityStatement,
-  getDefaultPsychometrics,
-  applyTemporalDecay,
+  applySignalsIncrementally,
+  replayGenome,
+  getGenomeSignalCount,
   serializeGenome,
-  deserializeGenome
+  deserializeGenome,
+  revealSigil as revealGenomeSigil,
+  incrementVersion,
+  diffGenomes,
+  rollbackGenome,
+  classifySignalWindows,
+  detectDrift,
+  mergeAccountGenomes,
+  tagSignalContexts,
+  updateContextsFromSignals,
+  getContextModel,
+  getContextDefinition,
+  getContextualDistribution,
+  getContextualPrimary,
+  getArchetype
 } from '@subtaste/core';
-import { responsesToSignals } from '@subtaste/profiler';
+import {
+  responsesToSignals,
+  assessResponseValidity,
+  applyResponseValidity,
+  toGenomeValidity,
+  planReassessment,
+  type ResponseValidity,
+  type QuestionResponse,
+  type ReassessmentPlan,
+  type StageId
+} from '@subtaste/profiler';
+import { recordStageCompleted, fromProgressColumns, toProgressColumns } from './profiling-store';
+import './app-contexts';
 
 /**
  * Get full genome for a user (server-side only)
  */
 export async function getGenome(userId: string): Promise<TasteGenome | null> {
+  const genome = await genomeStorage.get(userId);
+
+  if (genome) {
+    return genome;
+  }
+
+  return liftLegacyGenome(userId);
+}
+
+/**
+ * Move a genome serialized in ConstellationProfile.blendWeights into the TasteGenome table
+ */
+async function liftLegacyGenome(userId: string): Promise<TasteGenome | null> {
   const profile = await prisma.constellationProfile.findUnique({
     where: { userId }
   });
 
-  if (!profile) {
+  const { _genomeData, ...blendWeights } = (profile?.blendWeights || {}) as { _genomeData?: string };
+
+  if (typeof _genomeData !== 'string') {
+    // No stored genome - user hasn't been migrated to THE TWELVE yet
     return null;
   }
 
-  // Check if we have a stored genome in blendWeights (repurposed for THE TWELVE)
-  const storedGenome = profile.blendWeights as { _genomeData?: string } | null;
-
-  if (storedGenome && typeof storedGenome._genomeData === 'string') {
-    try {
-      return deserializeGenome(storedGenome._genomeData);
-    } catch {
-      // Fall through to reconstruction
-    }
+  let genome: TasteGenome;
+  try {
+    genome = deserializeGenome(_genomeData);
+  } catch {
+    return null;
   }
 
-  // No stored genome - user hasn't been migrated to THE TWELVE yet
-  return null;
+  await genomeStorage.save(genome);
+  await prisma.constellationProfile.update({
+    where: { userId },
+    data: { blendWeights }
+  });
+
+  return genome;
 }
 
 /**
@@ -67,116 +120,460 @@ export async function getPublicGenome(userId: string): Promise<TasteGenomePublic
   return toPublicGenome(genome);
 }
 
+/**
+ * ProfileHistory type for append-only genome snapshots
+ */
+const GENOME_SNAPSHOT_TYPE = 'genome_snapshot';
+
+/**
+ * Summary of a stored genome version
+ */
+export interface GenomeVersionSummary {
+  version: number;
+  trigger: string;
+  createdAt: Date;
+  designation: Designation;
+  glyph: Glyph;
+  confidence: number;
+}
+
 /**
  * Store a genome in the database
+ * The current genome is overwritten; every version is also appended to ProfileHistory.
+ */
+async function storeGenome(
+  userId: string,
+  genome: TasteGenome,
+  trigger = 'signals'
+): Promise<void> {
+  // One transaction, so the genome, its summary and its history never disagree
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await writeGenome(tx, userId, genome, trigger);
+  });
+}
+
+/**
+ * Write a genome, its constellation summary and its history snapshot
+ * through a transaction client
  */
-async function storeGenome(userId: string, genome: TasteGenome): Promise<void> {
+async function writeGenome(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  genome: TasteGenome,
+  trigger: string
+): Promise<void> {
   const serialized = serializeGenome(genome);
 
-  await prisma.constellationProfile.upsert({
+  await createPrismaGenomeStorage(tx).save(genome);
+
+  // Mirror THE TWELVE summary onto the constellation profile, if the user has one
+  await tx.constellationProfile.updateMany({
     where: { userId },
-    create: {
-      userId,
-      primaryConstellationId: genome.archetype.primary.designation,
-      blendWeights: {
-        _genomeData: serialized,
-        // Also store distribution for backwards compatibility
-        ...genome.archetype.distribution
-      },
-      // Legacy archetype field for migration tracking
-      primaryArchetypeId: genome.archetype.primary.glyph,
-      archetypeBlendWeights: genome.archetype.distribution,
-      migratedToArchetypes: true,
+    data: {
+      designation: genome.archetype.primary.designation,
+      glyph: genome.archetype.primary.glyph,
+      sigil: genome.formal.primarySigil,
+      sigilRevealed: genome.formal.revealed,
+      primaryConfidence: genome.archetype.primary.confidence,
+      secondaryDesignation: genome.archetype.secondary?.designation || null,
+      secondaryConfidence: genome.archetype.secondary?.confidence || 0,
+      dimensionScores: genome.archetype.distribution,
+      genomeVersion: genome.version,
+      totalSignals: getGenomeSignalCount(genome),
+      migratedToTwelve: true,
       identityStatement: generateIdentityStatement(
         genome.archetype.primary.designation,
         genome.archetype.secondary?.designation || null
       ),
-      subtasteIndex: genome.behaviour.confidence * 100,
-      explorerScore: 50, // Default
-      earlyAdopterScore: 50 // Default
-    },
-    update: {
-      primaryConstellationId: genome.archetype.primary.designation,
-      blendWeights: {
+      subtasteIndex: genome.behaviour.confidence * 100
+    }
+  });
+
+  await tx.profileHistory.create({
+    data: {
+      userId,
+      profileType: GENOME_SNAPSHOT_TYPE,
+      profileData: {
         _genomeData: serialized,
-        ...genome.archetype.distribution
+        designation: genome.archetype.primary.designation,
+        glyph: genome.archetype.primary.glyph,
+        confidence: genome.behaviour.confidence
       },
-      primaryArchetypeId: genome.archetype.primary.glyph,
-      archetypeBlendWeights: genome.archetype.distribution,
-      migratedToArchetypes: true,
-      identityStatement: generateIdentityStatement(
-        genome.archetype.primary.designation,
-        genome.archetype.secondary?.designation || null
-      ),
-      subtasteIndex: genome.behaviour.confidence * 100
+      version: genome.version,
+      trigger
     }
   });
 }
 
+/**
+ * List stored genome versions, newest first
+ */
+export async function getGenomeHistory(userId: string): Promise<GenomeVersionSummary[]> {
+  const rows = await prisma.profileHistory.findMany({
+    where: { userId, profileType: GENOME_SNAPSHOT_TYPE },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return rows.map((row: { version: number; trigger: string; createdAt: Date; profileData: unknown }) => {
+    const data = row.profileData as { designation: Designation; glyph: Glyph; confidence: number };
+    return {
+      version: row.version,
+      trigger: row.trigger,
+      createdAt: row.createdAt,
+      designation: data.designation,
+      glyph: data.glyph,
+      confidence: data.confidence
+    };
+  });
+}
+
+/**
+ * Get a specific stored genome version
+ */
+export async function getGenomeVersion(
+  userId: string,
+  version: number
+): Promise<TasteGenome | null> {
+  const row = await prisma.profileHistory.findFirst({
+    where: { userId, profileType: GENOME_SNAPSHOT_TYPE, version },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return row ? snapshotToGenome(row.profileData) : null;
+}
+
+/**
+ * Reconstruct the genome as it was at a point in time
+ */
+export async function getGenomeAsOf(
+  userId: string,
+  asOf: Date
+): Promise<TasteGenome | null> {
+  const row = await prisma.profileHistory.findFirst({
+    where: { userId, profileType: GENOME_SNAPSHOT_TYPE, createdAt: { lte: asOf } },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return row ? snapshotToGenome(row.profileData) : null;
+}
+
+/**
+ * Diff two stored genome versions (toVersion defaults to the current genome)
+ */
+export async function diffGenomeVersions(
+  userId: string,
+  fromVersion: number,
+  toVersion?: number
+): Promise<GenomeDiff | null> {
+  const [from, to] = await Promise.all([
+    getGenomeVersion(userId, fromVersion),
+    toVersion !== undefined ? getGenomeVersion(userId, toVersion) : getGenome(userId)
+  ]);
+
+  if (!from || !to) {
+    return null;
+  }
+
+  return diffGenomes(from, to);
+}
+
+/**
+ * Roll the genome back to an earlier version
+ * The restored state is stored as a new version, so the rollback is itself reversible.
+ */
+export async function rollbackGenomeToVersion(
+  userId: string,
+  version: number
+): Promise<TasteGenome | null> {
+  const [current, target] = await Promise.all([
+    getGenome(userId),
+    getGenomeVersion(userId, version)
+  ]);
+
+  if (!current || !target) {
+    return null;
+  }
+
+  const restored = rollbackGenome(current, target);
+  await storeGenome(userId, restored, `rollback:${version}`);
+
+  return restored;
+}
+
+/**
+ * Parse a genome snapshot row
+ */
+function snapshotToGenome(profileData: unknown): TasteGenome | null {
+  const data = profileData as { _genomeData?: string } | null;
+
+  if (!data || typeof data._genomeData !== 'string') {
+    return null;
+  }
+
+  try {
+    return deserializeGenome(data._genomeData);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Incremental update options for stored genomes
+ * ~30 day half-life; raw signals live in SignalHistory, so the genome
+ * keeps aggregates only.
+ */
+const INCREMENTAL_OPTIONS = {
+  config: { dailyDecay: 0.97, maxHistorySize: 0 }
+};
+
 /**
  * Create or update genome from signals
+ *
+ * Signals are tagged with a context and logged to SignalHistory first;
+ * retried submissions with the same idempotency key are not applied twice.
+ * Existing genomes are updated incrementally from the new signals only, new
+ * genomes are built from the log. Each context's profile is updated from the
+ * signals tagged with it. Pass the assessment's validity to record it on the genome.
  */
 export async function updateGenomeFromSignals(
   userId: string,
-  newSignals: Signal[]
+  newSignals: Signal[],
+  trigger = 'signals',
+  validity?: GenomeValidity
 ): Promise<TasteGenome> {
   // Get existing genome if any
   const existingGenome = await getGenome(userId);
 
-  // Get existing psychometrics or use defaults
-  const existingPsychometrics = existingGenome?._engine?.psychometrics
-    || await fetchPsychometricsFromProfile(userId)
-    || getDefaultPsychometrics();
+  // Older genomes still carry raw signals; move them into the log first
+  if (existingGenome && existingGenome.behaviour.signalHistory.length > 0) {
+    await recordSignals(userId, toSignals(existingGenome.behaviour.signalHistory), true);
+  }
 
-  // Merge with existing signal history
-  const allSignals: Signal[] = existingGenome?.behaviour?.signalHistory
-    ? [...existingGenome.behaviour.signalHistory, ...newSignals]
-    : newSignals;
+  const accepted = await recordSignals(userId, tagSignalContexts(newSignals, getContextModel()));
 
-  // Apply temporal decay to signals
-  const decayedSignals = applyTemporalDecay(allSignals, {
-    dailyDecay: 0.97 // ~30 day half-life
-  });
+  if (existingGenome && accepted.length === 0) {
+    return existingGenome;
+  }
+
+  let genome: TasteGenome;
+
+  if (existingGenome) {
+    genome = applySignalsIncrementally(existingGenome, accepted, INCREMENTAL_OPTIONS);
+    genome = updateContextsFromSignals(genome, accepted, undefined, INCREMENTAL_OPTIONS);
+  } else {
+    // Seed trait priors from the legacy psychometric profile if one exists
+    const basePsychometrics = await fetchPsychometricsFromProfile(userId) || undefined;
+    const log = await loadSignals(userId);
+
+    genome = replayGenome(userId, log, {
+      ...INCREMENTAL_OPTIONS,
+      basePsychometrics
+    });
+    genome = updateContextsFromSignals(genome, log, undefined, INCREMENTAL_OPTIONS);
+  }
+
+  if (validity) {
+    genome = { ...genome, behaviour: { ...genome.behaviour, validity } };
+  }
+
+  // Store the genome
+  await storeGenome(userId, genome, trigger);
+  await markSignalsProcessed(userId, accepted);
+
+  return genome;
+}
+
+/**
+ * Rebuild a user's genome from the signal log with a given scoring config
+ * Used for backfills after retuning weights. The genome id is kept and the
+ * rebuild is stored as a new version.
+ */
+export async function replayGenomeFromLog(
+  userId: string,
+  scoring: Partial<ScoringConfig> = {}
+): Promise<TasteGenome | null> {
+  const signals = await loadSignals(userId);
 
-  // Classify using all signals
-  const classificationResult = classify({
-    signals: decayedSignals,
-    existingPsychometrics
+  if (signals.length === 0) {
+    return null;
+  }
+
+  const [existingGenome, basePsychometrics] = await Promise.all([
+    getGenome(userId),
+    fetchPsychometricsFromProfile(userId)
+  ]);
+
+  const genome = replayGenome(userId, signals, {
+    ...INCREMENTAL_OPTIONS,
+    scoring,
+    basePsychometrics: basePsychometrics || undefined,
+    genome: existingGenome || undefined
   });
 
-  // Create genome from classification
-  const genome = createGenome({
-    userId,
-    classification: {
-      primary: {
-        designation: classificationResult.classification.primary.designation,
-        confidence: classificationResult.classification.primary.confidence
-      },
-      secondary: classificationResult.classification.secondary ? {
-        designation: classificationResult.classification.secondary.designation,
-        confidence: classificationResult.classification.secondary.confidence
-      } : null,
-      distribution: classificationResult.classification.distribution
-    },
-    psychometrics: classificationResult.psychometrics,
-    sephiroticBalance: classificationResult.sephiroticBalance,
-    orishaResonance: classificationResult.orishaResonance
+  await storeGenome(userId, genome, 'replay');
+
+  return genome;
+}
+
+/**
+ * Merge linked accounts into a target account
+ *
+ * Signal logs are unioned with deduplication and copied into the target's
+ * log; the target genome is rebuilt from the union and stored as a new
+ * version with provenance for each merged account. Source accounts are left
+ * unchanged. Returns null if any of the accounts does not exist, or none of
+ * them has a genome or signals.
+ */
+export async function mergeAccounts(
+  targetUserId: string,
+  sourceUserIds: string[]
+): Promise<AccountMergeResult | null> {
+  const userIds = [targetUserId, ...sourceUserIds.filter(id => id !== targetUserId)];
+
+  const existing = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true }
   });
 
-  // Update with signal history (convert Signal to SignalEvent format)
-  genome.behaviour.signalHistory = decayedSignals.slice(-1000).map((s, i) => ({
-    ...s,
-    id: `signal_${Date.now()}_${i}`,
-    userId,
-    processed: true
+  if (existing.length < userIds.length) {
+    return null;
+  }
+
+  const accounts = await Promise.all(userIds.map(async userId => {
+    const [genome, signals] = await Promise.all([getGenome(userId), loadSignals(userId)]);
+    return { userId, genome, signals };
   }));
-  genome.behaviour.confidence = classificationResult.classification.primary.confidence;
-  genome.behaviour.lastCalibration = new Date();
 
-  // Store the genome
-  await storeGenome(userId, genome);
+  const [target, ...others] = accounts;
 
-  return genome;
+  if (accounts.every(account => !account.genome && account.signals.length === 0)) {
+    return null;
+  }
+
+  const basePsychometrics = await fetchPsychometricsFromProfile(targetUserId) || undefined;
+
+  const result = mergeAccountGenomes(target, others, {
+    ...INCREMENTAL_OPTIONS,
+    basePsychometrics
+  });
+
+  // One transaction, so a failed merge leaves the target's log and genome untouched
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await recordSignals(targetUserId, result.signals, true, tx);
+    await writeGenome(tx, targetUserId, result.genome, `merge:${others.map(a => a.userId).join(',')}`);
+    await markSignalsProcessed(targetUserId, result.signals, tx);
+  });
+
+  return result;
+}
+
+/**
+ * Signals per classified window when checking for drift
+ */
+const DRIFT_WINDOW_SIZE = 10;
+
+/**
+ * Most recent signals drift is checked over
+ */
+const DRIFT_SIGNAL_LIMIT = 500;
+
+/**
+ * Check a user's recent signals for taste drift
+ * The latest signals are classified in overlapping windows and scanned for
+ * change points. Read-only; see recordGenomeDrift.
+ */
+export async function checkGenomeDrift(userId: string): Promise<DriftReport> {
+  const signals = await loadSignals(userId, DRIFT_SIGNAL_LIMIT);
+  return detectDrift(classifySignalWindows(signals, { size: DRIFT_WINDOW_SIZE }));
+}
+
+/**
+ * Check for drift and mirror the result onto the constellation profile
+ * Kept off signal ingest, which only folds in the new batch; run it from a
+ * scheduled job (scripts/check-drift.ts).
+ */
+export async function recordGenomeDrift(userId: string): Promise<void> {
+  const report = await checkGenomeDrift(userId);
+
+  await prisma.constellationProfile.updateMany({
+    where: { userId },
+    data: {
+      lastDriftCheck: report.checkedAt,
+      driftDetected: report.detected
+    }
+  });
+}
+
+/**
+ * Plan a user's next re-assessment
+ * Staleness is measured from the last completed stage, and drift is checked
+ * over the recent signal log. Returns null for users without a genome.
+ */
+export async function getReassessmentPlan(userId: string): Promise<ReassessmentPlan | null> {
+  const [genome, record, drift] = await Promise.all([
+    getGenome(userId),
+    prisma.profilingProgress.findUnique({ where: { userId } }),
+    checkGenomeDrift(userId)
+  ]);
+
+  if (!genome) {
+    return null;
+  }
+
+  return planReassessment(genome, {
+    drift,
+    lastAssessedAt: record?.lastStageCompletedAt ?? null
+  });
+}
+
+/**
+ * A user's taste within one context
+ */
+export interface ContextualProfile {
+  context: string;
+
+  // Null for contexts only known from tagged signals
+  description: string | null;
+
+  // False until signals in the context have been applied
+  active: boolean;
+  lastActive: Date | null;
+
+  primary: { designation: Designation; glyph: Glyph; confidence: number };
+  distribution: Record<Designation, number>;
+}
+
+/**
+ * Get a user's distribution for a named context
+ * Registered contexts without signals yet fall back to the overall
+ * distribution. Returns null for users without a genome; unknown contexts
+ * come back neither described nor active.
+ */
+export async function getContextualProfile(
+  userId: string,
+  context: string
+): Promise<ContextualProfile | null> {
+  const genome = await getGenome(userId);
+
+  if (!genome) {
+    return null;
+  }
+
+  const profile = genome.behaviour.contexts[context];
+  const primary = getContextualPrimary(genome, context);
+
+  return {
+    context,
+    description: getContextDefinition(context)?.description ?? null,
+    active: Boolean(profile),
+    lastActive: profile ? profile.lastActive : null,
+    primary: {
+      designation: primary.designation,
+      glyph: getArchetype(primary.designation).glyph,
+      confidence: primary.confidence
+    },
+    distribution: getContextualDistribution(genome, context)
+  };
 }
 
 /**
@@ -214,6 +611,7 @@ async function fetchPsychometricsFromProfile(userId: string): Promise<Psychometr
 
 /**
  * Reveal sigil for a user
+ * Idempotent: revealing an already revealed sigil writes nothing.
  */
 export async function revealSigil(userId: string): Promise<boolean> {
   const genome = await getGenome(userId);
@@ -222,23 +620,42 @@ export async function revealSigil(userId: string): Promise<boolean> {
     return false;
   }
 
-  // Update genome to reveal sigil
-  genome.formal.revealed = true;
-  genome.formal.revealedAt = new Date();
-  genome.updatedAt = new Date();
+  // Already revealed; a retried reveal must not add another version
+  if (genome.formal.revealed) {
+    return true;
+  }
 
-  await storeGenome(userId, genome);
+  // Reveal as a new version so each snapshot is distinct
+  await storeGenome(userId, incrementVersion(revealGenomeSigil(genome)), 'sigil_reveal');
 
   return true;
 }
 
+/**
+ * Check quiz responses for careless answering
+ */
+export function assessQuizResponses(
+  responses: Array<{ questionId: string; response: QuestionResponse['response']; responseTimeMs?: number; listenMs?: number[] }>
+): ResponseValidity {
+  return assessResponseValidity(responses.map((r) => ({
+    questionId: r.questionId,
+    response: r.response,
+    timestamp: new Date(),
+    ...(typeof r.responseTimeMs === 'number' && { responseTimeMs: r.responseTimeMs })
+  })));
+}
+
 /**
  * Process quiz submission and create initial genome
+ * The submitted stage is recorded as completed in ProfilingProgress.
+ * Signals are down-weighted by the responses' validity before classification.
  */
 export async function processQuizSubmission(
   userId: string | undefined,
-  responses: Array<{ questionId: string; response: number | number[] }>
-): Promise<{ userId: string; genome: TasteGenomePublic }> {
+  responses: Array<{ questionId: string; response: QuestionResponse['response']; responseTimeMs?: number; listenMs?: number[] }>,
+  stageId: StageId = 'initial',
+  validity: ResponseValidity = assessQuizResponses(responses)
+): Promise<{ userId: string; genome: TasteGenomePublic; validity: ResponseValidity }> {
   // Create user if needed
   let finalUserId = userId;
   if (!finalUserId) {
@@ -250,42 +667,68 @@ export async function processQuizSubmission(
   }
 
   // Convert quiz responses to signals via @subtaste/profiler mapping
-  const signals: Signal[] = responsesToSignals(
+  const signals: Signal[] = applyResponseValidity(responsesToSignals(
     responses.map((r) => ({
       questionId: r.questionId,
-      response: r.response as number | number[],
-      timestamp: new Date()
+      response: r.response,
+      timestamp: new Date(),
+      ...(Array.isArray(r.listenMs) && { listenMs: r.listenMs })
     })),
     'quiz'
-  );
+  ), validity);
 
   if (signals.length === 0) {
     throw new Error('No valid signals generated from responses');
   }
 
   // Update genome from signals
-  const genome = await updateGenomeFromSignals(finalUserId, signals);
+  const genome = await updateGenomeFromSignals(
+    finalUserId,
+    signals,
+    'quiz_complete',
+    toGenomeValidity(validity)
+  );
+
+  await recordStageCompleted(genome.userId, stageId, getGenomeSignalCount(genome));
 
   // Get public genome
   const publicGenome = toPublicGenome(genome);
 
   return {
     userId: finalUserId,
-    genome: publicGenome
+    genome: publicGenome,
+    validity
   };
 }
 
 /**
  * Get profiling progress for a user
+ * Reads the stage record from ProfilingProgress; users profiled before the
+ * stage record existed fall back to inferring stages from signal count.
  */
 export async function getProfilingProgress(userId: string) {
-  const genome = await getGenome(userId);
+  const [genome, record] = await Promise.all([
+    getGenome(userId),
+    prisma.profilingProgress.findUnique({ where: { userId } })
+  ]);
 
-  if (!genome) {
+  if (!genome && !record) {
     return null;
   }
 
-  const signalCount = genome.behaviour.signalHistory?.length || 0;
+  const signalCount = genome ? getGenomeSignalCount(genome) : record!.signalCount;
+
+  if (record) {
+    const columns = toProgressColumns(fromProgressColumns(record));
+
+    return {
+      currentStage: columns.currentStage,
+      stagesCompleted: columns.stagesCompleted,
+      signalCount,
+      inProgress: columns.inProgress,
+      lastStageCompletedAt: columns.lastStageCompletedAt
+    };
+  }
 
   // Determine stage based on signal count
   let currentStage = 'initial';
@@ -307,7 +750,9 @@ export async function getProfilingProgress(userId: string) {
   return {
     currentStage,
     stagesCompleted,
-    signalCount
+    signalCount,
+    inProgress: false,
+    lastStageCompletedAt: null
   };
 }
 
@@ -422,7 +867,7 @@ export async function migrateToTwelve(userId: string): Promise<TasteGenome | nul
   }
 
   // Create genome from signals
-  const genome = await updateGenomeFromSignals(userId, signals);
+  const genome = await updateGenomeFromSignals(userId, signals, 'migration');
 
   return genome;
 }
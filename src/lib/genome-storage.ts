@@ -0,0 +1,154 @@
+/**
+ * Genome Storage (Prisma)
+ *
+ * GenomeStorageAdapter backed by the TasteGenome table.
+ * Each genome layer is stored in its own column group; see GenomeRecord.
+ */
+
+import { Prisma } from '@prisma/client';
+import type {
+  TasteGenome,
+  GenomeRecord,
+  GenomeStorageAdapter,
+  Designation,
+  Glyph,
+  Sigil
+} from '@subtaste/core';
+import { toGenomeRecord, fromGenomeRecord } from '@subtaste/core';
+import { prisma as defaultClient } from './prisma';
+
+/**
+ * TasteGenome row fields used here
+ */
+interface TasteGenomeRow {
+  id: string;
+  userId: string;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+  designation: string;
+  glyph: string;
+  primaryConfidence: number;
+  secondaryDesignation: string | null;
+  secondaryConfidence: number | null;
+  distribution: unknown;
+  uncertainty: unknown;
+  primarySigil: string;
+  secondarySigil: string | null;
+  sigilRevealed: boolean;
+  sigilRevealedAt: Date | null;
+  engine: unknown;
+  contexts: unknown;
+  signalHistory: unknown;
+  behaviourConfidence: number;
+  lastCalibration: Date;
+  validity: unknown;
+  crossModal: unknown;
+  provenance: unknown;
+}
+
+/**
+ * Genome record from a TasteGenome row
+ */
+function fromRow(row: TasteGenomeRow): GenomeRecord {
+  return {
+    id: row.id,
+    userId: row.userId,
+    version: row.version,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    designation: row.designation as Designation,
+    glyph: row.glyph as Glyph,
+    primaryConfidence: row.primaryConfidence,
+    secondaryDesignation: row.secondaryDesignation as Designation | null,
+    secondaryConfidence: row.secondaryConfidence,
+    distribution: row.distribution as GenomeRecord['distribution'],
+    uncertainty: row.uncertainty as GenomeRecord['uncertainty'],
+    primarySigil: row.primarySigil as Sigil,
+    secondarySigil: row.secondarySigil as Sigil | null,
+    sigilRevealed: row.sigilRevealed,
+    sigilRevealedAt: row.sigilRevealedAt,
+    engine: row.engine as GenomeRecord['engine'],
+    contexts: row.contexts as GenomeRecord['contexts'],
+    signalHistory: row.signalHistory as GenomeRecord['signalHistory'],
+    behaviourConfidence: row.behaviourConfidence,
+    lastCalibration: row.lastCalibration,
+    validity: row.validity as GenomeRecord['validity'],
+    crossModal: row.crossModal as GenomeRecord['crossModal'],
+    provenance: row.provenance as GenomeRecord['provenance']
+  };
+}
+
+/**
+ * TasteGenome columns for a genome record, without the keys
+ */
+function toColumns(record: GenomeRecord) {
+  return {
+    version: record.version,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    designation: record.designation,
+    glyph: record.glyph,
+    primaryConfidence: record.primaryConfidence,
+    secondaryDesignation: record.secondaryDesignation,
+    secondaryConfidence: record.secondaryConfidence,
+    distribution: toJson(record.distribution),
+    uncertainty: record.uncertainty ? toJson(record.uncertainty) : Prisma.DbNull,
+    primarySigil: record.primarySigil,
+    secondarySigil: record.secondarySigil,
+    sigilRevealed: record.sigilRevealed,
+    sigilRevealedAt: record.sigilRevealedAt,
+    engine: toJson(record.engine),
+    contexts: toJson(record.contexts),
+    signalHistory: toJson(record.signalHistory),
+    behaviourConfidence: record.behaviourConfidence,
+    lastCalibration: record.lastCalibration,
+    validity: record.validity ? toJson(record.validity) : Prisma.DbNull,
+    crossModal: toJson(record.crossModal),
+    provenance: toJson(record.provenance)
+  };
+}
+
+/**
+ * Helper: JSON column value (dates become ISO strings)
+ */
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Create a Prisma-backed genome storage adapter
+ * Pass a transaction client to save as part of a larger write.
+ */
+export function createPrismaGenomeStorage(
+  client: Pick<typeof defaultClient, 'tasteGenome'> = defaultClient
+): GenomeStorageAdapter {
+  return {
+    async get(userId: string): Promise<TasteGenome | null> {
+      const row: TasteGenomeRow | null = await client.tasteGenome.findUnique({
+        where: { userId }
+      });
+
+      return row ? fromGenomeRecord(fromRow(row)) : null;
+    },
+
+    async save(genome: TasteGenome): Promise<void> {
+      const record = toGenomeRecord(genome);
+      const columns = toColumns(record);
+
+      await client.tasteGenome.upsert({
+        where: { userId: record.userId },
+        create: { id: record.id, userId: record.userId, ...columns },
+        update: { id: record.id, ...columns }
+      });
+    },
+
+    async delete(userId: string): Promise<void> {
+      await client.tasteGenome.deleteMany({
+        where: { userId }
+      });
+    }
+  };
+}
+
+export const genomeStorage = createPrismaGenomeStorage();
@@ -0,0 +1,198 @@
+/**
+ * Profiling Store (Prisma)
+ *
+ * OrchestratorStore backed by the ProfilingProgress table.
+ * The stage record lives in its own columns and is the source of truth;
+ * the rest of the orchestrator snapshot is kept in `session` so a
+ * half-finished assessment can be resumed on another device.
+ */
+
+import type {
+  StageId,
+  ProfilingState,
+  OrchestratorSnapshot,
+  OrchestratorStore
+} from '@subtaste/profiler';
+import {
+  ORCHESTRATOR_SNAPSHOT_VERSION,
+  REASSESSMENT_STAGE_ID,
+  getStage,
+  getAllStages,
+  createProfilingState,
+  completeStage,
+  completeReassessment,
+  serializeProfilingState,
+  deserializeProfilingState
+} from '@subtaste/profiler';
+import { prisma as defaultClient } from './prisma';
+
+/**
+ * Stage names used by ProfilingProgress and the v2 API
+ * Registered custom stages keep their own id.
+ */
+export type ProgressStage = 'initial' | 'calibration' | 'deep' | 'complete' | (string & {});
+
+/**
+ * ProfilingProgress row fields used here
+ */
+interface ProfilingProgressRow {
+  userId: string;
+  currentStage: string;
+  stagesCompleted: string[];
+  signalCount: number;
+  inProgress: boolean;
+  interactionCount: number;
+  totalConfidence: number;
+  lastStageCompletedAt: Date | null;
+  session: unknown;
+}
+
+/**
+ * Profiler stage id to ProfilingProgress stage name
+ */
+export function toProgressStage(stageId: StageId): ProgressStage {
+  return stageId === 'music' ? 'calibration' : stageId;
+}
+
+/**
+ * ProfilingProgress stage name to profiler stage id
+ */
+export function fromProgressStage(stage: string): StageId | null {
+  if (stage === 'calibration') return 'music';
+  return getStage(stage) || stage === REASSESSMENT_STAGE_ID ? stage : null;
+}
+
+/**
+ * Stage record columns for a profiling state
+ */
+export function toProgressColumns(profiling: ProfilingState) {
+  const next = getAllStages()
+    .map(stage => stage.id)
+    .find(id => !profiling.completedStages.includes(id));
+
+  return {
+    currentStage: profiling.currentStage
+      ? toProgressStage(profiling.currentStage)
+      : next ? toProgressStage(next) : 'complete',
+    inProgress: profiling.currentStage !== null,
+    stagesCompleted: profiling.completedStages.map(toProgressStage),
+    interactionCount: profiling.interactionCount,
+    totalConfidence: profiling.totalConfidence,
+    lastStageCompletedAt: profiling.lastStageCompletedAt
+  };
+}
+
+/**
+ * Profiling state from stage record columns
+ */
+export function fromProgressColumns(row: ProfilingProgressRow): ProfilingState {
+  return {
+    completedStages: row.stagesCompleted
+      .map(fromProgressStage)
+      .filter((id): id is StageId => id !== null),
+    currentStage: row.inProgress ? fromProgressStage(row.currentStage) : null,
+    interactionCount: row.interactionCount,
+    lastStageCompletedAt: row.lastStageCompletedAt,
+    totalConfidence: row.totalConfidence
+  };
+}
+
+/**
+ * Create a Prisma-backed orchestrator store
+ */
+export function createPrismaOrchestratorStore(
+  client: typeof defaultClient = defaultClient
+): OrchestratorStore {
+  return {
+    async load(userId: string): Promise<OrchestratorSnapshot | null> {
+      const row = await client.profilingProgress.findUnique({
+        where: { userId }
+      }) as ProfilingProgressRow | null;
+
+      if (!row) {
+        return null;
+      }
+
+      const profiling = serializeProfilingState(fromProgressColumns(row));
+      const session = row.session as OrchestratorSnapshot | null;
+
+      if (session && session.version === ORCHESTRATOR_SNAPSHOT_VERSION) {
+        return { ...session, profiling };
+      }
+
+      // Stage record only (e.g. quizzes submitted through the v2 API)
+      return {
+        version: ORCHESTRATOR_SNAPSHOT_VERSION,
+        userId,
+        savedAt: new Date().toISOString(),
+        profiling,
+        genome: null,
+        pendingSignals: [],
+        activeAssessment: null,
+        driftHistory: [],
+        lastDriftAt: null,
+        driftConfig: {}
+      };
+    },
+
+    async save(snapshot: OrchestratorSnapshot): Promise<void> {
+      const columns = toProgressColumns(deserializeProfilingState(snapshot.profiling));
+      const session = JSON.parse(JSON.stringify(snapshot));
+
+      await client.profilingProgress.upsert({
+        where: { userId: snapshot.userId },
+        create: { userId: snapshot.userId, ...columns, session },
+        update: { ...columns, session }
+      });
+    },
+
+    async delete(userId: string): Promise<void> {
+      await client.profilingProgress.deleteMany({
+        where: { userId }
+      });
+    }
+  };
+}
+
+export const orchestratorStore = createPrismaOrchestratorStore();
+
+/**
+ * Record a completed stage for a user
+ * Used when a stage is finished outside an orchestrator session, e.g. a quiz
+ * submitted through the v2 API. A matching in-progress session is closed.
+ * A re-assessment only moves lastStageCompletedAt.
+ */
+export async function recordStageCompleted(
+  userId: string,
+  stageId: StageId,
+  signalCount: number,
+  client: typeof defaultClient = defaultClient
+): Promise<void> {
+  const row = await client.profilingProgress.findUnique({
+    where: { userId }
+  }) as ProfilingProgressRow | null;
+
+  const profiling = row ? fromProgressColumns(row) : createProfilingState();
+  const updated = stageId === REASSESSMENT_STAGE_ID
+    ? completeReassessment(profiling)
+    : profiling.completedStages.includes(stageId)
+      ? profiling
+      : completeStage(profiling, stageId);
+
+  const session = row?.session as OrchestratorSnapshot | null | undefined;
+  const closedSession = session && session.profiling.currentStage === stageId
+    ? { ...session, activeAssessment: null }
+    : session;
+
+  const data = {
+    ...toProgressColumns(updated),
+    signalCount,
+    ...(closedSession && { session: JSON.parse(JSON.stringify(closedSession)) })
+  };
+
+  await client.profilingProgress.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data
+  });
+}
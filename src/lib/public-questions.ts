@@ -0,0 +1,68 @@
+/**
+ * Public Questions
+ *
+ * Display form of profiler questions for API responses.
+ * Archetype weights never leave the server.
+ */
+
+import type {
+  Question,
+  BinaryQuestion,
+  LikertQuestion,
+  RankingQuestion,
+  ComparisonQuestion,
+  MaxDiffQuestion,
+  StimulusQuestion
+} from '@subtaste/profiler';
+
+/**
+ * Question fields a client needs to present and answer it
+ */
+export function toPublicQuestion(question: Question) {
+  const base = {
+    id: question.id,
+    type: question.type,
+    prompt: question.prompt,
+    category: question.category
+  };
+
+  switch (question.type) {
+    case 'binary':
+      return { ...base, options: (question as BinaryQuestion).options };
+
+    case 'likert': {
+      const likert = question as LikertQuestion;
+      return {
+        ...base,
+        scale: likert.scale,
+        lowLabel: likert.lowLabel,
+        highLabel: likert.highLabel
+      };
+    }
+
+    case 'comparison': {
+      const comparison = question as ComparisonQuestion;
+      return { ...base, items: comparison.items, pairs: comparison.pairs };
+    }
+
+    case 'maxdiff': {
+      const maxdiff = question as MaxDiffQuestion;
+      return { ...base, items: maxdiff.items, sets: maxdiff.sets };
+    }
+
+    case 'stimulus':
+      return {
+        ...base,
+        stimuli: (question as StimulusQuestion).stimuli.map(({ id, label, media, url, durationMs }) => ({
+          id,
+          label,
+          media,
+          url,
+          ...(durationMs !== undefined && { durationMs })
+        }))
+      };
+
+    default:
+      return { ...base, items: (question as RankingQuestion).items };
+  }
+}
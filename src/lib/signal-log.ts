@@ -0,0 +1,147 @@
+/**
+ * Signal Log
+ *
+ * Append-only SignalHistory persistence. Every accepted signal is stored
+ * once per idempotency key, and genomes can be rebuilt from the log.
+ */
+
+import { prisma as defaultClient } from './prisma';
+import type { Signal, SignalEvent } from '@subtaste/core';
+import {
+  getSignalKey,
+  getSignalWeighting,
+  DEFAULT_SCORING_CONFIG
+} from '@subtaste/core';
+
+/**
+ * Client the log is written through; pass a transaction client to log as
+ * part of a larger write
+ */
+type SignalLogClient = Pick<typeof defaultClient, 'signalHistory'>;
+
+/**
+ * Log signals and return the ones that still need applying to the genome
+ *
+ * Already-logged signals are skipped unless an earlier attempt failed
+ * before marking them processed.
+ */
+export async function recordSignals(
+  userId: string,
+  signals: Signal[],
+  processed = false,
+  client: SignalLogClient = defaultClient
+): Promise<Signal[]> {
+  const batch = new Map<string, Signal>();
+  for (const signal of signals) {
+    const key = getSignalKey(signal);
+    if (!batch.has(key)) batch.set(key, signal);
+  }
+
+  if (batch.size === 0) {
+    return [];
+  }
+
+  const existing: Array<{ idempotencyKey: string; processed: boolean }> =
+    await client.signalHistory.findMany({
+      where: { userId, idempotencyKey: { in: Array.from(batch.keys()) } },
+      select: { idempotencyKey: true, processed: true }
+    });
+  const logged = new Map(existing.map(row => [row.idempotencyKey, row.processed]));
+
+  const fresh = Array.from(batch.entries()).filter(([key]) => !logged.has(key));
+
+  if (fresh.length > 0) {
+    await client.signalHistory.createMany({
+      data: fresh.map(([key, signal]) => toSignalRow(userId, key, signal, processed)),
+      skipDuplicates: true
+    });
+  }
+
+  return Array.from(batch.entries())
+    .filter(([key]) => logged.get(key) !== true)
+    .map(([, signal]) => signal);
+}
+
+/**
+ * Mark signals as folded into the genome
+ */
+export async function markSignalsProcessed(
+  userId: string,
+  signals: Signal[],
+  client: SignalLogClient = defaultClient
+): Promise<void> {
+  if (signals.length === 0) {
+    return;
+  }
+
+  await client.signalHistory.updateMany({
+    where: { userId, idempotencyKey: { in: signals.map(getSignalKey) } },
+    data: { processed: true }
+  });
+}
+
+/**
+ * Load a user's signal log in the order signals occurred
+ * Pass `latest` to load only that many of the most recent signals.
+ */
+export async function loadSignals(userId: string, latest?: number): Promise<Signal[]> {
+  const order = latest === undefined ? 'asc' : 'desc';
+  const rows: Array<{ idempotencyKey: string; signalData: unknown }> =
+    await defaultClient.signalHistory.findMany({
+      where: { userId },
+      orderBy: [{ occurredAt: order }, { createdAt: order }],
+      select: { idempotencyKey: true, signalData: true },
+      ...(latest !== undefined && { take: latest })
+    });
+
+  if (latest !== undefined) {
+    rows.reverse();
+  }
+
+  return rows.map(row => {
+    const data = row.signalData as Omit<Signal, 'timestamp'> & { timestamp: string };
+    return {
+      ...data,
+      timestamp: new Date(data.timestamp),
+      idempotencyKey: row.idempotencyKey
+    };
+  });
+}
+
+/**
+ * Strip storage fields from signal events kept on older genomes
+ */
+export function toSignals(events: SignalEvent[]): Signal[] {
+  return events.map(({ type, source, timestamp, data, idempotencyKey, context }) => ({
+    type,
+    source,
+    timestamp: new Date(timestamp),
+    data,
+    ...(idempotencyKey && { idempotencyKey }),
+    ...(context && { context })
+  }));
+}
+
+/**
+ * Convert a signal to a SignalHistory row
+ */
+function toSignalRow(userId: string, key: string, signal: Signal, processed: boolean) {
+  const timestamp = new Date(signal.timestamp);
+
+  return {
+    userId,
+    idempotencyKey: key,
+    signalType: signal.type,
+    source: signal.source,
+    signalData: {
+      type: signal.type,
+      source: signal.source,
+      timestamp: timestamp.toISOString(),
+      data: signal.data,
+      ...(signal.context && { context: signal.context })
+    },
+    weight: getSignalWeighting(signal, DEFAULT_SCORING_CONFIG).weight,
+    processed,
+    occurredAt: timestamp
+  };
+}